@@ -40,9 +40,23 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         bool revealed;              // whether replier flipped reveal
     }
 
+    struct PostRevision {
+        bytes32 contentHash;        // Hash of the edited plaintext content
+        bytes32 previewHash;        // Hash of the edited preview
+        uint64 editedAt;            // block timestamp of the edit
+    }
+
+    struct StrandedTip {
+        uint128 amount; // ETH this tipper paid while the author had no address mapping
+        uint64 lastTippedAt; // block timestamp of their latest stranded tip; the refund delay runs from here
+        uint32 round; // claim round the amount belongs to; stale once the author claims that round
+    }
+
     // storage
     mapping(uint64 => Post) public posts;
     mapping(uint64 => mapping(uint64 => Reply)) public replies; // postId => replyId => reply
+    mapping(uint64 => PostRevision[]) private postRevisions; // postId => edits, oldest first (the original lives in posts)
+    mapping(uint64 => bool) public postDeleted; // postId => soft-deleted by its author
     mapping(uint64 => mapping(address => uint128)) public postTipContrib; // postId => tipperAddress => amount (plain for efficiency)
     mapping(uint64 => mapping(uint64 => mapping(address => uint128))) public replyTipContrib; // postId => replyId => tipperAddress => amount (plain for efficiency)
 
@@ -61,6 +75,27 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
 
     // access control for encrypted content (plain post ID => encrypted address => access)
     mapping(uint64 => mapping(eaddress => bool)) public hasAccess;
+    // access control for tippable replies (post ID => reply ID => encrypted address => access)
+    mapping(uint64 => mapping(uint64 => mapping(eaddress => bool))) public hasReplyAccess;
+
+    // creator subscriptions (monthly, paid in ETH)
+    uint64 public constant SUBSCRIPTION_PERIOD = 30 days;
+    uint8 public constant MAX_SUBSCRIPTION_MONTHS = 12;
+    mapping(address => uint128) public subscriptionPrice; // creator => price per period (in wei), 0 = disabled
+    mapping(address => mapping(address => uint64)) public subscriptionExpiry; // creator => subscriber => expiry timestamp
+
+    // tips paid while the author's encrypted id resolved to address(0), held until the author claims them
+    // or, after the refund delay, the tipper takes them back
+    uint64 public constant STRANDED_TIP_REFUND_DELAY = 30 days;
+    mapping(uint64 => uint128) public strandedPostTips; // postId => unassigned ETH
+    mapping(uint64 => mapping(uint64 => uint128)) public strandedReplyTips; // postId => replyId => unassigned ETH
+    mapping(uint64 => uint32) private strandedPostRound; // postId => bumped on each author claim
+    // postId => replyId => bumped on each author claim
+    mapping(uint64 => mapping(uint64 => uint32)) private strandedReplyRound;
+    // postId => tipper => stranded tip
+    mapping(uint64 => mapping(address => StrandedTip)) private strandedPostTipsByTipper;
+    // postId => replyId => tipper => stranded tip
+    mapping(uint64 => mapping(uint64 => mapping(address => StrandedTip))) private strandedReplyTipsByTipper;
 
 
     // events
@@ -70,7 +105,18 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
     event TipAddedToReply(uint64 indexed postId, uint64 indexed replyId, eaddress indexed tipper, uint128 amount);
     event Claim(address indexed creator, uint128 amount, uint128 fee, uint128 actualPayout, uint128 actualFee);
     event ContentUnlocked(uint64 indexed postId, eaddress indexed user, uint128 tipAmount);
+    event ReplyUnlocked(uint64 indexed postId, uint64 indexed replyId, eaddress indexed user, uint128 tipAmount);
     event UserRegistered(address indexed user, euint128 encryptedId);
+    event PostAuthorRevealed(uint64 indexed postId, address indexed author);
+    event PostEdited(uint64 indexed postId, uint32 indexed revision, bytes32 contentHash, bytes32 previewHash);
+    event PostDeleted(uint64 indexed postId);
+    event PostVisibilityUpdated(uint64 indexed postId, euint128 visibility, uint128 minTipAmount);
+    event ReplyAuthorRevealed(uint64 indexed postId, uint64 indexed replyId, address indexed replier);
+    event SubscriptionPriceUpdated(address indexed creator, uint128 price);
+    event Subscribed(address indexed creator, eaddress indexed subscriber, uint64 expiresAt, uint128 amount);
+    event TipStranded(uint64 indexed postId, uint64 indexed replyId, uint128 amount); // replyId 0 = the post itself
+    event StrandedTipsClaimed(uint64 indexed postId, uint64 indexed replyId, address indexed author, uint128 amount);
+    event StrandedTipRefunded(uint64 indexed postId, uint64 indexed replyId, address indexed tipper, uint128 amount);
     event ContractPaused(address indexed admin);
     event ContractUnpaused(address indexed admin);
 
@@ -97,6 +143,9 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         require(isUserRegistered[msg.sender], "User not registered");
         
         eaddress encryptedAddr = FHE.fromExternal(encryptedAddress, addressProof);
+        // Existing posts and replies carry the previous handle, so re-link it as well; this is what lets
+        // an author claim tips that were stranded while the lookup failed
+        encryptedToRealAddress[userEncryptedAddresses[msg.sender]] = msg.sender;
         userEncryptedAddresses[msg.sender] = encryptedAddr;
         encryptedToRealAddress[encryptedAddr] = msg.sender; // Re-establish mapping for ETH balance tracking
         
@@ -161,6 +210,80 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         emit ReplyCreated(postId, replyId, userEncryptedAddresses[msg.sender], FHE.fromExternal(encryptedVisibility, visibilityProof));
     }
 
+    // --- Post Editing ---
+    // The original hashes in posts[postId] never change; each edit appends a revision so the
+    // full history can be checked against what was anchored at createPost
+    function editPost(uint64 postId, bytes32 contentHash, bytes32 previewHash) external whenNotPaused {
+        Post storage p = posts[postId];
+        require(p.contentHash != bytes32(0), "Post does not exist");
+        require(encryptedToRealAddress[p.authorId] == msg.sender, "Only the author can edit");
+        require(!postDeleted[postId], "Post deleted");
+        require(contentHash != bytes32(0), "Content hash required");
+
+        postRevisions[postId].push(PostRevision({
+            contentHash: contentHash,
+            previewHash: previewHash,
+            editedAt: uint64(block.timestamp)
+        }));
+
+        emit PostEdited(postId, uint32(postRevisions[postId].length), contentHash, previewHash);
+    }
+
+    // Soft delete: the post and its history stay on-chain but it can no longer be tipped or edited
+    function deletePost(uint64 postId) external whenNotPaused {
+        Post storage p = posts[postId];
+        require(p.contentHash != bytes32(0), "Post does not exist");
+        require(encryptedToRealAddress[p.authorId] == msg.sender, "Only the author can delete");
+        require(!postDeleted[postId], "Post deleted");
+
+        postDeleted[postId] = true;
+
+        emit PostDeleted(postId);
+    }
+
+    // --- Visibility Updates ---
+    // Unlocks live in hasAccess, so locking, unlocking or repricing a post never revokes them
+    function updatePostVisibility(
+        uint64 postId,
+        externalEuint128 encryptedVisibility,
+        bytes calldata visibilityProof,
+        uint128 minTipAmount
+    ) external whenNotPaused {
+        Post storage p = posts[postId];
+        require(p.contentHash != bytes32(0), "Post does not exist");
+        require(encryptedToRealAddress[p.authorId] == msg.sender, "Only the author can change visibility");
+        require(!postDeleted[postId], "Post deleted");
+
+        p.visibility = FHE.fromExternal(encryptedVisibility, visibilityProof);
+        p.minTipAmount = minTipAmount;
+
+        emit PostVisibilityUpdated(postId, p.visibility, minTipAmount);
+    }
+
+    // --- Author Reveal ---
+    // Revealing is one-way: it publishes the author's wallet address for that post or reply
+    function revealPostAuthor(uint64 postId) external whenNotPaused {
+        Post storage p = posts[postId];
+        require(p.contentHash != bytes32(0), "Post does not exist");
+        require(encryptedToRealAddress[p.authorId] == msg.sender, "Only the author can reveal");
+        require(!p.revealed, "Already revealed");
+
+        p.revealed = true;
+
+        emit PostAuthorRevealed(postId, msg.sender);
+    }
+
+    function revealReplyAuthor(uint64 postId, uint64 replyId) external whenNotPaused {
+        Reply storage r = replies[postId][replyId];
+        require(r.contentHash != bytes32(0), "Reply does not exist");
+        require(encryptedToRealAddress[r.replierId] == msg.sender, "Only the author can reveal");
+        require(!r.revealed, "Already revealed");
+
+        r.revealed = true;
+
+        emit ReplyAuthorRevealed(postId, replyId, msg.sender);
+    }
+
     // SIMPLE TIPPING (post and reply) - ETH NATIVE ---
     function tipPost(uint64 postId) external payable nonReentrant whenNotPaused {
         require(msg.value > 0, "No zero tips");
@@ -171,6 +294,7 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         
         // Check if post exists by verifying contentHash is not empty
         require(p.contentHash != bytes32(0), "Post does not exist");
+        require(!postDeleted[postId], "Post deleted");
         
         // SIMPLE TIPPING: Just store the tip amount (no FHE operations)
         postTipContrib[postId][msg.sender] += uint128(msg.value);
@@ -180,9 +304,10 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         address creatorAddress = encryptedToRealAddress[p.authorId];
         if (creatorAddress != address(0)) {
             balances[creatorAddress] += uint128(msg.value);
+        } else {
+            // Held as stranded rather than lost; see claimStrandedPostTips / refundStrandedPostTip
+            _strandPostTip(postId, uint128(msg.value));
         }
-        // If creatorAddress is address(0), the tip is still recorded
-        // This prevents transaction reverts while maintaining tip tracking
         
         emit TipAddedToPost(postId, userEncryptedAddresses[msg.sender], uint128(msg.value));
     }
@@ -205,9 +330,10 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         address replierAddress = encryptedToRealAddress[r.replierId];
         if (replierAddress != address(0)) {
             balances[replierAddress] += uint128(msg.value);
+        } else {
+            // Held as stranded rather than lost; see claimStrandedReplyTips / refundStrandedReplyTip
+            _strandReplyTip(postId, replyId, uint128(msg.value));
         }
-        // If replierAddress is address(0), the tip is still recorded
-        // This prevents transaction reverts while maintaining tip tracking
         
         emit TipAddedToReply(postId, replyId, userEncryptedAddresses[msg.sender], uint128(msg.value));
     }
@@ -222,6 +348,7 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         
         // Check if post exists by verifying contentHash is not empty
         require(p.contentHash != bytes32(0), "Post does not exist");
+        require(!postDeleted[postId], "Post deleted");
         
         require(msg.value >= p.minTipAmount, "Tip amount below minimum required");
         
@@ -237,14 +364,176 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         address creatorAddress = encryptedToRealAddress[p.authorId];
         if (creatorAddress != address(0)) {
             balances[creatorAddress] += uint128(msg.value);
+        } else {
+            // Held as stranded rather than lost; see claimStrandedPostTips / refundStrandedPostTip
+            _strandPostTip(postId, uint128(msg.value));
         }
-        // If creatorAddress is address(0), the tip is still recorded
-        // This prevents transaction reverts while maintaining tip tracking
         
         emit ContentUnlocked(postId, userEncryptedAddresses[msg.sender], uint128(msg.value));
         emit TipAddedToPost(postId, userEncryptedAddresses[msg.sender], uint128(msg.value));
     }
 
+    // Content Unlocking for Tippable Replies - ETH NATIVE ---
+    function unlockTippableReply(uint64 postId, uint64 replyId) external payable nonReentrant whenNotPaused {
+        require(msg.value > 0, "No zero tips");
+        require(msg.value <= type(uint128).max, "Tip amount too large");
+        require(isUserRegistered[msg.sender], "User not registered");
+        
+        Reply storage r = replies[postId][replyId];
+        
+        // Check if reply exists by verifying contentHash is not empty
+        require(r.contentHash != bytes32(0), "Reply does not exist");
+        
+        require(msg.value >= r.minTipAmount, "Tip amount below minimum required");
+        
+        // Grant access to the user (tipper identity stays private via encrypted address)
+        eaddress tipperId = userEncryptedAddresses[msg.sender];
+        hasReplyAccess[postId][replyId][tipperId] = true;
+        
+        replyTipContrib[postId][replyId][msg.sender] += uint128(msg.value);
+        
+        // Update replier's ETH balance (plain for easier claiming)
+        address replierAddress = encryptedToRealAddress[r.replierId];
+        if (replierAddress != address(0)) {
+            balances[replierAddress] += uint128(msg.value);
+        } else {
+            _strandReplyTip(postId, replyId, uint128(msg.value));
+        }
+        
+        emit ReplyUnlocked(postId, replyId, userEncryptedAddresses[msg.sender], uint128(msg.value));
+        emit TipAddedToReply(postId, replyId, userEncryptedAddresses[msg.sender], uint128(msg.value));
+    }
+
+    // --- Stranded tips ---
+    // Tips paid while an author's encrypted id had no address mapping are kept per post/reply instead of
+    // being credited to nobody. Once recoverEncryptedAddressMapping re-links the id the author can move
+    // them into their balance; until they do, each tipper may take their own share back after the delay
+    function claimStrandedPostTips(uint64 postId) external nonReentrant whenNotPaused {
+        require(encryptedToRealAddress[posts[postId].authorId] == msg.sender, "Only the author can claim");
+        uint128 amount = strandedPostTips[postId];
+        require(amount > 0, "No stranded tips");
+
+        strandedPostTips[postId] = 0;
+        strandedPostRound[postId]++;
+        balances[msg.sender] += amount;
+
+        emit StrandedTipsClaimed(postId, 0, msg.sender, amount);
+    }
+
+    function claimStrandedReplyTips(uint64 postId, uint64 replyId) external nonReentrant whenNotPaused {
+        require(encryptedToRealAddress[replies[postId][replyId].replierId] == msg.sender, "Only the author can claim");
+        uint128 amount = strandedReplyTips[postId][replyId];
+        require(amount > 0, "No stranded tips");
+
+        strandedReplyTips[postId][replyId] = 0;
+        strandedReplyRound[postId][replyId]++;
+        balances[msg.sender] += amount;
+
+        emit StrandedTipsClaimed(postId, replyId, msg.sender, amount);
+    }
+
+    // A refund also withdraws the tipper's contribution, and with it any unlock that contribution paid for
+    function refundStrandedPostTip(uint64 postId) external nonReentrant whenNotPaused {
+        StrandedTip storage tip = strandedPostTipsByTipper[postId][msg.sender];
+        uint128 amount = _takeStrandedTip(tip, strandedPostRound[postId]);
+
+        strandedPostTips[postId] -= amount;
+        postTipContrib[postId][msg.sender] -= amount;
+        if (postTipContrib[postId][msg.sender] < posts[postId].minTipAmount) {
+            hasAccess[postId][userEncryptedAddresses[msg.sender]] = false;
+        }
+
+        payable(msg.sender).transfer(amount);
+
+        emit StrandedTipRefunded(postId, 0, msg.sender, amount);
+    }
+
+    function refundStrandedReplyTip(uint64 postId, uint64 replyId) external nonReentrant whenNotPaused {
+        StrandedTip storage tip = strandedReplyTipsByTipper[postId][replyId][msg.sender];
+        uint128 amount = _takeStrandedTip(tip, strandedReplyRound[postId][replyId]);
+
+        strandedReplyTips[postId][replyId] -= amount;
+        replyTipContrib[postId][replyId][msg.sender] -= amount;
+        if (replyTipContrib[postId][replyId][msg.sender] < replies[postId][replyId].minTipAmount) {
+            hasReplyAccess[postId][replyId][userEncryptedAddresses[msg.sender]] = false;
+        }
+
+        payable(msg.sender).transfer(amount);
+
+        emit StrandedTipRefunded(postId, replyId, msg.sender, amount);
+    }
+
+    function _strandPostTip(uint64 postId, uint128 amount) private {
+        strandedPostTips[postId] += amount;
+        _recordStrandedTip(strandedPostTipsByTipper[postId][msg.sender], strandedPostRound[postId], amount);
+
+        emit TipStranded(postId, 0, amount);
+    }
+
+    function _strandReplyTip(uint64 postId, uint64 replyId, uint128 amount) private {
+        strandedReplyTips[postId][replyId] += amount;
+        _recordStrandedTip(
+            strandedReplyTipsByTipper[postId][replyId][msg.sender],
+            strandedReplyRound[postId][replyId],
+            amount
+        );
+
+        emit TipStranded(postId, replyId, amount);
+    }
+
+    // Amounts left over from a round the author already claimed are dropped before adding the new tip
+    function _recordStrandedTip(StrandedTip storage tip, uint32 round, uint128 amount) private {
+        if (tip.round != round) {
+            tip.amount = 0;
+            tip.round = round;
+        }
+        tip.amount += amount;
+        tip.lastTippedAt = uint64(block.timestamp);
+    }
+
+    function _takeStrandedTip(StrandedTip storage tip, uint32 round) private returns (uint128 amount) {
+        require(tip.amount > 0 && tip.round == round, "No stranded tip to refund");
+        require(block.timestamp >= tip.lastTippedAt + STRANDED_TIP_REFUND_DELAY, "Refund delay not over");
+
+        amount = tip.amount;
+        tip.amount = 0;
+    }
+
+    // --- Creator Subscriptions - ETH NATIVE ---
+    function setSubscriptionPrice(uint128 price) external whenNotPaused {
+        require(isUserRegistered[msg.sender], "User not registered");
+
+        subscriptionPrice[msg.sender] = price;
+
+        emit SubscriptionPriceUpdated(msg.sender, price);
+    }
+
+    // Subscribing again before expiry renews: new periods are added on top of the remaining time
+    function subscribe(address creator, uint8 months) external payable nonReentrant whenNotPaused {
+        require(isUserRegistered[msg.sender], "User not registered");
+        require(isUserRegistered[creator], "Creator not registered");
+        require(creator != msg.sender, "Cannot subscribe to yourself");
+        require(months > 0 && months <= MAX_SUBSCRIPTION_MONTHS, "Invalid subscription length");
+
+        uint128 price = subscriptionPrice[creator];
+        require(price > 0, "Subscriptions not enabled");
+        require(msg.value <= type(uint128).max, "Payment too large");
+        require(msg.value == uint256(price) * months, "Incorrect subscription payment");
+
+        uint64 currentExpiry = subscriptionExpiry[creator][msg.sender];
+        uint64 start = currentExpiry > block.timestamp ? currentExpiry : uint64(block.timestamp);
+        uint64 expiresAt = start + SUBSCRIPTION_PERIOD * months;
+        subscriptionExpiry[creator][msg.sender] = expiresAt;
+
+        balances[creator] += uint128(msg.value);
+
+        emit Subscribed(creator, userEncryptedAddresses[msg.sender], expiresAt, uint128(msg.value));
+    }
+
+    function isSubscribed(address creator, address subscriber) public view returns (bool) {
+        return subscriptionExpiry[creator][subscriber] > block.timestamp;
+    }
+
     // --- Claim earnings (creator triggers) ---
     function claimEarnings(uint128 tokenAmount) external nonReentrant whenNotPaused {
         require(isUserRegistered[msg.sender], "User not registered");
@@ -312,6 +601,115 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         // Note: We can't return the actual encrypted address as it's private
         return isUserRegistered[user];
     }
+    /**
+     * Whether a wallet wrote a post, resolved through the post's encrypted author id
+     * Used by the off-chain key-release service so authorship never rests on client-written rows
+     * @param postId The post ID
+     * @param user The wallet address to check
+     * @return True if the post's author id maps to the wallet
+     */
+    function isPostAuthor(uint64 postId, address user) external view returns (bool) {
+        return user != address(0) && encryptedToRealAddress[posts[postId].authorId] == user;
+    }
+
+    /**
+     * Whether a wallet wrote a reply, resolved through the reply's encrypted replier id
+     * @param postId The post the reply belongs to
+     * @param replyId The reply ID
+     * @param user The wallet address to check
+     * @return True if the reply's replier id maps to the wallet
+     */
+    function isReplyAuthor(uint64 postId, uint64 replyId, address user) external view returns (bool) {
+        return user != address(0) && encryptedToRealAddress[replies[postId][replyId].replierId] == user;
+    }
+
+    /**
+     * Whether a wallet may read a tippable post, either by unlocking it via
+     * unlockTippableContent or through an active subscription to its author
+     * Used by the off-chain key-release service before handing out content keys
+     * @param postId The post ID
+     * @param user The wallet address to check
+     * @return True if the user holds access to the post
+     */
+    function hasUnlocked(uint64 postId, address user) external view returns (bool) {
+        if (!isUserRegistered[user]) {
+            return false;
+        }
+        if (hasAccess[postId][userEncryptedAddresses[user]]) {
+            return true;
+        }
+        address creatorAddress = encryptedToRealAddress[posts[postId].authorId];
+        return creatorAddress != address(0) && isSubscribed(creatorAddress, user);
+    }
+
+    /**
+     * @notice Check whether a wallet has unlocked a tippable reply, either directly via
+     * unlockTippableReply or through an active subscription to the replier
+     * Used by the off-chain key-release service before handing out reply content keys
+     * @param postId The post the reply belongs to
+     * @param replyId The reply ID
+     * @param user The wallet address to check
+     * @return True if the user holds access to the reply
+     */
+    function hasUnlockedReply(uint64 postId, uint64 replyId, address user) external view returns (bool) {
+        if (!isUserRegistered[user]) {
+            return false;
+        }
+        if (hasReplyAccess[postId][replyId][userEncryptedAddresses[user]]) {
+            return true;
+        }
+        address replierAddress = encryptedToRealAddress[replies[postId][replyId].replierId];
+        return replierAddress != address(0) && isSubscribed(replierAddress, user);
+    }
+
+    /**
+     * @notice Get the number of revisions of a post, counting the original as revision 0
+     * @param postId The post ID
+     * @return The revision count (1 for a post that was never edited)
+     */
+    function getPostRevisionCount(uint64 postId) external view returns (uint256) {
+        return postRevisions[postId].length + 1;
+    }
+
+    /**
+     * @notice Get the hashes anchored for one revision of a post
+     * @param postId The post ID
+     * @param revision 0 for the original post, n for the n-th edit
+     * @return contentHash Hash of the revision's plaintext content
+     * @return previewHash Hash of the revision's preview
+     * @return editedAt Timestamp of the edit, 0 for the original
+     */
+    function getPostRevision(uint64 postId, uint256 revision) external view returns (bytes32 contentHash, bytes32 previewHash, uint64 editedAt) {
+        if (revision == 0) {
+            Post storage p = posts[postId];
+            return (p.contentHash, p.previewHash, 0);
+        }
+        require(revision <= postRevisions[postId].length, "Revision does not exist");
+        PostRevision storage r = postRevisions[postId][revision - 1];
+        return (r.contentHash, r.previewHash, r.editedAt);
+    }
+
+    /**
+     * @notice Get the author of a post whose author chose to reveal themselves
+     * @param postId The post ID
+     * @return The author's wallet address, or address(0) while the post is anonymous
+     */
+    function getRevealedPostAuthor(uint64 postId) external view returns (address) {
+        Post storage p = posts[postId];
+        return p.revealed ? encryptedToRealAddress[p.authorId] : address(0);
+    }
+
+    /**
+     * @notice Get the author of a reply whose author chose to reveal themselves
+     * @param postId The post the reply belongs to
+     * @param replyId The reply ID
+     * @return The replier's wallet address, or address(0) while the reply is anonymous
+     */
+    function getRevealedReplyAuthor(uint64 postId, uint64 replyId) external view returns (address) {
+        Reply storage r = replies[postId][replyId];
+        return r.revealed ? encryptedToRealAddress[r.replierId] : address(0);
+    }
+
     // Note: This function returns encrypted boolean which is not directly usable
     // Frontend should use events to track access instead
     // function hasUserAccess(euint128 postId, eaddress encryptedUserId) external view returns (bool) {
@@ -353,6 +751,67 @@ contract Ventbuddy is Ownable, ReentrancyGuard, Pausable, SepoliaConfig {
         return replyTipContrib[postId][replyId][tipper];
     }
 
+    /**
+     * Whether tips to a post currently reach its author's balance
+     * False means new tips would be held as stranded until the author re-links their encrypted id
+     * @param postId The post ID
+     * @return True if the post's encrypted author id resolves to an address
+     */
+    function isPostAuthorMapped(uint64 postId) external view returns (bool) {
+        return encryptedToRealAddress[posts[postId].authorId] != address(0);
+    }
+
+    /**
+     * Whether tips to a reply currently reach its author's balance
+     * @param postId The post ID
+     * @param replyId The reply ID
+     * @return True if the reply's encrypted author id resolves to an address
+     */
+    function isReplyAuthorMapped(uint64 postId, uint64 replyId) external view returns (bool) {
+        return encryptedToRealAddress[replies[postId][replyId].replierId] != address(0);
+    }
+
+    /**
+     * Get a tipper's refundable stranded tip on a post
+     * @param postId The post ID
+     * @param tipper The tipper's address
+     * @return amount The stranded amount still owed to the tipper, 0 once refunded or claimed by the author
+     * @return refundableAt Timestamp from which refundStrandedPostTip accepts the refund
+     */
+    function getStrandedPostTip(
+        uint64 postId,
+        address tipper
+    ) external view returns (uint128 amount, uint64 refundableAt) {
+        return _strandedTipView(strandedPostTipsByTipper[postId][tipper], strandedPostRound[postId]);
+    }
+
+    /**
+     * Get a tipper's refundable stranded tip on a reply
+     * @param postId The post ID
+     * @param replyId The reply ID
+     * @param tipper The tipper's address
+     * @return amount The stranded amount still owed to the tipper, 0 once refunded or claimed by the author
+     * @return refundableAt Timestamp from which refundStrandedReplyTip accepts the refund
+     */
+    function getStrandedReplyTip(
+        uint64 postId,
+        uint64 replyId,
+        address tipper
+    ) external view returns (uint128 amount, uint64 refundableAt) {
+        return
+            _strandedTipView(strandedReplyTipsByTipper[postId][replyId][tipper], strandedReplyRound[postId][replyId]);
+    }
+
+    function _strandedTipView(
+        StrandedTip storage tip,
+        uint32 round
+    ) private view returns (uint128 amount, uint64 refundableAt) {
+        if (tip.amount == 0 || tip.round != round) {
+            return (0, 0);
+        }
+        return (tip.amount, tip.lastTippedAt + STRANDED_TIP_REFUND_DELAY);
+    }
+
     // fallback to accept direct funds
     receive() external payable {}
 }
@@ -0,0 +1,618 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { Ventbuddy, Ventbuddy__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  feeRecipient: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const FEE_BASIS_POINTS = 500n; // 5%
+const VISIBILITY_PUBLIC = 0;
+const VISIBILITY_TIPPABLE = 1;
+const REFUND_DELAY = 30n * 24n * 60n * 60n;
+
+async function deployFixture(feeRecipient: string) {
+  const factory = (await ethers.getContractFactory("Ventbuddy")) as Ventbuddy__factory;
+  const contract = (await factory.deploy(feeRecipient, FEE_BASIS_POINTS)) as Ventbuddy;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+describe("Ventbuddy", function () {
+  let signers: Signers;
+  let contract: Ventbuddy;
+  let contractAddress: string;
+
+  before(async function () {
+    const [owner, feeRecipient, alice, bob, carol] = await ethers.getSigners();
+    signers = { owner, feeRecipient, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    // The suite relies on the mock coprocessor to build encrypted inputs locally
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in FHEVM mock mode");
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture(signers.feeRecipient.address));
+  });
+
+  // Clears the encryptedToRealAddress entry for an eaddress handle so the lookup returns address(0).
+  // The mapping is private, so its slot is found by scanning for the entry that holds the owner's address
+  async function unmapAuthor(handle: string, owner: string) {
+    const ownerWord = ethers.zeroPadValue(owner, 32).toLowerCase();
+
+    for (let slot = 0; slot < 64; slot++) {
+      const entry = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "uint256"], [handle, slot]));
+      if ((await ethers.provider.getStorage(contractAddress, entry)).toLowerCase() === ownerWord) {
+        await ethers.provider.send("hardhat_setStorageAt", [contractAddress, entry, ethers.ZeroHash]);
+        return;
+      }
+    }
+    expect.fail("no encryptedToRealAddress entry found for the handle");
+  }
+
+  async function register(signer: HardhatEthersSigner) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .addAddress(signer.address)
+      .encrypt();
+    return contract.connect(signer).registerUser(input.handles[0], input.inputProof);
+  }
+
+  async function createPost(signer: HardhatEthersSigner, visibility: number, minTipAmount: bigint = 0n) {
+    const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add128(visibility).encrypt();
+    return contract
+      .connect(signer)
+      .createPost(
+        ethers.id("content"),
+        ethers.id("preview"),
+        "supabase-post-id",
+        input.handles[0],
+        input.inputProof,
+        minTipAmount,
+      );
+  }
+
+  async function replyToPost(
+    signer: HardhatEthersSigner,
+    postId: number,
+    visibility: number,
+    minTipAmount: bigint = 0n,
+  ) {
+    const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add128(visibility).encrypt();
+    return contract
+      .connect(signer)
+      .replyToPost(
+        postId,
+        ethers.id("reply"),
+        ethers.id("reply-preview"),
+        "supabase-reply-id",
+        input.handles[0],
+        input.inputProof,
+        minTipAmount,
+      );
+  }
+
+  describe("registration", function () {
+    it("registers a wallet with its encrypted address", async function () {
+      await expect(register(signers.alice)).to.emit(contract, "UserRegistered");
+
+      expect(await contract.isUserRegisteredCheck(signers.alice.address)).to.eq(true);
+      expect(await contract.isUserRegisteredCheck(signers.bob.address)).to.eq(false);
+    });
+
+    it("rejects a second registration from the same wallet", async function () {
+      await register(signers.alice);
+
+      await expect(register(signers.alice)).to.be.revertedWith("User already registered");
+    });
+  });
+
+  describe("createPost", function () {
+    it("requires a registered author", async function () {
+      await expect(createPost(signers.alice, VISIBILITY_PUBLIC)).to.be.revertedWith("User not registered");
+    });
+
+    it("stores the post with its encrypted visibility", async function () {
+      await register(signers.alice);
+
+      await expect(createPost(signers.alice, VISIBILITY_TIPPABLE, ethers.parseEther("0.01"))).to.emit(
+        contract,
+        "PostCreated",
+      );
+
+      const post = await contract.posts(1);
+      expect(post.contentHash).to.eq(ethers.id("content"));
+      expect(post.supabaseId).to.eq("supabase-post-id");
+      expect(post.minTipAmount).to.eq(ethers.parseEther("0.01"));
+      expect(post.visibility).to.not.eq(ethers.ZeroHash);
+    });
+  });
+
+  describe("authorship", function () {
+    it("resolves post and reply authors on-chain", async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+      await replyToPost(signers.bob, 1, VISIBILITY_PUBLIC);
+
+      expect(await contract.isPostAuthor(1, signers.alice.address)).to.eq(true);
+      expect(await contract.isPostAuthor(1, signers.bob.address)).to.eq(false);
+      expect(await contract.isPostAuthor(2, ethers.ZeroAddress)).to.eq(false);
+      expect(await contract.isReplyAuthor(1, 1, signers.bob.address)).to.eq(true);
+      expect(await contract.isReplyAuthor(1, 1, signers.alice.address)).to.eq(false);
+    });
+  });
+
+  describe("tipping", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+    });
+
+    it("credits the post author and records the tipper's contribution", async function () {
+      const amount = ethers.parseEther("0.02");
+
+      await expect(contract.connect(signers.bob).tipPost(1, { value: amount }))
+        .to.emit(contract, "TipAddedToPost")
+        .withArgs(1, anyValue, amount);
+
+      expect(await contract.getBalance(signers.alice.address)).to.eq(amount);
+      expect(await contract.getPostTipContribution(1, signers.bob.address)).to.eq(amount);
+      expect(await contract.getContractBalance()).to.eq(amount);
+    });
+
+    it("rejects zero tips and tips to missing posts", async function () {
+      await expect(contract.connect(signers.bob).tipPost(1, { value: 0 })).to.be.revertedWith("No zero tips");
+      await expect(contract.connect(signers.bob).tipPost(99, { value: 1n })).to.be.revertedWith("Post does not exist");
+    });
+
+    it("rejects tips from unregistered wallets", async function () {
+      await expect(contract.connect(signers.carol).tipPost(1, { value: 1n })).to.be.revertedWith("User not registered");
+    });
+
+    it("credits the replier when a reply is tipped", async function () {
+      await replyToPost(signers.bob, 1, VISIBILITY_PUBLIC);
+      const amount = ethers.parseEther("0.005");
+
+      await expect(contract.connect(signers.alice).tipReply(1, 1, { value: amount })).to.emit(
+        contract,
+        "TipAddedToReply",
+      );
+
+      expect(await contract.getBalance(signers.bob.address)).to.eq(amount);
+      expect(await contract.getReplyTipContribution(1, 1, signers.alice.address)).to.eq(amount);
+    });
+
+    it("holds a tip to an author whose encrypted id no longer resolves as stranded", async function () {
+      await unmapAuthor((await contract.posts(1)).authorId, signers.alice.address);
+      expect(await contract.isPostAuthorMapped(1)).to.eq(false);
+
+      const amount = ethers.parseEther("0.03");
+      await expect(contract.connect(signers.bob).tipPost(1, { value: amount }))
+        .to.emit(contract, "TipStranded")
+        .withArgs(1, 0, amount);
+
+      expect(await contract.getPostTipContribution(1, signers.bob.address)).to.eq(amount);
+      expect(await contract.getBalance(signers.alice.address)).to.eq(0);
+      expect(await contract.getBalance(ethers.ZeroAddress)).to.eq(0);
+      expect(await contract.strandedPostTips(1)).to.eq(amount);
+      expect(await contract.getContractBalance()).to.eq(amount);
+    });
+  });
+
+  describe("stranded tips", function () {
+    const amount = ethers.parseEther("0.03");
+    let unlockedAt: number;
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_TIPPABLE, amount);
+      await replyToPost(signers.alice, 1, VISIBILITY_PUBLIC);
+      await unmapAuthor((await contract.posts(1)).authorId, signers.alice.address);
+
+      const unlock = await (await contract.connect(signers.bob).unlockTippableContent(1, { value: amount })).wait();
+      unlockedAt = (await unlock!.getBlock()).timestamp;
+      await contract.connect(signers.bob).tipReply(1, 1, { value: amount });
+    });
+
+    async function recoverMapping(signer: HardhatEthersSigner) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .addAddress(signer.address)
+        .encrypt();
+      return contract.connect(signer).recoverEncryptedAddressMapping(input.handles[0], input.inputProof);
+    }
+
+    it("only lets the author claim, and only once the mapping is recovered", async function () {
+      await expect(contract.connect(signers.alice).claimStrandedPostTips(1)).to.be.revertedWith(
+        "Only the author can claim",
+      );
+
+      await recoverMapping(signers.alice);
+      expect(await contract.isPostAuthorMapped(1)).to.eq(true);
+      await expect(contract.connect(signers.bob).claimStrandedPostTips(1)).to.be.revertedWith(
+        "Only the author can claim",
+      );
+
+      await expect(contract.connect(signers.alice).claimStrandedPostTips(1))
+        .to.emit(contract, "StrandedTipsClaimed")
+        .withArgs(1, 0, signers.alice.address, amount);
+      await contract.connect(signers.alice).claimStrandedReplyTips(1, 1);
+
+      expect(await contract.getBalance(signers.alice.address)).to.eq(amount * 2n);
+      expect(await contract.strandedPostTips(1)).to.eq(0);
+      expect(await contract.strandedReplyTips(1, 1)).to.eq(0);
+      await expect(contract.connect(signers.alice).claimStrandedPostTips(1)).to.be.revertedWith("No stranded tips");
+    });
+
+    it("voids the tipper's refund once the author has claimed", async function () {
+      await recoverMapping(signers.alice);
+      await contract.connect(signers.alice).claimStrandedPostTips(1);
+      await time.increase(REFUND_DELAY);
+
+      expect((await contract.getStrandedPostTip(1, signers.bob.address)).amount).to.eq(0);
+      await expect(contract.connect(signers.bob).refundStrandedPostTip(1)).to.be.revertedWith(
+        "No stranded tip to refund",
+      );
+    });
+
+    it("refunds the tipper after the delay and withdraws the unlock it paid for", async function () {
+      const [, refundableAt] = await contract.getStrandedPostTip(1, signers.bob.address);
+      expect(refundableAt).to.eq(BigInt(unlockedAt) + REFUND_DELAY);
+
+      await expect(contract.connect(signers.bob).refundStrandedPostTip(1)).to.be.revertedWith("Refund delay not over");
+
+      await time.increase(REFUND_DELAY);
+      const tx = contract.connect(signers.bob).refundStrandedPostTip(1);
+      await expect(tx).to.emit(contract, "StrandedTipRefunded").withArgs(1, 0, signers.bob.address, amount);
+      await expect(tx).to.changeEtherBalances([signers.bob, contract], [amount, -amount]);
+
+      expect(await contract.hasUnlocked(1, signers.bob.address)).to.eq(false);
+      expect(await contract.getPostTipContribution(1, signers.bob.address)).to.eq(0);
+      expect(await contract.strandedPostTips(1)).to.eq(0);
+
+      await expect(contract.connect(signers.bob).refundStrandedReplyTip(1, 1)).to.changeEtherBalance(
+        signers.bob,
+        amount,
+      );
+      await expect(contract.connect(signers.bob).refundStrandedPostTip(1)).to.be.revertedWith(
+        "No stranded tip to refund",
+      );
+    });
+  });
+
+  describe("unlockTippableContent", function () {
+    const minTip = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_TIPPABLE, minTip);
+    });
+
+    it("rejects a tip below the post's minimum", async function () {
+      await expect(contract.connect(signers.bob).unlockTippableContent(1, { value: minTip - 1n })).to.be.revertedWith(
+        "Tip amount below minimum required",
+      );
+
+      expect(await contract.hasUnlocked(1, signers.bob.address)).to.eq(false);
+    });
+
+    it("grants access and credits the author at the minimum tip", async function () {
+      await expect(contract.connect(signers.bob).unlockTippableContent(1, { value: minTip }))
+        .to.emit(contract, "ContentUnlocked")
+        .and.to.emit(contract, "TipAddedToPost");
+
+      expect(await contract.hasUnlocked(1, signers.bob.address)).to.eq(true);
+      expect(await contract.getBalance(signers.alice.address)).to.eq(minTip);
+      expect(await contract.getPostTipContribution(1, signers.bob.address)).to.eq(minTip);
+    });
+  });
+
+  describe("unlockTippableReply", function () {
+    const minTip = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await register(signers.carol);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+      await replyToPost(signers.bob, 1, VISIBILITY_TIPPABLE, minTip);
+    });
+
+    it("rejects a tip below the reply's minimum and a missing reply", async function () {
+      await expect(
+        contract.connect(signers.carol).unlockTippableReply(1, 1, { value: minTip - 1n }),
+      ).to.be.revertedWith("Tip amount below minimum required");
+      await expect(contract.connect(signers.carol).unlockTippableReply(1, 2, { value: minTip })).to.be.revertedWith(
+        "Reply does not exist",
+      );
+
+      expect(await contract.hasUnlockedReply(1, 1, signers.carol.address)).to.eq(false);
+    });
+
+    it("grants access and credits the replier at the minimum tip", async function () {
+      await expect(contract.connect(signers.carol).unlockTippableReply(1, 1, { value: minTip }))
+        .to.emit(contract, "ReplyUnlocked")
+        .withArgs(1, 1, anyValue, minTip)
+        .and.to.emit(contract, "TipAddedToReply");
+
+      expect(await contract.hasUnlockedReply(1, 1, signers.carol.address)).to.eq(true);
+      expect(await contract.hasUnlockedReply(1, 1, signers.alice.address)).to.eq(false);
+      expect(await contract.getBalance(signers.bob.address)).to.eq(minTip);
+      expect(await contract.getReplyTipContribution(1, 1, signers.carol.address)).to.eq(minTip);
+    });
+  });
+
+  describe("subscriptions", function () {
+    const price = ethers.parseEther("0.01");
+    const period = 30n * 24n * 60n * 60n;
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await contract.connect(signers.alice).setSubscriptionPrice(price);
+    });
+
+    it("lets registered creators set their price", async function () {
+      await expect(contract.connect(signers.alice).setSubscriptionPrice(price * 2n))
+        .to.emit(contract, "SubscriptionPriceUpdated")
+        .withArgs(signers.alice.address, price * 2n);
+
+      expect(await contract.subscriptionPrice(signers.alice.address)).to.eq(price * 2n);
+      await expect(contract.connect(signers.carol).setSubscriptionPrice(price)).to.be.revertedWith(
+        "User not registered",
+      );
+    });
+
+    it("credits the creator and grants access to their tippable posts", async function () {
+      await createPost(signers.alice, VISIBILITY_TIPPABLE, ethers.parseEther("1"));
+
+      const tx = await contract.connect(signers.bob).subscribe(signers.alice.address, 2, { value: price * 2n });
+      const subscribedAt = BigInt((await (await tx.wait())!.getBlock()).timestamp);
+      await expect(tx)
+        .to.emit(contract, "Subscribed")
+        .withArgs(signers.alice.address, anyValue, subscribedAt + period * 2n, price * 2n);
+
+      expect(await contract.subscriptionExpiry(signers.alice.address, signers.bob.address)).to.eq(
+        subscribedAt + period * 2n,
+      );
+      expect(await contract.isSubscribed(signers.alice.address, signers.bob.address)).to.eq(true);
+      expect(await contract.hasUnlocked(1, signers.bob.address)).to.eq(true);
+      expect(await contract.getBalance(signers.alice.address)).to.eq(price * 2n);
+    });
+
+    it("extends an active subscription from its current expiry", async function () {
+      await contract.connect(signers.bob).subscribe(signers.alice.address, 1, { value: price });
+      const firstExpiry = await contract.subscriptionExpiry(signers.alice.address, signers.bob.address);
+
+      await time.increase(period / 2n);
+      await contract.connect(signers.bob).subscribe(signers.alice.address, 1, { value: price });
+
+      expect(await contract.subscriptionExpiry(signers.alice.address, signers.bob.address)).to.eq(firstExpiry + period);
+    });
+
+    it("starts a lapsed subscription again from now", async function () {
+      await contract.connect(signers.bob).subscribe(signers.alice.address, 1, { value: price });
+      await time.increase(period * 2n);
+      expect(await contract.isSubscribed(signers.alice.address, signers.bob.address)).to.eq(false);
+
+      const tx = await contract.connect(signers.bob).subscribe(signers.alice.address, 1, { value: price });
+      const renewedAt = BigInt((await (await tx.wait())!.getBlock()).timestamp);
+
+      expect(await contract.subscriptionExpiry(signers.alice.address, signers.bob.address)).to.eq(renewedAt + period);
+    });
+
+    it("rejects a payment that does not match the price", async function () {
+      await expect(
+        contract.connect(signers.bob).subscribe(signers.alice.address, 2, { value: price }),
+      ).to.be.revertedWith("Incorrect subscription payment");
+      await expect(
+        contract.connect(signers.bob).subscribe(signers.alice.address, 1, { value: price + 1n }),
+      ).to.be.revertedWith("Incorrect subscription payment");
+      await expect(
+        contract.connect(signers.bob).subscribe(signers.alice.address, 13, { value: price * 13n }),
+      ).to.be.revertedWith("Invalid subscription length");
+    });
+
+    it("rejects subscribing to yourself or to a creator without a price", async function () {
+      await expect(
+        contract.connect(signers.alice).subscribe(signers.alice.address, 1, { value: price }),
+      ).to.be.revertedWith("Cannot subscribe to yourself");
+      await expect(
+        contract.connect(signers.alice).subscribe(signers.bob.address, 1, { value: price }),
+      ).to.be.revertedWith("Subscriptions not enabled");
+    });
+  });
+
+  describe("author-only post changes", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+    });
+
+    it("lets only the author edit a post", async function () {
+      await expect(
+        contract.connect(signers.bob).editPost(1, ethers.id("edited"), ethers.id("edited-preview")),
+      ).to.be.revertedWith("Only the author can edit");
+
+      await expect(contract.connect(signers.alice).editPost(1, ethers.id("edited"), ethers.id("edited-preview")))
+        .to.emit(contract, "PostEdited")
+        .withArgs(1, 1, ethers.id("edited"), ethers.id("edited-preview"));
+      expect(await contract.getPostRevisionCount(1)).to.eq(2);
+    });
+
+    it("lets only the author delete a post", async function () {
+      await expect(contract.connect(signers.bob).deletePost(1)).to.be.revertedWith("Only the author can delete");
+
+      await expect(contract.connect(signers.alice).deletePost(1)).to.emit(contract, "PostDeleted").withArgs(1);
+      expect(await contract.postDeleted(1)).to.eq(true);
+    });
+
+    it("lets only the author change a post's visibility", async function () {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.bob.address)
+        .add128(VISIBILITY_TIPPABLE)
+        .encrypt();
+      await expect(
+        contract.connect(signers.bob).updatePostVisibility(1, input.handles[0], input.inputProof, 1n),
+      ).to.be.revertedWith("Only the author can change visibility");
+
+      const authorInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add128(VISIBILITY_TIPPABLE)
+        .encrypt();
+      await expect(
+        contract.connect(signers.alice).updatePostVisibility(1, authorInput.handles[0], authorInput.inputProof, 1n),
+      ).to.emit(contract, "PostVisibilityUpdated");
+      expect((await contract.posts(1)).minTipAmount).to.eq(1n);
+    });
+  });
+
+  describe("author reveal", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+      await replyToPost(signers.bob, 1, VISIBILITY_PUBLIC);
+    });
+
+    it("reveals a post author once, and only at the author's request", async function () {
+      expect(await contract.getRevealedPostAuthor(1)).to.eq(ethers.ZeroAddress);
+      await expect(contract.connect(signers.bob).revealPostAuthor(1)).to.be.revertedWith("Only the author can reveal");
+
+      await expect(contract.connect(signers.alice).revealPostAuthor(1))
+        .to.emit(contract, "PostAuthorRevealed")
+        .withArgs(1, signers.alice.address);
+      expect(await contract.getRevealedPostAuthor(1)).to.eq(signers.alice.address);
+      await expect(contract.connect(signers.alice).revealPostAuthor(1)).to.be.revertedWith("Already revealed");
+    });
+
+    it("reveals a reply author once, and only at the replier's request", async function () {
+      expect(await contract.getRevealedReplyAuthor(1, 1)).to.eq(ethers.ZeroAddress);
+      await expect(contract.connect(signers.alice).revealReplyAuthor(1, 1)).to.be.revertedWith(
+        "Only the author can reveal",
+      );
+
+      await expect(contract.connect(signers.bob).revealReplyAuthor(1, 1))
+        .to.emit(contract, "ReplyAuthorRevealed")
+        .withArgs(1, 1, signers.bob.address);
+      expect(await contract.getRevealedReplyAuthor(1, 1)).to.eq(signers.bob.address);
+      await expect(contract.connect(signers.bob).revealReplyAuthor(1, 1)).to.be.revertedWith("Already revealed");
+    });
+  });
+
+  describe("claimEarnings", function () {
+    const tip = ethers.parseEther("1");
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+      await contract.connect(signers.bob).tipPost(1, { value: tip });
+    });
+
+    it("splits the claim between the creator and the fee recipient", async function () {
+      const claim = ethers.parseEther("0.4");
+      const fee = (claim * FEE_BASIS_POINTS) / 10000n;
+      const payout = claim - fee;
+
+      const tx = contract.connect(signers.alice).claimEarnings(claim);
+      await expect(tx).to.emit(contract, "Claim").withArgs(signers.alice.address, claim, fee, payout, fee);
+      await expect(tx).to.changeEtherBalances([signers.alice, signers.feeRecipient, contract], [payout, fee, -claim]);
+
+      expect(await contract.getBalance(signers.alice.address)).to.eq(tip - claim);
+      const [feesCollected, earningsDistributed, feeRate] = await contract.getDAOStats();
+      expect(feesCollected).to.eq(fee);
+      expect(earningsDistributed).to.eq(payout);
+      expect(feeRate).to.eq(FEE_BASIS_POINTS);
+    });
+
+    it("rejects claims above the creator's balance", async function () {
+      await expect(contract.connect(signers.alice).claimEarnings(tip + 1n)).to.be.revertedWith(
+        "Insufficient ETH balance",
+      );
+      await expect(contract.connect(signers.alice).claimEarnings(0)).to.be.revertedWith("No earnings to claim");
+    });
+
+    it("pays the full amount when the fee is zero", async function () {
+      await contract.connect(signers.owner).setFeeBasisPoints(0);
+
+      await expect(contract.connect(signers.alice).claimEarnings(tip)).to.changeEtherBalances(
+        [signers.alice, signers.feeRecipient],
+        [tip, 0],
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks state-changing calls while paused", async function () {
+      await register(signers.alice);
+      await createPost(signers.alice, VISIBILITY_PUBLIC);
+
+      await expect(contract.connect(signers.owner).pause()).to.emit(contract, "ContractPaused");
+
+      await expect(register(signers.bob)).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(createPost(signers.alice, VISIBILITY_PUBLIC)).to.be.revertedWithCustomError(
+        contract,
+        "EnforcedPause",
+      );
+      await expect(contract.connect(signers.alice).tipPost(1, { value: 1n })).to.be.revertedWithCustomError(
+        contract,
+        "EnforcedPause",
+      );
+
+      await expect(contract.connect(signers.owner).unpause()).to.emit(contract, "ContractUnpaused");
+      await expect(register(signers.bob)).to.emit(contract, "UserRegistered");
+    });
+
+    it("only lets the owner pause and unpause", async function () {
+      await expect(contract.connect(signers.alice).pause())
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+
+      await contract.connect(signers.owner).pause();
+      await expect(contract.connect(signers.alice).unpause())
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("admin setters", function () {
+    it("lets the owner change the fee up to 20%", async function () {
+      await contract.connect(signers.owner).setFeeBasisPoints(2000);
+      expect(await contract.feeBasisPoints()).to.eq(2000);
+
+      await expect(contract.connect(signers.owner).setFeeBasisPoints(2001)).to.be.revertedWith("Max 20%");
+    });
+
+    it("lets the owner change the fee recipient", async function () {
+      await contract.connect(signers.owner).setFeeRecipient(signers.carol.address);
+      expect(await contract.feeRecipient()).to.eq(signers.carol.address);
+    });
+
+    it("rejects setter calls from other wallets", async function () {
+      await expect(contract.connect(signers.alice).setFeeBasisPoints(100))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      await expect(contract.connect(signers.alice).setFeeRecipient(signers.alice.address))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+    });
+  });
+});
@@ -8,6 +8,7 @@ import { WagmiProvider } from 'wagmi';
 import { config } from './lib/wagmi';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import Index from "./pages/Index";
+import Moderation from "./pages/Moderation";
 import NotFound from "./pages/NotFound";
 import { CypherpunkHomePage } from './components/CypherpunkHomePage';
 
@@ -55,6 +56,7 @@ const App = () => {
             <BrowserRouter>
               <Routes>
                 <Route path="/" element={<Index />} />
+                <Route path="/moderation" element={<Moderation />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </BrowserRouter>
@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Flag, VolumeX, Ban } from "lucide-react";
+import type { MuteKind } from "@/lib/storage";
+
+interface AuthorActionsMenuProps {
+  contentType: 'post' | 'reply';
+  onReport: () => void;
+  onMute: (kind: MuteKind) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+// The "..." menu on posts and replies by other authors
+export const AuthorActionsMenu = ({ contentType, onReport, onMute, disabled = false, compact = false }: AuthorActionsMenuProps) => {
+  const iconClassName = compact ? "h-3 w-3" : "h-4 w-4";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`text-muted-foreground hover:text-foreground ${compact ? 'text-xs' : ''}`}
+          disabled={disabled}
+          title="More actions"
+        >
+          <MoreHorizontal className={iconClassName} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={onReport} className="cursor-pointer">
+          <Flag className="mr-2 h-4 w-4" />
+          Report this {contentType}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onMute('mute')} className="cursor-pointer">
+          <VolumeX className="mr-2 h-4 w-4" />
+          Mute author
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onMute('block')} className="cursor-pointer text-destructive focus:text-destructive">
+          <Ban className="mr-2 h-4 w-4" />
+          Block author
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
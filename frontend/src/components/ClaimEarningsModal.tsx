@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { formatEther, parseEther, type Address } from "viem";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Loader2 } from "lucide-react";
+import { VentbuddyContract } from "@/lib/contract";
+import { previewClaim, BASIS_POINTS } from "@/lib/claims";
+import { useLogger } from "@/hooks/useLogger";
+
+interface ClaimEarningsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  creatorAddress: string;
+  isClaiming: boolean;
+  onClaim: (amountWei: bigint) => Promise<boolean>;
+}
+
+const QUICK_FRACTIONS = [
+  { label: '25%', basisPoints: 2500n },
+  { label: '50%', basisPoints: 5000n },
+  { label: '75%', basisPoints: 7500n },
+  { label: 'Max', basisPoints: 10000n },
+];
+
+const parseAmount = (value: string): bigint | null => {
+  try {
+    return value.trim() ? parseEther(value.trim()) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const ClaimEarningsModal = ({ isOpen, onClose, creatorAddress, isClaiming, onClaim }: ClaimEarningsModalProps) => {
+  const log = useLogger('ClaimEarningsModal');
+  const [balanceWei, setBalanceWei] = useState(0n);
+  const [feeBasisPoints, setFeeBasisPoints] = useState(0n);
+  const [isLoading, setIsLoading] = useState(false);
+  const [amount, setAmount] = useState("");
+
+  // Balance and fee are read fresh each time the dialog opens, not taken from the cached ledger
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    const contract = new VentbuddyContract();
+    Promise.all([
+      contract.getBalance(creatorAddress as Address),
+      contract.getFeeBasisPoints(),
+    ])
+      .then(([balance, fee]) => {
+        if (cancelled) return;
+        setBalanceWei(balance);
+        setFeeBasisPoints(fee);
+        setAmount(formatEther(balance));
+      })
+      .catch((err) => log.error('Failed to load claim details', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, creatorAddress, log]);
+
+  const amountWei = parseAmount(amount);
+  const preview = amountWei !== null ? previewClaim(amountWei, feeBasisPoints) : null;
+
+  const validationError =
+    amount.trim() === '' ? null
+      : amountWei === null ? 'Enter a valid ETH amount'
+      : amountWei <= 0n ? 'Amount must be greater than 0'
+      : amountWei > balanceWei ? 'Amount exceeds your claimable balance'
+      : null;
+
+  const canClaim = !isLoading && !isClaiming && amountWei !== null && amountWei > 0n && !validationError;
+
+  const handleClaim = async () => {
+    if (!canClaim || amountWei === null) return;
+
+    const claimed = await onClaim(amountWei);
+    if (claimed) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5 text-green-600" />
+            Claim Earnings
+          </DialogTitle>
+          <DialogDescription>
+            Withdraw all or part of your balance. The rest stays in the contract until you claim it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Claimable balance</span>
+              <span className="font-medium">{formatEther(balanceWei)} ETH</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="claimAmount">Amount (ETH)</Label>
+              <Input
+                id="claimAmount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.0"
+              />
+              <div className="flex gap-2">
+                {QUICK_FRACTIONS.map((fraction) => (
+                  <Button
+                    key={fraction.label}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => setAmount(formatEther((balanceWei * fraction.basisPoints) / BASIS_POINTS))}
+                  >
+                    {fraction.label}
+                  </Button>
+                ))}
+              </div>
+              {validationError && (
+                <p className="text-sm text-destructive">{validationError}</p>
+              )}
+            </div>
+
+            {preview && !validationError && (
+              <div className="rounded-md border border-border/50 p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Platform fee ({(Number(feeBasisPoints) / 100).toFixed(2)}%)
+                  </span>
+                  <span>-{formatEther(preview.feeWei)} ETH</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>You receive</span>
+                  <span className="text-green-600">{formatEther(preview.payoutWei)} ETH</span>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isClaiming}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleClaim}
+            disabled={!canClaim}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isClaiming ? 'Claiming...' : 'Claim'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,44 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useContentWarningPreferences } from '../hooks/useContentWarningPreferences';
+import { CONTENT_WARNINGS, type ContentWarningPreference } from '../lib/content-warnings';
+import { TriangleAlert } from 'lucide-react';
+
+export function ContentWarningSettings() {
+  const { preferences, setPreference } = useContentWarningPreferences();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TriangleAlert className="h-5 w-5" />
+          Content Warnings
+        </CardTitle>
+        <CardDescription>
+          Choose how posts tagged with each warning appear in your feed. These settings stay in this browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {CONTENT_WARNINGS.map((option) => (
+          <div key={option.value} className="flex items-center justify-between gap-4">
+            <Label htmlFor={`warningPreference-${option.value}`}>{option.label}</Label>
+            <Select
+              value={preferences[option.value] ?? 'warn'}
+              onValueChange={(value) => setPreference(option.value, value as ContentWarningPreference)}
+            >
+              <SelectTrigger id={`warningPreference-${option.value}`} className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Blur with warning</SelectItem>
+                <SelectItem value="show">Always show</SelectItem>
+                <SelectItem value="hide">Hide from feed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -6,12 +6,20 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useCreatePost } from '@/hooks/useContract';
 import { useWallet } from '@/hooks/useContract';
 import { useRegistrationStatus } from '@/hooks/useContract';
 import { useFHEEncryption } from '@/lib/fhe-encryption';
+import { extractHashtags, formatTag } from '@/lib/hashtags';
+import { detectCrisisLanguage } from '@/lib/crisis-detection';
+import { CONTENT_WARNINGS, type ContentWarning } from '@/lib/content-warnings';
+import { SupportResourcesPanel } from './SupportResourcesPanel';
 import { ContentCreationProgress, defaultContentCreationSteps, type ProgressStep } from './ContentCreationProgress';
 import { toast } from 'sonner';
+import { activeDeployment } from '@/lib/deployments';
 
 interface CreatePostFormProps {
   onPostCreated?: (postId: string) => void;
@@ -30,6 +38,17 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
     minTipAmount: '0',
   });
 
+  const [shareTags, setShareTags] = useState(false);
+  const detectedTags = useMemo(() => extractHashtags(formData.content), [formData.content]);
+  const crisisDetection = useMemo(() => detectCrisisLanguage(formData.content), [formData.content]);
+  const [contentWarnings, setContentWarnings] = useState<ContentWarning[]>([]);
+
+  const toggleContentWarning = (warning: ContentWarning, checked: boolean) => {
+    setContentWarnings(prev =>
+      checked ? [...new Set([...prev, warning])] : prev.filter(existing => existing !== warning)
+    );
+  };
+
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>(defaultContentCreationSteps);
   const [currentStep, setCurrentStep] = useState(0);
   const [showProgress, setShowProgress] = useState(false);
@@ -51,7 +70,9 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
   const createPostWithProgress = async (
     content: string,
     visibility: number,
-    minTipAmount: number
+    minTipAmount: number,
+    tags: string[],
+    contentWarnings: ContentWarning[]
   ) => {
     
     updateProgressStep('encryption', 'in_progress', 50);
@@ -66,7 +87,7 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
     updateProgressStep('contract', 'in_progress', 50);
     setCurrentStep(4);
     
-    const result = await createPost(content, visibility, minTipAmount);
+    const result = await createPost(content, visibility, minTipAmount, tags, contentWarnings);
     
     updateProgressStep('contract', 'completed', 100);
 
@@ -127,7 +148,9 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
       const result = await createPostWithProgress(
         formData.content,
         parseInt(formData.visibility),
-        parseFloat(formData.minTipAmount) * 1e18
+        parseFloat(formData.minTipAmount) * 1e18,
+        shareTags && formData.visibility === '0' ? detectedTags : [],
+        contentWarnings
       );
 
       if (result && result.txHash && result.rawPostId) {
@@ -138,6 +161,8 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
           visibility: '0',
           minTipAmount: '0',
         });
+        setShareTags(false);
+        setContentWarnings([]);
         onPostCreated?.(result.contentData.id.toString());
         onPostCreatedCallback?.();
         
@@ -255,7 +280,7 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
             <Alert>
               <AlertDescription>
                 <strong>Initializing FHE Service...</strong><br/>
-                Please ensure you are connected to the Sepolia network. The FHE encryption service needs to be ready before creating posts.
+                Please ensure you are connected to {activeDeployment.name}. The FHE encryption service needs to be ready before creating posts.
                 {fheError && (
                   <div className="mt-2 text-sm text-red-600">
                     Error: {fheError}
@@ -302,6 +327,44 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
             />
           </div>
 
+          {crisisDetection.detected && (
+            <SupportResourcesPanel>
+              <div className="flex items-center justify-between gap-4 pt-1">
+                <Label htmlFor="selfHarmWarning" className="text-sm font-normal">
+                  Add a "Suicide & self-harm" content warning so readers can choose before they see this post
+                </Label>
+                <Switch
+                  id="selfHarmWarning"
+                  checked={contentWarnings.includes('self_harm')}
+                  onCheckedChange={(checked) => toggleContentWarning('self_harm', checked)}
+                />
+              </div>
+            </SupportResourcesPanel>
+          )}
+
+          <div className="space-y-2 p-4 border rounded-lg">
+            <div className="space-y-1">
+              <Label>Content warnings</Label>
+              <p className="text-sm text-muted-foreground">
+                Readers see a blurred card with these labels until they choose to open the post
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {CONTENT_WARNINGS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`contentWarning-${option.value}`}
+                    checked={contentWarnings.includes(option.value)}
+                    onCheckedChange={(checked) => toggleContentWarning(option.value, checked === true)}
+                  />
+                  <Label htmlFor={`contentWarning-${option.value}`} className="text-sm font-normal">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="visibility">Visibility</Label>
             <Select value={formData.visibility} onValueChange={(value) => handleInputChange('visibility', value)}>
@@ -332,6 +395,34 @@ export function CreatePostForm({ onPostCreated, onPostCreatedCallback }: CreateP
             </div>
           )}
 
+          {formData.visibility === '0' && (
+            <div className="space-y-2 p-4 border rounded-lg">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="shareTags">Share hashtags</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Publish this post's hashtags in plaintext so it shows up in Trending
+                  </p>
+                </div>
+                <Switch
+                  id="shareTags"
+                  checked={shareTags}
+                  onCheckedChange={setShareTags}
+                  disabled={detectedTags.length === 0}
+                />
+              </div>
+              {detectedTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {detectedTags.map((tag) => (
+                    <Badge key={tag} variant={shareTags ? 'secondary' : 'outline'}>
+                      {formatTag(tag)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {error && (
             <Alert variant="destructive">
               <AlertDescription>
@@ -1,15 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAccount } from 'wagmi';
+import { formatEther, parseEther } from 'viem';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
 import { 
+  BellRing,
   DollarSign, 
   Download,
+  Hourglass,
   Loader2,
   RefreshCw
 } from 'lucide-react';
 import { useWallet } from '@/hooks/useContract';
-import { supabase } from '@/lib/supabase';
+import { useEarningsLedger } from '@/hooks/useEarningsLedger';
+import { hasCrossedThreshold, loadClaimThreshold, saveClaimThreshold } from '@/lib/claims';
+import { EarningsHistory } from './EarningsHistory';
+import { ClaimEarningsModal } from './ClaimEarningsModal';
 import { toast } from 'sonner';
 import { useLogger } from '@/hooks/useLogger';
 
@@ -24,181 +33,105 @@ export function CreatorEarnings({
   const { address } = useAccount();
   const { walletClient } = useWallet();
   const [isClaiming, setIsClaiming] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [earningsData, setEarningsData] = useState({
-    totalEarnings: 0,
-    monthlyEarnings: 0,
-    tipCount: 0,
-    lastClaimed: 'Never',
-    claimableAmount: 0
+  const [claimingStrandedKey, setClaimingStrandedKey] = useState<string | null>(null);
+  const [showClaimModal, setShowClaimModal] = useState(false);
+  const [thresholdWei, setThresholdWei] = useState(() => loadClaimThreshold(creatorAddress));
+  const [thresholdInput, setThresholdInput] = useState(() => {
+    const stored = loadClaimThreshold(creatorAddress);
+    return stored > 0n ? formatEther(stored) : '';
   });
+  const thresholdNotifiedRef = useRef(false);
+  const { ledger, claimableWei, isLoading, isSyncing, refresh } = useEarningsLedger(creatorAddress);
 
-  const fetchEarningsData = async (isRefresh = false) => {
-    if (!creatorAddress) {
-      setIsLoading(false);
-      return;
-    }
-
-    if (isRefresh) {
-      setIsRefreshing(true);
-    } else {
-      setIsLoading(true);
-    }
-
-    try {
-      log.info('Fetching tip earnings data for creator', { creatorAddress });
-
-      const { data: userSession, error: sessionError } = await supabase
-        .from('user_sessions')
-        .select('encrypted_address')
-        .eq('wallet_address', creatorAddress)
-        .maybeSingle();
-
-      if (sessionError) {
-        log.error('Error fetching creator session', sessionError);
-        if (isRefresh) {
-          setIsRefreshing(false);
-        } else {
-          setIsLoading(false);
-        }
-        return;
-      }
-
-      if (!userSession?.encrypted_address) {
-        log.warn('No encrypted address found for creator', { creatorAddress });
-        setEarningsData({
-          totalEarnings: 0,
-          monthlyEarnings: 0,
-          tipCount: 0,
-          lastClaimed: 'Never',
-          claimableAmount: 0
-        });
-        if (isRefresh) {
-          setIsRefreshing(false);
-        } else {
-          setIsLoading(false);
-        }
-        return;
-      }
-
-      const creatorEncryptedAddress = userSession.encrypted_address;
+  const isOwner = !!address && address.toLowerCase() === creatorAddress.toLowerCase();
+  const thresholdCrossed = isOwner && hasCrossedThreshold(claimableWei, thresholdWei);
 
-      const { data: tipData, error: tipError } = await supabase
-        .from('access_logs')
-        .select('amount_wei, created_at')
-        .eq('user_encrypted_id', creatorEncryptedAddress)
-        .eq('access_type', 'tip');
-
-      if (tipError) {
-        log.error('Error fetching tip data', tipError);
-        toast.error('Failed to load tip data');
-        if (isRefresh) {
-          setIsRefreshing(false);
-        } else {
-          setIsLoading(false);
-        }
-        return;
-      }
-
-      const tips = tipData || [];
-      
-      const totalEarningsWei = tips.reduce((sum, tip) => sum + (tip.amount_wei || 0), 0);
-      const totalEarnings = totalEarningsWei / 1e18;
-      
-      const monthlyEarningsWei = tips
-        .filter(tip => {
-          const tipDate = new Date(tip.created_at);
-          const now = new Date();
-          return tipDate.getMonth() === now.getMonth() && tipDate.getFullYear() === now.getFullYear();
-        })
-        .reduce((sum, tip) => sum + (tip.amount_wei || 0), 0);
-      const monthlyEarnings = monthlyEarningsWei / 1e18;
-
-      const tipCount = tips.length;
-
-      const lastClaimed = 'Never';
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const earningsData = {
+    totalEarnings: Number(formatEther(ledger.totalEarnedWei)),
+    monthlyEarnings: Number(formatEther(
+      ledger.byDay
+        .filter(day => day.day.startsWith(currentMonth))
+        .reduce((sum, day) => sum + day.earnedWei, 0n)
+    )),
+    tipCount: ledger.entries.length,
+    totalClaimed: Number(formatEther(ledger.totalClaimedWei)),
+    totalFees: Number(formatEther(ledger.totalFeesWei)),
+    lastClaimed: ledger.lastClaimedAt ? ledger.lastClaimedAt.toLocaleDateString() : 'Never',
+    claimableAmount: Number(formatEther(claimableWei))
+  };
 
-      setEarningsData({
-        totalEarnings,
-        monthlyEarnings,
-        tipCount,
-        lastClaimed,
-        claimableAmount: totalEarnings * 0.9
+  // Prompt once per visit when the balance reaches the creator's reminder threshold
+  useEffect(() => {
+    if (thresholdCrossed && !thresholdNotifiedRef.current) {
+      thresholdNotifiedRef.current = true;
+      toast.info(`Your balance reached your ${formatEther(thresholdWei)} ETH claim reminder`, {
+        action: { label: 'Claim', onClick: () => setShowClaimModal(true) },
       });
+    }
+  }, [thresholdCrossed, thresholdWei]);
 
-      log.info('Tip earnings data fetched', {
-        totalEarnings,
-        monthlyEarnings,
-        tipCount,
-        creatorEncryptedAddress: creatorEncryptedAddress.substring(0, 10) + '...'
-      });
+  const handleRefresh = async () => {
+    await refresh();
+    toast.success('Earnings data refreshed!');
+  };
 
-      if (isRefresh) {
-        toast.success('Earnings data refreshed!');
-      }
+  const handleSaveThreshold = () => {
+    let nextThreshold = 0n;
 
-    } catch (error) {
-      log.error('Failed to fetch earnings data', error);
-      toast.error('Failed to load earnings data');
-    } finally {
-      if (isRefresh) {
-        setIsRefreshing(false);
-      } else {
-        setIsLoading(false);
+    if (thresholdInput.trim()) {
+      try {
+        nextThreshold = parseEther(thresholdInput.trim());
+      } catch {
+        toast.error('Enter a valid ETH amount');
+        return;
       }
     }
-  };
 
-  useEffect(() => {
-    fetchEarningsData();
-  }, [creatorAddress]);
+    saveClaimThreshold(creatorAddress, nextThreshold);
+    setThresholdWei(nextThreshold);
+    thresholdNotifiedRef.current = false;
+    toast.success(nextThreshold > 0n ? 'Claim reminder saved' : 'Claim reminder removed');
+  };
 
-  const handleClaimEarnings = async () => {
+  const handleClaimEarnings = async (amountWei: bigint): Promise<boolean> => {
     if (!walletClient || !address) {
       toast.error('Wallet not connected');
-      return;
+      return false;
     }
 
-    if (earningsData.claimableAmount <= 0) {
+    if (amountWei <= 0n || amountWei > claimableWei) {
       toast.error('No earnings to claim');
-      return;
+      return false;
     }
 
-    if (address.toLowerCase() !== creatorAddress.toLowerCase()) {
+    if (!isOwner) {
       toast.error('You can only claim earnings for your own account');
-      return;
+      return false;
     }
 
     setIsClaiming(true);
 
     try {
-      log.info('Claiming earnings', { amount: earningsData.claimableAmount });
+      log.info('Claiming earnings', { amount: formatEther(amountWei) });
       
-      const { VentbuddyContract } = await import('../lib/contract');
+      const { VentbuddyContract, publicClient } = await import('../lib/contract');
       const contract = new VentbuddyContract(walletClient);
       
-      const claimAmountWei = BigInt(Math.floor(earningsData.claimableAmount * 1e18));
-      
       log.info('Calling contract.claimEarnings with amount', {
-        eth: earningsData.claimableAmount,
-        wei: claimAmountWei.toString()
+        eth: formatEther(amountWei),
+        wei: amountWei.toString()
       });
       
-      const txHash = await contract.claimEarnings(claimAmountWei);
+      const txHash = await contract.claimEarnings(amountWei);
       
       log.info('Claim transaction submitted', { txHash });
       toast.success(`Claim transaction submitted! Hash: ${txHash.substring(0, 10)}...`);
       
-      setEarningsData(prev => ({
-        ...prev,
-        claimableAmount: 0,
-        lastClaimed: new Date().toLocaleDateString()
-      }));
-      
-      setTimeout(() => {
-        window.location.reload(); // Simple refresh - could be improved with state management
-      }, 3000);
+      await publicClient.waitForTransactionReceipt({ hash: txHash });
+      thresholdNotifiedRef.current = false;
+      await refresh();
+      return true;
       
     } catch (error: any) {
       log.error('Claim earnings failed', error);
@@ -212,11 +145,44 @@ export function CreatorEarnings({
       } else {
         toast.error(`Failed to claim earnings: ${error.message || 'Unknown error'}`);
       }
+      return false;
     } finally {
       setIsClaiming(false);
     }
   };
 
+  // Tips held while the creator's encrypted id had no address mapping; the contract only
+  // releases them once the mapping points at the connected wallet again
+  const handleClaimStranded = async (postId: number, replyId: number | null) => {
+    if (!walletClient || !isOwner) {
+      toast.error('You can only claim held tips for your own account');
+      return;
+    }
+
+    const key = `${postId}:${replyId ?? ''}`;
+    setClaimingStrandedKey(key);
+
+    try {
+      const { VentbuddyContract, publicClient } = await import('../lib/contract');
+      const txHash = await new VentbuddyContract(walletClient).claimStrandedTips(postId, replyId ?? undefined);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+      if (receipt.status !== 'success') {
+        throw new Error('Claim transaction reverted');
+      }
+
+      toast.success('Held tips moved to your claimable balance');
+      await refresh();
+    } catch (error) {
+      log.error('Claim held tips failed', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(message.includes('Only the author can claim')
+        ? 'Restore your wallet link before claiming held tips'
+        : `Failed to claim held tips: ${message}`);
+    } finally {
+      setClaimingStrandedKey(null);
+    }
+  };
 
   const formatEarnings = (amount: number) => {
     if (amount === 0) return '0.00';
@@ -252,12 +218,12 @@ export function CreatorEarnings({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => fetchEarningsData(true)}
-              disabled={isRefreshing}
+              onClick={handleRefresh}
+              disabled={isSyncing}
               className="flex items-center gap-2"
             >
-              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-              {isRefreshing ? 'Refreshing...' : 'Refresh'}
+              <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              {isSyncing ? 'Syncing...' : 'Refresh'}
             </Button>
           </div>
         </CardHeader>
@@ -267,21 +233,36 @@ export function CreatorEarnings({
               <div className="text-2xl font-bold text-green-600">
                 {formatEarnings(earningsData.totalEarnings)} ETH
               </div>
-              <div className="text-sm text-muted-foreground">Total Tip Earnings</div>
+              <div className="text-sm text-muted-foreground">Total Earnings</div>
             </div>
             
             <div className="text-center p-4 bg-muted/50 rounded-lg">
               <div className="text-2xl font-bold text-blue-600">
                 {formatEarnings(earningsData.monthlyEarnings)} ETH
               </div>
-              <div className="text-sm text-muted-foreground">This Month's Tips</div>
+              <div className="text-sm text-muted-foreground">This Month's Earnings</div>
             </div>
             
             <div className="text-center p-4 bg-muted/50 rounded-lg">
               <div className="text-2xl font-bold text-purple-600">
                 {earningsData.tipCount}
               </div>
-              <div className="text-sm text-muted-foreground">Total Tips Received</div>
+              <div className="text-sm text-muted-foreground">Payments Received</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 text-sm">
+            <div className="flex justify-between p-3 border border-border/50 rounded-lg">
+              <span className="text-muted-foreground">Total claimed</span>
+              <span className="font-medium">{formatEarnings(earningsData.totalClaimed)} ETH</span>
+            </div>
+            <div className="flex justify-between p-3 border border-border/50 rounded-lg">
+              <span className="text-muted-foreground">Platform fees</span>
+              <span className="font-medium">{formatEarnings(earningsData.totalFees)} ETH</span>
+            </div>
+            <div className="flex justify-between p-3 border border-border/50 rounded-lg">
+              <span className="text-muted-foreground">Last claimed</span>
+              <span className="font-medium">{earningsData.lastClaimed}</span>
             </div>
           </div>
         </CardContent>
@@ -298,27 +279,107 @@ export function CreatorEarnings({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {thresholdCrossed && (
+            <Alert>
+              <BellRing className="h-4 w-4" />
+              <AlertDescription>
+                Your balance has passed your {formatEther(thresholdWei)} ETH claim reminder.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="flex items-center justify-between p-4 bg-green-50 dark:bg-green-950/20 rounded-lg">
             <div>
               <div className="text-2xl font-bold text-green-600">
                 {formatEarnings(earningsData.claimableAmount)} ETH
               </div>
               <div className="text-sm text-muted-foreground">
-                Available to claim
+                Available to claim, before the platform fee
               </div>
             </div>
             <Button 
-              onClick={handleClaimEarnings}
-              disabled={isClaiming || earningsData.claimableAmount <= 0}
+              onClick={() => setShowClaimModal(true)}
+              disabled={!isOwner || isClaiming || claimableWei <= 0n}
               className="bg-green-600 hover:bg-green-700"
             >
               {isClaiming ? 'Claiming...' : 'Claim Earnings'}
             </Button>
           </div>
+
+          {isOwner && (
+            <div className="space-y-2">
+              <Label htmlFor="claimThreshold">Claim reminder (ETH)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="claimThreshold"
+                  inputMode="decimal"
+                  value={thresholdInput}
+                  onChange={(e) => setThresholdInput(e.target.value)}
+                  placeholder="Remind me when my balance reaches..."
+                />
+                <Button variant="outline" onClick={handleSaveThreshold}>
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave empty to turn the reminder off.
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {ledger.stranded.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              Held Tips
+            </CardTitle>
+            <CardDescription>
+              {formatEther(ledger.totalStrandedWei)} ETH was tipped while your wallet link was broken. It is not
+              counted in your earnings until you claim it; tippers can take it back 30 days after tipping.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {ledger.stranded.map(held => {
+              const key = `${held.postId}:${held.replyId ?? ''}`;
+              return (
+                <div key={key} className="flex items-center justify-between p-3 border border-border/50 rounded-lg text-sm">
+                  <span className="text-muted-foreground">
+                    Post #{held.postId}{held.replyId !== null ? `, reply #${held.replyId}` : ''}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatEther(held.heldWei)} ETH</span>
+                    {isOwner && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleClaimStranded(held.postId, held.replyId)}
+                        disabled={claimingStrandedKey !== null}
+                      >
+                        {claimingStrandedKey === key ? 'Claiming...' : 'Claim'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {isOwner && (
+        <ClaimEarningsModal
+          isOpen={showClaimModal}
+          onClose={() => setShowClaimModal(false)}
+          creatorAddress={creatorAddress}
+          isClaiming={isClaiming}
+          onClaim={handleClaimEarnings}
+        />
+      )}
 
+      <EarningsHistory ledger={ledger} creatorAddress={creatorAddress} />
     </div>
   );
 }
@@ -1,13 +1,19 @@
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { Card, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { formatEther } from 'viem';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Avatar, AvatarFallback } from './ui/avatar';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
 import { 
+  Crown,
   Users
 } from 'lucide-react';
+import { PremiumModal } from './PremiumModal';
 import { useDisplayName } from '@/hooks/useUserProfile';
-import { supabase } from '@/lib/supabase';
-import { toast } from 'sonner';
+import { useCreatorSubscription } from '@/hooks/useCreatorSubscription';
+import { usePayments } from '@/hooks/usePayments';
 
 interface CreatorProfileProps {
   creatorAddress: string;
@@ -18,63 +24,41 @@ export function CreatorProfile({
 }: CreatorProfileProps) {
   const { address } = useAccount();
   const { displayName: creatorDisplayName, isLoading: isLoadingDisplayName } = useDisplayName(creatorAddress);
-  const [creatorData, setCreatorData] = useState({
-    subscriberCount: 0
-  });
-  const [isLoadingData, setIsLoadingData] = useState(true);
+  const {
+    pricePerMonthWei,
+    expiresAt,
+    isActive: isSubscribed,
+    subscriberCount,
+    isLoading: isLoadingData,
+    refresh: refreshSubscription,
+  } = useCreatorSubscription(creatorAddress);
+  const { setSubscriptionPrice, isLoading: isUpdatingPrice } = usePayments();
+  const [isSubscribeModalOpen, setIsSubscribeModalOpen] = useState(false);
+  const [priceInput, setPriceInput] = useState('');
+  const [hasLoaded, setHasLoaded] = useState(false);
 
   const isOwnProfile = address?.toLowerCase() === creatorAddress.toLowerCase();
 
   useEffect(() => {
-    const fetchCreatorData = async () => {
-      if (!creatorAddress) {
-        setIsLoadingData(false);
-        return;
-      }
-
-      setIsLoadingData(true);
-
-      try {
-        console.log('📊 Fetching creator data for:', creatorAddress);
-
-        const subscriptionData: any[] = [];
-        
-        console.log('📊 Creator profile - using placeholder values for subscription data due to access_logs schema issues');
-
-        const { data: subscriptionCountData, error: countError } = await supabase
-          .from('subscriptions')
-          .select('subscriber_address')
-          .eq('creator_address', creatorAddress.toLowerCase());
-
-        if (countError) {
-          console.error('Error fetching subscriber count:', countError);
-        }
-
-        const subscriberCount = new Set(subscriptionCountData?.map(sub => sub.subscriber_address) || []).size;
-
-        setCreatorData({
-          subscriberCount
-        });
-
-        console.log('✅ Creator data fetched:', {
-          subscriberCount
-        });
-
-      } catch (error) {
-        console.error('❌ Failed to fetch creator data:', error);
-        toast.error('Failed to load creator data');
-      } finally {
-        setIsLoadingData(false);
-      }
-    };
-
-    fetchCreatorData();
-  }, [creatorAddress, address]);
+    if (!isLoadingData) {
+      setHasLoaded(true);
+    }
+  }, [isLoadingData]);
 
+  useEffect(() => {
+    setPriceInput(pricePerMonthWei > 0n ? formatEther(pricePerMonthWei) : '');
+  }, [pricePerMonthWei]);
 
+  const handleUpdatePrice = async () => {
+    const result = await setSubscriptionPrice(priceInput || '0');
+    if (result.success) {
+      await refreshSubscription();
+    }
+  };
 
 
-  if (isLoadingData) {
+  // Only the first load replaces the profile; refreshes keep the subscribe modal mounted
+  if (isLoadingData && !hasLoaded) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="flex items-center justify-center py-12">
@@ -112,14 +96,67 @@ export function CreatorProfile({
               <div className="text-right">
                 <div className="flex items-center gap-1 text-sm text-muted-foreground">
                   <Users className="h-4 w-4" />
-                  {creatorData.subscriberCount} followers
+                  {subscriberCount} {subscriberCount === 1 ? 'subscriber' : 'subscribers'}
                 </div>
               </div>
+              {!isOwnProfile && (
+                <Button
+                  size="sm"
+                  variant={isSubscribed ? 'outline' : 'default'}
+                  onClick={() => setIsSubscribeModalOpen(true)}
+                >
+                  <Crown className="h-4 w-4 mr-1" />
+                  {isSubscribed ? 'Renew' : 'Subscribe'}
+                </Button>
+              )}
+              {!isOwnProfile && isSubscribed && expiresAt && (
+                <span className="text-xs text-muted-foreground">
+                  Subscribed until {expiresAt.toLocaleDateString()}
+                </span>
+              )}
             </div>
           </div>
         </CardHeader>
       </Card>
 
+      {isOwnProfile && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Subscriptions</CardTitle>
+            <CardDescription>
+              Subscribers can read all of your tippable posts for 30 days per payment. Set the price to 0 to disable new subscriptions.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="subscriptionPrice">Monthly price (ETH)</Label>
+                <Input
+                  id="subscriptionPrice"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  placeholder="0.01"
+                  value={priceInput}
+                  onChange={(e) => setPriceInput(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleUpdatePrice} disabled={isUpdatingPrice}>
+                {isUpdatingPrice ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <PremiumModal
+        isOpen={isSubscribeModalOpen}
+        onClose={() => setIsSubscribeModalOpen(false)}
+        creatorId={creatorAddress}
+        creatorName={creatorDisplayName}
+        onSubscribed={() => refreshSubscription()}
+      />
+
 
     </div>
   );
@@ -6,6 +6,7 @@ import { Shield, Lock, Zap, Database, Wallet } from 'lucide-react';
 import { useWallet } from '@/hooks/useContract';
 import { useAccount } from 'wagmi';
 import { useLogger } from '@/hooks/useLogger';
+import { activeDeployment } from '@/lib/deployments';
 
 interface CypherpunkHomePageProps {
   onEnterApp: () => void;
@@ -240,7 +241,7 @@ export const CypherpunkHomePage: React.FC<CypherpunkHomePageProps> = ({ onEnterA
                   {address}
                 </div>
                 <div className="text-green-400/60 font-mono text-xs mt-2">
-                  {connector?.name} • Sepolia Network
+                  {connector?.name} • {activeDeployment.name}
                 </div>
               </div>
             </div>
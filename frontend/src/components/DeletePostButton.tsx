@@ -0,0 +1,49 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Trash2 } from "lucide-react";
+
+interface DeletePostButtonProps {
+  isDeleting: boolean;
+  onDelete: () => void;
+}
+
+export const DeletePostButton = ({ isDeleting, onDelete }: DeletePostButtonProps) => {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isDeleting}
+          className="text-xs text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="h-3 w-3" />
+          {isDeleting ? 'Deleting...' : 'Delete'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The post is hidden from the feed and can no longer be tipped or unlocked. Its hashes
+            stay on-chain, and anyone who already unlocked it keeps access.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep post</AlertDialogCancel>
+          <AlertDialogAction onClick={onDelete}>Delete post</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
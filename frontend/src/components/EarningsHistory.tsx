@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { formatEther } from 'viem';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from './ui/chart';
+import { BarChart3, FileJson, FileSpreadsheet } from 'lucide-react';
+import {
+  bucketEarnings,
+  ledgerToCsv,
+  ledgerToJson,
+  type EarningsLedger,
+  type EarningsPeriod
+} from '@/lib/earnings-ledger';
+
+interface EarningsHistoryProps {
+  ledger: EarningsLedger;
+  creatorAddress: string;
+}
+
+const PERIODS: { value: EarningsPeriod; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+const chartConfig = {
+  tips: { label: 'Tips', color: 'hsl(var(--tip))' },
+  unlocks: { label: 'Unlocks', color: 'hsl(var(--primary))' },
+  replyTips: { label: 'Reply tips', color: 'hsl(var(--accent))' },
+  subscriptions: { label: 'Subscriptions', color: 'hsl(var(--premium))' },
+} satisfies ChartConfig;
+
+// Rows shown per breakdown table; the exports always contain everything
+const BREAKDOWN_LIMIT = 10;
+
+const toEth = (wei: bigint) => Number(formatEther(wei));
+
+const formatBucketLabel = (start: string, period: EarningsPeriod) => {
+  const date = new Date(`${start}T00:00:00Z`);
+  return period === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function EarningsHistory({ ledger, creatorAddress }: EarningsHistoryProps) {
+  const [period, setPeriod] = useState<EarningsPeriod>('day');
+
+  const chartData = useMemo(
+    () => bucketEarnings(ledger.entries, period).map(bucket => ({
+      label: formatBucketLabel(bucket.start, period),
+      tips: toEth(bucket.tipsWei),
+      unlocks: toEth(bucket.unlocksWei),
+      replyTips: toEth(bucket.replyTipsWei),
+      subscriptions: toEth(bucket.subscriptionsWei),
+    })),
+    [ledger, period]
+  );
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const filename = `ventbuddy-earnings-${creatorAddress.slice(0, 8)}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'csv') {
+      downloadFile(filename, ledgerToCsv(ledger), 'text/csv');
+    } else {
+      downloadFile(filename, ledgerToJson(ledger), 'application/json');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Earnings History
+            </CardTitle>
+            <CardDescription>
+              Indexed from on-chain tips, unlocks, subscriptions and claims
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} className="flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} className="flex items-center gap-2">
+              <FileJson className="h-4 w-4" />
+              JSON
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs value={period} onValueChange={(value) => setPeriod(value as EarningsPeriod)}>
+          <TabsList>
+            {PERIODS.map(option => (
+              <TabsTrigger key={option.value} value={option.value}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={56} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="tips" stackId="earnings" fill="var(--color-tips)" />
+            <Bar dataKey="unlocks" stackId="earnings" fill="var(--color-unlocks)" />
+            <Bar dataKey="replyTips" stackId="earnings" fill="var(--color-replyTips)" />
+            <Bar dataKey="subscriptions" stackId="earnings" fill="var(--color-subscriptions)" />
+          </BarChart>
+        </ChartContainer>
+
+        <Tabs defaultValue="posts">
+          <TabsList>
+            <TabsTrigger value="posts">By post</TabsTrigger>
+            <TabsTrigger value="replies">By reply</TabsTrigger>
+            <TabsTrigger value="claims">Claims</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="posts">
+            {ledger.byPost.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No post earnings yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Post</TableHead>
+                    <TableHead className="text-right">Payments</TableHead>
+                    <TableHead className="text-right">Earned</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.byPost.slice(0, BREAKDOWN_LIMIT).map(post => (
+                    <TableRow key={post.postId}>
+                      <TableCell>#{post.postId}</TableCell>
+                      <TableCell className="text-right">{post.count}</TableCell>
+                      <TableCell className="text-right">{formatEther(post.earnedWei)} ETH</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="replies">
+            {ledger.byReply.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No reply earnings yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reply</TableHead>
+                    <TableHead className="text-right">Payments</TableHead>
+                    <TableHead className="text-right">Earned</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.byReply.slice(0, BREAKDOWN_LIMIT).map(reply => (
+                    <TableRow key={`${reply.postId}:${reply.replyId}`}>
+                      <TableCell>#{reply.replyId} on post #{reply.postId}</TableCell>
+                      <TableCell className="text-right">{reply.count}</TableCell>
+                      <TableCell className="text-right">{formatEther(reply.earnedWei)} ETH</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="claims">
+            {ledger.claims.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No claims yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Claimed</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...ledger.claims].reverse().map(claim => (
+                    <TableRow key={claim.txHash}>
+                      <TableCell>{claim.timestamp.toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{formatEther(claim.amountWei)} ETH</TableCell>
+                      <TableCell className="text-right">{formatEther(claim.feeWei)} ETH</TableCell>
+                      <TableCell className="text-right">{formatEther(claim.payoutWei)} ETH</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Pencil } from "lucide-react";
+
+interface EditPostDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialContent: string;
+  isSaving: boolean;
+  onSave: (content: string) => Promise<boolean>;
+}
+
+export const EditPostDialog = ({ isOpen, onClose, initialContent, isSaving, onSave }: EditPostDialogProps) => {
+  const [content, setContent] = useState(initialContent);
+
+  useEffect(() => {
+    if (isOpen) {
+      setContent(initialContent);
+    }
+  }, [isOpen, initialContent]);
+
+  const isUnchanged = content.trim() === initialContent.trim();
+  const canSave = !isSaving && !!content.trim() && !isUnchanged;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const saved = await onSave(content);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5 text-primary" />
+            Edit Post
+          </DialogTitle>
+          <DialogDescription>
+            The new version is hashed on-chain next to the original. Earlier versions stay
+            visible in the post's edit history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={6}
+          disabled={isSaving}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save edit'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
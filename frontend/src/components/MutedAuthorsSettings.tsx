@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { useMutedAuthors } from '../hooks/useMutedAuthors';
+import type { MutedAuthor } from '../lib/storage';
+import { Loader2, VolumeX } from 'lucide-react';
+
+export function MutedAuthorsSettings() {
+  const { getMutedAuthors, unmuteAuthor, hasListAccess, authorizeList, isLoading } = useMutedAuthors();
+  const [mutedAuthors, setMutedAuthors] = useState<MutedAuthor[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(true);
+  const [needsAuthorization, setNeedsAuthorization] = useState(false);
+
+  const loadMutedAuthors = useCallback(async () => {
+    // Without a read grant the list would come back empty, so ask before showing anything
+    if (!hasListAccess()) {
+      setNeedsAuthorization(true);
+      setIsLoadingList(false);
+      return;
+    }
+
+    setNeedsAuthorization(false);
+    setIsLoadingList(true);
+    setMutedAuthors(await getMutedAuthors());
+    setIsLoadingList(false);
+  }, [getMutedAuthors, hasListAccess]);
+
+  useEffect(() => {
+    loadMutedAuthors();
+  }, [loadMutedAuthors]);
+
+  const handleAuthorize = async () => {
+    if (await authorizeList()) {
+      await loadMutedAuthors();
+    }
+  };
+
+  const handleUnmute = async (authorId: string) => {
+    if (await unmuteAuthor(authorId)) {
+      setMutedAuthors(prev => prev.filter(muted => muted.author_id !== authorId));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <VolumeX className="h-5 w-5" />
+          Muted & Blocked Authors
+        </CardTitle>
+        <CardDescription>
+          Authors stay anonymous: entries are their encrypted author IDs, not wallet addresses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoadingList ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : needsAuthorization ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Your list is private. Sign once with your wallet to view it on this device.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleAuthorize}>
+              Show my list
+            </Button>
+          </div>
+        ) : mutedAuthors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't muted anyone. Use the "..." menu on a post or reply to mute or block its author.
+          </p>
+        ) : (
+          mutedAuthors.map((muted) => (
+            <div key={muted.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div className="flex items-center gap-3 min-w-0">
+                <Badge variant={muted.kind === 'block' ? 'destructive' : 'secondary'}>
+                  {muted.kind === 'block' ? 'Blocked' : 'Muted'}
+                </Badge>
+                <span className="font-mono text-xs truncate">{muted.author_id.slice(0, 16)}...</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {new Date(muted.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUnmute(muted.author_id)}
+                disabled={isLoading}
+              >
+                {muted.kind === 'block' ? 'Unblock' : 'Unmute'}
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,10 +3,19 @@ import { useAccount } from 'wagmi';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { MessageSquare, User, Clock, Reply, Shield, Coins, Lock, Eye } from 'lucide-react';
+import { MessageSquare, User, Clock, Reply, Shield, Coins, Lock, Eye, ChevronDown, ChevronRight, CornerDownRight, KeyRound } from 'lucide-react';
 import { SimpleReplyForm } from './SimpleReplyForm';
-import { supabase } from '../lib/supabase';
+import { contentStorage, type MuteKind } from '../lib/storage';
+import { VentbuddyContract, getWalletClientFromWagmi } from '../lib/contract';
+import { contentEncryptionService } from '../lib/content-encryption';
 import { usePayments } from '../hooks/usePayments';
+import { useAuthorReveal } from '../hooks/useAuthorReveal';
+import { useDisplayName } from '../hooks/useUserProfile';
+import { useMutedAuthors } from '../hooks/useMutedAuthors';
+import { RevealIdentityButton } from './RevealIdentityButton';
+import { ReportDialog } from './ReportDialog';
+import { AuthorActionsMenu } from './AuthorActionsMenu';
+import { StrandedTipNotice } from './StrandedTipNotice';
 import { toast } from 'sonner';
 
 interface NestedReplyCardProps {
@@ -14,20 +23,28 @@ interface NestedReplyCardProps {
     id: string;
     raw_post_id: string;
     reply_id?: number;
-    parent_reply_id?: string;
+    onchain_reply_id?: number | null;
+    parent_reply_id?: string | null;
     author_id: string;
     content: string;
     encrypted_content?: string;
     encrypted_author_id?: string;
+    content_hash?: string;
+    preview_hash?: string;
     isEncrypted?: boolean;
     created_at: string;
     updated_at: string;
     children?: NestedReplyCardProps['reply'][];
+    descendantCount?: number;
+    hasHiddenReplies?: boolean;
     min_tip_amount?: number;
+    is_hidden?: boolean;
+    muted_as?: MuteKind;
   };
   rawPostId: string;
   onReplyCreated?: (replyData: any) => void;
   onReplyTipped?: (replyId: string, amount: number) => void;
+  onContinueThread?: (replyId: string) => void;
   depth?: number;
   className?: string;
 }
@@ -37,45 +54,49 @@ export function NestedReplyCard({
   rawPostId, 
   onReplyCreated, 
   onReplyTipped,
+  onContinueThread,
   depth = 0, 
   className 
 }: NestedReplyCardProps) {
   const { address } = useAccount();
-  const { tipReply, isLoading: isPaymentLoading } = usePayments();
+  const { tipReply, unlockTippableReply, isLoading: isPaymentLoading } = usePayments();
   const [showReplyForm, setShowReplyForm] = useState(false);
+  const [isCollapsed, setIsCollapsed] = useState(false);
   const [userEncryptedAddress, setUserEncryptedAddress] = useState<string | null>(null);
   const [isAuthor, setIsAuthor] = useState(false);
   const [tipAmount, setTipAmount] = useState<string>('0.001');
   
   const [isUnlocked, setIsUnlocked] = useState(false);
   const [accessInfo, setAccessInfo] = useState<{ hasAccess: boolean; reason: string } | null>(null);
+  const [revealedContent, setRevealedContent] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  const [isMutedReplyShown, setIsMutedReplyShown] = useState(false);
+  const { muteAuthor, isLoading: isMuting } = useMutedAuthors();
+  const isBlocked = reply.muted_as === 'block';
+  const isMutedCollapsed = reply.muted_as === 'mute' && !isMutedReplyShown;
   
   const isLocked = reply.min_tip_amount && reply.min_tip_amount > 0;
-  
-  const maxDepth = 3;
+  const descendantCount = reply.descendantCount ?? 0;
+  // Only replies registered through replyToPost exist on-chain, so only they can be tipped
+  const isAnchored = reply.onchain_reply_id !== undefined && reply.onchain_reply_id !== null;
+  const { revealedAuthor, isRevealing: isRevealingAuthor, revealAuthor } = useAuthorReveal({
+    rawPostId: parseInt(rawPostId),
+    replyId: isAnchored ? reply.onchain_reply_id : null,
+  });
+  const { displayName: revealedDisplayName } = useDisplayName(revealedAuthor ?? '');
 
-  const checkReplyAccess = useCallback(async (replyId: string) => {
-    if (!address || !replyId) return false;
+  // Access lives on-chain: an unlockTippableReply payment or a subscription to the replier
+  const checkReplyAccess = useCallback(async () => {
+    if (!address || !isAnchored) return false;
     
     try {
-      const { data: accessData, error } = await supabase
-        .from('access_log')
-        .select('*')
-        .eq('content_id', replyId)
-        .eq('content_type', 'reply')
-        .eq('user_address', address)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (error) {
-        return false;
-      }
-
-      return accessData && accessData.length > 0;
+      const contract = new VentbuddyContract();
+      return await contract.hasUnlockedReply(parseInt(rawPostId), reply.onchain_reply_id!, address);
     } catch (error) {
       return false;
     }
-  }, [address]);
+  }, [address, isAnchored, rawPostId, reply.onchain_reply_id]);
 
   // Combined effect to check author status and visibility access
   useEffect(() => {
@@ -87,27 +108,18 @@ export function NestedReplyCard({
       // First, check if user is the author (only if user is connected)
       if (address) {
         try {
-          const { data: userSession, error: sessionError } = await supabase
-            .from('user_sessions')
-            .select('encrypted_address')
-            .eq('wallet_address', address)
-            .maybeSingle();
+          const userSession = await contentStorage.getUserSession(address);
 
-          if (!sessionError && userSession?.encrypted_address) {
+          if (userSession?.encrypted_address) {
             setUserEncryptedAddress(userSession.encrypted_address);
 
-            // Query encrypted_replies table directly to get the replier_id
-            const { data: replyData, error: replyError } = await supabase
-              .from('encrypted_replies')
-              .select('replier_id')
-              .eq('id', reply.id)
-              .single();
+            const replyData = await contentStorage.getEncryptedReplyById(Number(reply.id));
 
-            if (!replyError && replyData) {
+            if (replyData) {
               // Compare current user's encrypted address with reply replier_id
               isReplyAuthor = userSession.encrypted_address === replyData.replier_id;
             } else {
-              console.warn('Failed to get reply author', { error: replyError?.message });
+              console.warn('Failed to get reply author', { replyId: reply.id });
             }
           }
         } catch (err) {
@@ -134,7 +146,7 @@ export function NestedReplyCard({
           }
           
           // Otherwise, check if they have paid access
-          const hasAccess = await checkReplyAccess(reply.id);
+          const hasAccess = await checkReplyAccess();
           if (hasAccess) {
             setIsUnlocked(true);
             setAccessInfo({ hasAccess: true, reason: 'unlock' });
@@ -158,6 +170,41 @@ export function NestedReplyCard({
     checkAuthorAndVisibility();
   }, [address, reply.id, isLocked, checkReplyAccess]);
   
+  const isContentVisible = !!isLocked && isUnlocked && revealedContent !== null;
+  useEffect(() => {
+    if (!isContentVisible || !userEncryptedAddress || !isAnchored) return;
+
+    contentStorage
+      .logAccess(reply.onchain_reply_id!, 'reply', userEncryptedAddress, 'view', 0, { rawPostId: parseInt(rawPostId) })
+      .catch((error) => console.warn('Failed to log reply view', error));
+  }, [isContentVisible, userEncryptedAddress, isAnchored, reply.onchain_reply_id, rawPostId]);
+
+  // Paywalled replies arrive without plaintext; the sealed key is only released to the
+  // replier or to wallets the contract reports as having unlocked the reply.
+  const revealLockedContent = useCallback(async () => {
+    if (!reply.encrypted_content || !isAnchored) {
+      toast.error('Content reference missing for this reply');
+      return;
+    }
+
+    setIsRevealing(true);
+    try {
+      const walletClient = await getWalletClientFromWagmi();
+      const plaintext = await contentEncryptionService.decryptLockedReplyContent(
+        reply.encrypted_content,
+        parseInt(rawPostId),
+        reply.onchain_reply_id!,
+        walletClient
+      );
+      setRevealedContent(plaintext);
+    } catch (error) {
+      console.error('Failed to decrypt locked reply', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to decrypt reply');
+    } finally {
+      setIsRevealing(false);
+    }
+  }, [reply.encrypted_content, reply.onchain_reply_id, isAnchored, rawPostId]);
+
   const formatAddress = (addr: string) => {
     if (addr.length > 42) {
       return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
@@ -166,6 +213,21 @@ export function NestedReplyCard({
   };
 
   const displayAddress = reply.encrypted_author_id || reply.author_id;
+  // Unrevealed replies only show the encrypted replier id
+  const authorLabel = !revealedAuthor
+    ? formatAddress(displayAddress)
+    : revealedDisplayName && revealedDisplayName !== 'Anon'
+      ? revealedDisplayName
+      : formatAddress(revealedAuthor);
+
+  const handleRevealAuthor = () => {
+    revealAuthor({
+      visibilityType: isLocked ? 1 : 0,
+      contentHash: reply.content_hash || '',
+      previewHash: reply.preview_hash || '',
+      supabaseId: reply.id,
+    });
+  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -188,8 +250,8 @@ export function NestedReplyCard({
       return;
     }
 
-    if (!reply.reply_id) {
-      toast.error('Reply ID not available for tipping');
+    if (!isAnchored) {
+      toast.error('This reply is not anchored on-chain and cannot be tipped');
       return;
     }
 
@@ -205,16 +267,18 @@ export function NestedReplyCard({
     }
 
     try {
-      const action = isLocked && !isUnlocked ? 'unlocking' : 'tipping';
+      const isUnlocking = isLocked && !isUnlocked;
 
-      const result = await tipReply(parseInt(rawPostId), reply.reply_id, amount);
+      const result = isUnlocking
+        ? await unlockTippableReply(parseInt(rawPostId), reply.onchain_reply_id!, amount)
+        : await tipReply(parseInt(rawPostId), reply.onchain_reply_id!, amount);
       
       if (result.success) {
         
-        if (isLocked && !isUnlocked) {
-          toast.success(`Successfully unlocked reply for ${amount} ETH!`);
+        if (isUnlocking) {
           setIsUnlocked(true);
           setAccessInfo({ hasAccess: true, reason: 'unlock' });
+          await revealLockedContent();
         } else {
           toast.success(`Successfully tipped ${amount} ETH to the reply author!`);
         }
@@ -251,7 +315,7 @@ export function NestedReplyCard({
                 <div>
                   <div className="flex items-center gap-2">
                     <p className="text-sm font-medium">
-                      {isAuthor ? 'You' : formatAddress(displayAddress)}
+                      {isAuthor ? 'You' : authorLabel}
                     </p>
                     {reply.isEncrypted && (
                       <Badge variant="secondary" className="text-xs">
@@ -259,6 +323,11 @@ export function NestedReplyCard({
                         Encrypted
                       </Badge>
                     )}
+                    {isAnchored && (
+                      <Badge variant="outline" className="text-xs">
+                        On-chain
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Clock className="h-3 w-3" />
@@ -273,8 +342,16 @@ export function NestedReplyCard({
                     Your Reply
                   </Badge>
                 )}
+
+                {isAuthor && isAnchored && !revealedAuthor && (
+                  <RevealIdentityButton
+                    contentType="reply"
+                    isRevealing={isRevealingAuthor}
+                    onReveal={handleRevealAuthor}
+                  />
+                )}
                 
-                {((!isAuthor && reply.reply_id) || (isLocked && !isUnlocked)) && (
+                {isAnchored && !reply.is_hidden && !isBlocked && (!isAuthor || (isLocked && !isUnlocked)) && (
                   <div className="flex items-center gap-1">
                     <input
                       type="number"
@@ -299,25 +376,65 @@ export function NestedReplyCard({
                   </div>
                 )}
                 
-                {depth < maxDepth && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setShowReplyForm(!showReplyForm)}
-                    className="text-xs text-muted-foreground hover:text-foreground"
-                  >
-                    <Reply className="h-3 w-3" />
-                    Reply
-                  </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowReplyForm(!showReplyForm)}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <Reply className="h-3 w-3" />
+                  Reply
+                </Button>
+
+                {address && !isAuthor && !reply.is_hidden && !reply.muted_as && (
+                  <AuthorActionsMenu
+                    contentType="reply"
+                    onReport={() => setIsReportDialogOpen(true)}
+                    onMute={(kind) => muteAuthor(reply.encrypted_author_id || reply.author_id, kind)}
+                    disabled={isMuting}
+                    compact
+                  />
                 )}
               </div>
             </div>
 
             <div className="pl-8">
-              <div className={`relative transition-all duration-500 ${!isUnlocked && isLocked ? 'filter blur-md' : ''}`}>
+              <div className={`relative transition-all duration-500 ${!isUnlocked && isLocked && !isMutedCollapsed ? 'filter blur-md' : ''}`}>
                 <p className="text-sm text-foreground leading-relaxed">
-                  {isUnlocked || !isLocked ? (
+                  {reply.is_hidden ? (
+                    <span className="text-muted-foreground italic">
+                      [This reply was hidden after reports]
+                    </span>
+                  ) : isBlocked ? (
+                    <span className="text-muted-foreground italic">
+                      [Reply from an author you blocked]
+                    </span>
+                  ) : isMutedCollapsed ? (
+                    <span className="text-muted-foreground italic">
+                      [Reply from an author you muted]{' '}
+                      <button
+                        type="button"
+                        onClick={() => setIsMutedReplyShown(true)}
+                        className="not-italic underline hover:text-foreground"
+                      >
+                        Show
+                      </button>
+                    </span>
+                  ) : !isLocked ? (
                     reply.content
+                  ) : isUnlocked && revealedContent !== null ? (
+                    revealedContent
+                  ) : isUnlocked ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={revealLockedContent}
+                      disabled={isRevealing}
+                      className="text-xs"
+                    >
+                      <KeyRound className="h-3 w-3" />
+                      {isRevealing ? 'Decrypting...' : 'Decrypt reply'}
+                    </Button>
                   ) : (
                     <span className="text-muted-foreground italic">
                       [Private reply - tip to unlock]
@@ -325,7 +442,7 @@ export function NestedReplyCard({
                   )}
                 </p>
                 
-                {!isUnlocked && isLocked && (
+                {!isUnlocked && isLocked && !isMutedCollapsed && (
                   <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-sm rounded-lg">
                     <div className="text-center">
                       <Coins className="h-6 w-6 mx-auto mb-2 text-purple-500" />
@@ -337,12 +454,26 @@ export function NestedReplyCard({
                   </div>
                 )}
               </div>
+
+              {address && !isAuthor && isAnchored && !reply.is_hidden && !isBlocked && (
+                <div className="mt-2">
+                  <StrandedTipNotice rawPostId={parseInt(rawPostId)} replyId={reply.onchain_reply_id!} />
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {showReplyForm && depth < maxDepth && (
+      {address && !isAuthor && (
+        <ReportDialog
+          isOpen={isReportDialogOpen}
+          onClose={() => setIsReportDialogOpen(false)}
+          target={{ contentType: 'reply', contentId: reply.id }}
+        />
+      )}
+
+      {showReplyForm && (
         <div className="ml-8">
           <SimpleReplyForm
             rawPostId={rawPostId}
@@ -353,7 +484,19 @@ export function NestedReplyCard({
         </div>
       )}
 
-      {reply.children && reply.children.length > 0 && (
+      {descendantCount > 0 && !reply.hasHiddenReplies && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className={`text-xs text-muted-foreground hover:text-foreground ${depth > 0 ? 'ml-4' : ''}`}
+        >
+          {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          {isCollapsed ? 'Show' : 'Hide'} {descendantCount} {descendantCount === 1 ? 'reply' : 'replies'}
+        </Button>
+      )}
+
+      {!isCollapsed && reply.children && reply.children.length > 0 && (
         <div className="space-y-3">
           {reply.children.map((childReply) => (
             <NestedReplyCard
@@ -361,11 +504,25 @@ export function NestedReplyCard({
               reply={childReply}
               rawPostId={rawPostId}
               onReplyCreated={onReplyCreated}
+              onReplyTipped={onReplyTipped}
+              onContinueThread={onContinueThread}
               depth={depth + 1}
             />
           ))}
         </div>
       )}
+
+      {reply.hasHiddenReplies && onContinueThread && (
+        <Button
+          variant="link"
+          size="sm"
+          onClick={() => onContinueThread(reply.id)}
+          className="ml-8 text-xs"
+        >
+          <CornerDownRight className="h-3 w-3" />
+          Continue this thread ({descendantCount} more {descendantCount === 1 ? 'reply' : 'replies'})
+        </Button>
+      )}
     </div>
   );
 }
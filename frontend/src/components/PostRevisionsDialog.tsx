@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, CheckCircle2, History, KeyRound, Loader2 } from "lucide-react";
+import { usePostRevisions, type RevisionStatus, type VerifiedRevision } from "@/hooks/usePostRevisions";
+
+interface PostRevisionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rawPostId: number;
+}
+
+const STATUS_BADGES: Record<RevisionStatus, { label: string; className: string }> = {
+  verified: { label: 'Matches on-chain hash', className: 'border-green-500/50 text-green-400' },
+  mismatch: { label: 'Hash mismatch', className: 'border-red-500/50 text-red-400' },
+  locked: { label: 'Locked', className: 'border-purple-500/50 text-purple-400' },
+  missing: { label: 'Content missing', className: 'border-yellow-500/50 text-yellow-400' },
+};
+
+export const PostRevisionsDialog = ({ isOpen, onClose, rawPostId }: PostRevisionsDialogProps) => {
+  const { loadRevisions, decryptRevision, isLoading } = usePostRevisions();
+  const [revisions, setRevisions] = useState<VerifiedRevision[]>([]);
+  const [decryptingRevision, setDecryptingRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    loadRevisions(rawPostId).then((loaded) => {
+      if (!cancelled) setRevisions(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, rawPostId, loadRevisions]);
+
+  const handleDecrypt = async (revision: VerifiedRevision) => {
+    setDecryptingRevision(revision.revision);
+    const decrypted = await decryptRevision(rawPostId, revision);
+    setRevisions((current) => current.map((item) => (item.revision === decrypted.revision ? decrypted : item)));
+    setDecryptingRevision(null);
+  };
+
+  // Newest first, so the version shown on the card is at the top
+  const ordered = [...revisions].reverse();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Edit History
+          </DialogTitle>
+          <DialogDescription>
+            Each version is hashed and checked against the hash anchored on-chain when it was written.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && revisions.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-3">
+              {ordered.map((revision, index) => (
+                <div key={revision.revision} className="rounded-md border border-border/50 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm font-medium">
+                      {revision.revision === 0 ? 'Original' : `Edit ${revision.revision}`}
+                      {index === 0 && <span className="text-muted-foreground font-normal"> · current</span>}
+                    </div>
+                    <Badge variant="outline" className={`text-xs ${STATUS_BADGES[revision.status].className}`}>
+                      {revision.status === 'verified'
+                        ? <CheckCircle2 className="h-3 w-3 mr-1" />
+                        : <AlertCircle className="h-3 w-3 mr-1" />}
+                      {STATUS_BADGES[revision.status].label}
+                    </Badge>
+                  </div>
+
+                  {revision.editedAt && (
+                    <p className="text-xs text-muted-foreground">{revision.editedAt.toLocaleString()}</p>
+                  )}
+
+                  {revision.content !== null ? (
+                    <p className="text-sm whitespace-pre-wrap">{revision.content}</p>
+                  ) : revision.status === 'locked' ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDecrypt(revision)}
+                      disabled={decryptingRevision !== null}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                      {decryptingRevision === revision.revision ? 'Decrypting...' : 'Decrypt version'}
+                    </Button>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">This version could not be loaded.</p>
+                  )}
+
+                  <p className="text-xs text-muted-foreground font-mono break-all">
+                    {revision.onchainContentHash}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,13 @@
+import { useState } from "react";
+import { formatEther } from "viem";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Lock } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Crown, Lock } from "lucide-react";
+import { usePayments } from "@/hooks/usePayments";
+import { useCreatorSubscription } from "@/hooks/useCreatorSubscription";
 
 interface PremiumModalProps {
   isOpen: boolean;
@@ -8,33 +15,111 @@ interface PremiumModalProps {
   creatorId: string;
   creatorName: string;
   creatorAvatar?: string;
+  onSubscribed?: (expiresAt: Date) => void;
 }
 
-export const PremiumModal = ({ isOpen, onClose, creatorId, creatorName, creatorAvatar }: PremiumModalProps) => {
+const SUBSCRIPTION_LENGTHS = [1, 3, 6, 12];
+
+export const PremiumModal = ({ isOpen, onClose, creatorId, creatorName, creatorAvatar, onSubscribed }: PremiumModalProps) => {
+  const { subscribeToCreator, isLoading: isSubscribing } = usePayments();
+  const {
+    pricePerMonthWei,
+    expiresAt,
+    isActive,
+    isLoading,
+    refresh,
+  } = useCreatorSubscription(isOpen ? creatorId : undefined);
+  const [months, setMonths] = useState("1");
+
+  const totalWei = pricePerMonthWei * BigInt(months);
+  const isEnabled = pricePerMonthWei > 0n;
+
+  const handleSubscribe = async () => {
+    const result = await subscribeToCreator(creatorId, parseInt(months, 10), pricePerMonthWei);
+    if (result.success && result.expiresAt) {
+      await refresh();
+      onSubscribed?.(result.expiresAt);
+      onClose();
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <Lock className="h-5 w-5 text-primary" />
-            Premium Content
+            <Crown className="h-5 w-5 text-premium" />
+            Subscribe to {creatorName}
           </DialogTitle>
           <DialogDescription>
-            Subscription functionality is currently unavailable.
+            Subscribers can read all of this creator's tippable posts while the subscription is active.
           </DialogDescription>
         </DialogHeader>
-        
-        <div className="text-center py-6">
-          <div className="text-muted-foreground mb-4">
-            <p>Premium subscriptions are temporarily disabled.</p>
-            <p className="text-sm mt-2">Please check back later for updates.</p>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-3">
+            <Avatar className="h-10 w-10">
+              {creatorAvatar && <AvatarImage src={creatorAvatar} alt={creatorName} />}
+              <AvatarFallback>{creatorName.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div>
+              <p className="font-medium">{creatorName}</p>
+              <p className="text-sm text-muted-foreground">
+                {isLoading
+                  ? 'Loading price...'
+                  : isEnabled
+                    ? `${formatEther(pricePerMonthWei)} ETH / month`
+                    : 'Subscriptions not enabled'}
+              </p>
+            </div>
           </div>
-          
-          <Button onClick={onClose} className="w-full">
-            Close
-          </Button>
+
+          {isActive && expiresAt && (
+            <div className="rounded-md border border-border/50 p-3 text-sm">
+              Your subscription is active until{' '}
+              <span className="font-medium">{expiresAt.toLocaleDateString()}</span>.
+              Renewing adds time on top of it.
+            </div>
+          )}
+
+          {isEnabled ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="subscriptionLength">Length</Label>
+                <Select value={months} onValueChange={setMonths}>
+                  <SelectTrigger id="subscriptionLength">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUBSCRIPTION_LENGTHS.map((length) => (
+                      <SelectItem key={length} value={length.toString()}>
+                        {length} {length === 1 ? 'month' : 'months'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button
+                onClick={handleSubscribe}
+                className="w-full"
+                disabled={isSubscribing || isLoading}
+              >
+                {isSubscribing
+                  ? 'Confirming...'
+                  : `${isActive ? 'Renew' : 'Subscribe'} for ${formatEther(totalWei)} ETH`}
+              </Button>
+            </>
+          ) : (
+            !isLoading && (
+              <div className="text-center text-muted-foreground py-4">
+                <Lock className="h-6 w-6 mx-auto mb-2" />
+                <p className="text-sm">This creator hasn't enabled subscriptions yet.</p>
+              </div>
+            )
+          )}
         </div>
       </DialogContent>
     </Dialog>
   );
-};
\ No newline at end of file
+};
@@ -13,23 +13,28 @@ import {
   User,
   TrendingUp,
   UserPlus,
-  CheckCircle
+  CheckCircle,
+  TriangleAlert,
+  VolumeX
 } from 'lucide-react';
 import { useRegistrationStatus } from '@/hooks/useContract';
 import { CreatorEarnings } from '@/components/CreatorEarnings';
 import { UsernameSettings } from './UsernameSettings';
+import { ContentWarningSettings } from './ContentWarningSettings';
+import { MutedAuthorsSettings } from './MutedAuthorsSettings';
 import { EnhancedRegistrationModal } from '@/components/EnhancedRegistrationModal';
 import { ProfileCardSkeleton } from './ProfileCardSkeleton';
 import { toast } from 'sonner';
+import { activeDeployment } from '@/lib/deployments';
 import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
+import { contentStorage, type AccessLog, type PostEngagement } from '@/lib/storage';
 
 export function ProfileCard() {
   const log = useLogger('ProfileCard');
   const { address, isConnected, connector } = useAccount();
   const { isRegistered } = useRegistrationStatus();
   
-  const [activeTab, setActiveTab] = useState<'profile' | 'earnings' | 'username'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'earnings' | 'username' | 'warnings' | 'muted'>('profile');
   const [accountStats, setAccountStats] = useState({
     postsCreated: 0,
     ethEarned: 0,
@@ -51,17 +56,7 @@ export function ProfileCard() {
       try {
         log.info('Fetching account stats', { address });
 
-        const { data: userSession, error: sessionError } = await supabase
-          .from('user_sessions')
-          .select('encrypted_address')
-          .eq('wallet_address', address)
-          .maybeSingle();
-
-        if (sessionError) {
-          log.error('Error fetching user session', sessionError);
-          setIsLoadingStats(false);
-          return;
-        }
+        const userSession = await contentStorage.getUserSession(address);
 
         const encryptedAddress = userSession?.encrypted_address;
         if (!encryptedAddress) {
@@ -77,41 +72,26 @@ export function ProfileCard() {
           return;
         }
 
-        const { data: postsData, error: postsError } = await supabase
-          .from('encrypted_content')
-          .select('id')
-          .eq('author_id', encryptedAddress);
-
-        if (postsError) {
-          log.error('Error fetching posts', postsError);
-        }
-
-        const { data: tipData, error: tipError } = await supabase
-          .from('access_logs')
-          .select('amount_wei')
-          .eq('user_encrypted_id', encryptedAddress)
-          .eq('access_type', 'tip');
-
-        if (tipError) {
-          log.error('Error fetching tip data', tipError);
-        }
-
-
-        const { data: postEngagementData, error: postEngagementError } = await supabase
-          .from('post_engagement')
-          .select('engagement_type')
-          .eq('user_encrypted_id', encryptedAddress);
-
-        if (postEngagementError) {
-          log.error('Error fetching post engagement data', postEngagementError);
-        }
-
-        const postsCreated = postsData?.length || 0;
-        const ethEarned = tipData?.reduce((sum, tip) => sum + (tip.amount_wei || 0), 0) || 0;
-        const tipsReceived = tipData?.length || 0;
+        const [postsCreated, tipData, postEngagementData] = await Promise.all([
+          contentStorage.countContentByAuthor(encryptedAddress).catch(error => {
+            log.error('Error fetching posts', error);
+            return 0;
+          }),
+          contentStorage.getCreatorEarningLogs(address).catch((error): AccessLog[] => {
+            log.error('Error fetching tip data', error);
+            return [];
+          }),
+          contentStorage.getUserEngagement(encryptedAddress).catch((error): PostEngagement[] => {
+            log.error('Error fetching post engagement data', error);
+            return [];
+          }),
+        ]);
+
+        const ethEarned = tipData.reduce((sum, tip) => sum + Number(tip.amount_wei || 0), 0);
+        const tipsReceived = tipData.length;
         
-        const totalUpvotes = postEngagementData?.filter(engagement => engagement.engagement_type === 'upvote').length || 0;
-        const totalDownvotes = postEngagementData?.filter(engagement => engagement.engagement_type === 'downvote').length || 0;
+        const totalUpvotes = postEngagementData.filter(engagement => engagement.engagement_type === 'upvote').length;
+        const totalDownvotes = postEngagementData.filter(engagement => engagement.engagement_type === 'downvote').length;
 
         setAccountStats({
           postsCreated,
@@ -148,8 +128,8 @@ export function ProfileCard() {
   };
 
   const openExplorer = () => {
-    if (address) {
-      window.open(`https://sepolia.etherscan.io/address/${address}`, '_blank');
+    if (address && activeDeployment.blockExplorerUrl) {
+      window.open(`${activeDeployment.blockExplorerUrl}/address/${address}`, '_blank');
     }
   };
 
@@ -224,6 +204,24 @@ export function ProfileCard() {
           <TrendingUp className="h-4 w-4" />
           Earnings
         </Button>
+        <Button
+          variant={activeTab === 'warnings' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('warnings')}
+          className="flex items-center gap-2"
+        >
+          <TriangleAlert className="h-4 w-4" />
+          Content Warnings
+        </Button>
+        <Button
+          variant={activeTab === 'muted' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('muted')}
+          className="flex items-center gap-2"
+        >
+          <VolumeX className="h-4 w-4" />
+          Muted
+        </Button>
       </div>
 
       {activeTab === 'profile' && (
@@ -256,7 +254,7 @@ export function ProfileCard() {
                 {formatAddress(address)}
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                Sepolia Testnet
+                {activeDeployment.name}
               </p>
               <div className="flex items-center gap-1 mt-2">
                 {isRegistered === true ? (
@@ -419,6 +417,14 @@ export function ProfileCard() {
         />
       )}
 
+      {activeTab === 'warnings' && (
+        <ContentWarningSettings />
+      )}
+
+      {activeTab === 'muted' && (
+        <MutedAuthorsSettings />
+      )}
+
       {address && (
         <EnhancedRegistrationModal
           isOpen={showRegistrationModal}
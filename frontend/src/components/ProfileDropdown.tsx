@@ -25,6 +25,7 @@ import {
 import { useWallet, useRegistrationStatus } from '@/hooks/useContract';
 import { EnhancedRegistrationModal } from '@/components/EnhancedRegistrationModal';
 import { toast } from 'sonner';
+import { activeDeployment } from '@/lib/deployments';
 
 export function ProfileDropdown() {
   const { address, isConnected, connector } = useAccount();
@@ -41,8 +42,8 @@ export function ProfileDropdown() {
   };
 
   const openExplorer = () => {
-    if (address) {
-      window.open(`https://sepolia.etherscan.io/address/${address}`, '_blank');
+    if (address && activeDeployment.blockExplorerUrl) {
+      window.open(`${activeDeployment.blockExplorerUrl}/address/${address}`, '_blank');
     }
   };
 
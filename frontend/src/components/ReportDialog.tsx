@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Flag, Loader2 } from "lucide-react";
+import { useModeration } from "@/hooks/useModeration";
+import { REPORT_REASONS, type ModerationTarget, type ReportReason } from "@/lib/moderation";
+
+interface ReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: ModerationTarget;
+}
+
+export const ReportDialog = ({ isOpen, onClose, target }: ReportDialogProps) => {
+  const { reportContent, isLoading } = useModeration();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setDetails('');
+    }
+  }, [isOpen]);
+
+  const canSubmit = !isLoading && !!reason && (reason !== 'other' || !!details.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !reason) return;
+
+    const sent = await reportContent(target, reason, details);
+    if (sent) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-primary" />
+            Report {target.contentType}
+          </DialogTitle>
+          <DialogDescription>
+            Reports are anonymous. Content reported by several people is hidden until a moderator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} disabled={isLoading}>
+          {REPORT_REASONS.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`report-${option.value}`} className="mt-1" />
+              <Label htmlFor={`report-${option.value}`} className="font-normal cursor-pointer">
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={reason === 'other' ? 'What is wrong with this content?' : 'Anything else moderators should know (optional)'}
+          rows={3}
+          maxLength={500}
+          disabled={isLoading}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Send report'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { UserCheck } from "lucide-react";
+
+interface RevealIdentityButtonProps {
+  contentType: 'post' | 'reply';
+  isRevealing: boolean;
+  onReveal: () => void;
+}
+
+// Revealing cannot be undone on-chain, so the action always asks for confirmation first
+export const RevealIdentityButton = ({ contentType, isRevealing, onReveal }: RevealIdentityButtonProps) => {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isRevealing}
+          className="text-xs text-muted-foreground hover:text-foreground"
+        >
+          <UserCheck className="h-3 w-3" />
+          {isRevealing ? 'Revealing...' : 'Reveal identity'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reveal your identity on this {contentType}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your wallet address is published on-chain as the author of this {contentType}, and
+            your profile name is shown instead of "Anon". This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Stay anonymous</AlertDialogCancel>
+          <AlertDialogAction onClick={onReveal}>Reveal identity</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
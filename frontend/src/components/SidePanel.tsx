@@ -11,42 +11,52 @@ import {
 } from "lucide-react";
 import { PremiumModal } from "./PremiumModal";
 import { useState } from "react";
+import { useTrendingTags } from "@/hooks/useTrendingTags";
+import { formatTag, TRENDING_WINDOW_HOURS } from "@/lib/hashtags";
+import { cn } from "@/lib/utils";
 
-export const SidePanel = () => {
+interface SidePanelProps {
+  activeTag?: string | null;
+  onTagSelect?: (tag: string | null) => void;
+}
+
+export const SidePanel = ({ activeTag = null, onTagSelect }: SidePanelProps) => {
+  const { tags: trendingTags, isLoading: isTrendingLoading } = useTrendingTags();
   const [isSubscriptionModalOpen, setIsSubscriptionModalOpen] = useState(false);
   const [selectedCreator, setSelectedCreator] = useState<{id: string, name: string} | null>(null);  
 
   return (
     <div className="space-y-6">
-      <Card className="bg-background border-border/50  relative">
-        <div className="absolute top-2 right-2 z-10">
-          <Badge variant="outline" className="text-xs px-2 py-1 bg-background/90">
-            Coming Soon
-          </Badge>
-        </div>
+      <Card className="bg-background border-border/50 relative">
         <CardHeader className="pb-3">
           <CardTitle className="flex items-center gap-2 text-lg">
             <TrendingUp className="h-5 w-5 text-primary" />
             Trending
           </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Last {TRENDING_WINDOW_HOURS} hours
+          </p>
         </CardHeader>
         <CardContent className="space-y-3">
-          <div className="flex items-center justify-between">
-            <span className="text-sm">#WorkStress</span>
-            <Badge variant="secondary">142</Badge>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-sm">#Relationships</span>
-            <Badge variant="secondary">89</Badge>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-sm">#MentalHealth</span>
-            <Badge variant="secondary">76</Badge>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-sm">#Anonymous</span>
-            <Badge variant="secondary">234</Badge>
-          </div>
+          {trendingTags.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {isTrendingLoading ? 'Loading trends...' : 'No trending tags yet'}
+            </p>
+          )}
+          {trendingTags.map((trend) => (
+            <button
+              key={trend.tag}
+              type="button"
+              onClick={() => onTagSelect?.(activeTag === trend.tag ? null : trend.tag)}
+              className={cn(
+                "flex w-full items-center justify-between rounded-md px-2 py-1 -mx-2 text-left transition-colors hover:bg-muted",
+                activeTag === trend.tag && "bg-muted text-primary"
+              )}
+            >
+              <span className="text-sm">{formatTag(trend.tag)}</span>
+              <Badge variant="secondary">{trend.post_count}</Badge>
+            </button>
+          ))}
         </CardContent>
       </Card>
 
@@ -6,10 +6,13 @@ import {
   Plus, 
   User, 
   LogOut,
-  Wallet
+  Wallet,
+  ShieldAlert
 } from 'lucide-react';
 import { useAccount } from 'wagmi';
+import { Link } from 'react-router-dom';
 import { useWallet } from '@/hooks/useContract';
+import { moderationService } from '@/lib/moderation';
 
 interface SidebarProps {
   activeTab: string;
@@ -87,6 +90,18 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
             </Button>
           );
         })}
+
+        {moderationService.isModerator(address) && (
+          <Button asChild variant="ghost" className="w-full justify-start gap-3 h-12 hover:bg-muted">
+            <Link to="/moderation">
+              <ShieldAlert className="h-5 w-5" />
+              <div className="flex flex-col items-start">
+                <span className="font-medium">Moderation</span>
+                <span className="text-xs opacity-70">Review reported content</span>
+              </div>
+            </Link>
+          </Button>
+        )}
       </div>
 
       {isConnected && address && (
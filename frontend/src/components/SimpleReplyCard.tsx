@@ -3,7 +3,7 @@ import { useAccount } from 'wagmi';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { MessageSquare, User, Clock, Shield } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { contentStorage } from '../lib/storage';
 
 interface SimpleReplyCardProps {
   reply: {
@@ -30,11 +30,7 @@ export function SimpleReplyCard({ reply, className }: SimpleReplyCardProps) {
       if (!address) return;
       
       try {
-        const { data: userSession, error } = await supabase
-          .from('user_sessions')
-          .select('encrypted_address')
-          .eq('wallet_address', address)
-          .maybeSingle();
+        const userSession = await contentStorage.getUserSession(address);
 
         if (userSession?.encrypted_address) {
           setUserEncryptedAddress(userSession.encrypted_address);
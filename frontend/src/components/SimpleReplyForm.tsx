@@ -1,11 +1,17 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useAccount } from 'wagmi';
+import { parseEther } from 'viem';
 import { useSimpleReplies } from '../hooks/useSimpleReplies';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
 import { Alert, AlertDescription } from './ui/alert';
 import { Loader2, MessageSquare, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { detectCrisisLanguage } from '../lib/crisis-detection';
+import { SupportResourcesPanel } from './SupportResourcesPanel';
 
 interface SimpleReplyFormProps {
   rawPostId: string;
@@ -20,7 +26,11 @@ export function SimpleReplyForm({ rawPostId, parentReplyId, onReplyCreated, onCa
   const { createReply, isLoading, error } = useSimpleReplies();
   
   const [content, setContent] = useState('');
+  const [anchorOnChain, setAnchorOnChain] = useState(false);
+  const [isPaywalled, setIsPaywalled] = useState(false);
+  const [minTipAmount, setMinTipAmount] = useState('0.001');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const crisisDetection = useMemo(() => detectCrisisLanguage(content), [content]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,20 +45,36 @@ export function SimpleReplyForm({ rawPostId, parentReplyId, onReplyCreated, onCa
       return;
     }
 
+    let minTipAmountWei: bigint | undefined;
+    if (isPaywalled) {
+      try {
+        minTipAmountWei = parseEther(minTipAmount.trim());
+      } catch {
+        minTipAmountWei = 0n;
+      }
+      if (minTipAmountWei <= 0n) {
+        toast.error('Please enter a valid minimum tip for the paywalled reply');
+        return;
+      }
+    }
+
     setIsSubmitting(true);
 
     try {
       console.log('🚀 Submitting encrypted reply:', {
         rawPostId,
         parentReplyId,
+        anchorOnChain,
+        isPaywalled,
         content: content.substring(0, 50) + '...'
       });
 
-      const result = await createReply(rawPostId, content, parentReplyId);
+      const result = await createReply(rawPostId, content, parentReplyId, { anchorOnChain, minTipAmountWei });
       
       console.log('✅ Encrypted reply created successfully:', result);
       
       setContent('');
+      setIsPaywalled(false);
       
       if (onReplyCreated) {
         onReplyCreated(result);
@@ -93,6 +119,45 @@ export function SimpleReplyForm({ rawPostId, parentReplyId, onReplyCreated, onCa
           />
         </div>
 
+        {crisisDetection.detected && <SupportResourcesPanel />}
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`anchorReply-${parentReplyId || rawPostId}`}
+            checked={anchorOnChain || isPaywalled}
+            onCheckedChange={setAnchorOnChain}
+            disabled={isSubmitting || isPaywalled}
+          />
+          <Label htmlFor={`anchorReply-${parentReplyId || rawPostId}`} className="text-xs text-muted-foreground">
+            Anchor on-chain so this reply can receive tips (requires a transaction)
+          </Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`paywallReply-${parentReplyId || rawPostId}`}
+            checked={isPaywalled}
+            onCheckedChange={setIsPaywalled}
+            disabled={isSubmitting}
+          />
+          <Label htmlFor={`paywallReply-${parentReplyId || rawPostId}`} className="text-xs text-muted-foreground">
+            Paywall this reply behind a minimum tip
+          </Label>
+          {isPaywalled && (
+            <Input
+              type="number"
+              step="0.001"
+              min="0"
+              value={minTipAmount}
+              onChange={(e) => setMinTipAmount(e.target.value)}
+              className="h-7 w-24 text-xs"
+              disabled={isSubmitting}
+              aria-label="Minimum tip in ETH"
+            />
+          )}
+          {isPaywalled && <span className="text-xs text-muted-foreground">ETH</span>}
+        </div>
+
         <div className="flex items-center justify-between">
           <div className="text-xs text-muted-foreground">
             {content.length}/500 characters
@@ -118,7 +183,7 @@ export function SimpleReplyForm({ rawPostId, parentReplyId, onReplyCreated, onCa
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Posting...
+                  {anchorOnChain || isPaywalled ? 'Anchoring...' : 'Posting...'}
                 </>
               ) : (
                 <>
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { formatEther } from "viem";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { TriangleAlert, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { VentbuddyContract, getWalletClientFromWagmi, publicClient } from "@/lib/contract";
+
+interface StrandedTipNoticeProps {
+  rawPostId: number;
+  // On-chain reply id; omit for the post itself
+  replyId?: number;
+}
+
+// Warns before tipping an author whose encrypted id no longer resolves, and lets the viewer take back
+// a tip of theirs that the contract is holding once the refund delay has passed
+export const StrandedTipNotice = ({ rawPostId, replyId }: StrandedTipNoticeProps) => {
+  const { address } = useAccount();
+  const [authorUnmapped, setAuthorUnmapped] = useState(false);
+  const [strandedTip, setStrandedTip] = useState<{ amount: bigint; refundableAt: number } | null>(null);
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    const contract = new VentbuddyContract();
+    const [mapped, tip] = await Promise.all([
+      contract.isAuthorMapped(rawPostId, replyId),
+      address ? contract.getStrandedTip(rawPostId, address, replyId) : Promise.resolve(null),
+    ]);
+
+    return { unmapped: !mapped, tip: tip && tip.amount > 0n ? tip : null };
+  }, [address, rawPostId, replyId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadStatus()
+      .then(({ unmapped, tip }) => {
+        if (cancelled) return;
+        setAuthorUnmapped(unmapped);
+        setStrandedTip(tip);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setAuthorUnmapped(false);
+        setStrandedTip(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadStatus]);
+
+  const handleRefund = async () => {
+    setIsRefunding(true);
+
+    try {
+      const walletClient = await getWalletClientFromWagmi();
+      const txHash = await new VentbuddyContract(walletClient).refundStrandedTip(rawPostId, replyId);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+      if (receipt.status !== 'success') {
+        throw new Error('Refund transaction reverted');
+      }
+
+      toast.success(`Refunded ${formatEther(strandedTip!.amount)} ETH to your wallet`);
+      const { unmapped, tip } = await loadStatus();
+      setAuthorUnmapped(unmapped);
+      setStrandedTip(tip);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to refund tip');
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  if (!authorUnmapped && !strandedTip) {
+    return null;
+  }
+
+  const refundableAt = strandedTip ? new Date(strandedTip.refundableAt * 1000) : null;
+  const canRefund = !!refundableAt && refundableAt.getTime() <= Date.now();
+
+  return (
+    <Alert variant="destructive">
+      <TriangleAlert className="h-4 w-4" />
+      <AlertDescription className="text-xs space-y-2">
+        {authorUnmapped && (
+          <p>
+            This creator's wallet link is currently broken, so your tip will be held by the contract instead of
+            reaching them. They can collect it once they restore the link; if they don't, you can reclaim it
+            30 days after tipping.
+          </p>
+        )}
+        {strandedTip && (
+          <div className="flex items-center justify-between gap-2">
+            <span>
+              {formatEther(strandedTip.amount)} ETH of your tips is held here.{' '}
+              {canRefund ? 'You can take it back now.' : `You can take it back from ${refundableAt!.toLocaleDateString()}.`}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefund}
+              disabled={!canRefund || isRefunding}
+              className="text-xs shrink-0"
+            >
+              <Undo2 className="h-3 w-3" />
+              {isRefunding ? 'Refunding...' : 'Refund'}
+            </Button>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,42 @@
+import { useMemo, type ReactNode } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { HeartHandshake } from "lucide-react";
+import { getSupportResources } from "@/lib/crisis-detection";
+
+interface SupportResourcesPanelProps {
+  children?: ReactNode;
+}
+
+// Shown beside the compose box when crisis language is detected; it never blocks posting
+export const SupportResourcesPanel = ({ children }: SupportResourcesPanelProps) => {
+  const resources = useMemo(() => getSupportResources(), []);
+
+  return (
+    <Alert className="border-primary/40 bg-primary/5">
+      <HeartHandshake className="h-4 w-4" />
+      <AlertTitle>You don't have to go through this alone</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p className="text-sm">
+          If you are thinking about ending your life or hurting yourself, people are ready to
+          listen right now, for free and in confidence. You can still post whenever you want.
+        </p>
+        <ul className="space-y-1 text-sm">
+          {resources.map((resource) => (
+            <li key={resource.name}>
+              {resource.url ? (
+                <a href={resource.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                  {resource.name}
+                </a>
+              ) : (
+                <span className="font-medium">{resource.name}</span>
+              )}
+              <span className="text-muted-foreground"> · {resource.contact}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-muted-foreground">If you are in immediate danger, call your local emergency number.</p>
+        {children}
+      </AlertDescription>
+    </Alert>
+  );
+};
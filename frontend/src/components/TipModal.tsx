@@ -10,6 +10,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Lock, Unlock, Coins } from "lucide-react";
 import { useState } from "react";
+import { StrandedTipNotice } from "./StrandedTipNotice";
 
 interface TipModalProps {
   isOpen: boolean;
@@ -17,9 +18,11 @@ interface TipModalProps {
   onTip: (amount: number) => void;
   author: string;
   isUnlock?: boolean; 
+  rawPostId?: number;
+  replyId?: number;
 }
 
-export const TipModal = ({ isOpen, onClose, onTip, author, isUnlock = false }: TipModalProps) => {
+export const TipModal = ({ isOpen, onClose, onTip, author, isUnlock = false, rawPostId, replyId }: TipModalProps) => {
   const [selectedAmount, setSelectedAmount] = useState(0.01); 
   const tipAmounts = [0.001, 0.01, 0.05, 0.1, 0.5]; 
 
@@ -55,6 +58,7 @@ export const TipModal = ({ isOpen, onClose, onTip, author, isUnlock = false }: T
           </DialogHeader>
 
           <div className="space-y-4">
+            {isOpen && rawPostId && <StrandedTipNotice rawPostId={rawPostId} replyId={replyId} />}
             
             <div className="p-4 rounded-lg bg-background/50 border border-border/50">
               <div className="flex items-center gap-2 mb-2">
@@ -1,19 +1,37 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
-import { Lock, MessageCircle, Coins, Eye, Shield, AlertCircle, ThumbsUp, ThumbsDown, Share2 } from "lucide-react";
-import React, { useState, useEffect, useCallback } from "react";
+import { Lock, MessageCircle, Coins, Eye, Shield, AlertCircle, ThumbsUp, ThumbsDown, Share2, KeyRound, Pencil, History, SlidersHorizontal, TriangleAlert } from "lucide-react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useAccount } from "wagmi";
+import type { Address } from "viem";
 import { usePayments } from "@/hooks/usePayments";
 import { useDisplayName } from "@/hooks/useUserProfile";
 import { useEngagement } from "@/hooks/useEngagement";
 import { useLogger } from "@/hooks/useLogger";
+import { useAuthorReveal } from "@/hooks/useAuthorReveal";
+import { usePostRevisions } from "@/hooks/usePostRevisions";
+import { usePostVisibilityUpdate } from "@/hooks/usePostVisibilityUpdate";
+import { useContentWarningPreferences } from "@/hooks/useContentWarningPreferences";
+import { useMutedAuthors } from "@/hooks/useMutedAuthors";
 import { toast } from "sonner";
 import { TipModal } from "./TipModal";
+import { StrandedTipNotice } from "./StrandedTipNotice";
+import { RevealIdentityButton } from "./RevealIdentityButton";
+import { DeletePostButton } from "./DeletePostButton";
+import { EditPostDialog } from "./EditPostDialog";
+import { PostRevisionsDialog } from "./PostRevisionsDialog";
+import { VisibilitySettingsDialog } from "./VisibilitySettingsDialog";
+import { ReportDialog } from "./ReportDialog";
+import { AuthorActionsMenu } from "./AuthorActionsMenu";
 import { SimpleReplyForm } from "./SimpleReplyForm";
 import { NestedReplyCard } from "./NestedReplyCard";
 import { useSimpleReplies } from "../hooks/useSimpleReplies";
-import { supabase } from "../lib/supabase";
+import { contentStorage, MUTED_AUTHORS_EVENT, type MuteKind } from "../lib/storage";
+import { VentbuddyContract, getWalletClientFromWagmi } from "../lib/contract";
+import { contentEncryptionService } from "../lib/content-encryption";
+import { buildReplyTree } from "../lib/reply-tree";
+import { contentWarningLabel, resolveContentWarnings } from "../lib/content-warnings";
 
 interface VentCardProps {
   rawPostId: number; // Primary identifier - Plain uint64 post ID from smart contract
@@ -36,16 +54,17 @@ interface VentCardProps {
   visibility?: number; // 0 = Public, 1 = Tippable
   visibilityEvent?: any; // Full visibility event data from Supabase
   supabaseId?: string; // Supabase ID for engagement operations (fallback only)
+  revisionCount?: number; // Number of edits anchored on-chain after the original
+  contentWarnings?: string[]; // Author-chosen labels; the content stays covered until the reader opts in
 }
 
 export const VentCard = ({ 
   rawPostId,
-  author, 
   content, 
   preview,
-  isLocked, 
+  isLocked: isLockedProp, 
   tipAmount, 
-  minTipAmount,
+  minTipAmount: minTipAmountProp,
   likes, 
   comments, 
   timestamp,
@@ -56,11 +75,18 @@ export const VentCard = ({
   createdAt,
   updatedAt,
   decryptError,
-  visibility,
+  visibility: visibilityProp,
   visibilityEvent,
-  supabaseId
+  supabaseId,
+  revisionCount = 0,
+  contentWarnings = []
 }: VentCardProps) => {
   const { address } = useAccount();
+  // Set once the author changes visibility or price here, until the feed reloads with it
+  const [visibilityOverride, setVisibilityOverride] = useState<{ visibility: number; minTipAmount: number } | null>(null);
+  const visibility = visibilityOverride?.visibility ?? visibilityProp;
+  const minTipAmount = visibilityOverride?.minTipAmount ?? minTipAmountProp;
+  const isLocked = visibilityOverride ? visibilityOverride.visibility === 1 : isLockedProp;
   const [isUnlocked, setIsUnlocked] = useState(() => {
     return visibility === 0;
   });
@@ -76,9 +102,40 @@ export const VentCard = ({
   const [tipModalOpen, setTipModalOpen] = useState(false);
   const [showReplyForm, setShowReplyForm] = useState(false);
   const [replies, setReplies] = useState<any[]>([]);
+  const [focusedReplyId, setFocusedReplyId] = useState<string | null>(null);
+  const replyTree = useMemo(
+    () => buildReplyTree(replies, { rootId: focusedReplyId }),
+    [replies, focusedReplyId]
+  );
   const [showReplies, setShowReplies] = useState(false);
+  const [revealedContent, setRevealedContent] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [editedContent, setEditedContent] = useState<string | null>(null);
+  const [currentRevisionCount, setCurrentRevisionCount] = useState(revisionCount);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isRevisionsDialogOpen, setIsRevisionsDialogOpen] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
+  const [isVisibilityDialogOpen, setIsVisibilityDialogOpen] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  const [isWarningAccepted, setIsWarningAccepted] = useState(false);
+  const [isAuthorMuted, setIsAuthorMuted] = useState(false);
+  const { muteAuthor, isLoading: isMuting } = useMutedAuthors();
+  const { preferences: contentWarningPreferences } = useContentWarningPreferences();
+  const contentWarningMode = contentWarnings.length > 0
+    ? resolveContentWarnings(contentWarnings, contentWarningPreferences)
+    : 'show';
+  const showContentWarning = contentWarningMode !== 'show' && !isWarningAccepted;
+  const { editPost, deletePost, isLoading: isEditingPost } = usePostRevisions();
+  const { updateVisibility, isUpdating: isUpdatingVisibility } = usePostVisibilityUpdate();
   const { tipPost, unlockContent, isLoading: isPaymentLoading } = usePayments();
-  const { displayName: authorDisplayName, isLoading: isLoadingAuthorName } = useDisplayName(authorId || author);
+  const { revealedAuthor, isRevealing: isRevealingAuthor, revealAuthor } = useAuthorReveal({ rawPostId });
+  // Posts stay "Anon" until the author reveals them on-chain; only then is a profile looked up
+  const { displayName: revealedDisplayName, isLoading: isLoadingAuthorName } = useDisplayName(revealedAuthor ?? '');
+  const authorDisplayName = !revealedAuthor
+    ? 'Anon'
+    : revealedDisplayName && revealedDisplayName !== 'Anon'
+      ? revealedDisplayName
+      : `${revealedAuthor.slice(0, 6)}...${revealedAuthor.slice(-4)}`;
   const { upvotePost, downvotePost, hasUserUpvoted, hasUserDownvoted, getPostStats, isLoading: isEngagementLoading } = useEngagement();
   const { getReplies, getReplyCounts, getEncryptedAddress } = useSimpleReplies();
   const log = useLogger('VentCard');
@@ -112,13 +169,9 @@ export const VentCard = ({
 
       if (address && userEncryptedAddress) {
         try {
-            const { data: contentData, error } = await supabase
-              .from('encrypted_content')
-              .select('author_id')
-              .eq('raw_post_id', rawPostId)
-              .single();
+            const contentData = await contentStorage.getEncryptedContentByRawPostId(rawPostId);
 
-            if (!error && contentData) {
+            if (contentData) {
               isContentAuthor = userEncryptedAddress === contentData.author_id;
               
               log.debug('Author check result', { 
@@ -128,7 +181,7 @@ export const VentCard = ({
                 isAuthor: isContentAuthor 
               });
             } else {
-              log.warn('Failed to get content author', { error: error?.message });
+              log.warn('Failed to get content author', { rawPostId });
             }
         } catch (err) {
           log.error('Error checking content author', err);
@@ -158,27 +211,20 @@ export const VentCard = ({
               return;
             }
 
-            const { data, error } = await supabase
-              .from('access_logs')
-              .select('*')
-              .eq('content_id', rawPostId.toString())
-              .eq('user_encrypted_id', userEncryptedAddress)
-              .eq('content_type', 'post')
-              .in('access_type', ['tip', 'unlock'])
-              .order('created_at', { ascending: false })
-              .limit(1);
-
-            if (error && error.code !== 'PGRST116') {
-              log.error('Failed to check access log', error);
-              setIsUnlocked(false);
-              setAccessInfo({ hasAccess: false, reason: 'requires_payment' });
+            const paidAccess = await contentStorage.getLatestPaidAccess(rawPostId.toString(), 'post', userEncryptedAddress);
+            if (paidAccess) {
+              setIsUnlocked(true);
+              setAccessInfo({ hasAccess: true, reason: 'unlock' });
               return;
             }
 
-            const hasAccess = data && data.length > 0;
-            if (hasAccess) {
+            // Active subscribers read every tippable post of the creator; the contract's expiry decides
+            const subscriptionExpiry = authorId
+              ? await new VentbuddyContract().getSubscriptionExpiry(authorId as Address, address)
+              : 0;
+            if (subscriptionExpiry * 1000 > Date.now()) {
               setIsUnlocked(true);
-              setAccessInfo({ hasAccess: true, reason: 'unlock' });
+              setAccessInfo({ hasAccess: true, reason: 'subscription' });
             } else {
               setIsUnlocked(false);
               setAccessInfo({ hasAccess: false, reason: 'requires_payment' });
@@ -205,7 +251,7 @@ export const VentCard = ({
     };
 
     checkAuthorAndVisibility();
-  }, [address, rawPostId, visibility, userEncryptedAddress]);
+  }, [address, rawPostId, visibility, userEncryptedAddress, authorId, log]);
 
   // Check if user has upvoted or downvoted this post
   useEffect(() => {
@@ -214,13 +260,9 @@ export const VentCard = ({
       
       try {
         // Get current user's encrypted address
-        const { data: userSession, error: sessionError } = await supabase
-          .from('user_sessions')
-          .select('encrypted_address')
-          .eq('wallet_address', address)
-          .maybeSingle();
+        const userSession = await contentStorage.getUserSession(address);
 
-        if (sessionError || !userSession?.encrypted_address) {
+        if (!userSession?.encrypted_address) {
           // User not registered or session not found
           setHasUpvoted(false);
           setHasDownvoted(false);
@@ -279,6 +321,37 @@ export const VentCard = ({
     loadReplyCounts();
   }, [rawPostId, getReplyCounts, log]);
 
+  // One view per wallet and post; the storage layer drops repeats
+  const isContentVisible = isUnlocked && (visibility === 0 || revealedContent !== null);
+  useEffect(() => {
+    if (!isContentVisible || !userEncryptedAddress || !rawPostId) return;
+
+    contentStorage
+      .logAccess(rawPostId, 'post', userEncryptedAddress, 'view', 0, { rawPostId })
+      .catch((error) => log.warn('Failed to log view', error));
+  }, [isContentVisible, userEncryptedAddress, rawPostId, log]);
+
+  // Tippable content arrives without plaintext; the key is only released to the
+  // author or to wallets the contract reports as having unlocked the post.
+  const revealLockedContent = useCallback(async () => {
+    if (!supabaseId) {
+      toast.error('Content reference missing for this post');
+      return;
+    }
+
+    setIsRevealing(true);
+    try {
+      const walletClient = await getWalletClientFromWagmi();
+      const plaintext = await contentEncryptionService.decryptLockedPostContent(supabaseId, rawPostId, walletClient);
+      setRevealedContent(plaintext);
+    } catch (error) {
+      log.error('Failed to decrypt locked content', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to decrypt content');
+    } finally {
+      setIsRevealing(false);
+    }
+  }, [supabaseId, rawPostId, log]);
+
   const handleUnlock = async () => {
     if (decryptError) {
       toast.error('This content could not be decrypted');
@@ -296,55 +369,68 @@ export const VentCard = ({
     try {
       log.info('Unlocking post', { rawPostId, amount: actualTipAmount, currency: 'ETH' });
       
+      // Resolves only after the unlock transaction is confirmed on-chain
       const txHash = await unlockContent(rawPostId.toString(), actualTipAmount);
       log.info('Unlock successful', { txHash });
       
-      await createAccessLog(rawPostId.toString(), 'unlock', actualTipAmount);
-      
       setIsUnlocked(true);
-      setAccessInfo({ hasAccess: true, reason: 'unlocked' });
+      setAccessInfo({ hasAccess: true, reason: 'unlock' });
+
+      await revealLockedContent();
     } catch (error) {
       log.error('Unlock failed', error);
     }
   };
 
-  const handleTip = async () => {
-    if (decryptError) {
-      toast.error('This content could not be decrypted');
-      return;
-    }
+  const handleRevealAuthor = () => {
+    revealAuthor({
+      visibilityType: visibility ?? 0,
+      contentHash: contentHash || '',
+      previewHash: previewHash || '',
+      supabaseId: supabaseId || rawPostId.toString(),
+    });
+  };
 
-    const rawTipAmount = minTipAmount || tipAmount;
-    if (!rawTipAmount) {
-      toast.error('No tip amount specified');
-      return;
+  // Public posts show the prop content, locked ones the decrypted text; edits replace whichever is on screen
+  const visibleContent = !isLocked ? editedContent ?? content : revealedContent;
+
+  const handleSaveEdit = async (newContent: string): Promise<boolean> => {
+    const updated = await editPost(rawPostId, newContent, { sealed: visibility === 1 });
+    if (!updated) return false;
+
+    if (isLocked) {
+      setRevealedContent(newContent);
+    } else {
+      setEditedContent(newContent);
     }
+    setCurrentRevisionCount(updated.revision_count ?? currentRevisionCount + 1);
+    return true;
+  };
 
-    const actualTipAmount = rawTipAmount / 1e18;
+  const handleSaveVisibility = async (settings: { visibility: number; minTipAmountWei: number }): Promise<boolean> => {
+    const updated = await updateVisibility({
+      rawPostId,
+      currentVisibility: visibility ?? 0,
+      visibility: settings.visibility,
+      minTipAmountWei: settings.minTipAmountWei,
+      content: visibleContent,
+    });
+    if (!updated) return false;
+
+    // Move the plaintext to wherever the new visibility renders it from
+    if (visibleContent !== null && settings.visibility === 1) {
+      setRevealedContent(visibleContent);
+    } else if (visibleContent !== null) {
+      setEditedContent(visibleContent);
+    }
+    setVisibilityOverride({ visibility: settings.visibility, minTipAmount: updated.min_tip_amount ?? 0 });
+    setAccessInfo({ hasAccess: true, reason: settings.visibility === 1 ? 'author' : 'public' });
+    return true;
+  };
 
-    try {
-      log.debug('Tip amount details', {
-        rawMinTipAmount: minTipAmount,
-        rawTipAmount: tipAmount,
-        rawTipAmountUsed: rawTipAmount,
-        actualTipAmount,
-        conversionApplied: 'Yes (divided by 1e18)'
-      });
-      
-      log.info('Attempting to tip post', { rawPostId, amount: actualTipAmount, currency: 'ETH' });
-      const txHash = await tipPost(rawPostId.toString(), actualTipAmount);
-      log.info('Tip successful', { txHash });
-      
-      log.info('Waiting for transaction confirmation');
-      await new Promise(resolve => setTimeout(resolve, 3000)); // Wait 3 seconds for confirmation
-      
-      await createAccessLog(rawPostId.toString(), 'unlock', actualTipAmount);
-      
-      setIsUnlocked(true);
-      setAccessInfo({ hasAccess: true, reason: 'unlock' });
-      log.info('Content visibility updated after successful payment');
-    } catch (error) {
-      log.error('Tip failed', error);
+  const handleDeletePost = async () => {
+    if (await deletePost(rawPostId)) {
+      setIsDeleted(true);
     }
   };
 
@@ -359,8 +445,6 @@ export const VentCard = ({
       const txHash = await tipPost(rawPostId.toString(), amount);
       log.info('Tip successful', { txHash });
       
-      await createAccessLog(rawPostId.toString(), 'tip', amount);
-      
       toast.success(`Successfully tipped ${amount} ETH to the creator!`);
       setTipModalOpen(false);
     } catch (error) {
@@ -376,13 +460,9 @@ export const VentCard = ({
 
     try {
       // Get current user's encrypted address
-      const { data: userSession, error: sessionError } = await supabase
-        .from('user_sessions')
-        .select('encrypted_address')
-        .eq('wallet_address', address)
-        .maybeSingle();
+      const userSession = await contentStorage.getUserSession(address);
 
-      if (sessionError || !userSession?.encrypted_address) {
+      if (!userSession?.encrypted_address) {
         toast.error('Unable to verify your identity. Please try again.');
         return;
       }
@@ -411,13 +491,9 @@ export const VentCard = ({
     }
 
     try {
-      const { data: userSession, error: sessionError } = await supabase
-        .from('user_sessions')
-        .select('encrypted_address')
-        .eq('wallet_address', address)
-        .maybeSingle();
+      const userSession = await contentStorage.getUserSession(address);
 
-      if (sessionError || !userSession?.encrypted_address) {
+      if (!userSession?.encrypted_address) {
         toast.error('Unable to verify your identity. Please try again.');
         return;
       }
@@ -485,43 +561,43 @@ export const VentCard = ({
     }
   };
 
-  const loadReplies = async () => {
+  const loadReplies = useCallback(async () => {
     try {
       const repliesData = await getReplies(rawPostId.toString());
       setReplies(repliesData);
     } catch (error) {
       log.error('Failed to load replies', error);
     }
-  };
+  }, [getReplies, log, rawPostId]);
 
-  const createAccessLog = useCallback(async (contentId: string, accessType: string, amount?: number) => {
-    try {
-      if (!userEncryptedAddress) {
-        log.warn('No encrypted address available for access log');
-        return;
-      }
+  const handleMuteAuthor = async (kind: MuteKind) => {
+    if (!authorId) return;
 
-      const { error } = await supabase
-        .from('access_logs')
-        .insert({
-          content_id: contentId,
-          content_type: 'post',
-          user_encrypted_id: userEncryptedAddress,
-          access_type: accessType,
-          amount_wei: amount ? amount * Math.pow(10, 18) : 0,
-          raw_post_id: parseInt(rawPostId.toString()),
-          created_at: new Date().toISOString()
-        });
+    // The mute list holds encrypted ids only, never the wallet a post is stored under
+    const encryptedAuthorId = (await contentStorage.getEncryptedAddresses([authorId])).get(authorId.toLowerCase());
+    if (!encryptedAuthorId) {
+      toast.error('This author cannot be muted.');
+      return;
+    }
 
-      if (error) {
-        log.error('Failed to create access log', error);
-      } else {
-        log.info('Access log created successfully');
-      }
-    } catch (err) {
-      log.error('Failed to create access log', err);
+    if (await muteAuthor(encryptedAuthorId, kind)) {
+      setIsAuthorMuted(true);
     }
-  }, [userEncryptedAddress]);
+  };
+
+  // Re-read the thread when the viewer mutes someone from one of its replies
+  useEffect(() => {
+    if (!showReplies) return;
+
+    const handleMutedAuthorsChange = () => {
+      loadReplies();
+    };
+    window.addEventListener(MUTED_AUTHORS_EVENT, handleMutedAuthorsChange);
+
+    return () => {
+      window.removeEventListener(MUTED_AUTHORS_EVENT, handleMutedAuthorsChange);
+    };
+  }, [showReplies, loadReplies]);
 
   const handleShowReplies = async () => {
     if (!showReplies) {
@@ -530,6 +606,11 @@ export const VentCard = ({
     setShowReplies(!showReplies);
   };
 
+  // Authors always see their own posts, whatever they have chosen to hide
+  if (isDeleted || isAuthorMuted || (contentWarningMode === 'hide' && !isAuthor)) {
+    return null;
+  }
+
   return (
     <Card className="bg-background border-border/50 hover:border-primary/30 transition-all duration-300">
       <CardHeader className="pb-3">
@@ -566,6 +647,18 @@ export const VentCard = ({
               </>
             )}
             
+            {currentRevisionCount > 0 && (
+              <Badge
+                variant="outline"
+                className="cursor-pointer text-muted-foreground hover:text-foreground"
+                onClick={() => setIsRevisionsDialogOpen(true)}
+                title="View edit history"
+              >
+                <History className="h-3 w-3 mr-1" />
+                Edited
+              </Badge>
+            )}
+
             {isPremium && (
               <Badge variant="secondary" className="bg-gradient-premium text-premium-foreground">
                 Premium
@@ -586,14 +679,25 @@ export const VentCard = ({
       </CardHeader>
 
       <CardContent className="pb-4">
-        <div className={`relative transition-all duration-500 ${!isUnlocked && isLocked ? 'filter blur-md' : ''}`}>
-          <p className="text-foreground leading-relaxed">
+        <div className={`relative transition-all duration-500 ${!isUnlocked && isLocked ? 'filter blur-md' : ''} ${showContentWarning ? 'h-36 overflow-hidden' : ''}`}>
+          {/* Only the text is blurred so the warning overlay itself stays readable */}
+          <p className={`text-foreground leading-relaxed ${showContentWarning ? 'filter blur-md select-none' : ''}`}>
             {decryptError ? (
               <span className="text-red-400 italic">
                 This content could not be decrypted. It may be corrupted or encrypted with a different key.
               </span>
-            ) : isUnlocked || !isLocked ? (
-              content
+            ) : !isLocked || (isUnlocked && revealedContent !== null) ? (
+              visibleContent
+            ) : isUnlocked ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={revealLockedContent}
+                disabled={isRevealing}
+              >
+                <KeyRound className="h-4 w-4" />
+                {isRevealing ? 'Decrypting...' : 'Decrypt content'}
+              </Button>
             ) : (
               <span className="text-muted-foreground italic">
                 [Private content - unlock to view]
@@ -601,7 +705,21 @@ export const VentCard = ({
             )}
           </p>
           
-          {!isUnlocked && isLocked && (
+          {showContentWarning && (isUnlocked || !isLocked) ? (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-sm rounded-lg">
+              <div className="text-center">
+                <TriangleAlert className="h-8 w-8 mx-auto mb-2 text-yellow-500" />
+                <p className="text-sm font-medium mb-1">Content warning</p>
+                <p className="text-xs text-muted-foreground mb-3">
+                  {contentWarnings.map(contentWarningLabel).join(', ')}
+                </p>
+                <Button variant="outline" size="sm" onClick={() => setIsWarningAccepted(true)}>
+                  <Eye className="h-4 w-4" />
+                  Show post
+                </Button>
+              </div>
+            </div>
+          ) : !isUnlocked && isLocked && (
             <div className="absolute inset-0 flex items-center justify-center bg-background/50 backdrop-blur-sm rounded-lg">
               <div className="text-center">
                 {visibility === 1 && (
@@ -631,6 +749,12 @@ export const VentCard = ({
             </div>
           )}
         </div>
+
+        {address && !isAuthor && (
+          <div className="mt-3">
+            <StrandedTipNotice rawPostId={rawPostId} />
+          </div>
+        )}
         
       </CardContent>
 
@@ -680,6 +804,14 @@ export const VentCard = ({
           >
             <Share2 className="h-4 w-4" />
           </Button>
+          {address && !isAuthor && (
+            <AuthorActionsMenu
+              contentType="post"
+              onReport={() => setIsReportDialogOpen(true)}
+              onMute={handleMuteAuthor}
+              disabled={isMuting || !authorId}
+            />
+          )}
         </div>
         
         {(isUnlocked || (!isUnlocked && visibility === 1)) && (
@@ -689,14 +821,15 @@ export const VentCard = ({
                 {accessInfo?.reason === 'author' ? 'Your Content' : 
                  accessInfo?.reason === 'public' ? 'Public' :
                  accessInfo?.reason === 'tip' ? 'Tipped' :
-                 accessInfo?.reason === 'unlock' ? 'Unlocked' : ''}
+                 accessInfo?.reason === 'unlock' ? 'Unlocked' :
+                 accessInfo?.reason === 'subscription' ? 'Subscribed' : ''}
               </span>
             )}
             {accessInfo?.reason !== 'author' && (
               <Button 
                 variant="tip" 
                 size="sm"
-                onClick={!isUnlocked && visibility === 1 ? handleTip : handleTipUnlocked}
+                onClick={!isUnlocked && visibility === 1 ? handleUnlock : handleTipUnlocked}
                 disabled={isPaymentLoading}
                 className="ml-2"
               >
@@ -704,6 +837,40 @@ export const VentCard = ({
                 {!isUnlocked && visibility === 1 ? `Unlock ${(minTipAmount || tipAmount || 0) / 1e18} ETH` : 'Tip Creator'}
               </Button>
             )}
+            {isAuthor && visibleContent !== null && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditDialogOpen(true)}
+                disabled={isEditingPost}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </Button>
+            )}
+            {isAuthor && visibility !== undefined && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsVisibilityDialogOpen(true)}
+                disabled={isUpdatingVisibility}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                <SlidersHorizontal className="h-3 w-3" />
+                {isUpdatingVisibility ? 'Updating...' : 'Visibility'}
+              </Button>
+            )}
+            {isAuthor && (
+              <DeletePostButton isDeleting={isEditingPost} onDelete={handleDeletePost} />
+            )}
+            {isAuthor && !revealedAuthor && (
+              <RevealIdentityButton
+                contentType="post"
+                isRevealing={isRevealingAuthor}
+                onReveal={handleRevealAuthor}
+              />
+            )}
           </div>
         )}
       </CardFooter>
@@ -717,10 +884,22 @@ export const VentCard = ({
           />
             {replies.length > 0 && (
             <div className="space-y-3">
-              <h4 className="text-sm font-medium text-muted-foreground">
-                Replies ({replies.length})
-              </h4>
-              {replies.map((reply) => (
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-muted-foreground">
+                  Replies ({replies.length})
+                </h4>
+                {focusedReplyId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFocusedReplyId(null)}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    Back to full thread
+                  </Button>
+                )}
+              </div>
+              {replyTree.map((reply) => (
                 <NestedReplyCard
                   key={reply.id}
                   reply={reply}
@@ -729,6 +908,7 @@ export const VentCard = ({
                   onReplyTipped={(replyId, amount) => {
                     log.info('Reply tipped', { replyId, amount });
                   }}
+                  onContinueThread={setFocusedReplyId}
                 />
               ))}
             </div>
@@ -740,10 +920,49 @@ export const VentCard = ({
         isOpen={tipModalOpen}
         onClose={() => setTipModalOpen(false)}
         onTip={handleTipFromModal}
-        author={authorDisplayName || author}
+        author={authorDisplayName}
         isUnlock={false}
+        rawPostId={rawPostId}
       />
 
+      {isAuthor && (
+        <EditPostDialog
+          isOpen={isEditDialogOpen}
+          onClose={() => setIsEditDialogOpen(false)}
+          initialContent={visibleContent ?? ''}
+          isSaving={isEditingPost}
+          onSave={handleSaveEdit}
+        />
+      )}
+
+      {isAuthor && visibility !== undefined && (
+        <VisibilitySettingsDialog
+          isOpen={isVisibilityDialogOpen}
+          onClose={() => setIsVisibilityDialogOpen(false)}
+          currentVisibility={visibility}
+          currentMinTipAmount={(minTipAmount || 0) / 1e18}
+          canSwitchVisibility={visibleContent !== null}
+          isSaving={isUpdatingVisibility}
+          onSave={handleSaveVisibility}
+        />
+      )}
+
+      {address && !isAuthor && (
+        <ReportDialog
+          isOpen={isReportDialogOpen}
+          onClose={() => setIsReportDialogOpen(false)}
+          target={{ contentType: 'post', contentId: rawPostId.toString() }}
+        />
+      )}
+
+      {currentRevisionCount > 0 && (
+        <PostRevisionsDialog
+          isOpen={isRevisionsDialogOpen}
+          onClose={() => setIsRevisionsDialogOpen(false)}
+          rawPostId={rawPostId}
+        />
+      )}
+
     </Card>
   );
 };
\ No newline at end of file
@@ -1,22 +1,105 @@
+import { useEffect, useRef } from "react";
 import { VentCard } from "./VentCard";
 import { VentFeedSkeleton } from "./VentFeedSkeleton";
+import { VentCardSkeleton } from "./VentCardSkeleton";
 import { usePosts } from "@/hooks/useContract";
+import { useFeedRanking } from "@/hooks/useFeedRanking";
+import { RANKING_MODES, TOP_WINDOWS, type RankingMode, type TopWindow } from "@/lib/ranking";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Database } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Database, X } from "lucide-react";
+import { formatTag } from "@/lib/hashtags";
 
-export const VentFeed = () => {
-  const { posts, isLoading, error } = usePosts();
+interface VentFeedProps {
+  tag?: string | null;
+  onClearTag?: () => void;
+}
+
+export const VentFeed = ({ tag = null, onClearTag }: VentFeedProps) => {
+  const { ranking, setMode, setWindow } = useFeedRanking();
+  const { posts, isLoading, isLoadingMore, hasMore, error, loadMore } = usePosts(ranking, tag);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page once the sentinel below the last card scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, posts.length]);
+
+  const rankingControls = (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <Tabs value={ranking.mode} onValueChange={(value) => setMode(value as RankingMode)}>
+        <TabsList>
+          {RANKING_MODES.map((mode) => (
+            <TabsTrigger key={mode.value} value={mode.value}>
+              {mode.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {ranking.mode === "top" && (
+        <Select value={ranking.window} onValueChange={(value) => setWindow(value as TopWindow)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Time window" />
+          </SelectTrigger>
+          <SelectContent>
+            {TOP_WINDOWS.map((window) => (
+              <SelectItem key={window.value} value={window.value}>
+                {window.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+
+  const tagFilter = tag && (
+    <div className="flex items-center justify-between rounded-md border border-border/50 px-3 py-2">
+      <span className="text-sm">
+        Showing posts tagged <span className="font-medium text-primary">{formatTag(tag)}</span>
+      </span>
+      {onClearTag && (
+        <Button variant="ghost" size="sm" onClick={onClearTag}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
 
 
   
   if (isLoading && posts.length === 0) {
-    return <VentFeedSkeleton count={3} />;
+    return (
+      <div className="space-y-6">
+        {rankingControls}
+        {tagFilter}
+        <VentFeedSkeleton count={3} />
+      </div>
+    );
   }
 
   
   if (error && posts.length === 0) {
     return (
       <div className="space-y-6">
+        {rankingControls}
+        {tagFilter}
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
@@ -31,6 +114,8 @@ export const VentFeed = () => {
   if (!isLoading && posts.length === 0) {
     return (
       <div className="space-y-6">
+        {rankingControls}
+        {tagFilter}
         <div className="text-center py-12">
           <Database className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
           <h3 className="text-lg font-semibold mb-2">No posts yet</h3>
@@ -44,13 +129,18 @@ export const VentFeed = () => {
 
   return (
     <div className="space-y-6">
-      
+      {rankingControls}
+      {tagFilter}
+
       {posts.map((post, index) => (
         <VentCard
           key={post.rawPostId || `post-${index}`}
           {...post}
         />
       ))}
+
+      {hasMore && <div ref={sentinelRef} aria-hidden="true" />}
+      {isLoadingMore && <VentCardSkeleton />}
     </div>
   );
 };
\ No newline at end of file
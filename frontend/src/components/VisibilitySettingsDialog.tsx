@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+
+interface VisibilitySettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentVisibility: number;
+  currentMinTipAmount: number; // ETH
+  canSwitchVisibility: boolean; // false until a tippable post has been decrypted
+  isSaving: boolean;
+  onSave: (settings: { visibility: number; minTipAmountWei: number }) => Promise<boolean>;
+}
+
+export const VisibilitySettingsDialog = ({
+  isOpen,
+  onClose,
+  currentVisibility,
+  currentMinTipAmount,
+  canSwitchVisibility,
+  isSaving,
+  onSave,
+}: VisibilitySettingsDialogProps) => {
+  const [visibility, setVisibility] = useState(currentVisibility.toString());
+  const [minTipAmount, setMinTipAmount] = useState(currentMinTipAmount.toString());
+
+  useEffect(() => {
+    if (isOpen) {
+      setVisibility(currentVisibility.toString());
+      setMinTipAmount(currentMinTipAmount.toString());
+    }
+  }, [isOpen, currentVisibility, currentMinTipAmount]);
+
+  const nextVisibility = parseInt(visibility);
+  const parsedAmount = parseFloat(minTipAmount) || 0;
+  const isUnchanged = nextVisibility === currentVisibility
+    && (nextVisibility === 0 || parsedAmount === currentMinTipAmount);
+  const canSave = !isSaving && !isUnchanged && (nextVisibility === 0 || parsedAmount > 0);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const saved = await onSave({ visibility: nextVisibility, minTipAmountWei: parsedAmount * 1e18 });
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            Visibility & Price
+          </DialogTitle>
+          <DialogDescription>
+            Changes are written on-chain. Anyone who already unlocked this post keeps access.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="visibility">Visibility</Label>
+            <Select value={visibility} onValueChange={setVisibility} disabled={isSaving || !canSwitchVisibility}>
+              <SelectTrigger id="visibility">
+                <SelectValue placeholder="Select visibility" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Public - Anyone can see</SelectItem>
+                <SelectItem value="1">Tippable - Pay to unlock</SelectItem>
+              </SelectContent>
+            </Select>
+            {!canSwitchVisibility && (
+              <p className="text-sm text-muted-foreground">
+                Decrypt the post first to make it public. Its content has to be re-encrypted.
+              </p>
+            )}
+          </div>
+
+          {visibility === '1' && (
+            <div className="space-y-2">
+              <Label htmlFor="minTipAmount">Minimum Tip Amount (ETH)</Label>
+              <Input
+                id="minTipAmount"
+                type="number"
+                step="0.01"
+                placeholder="1.00"
+                value={minTipAmount}
+                onChange={(e) => setMinTipAmount(e.target.value)}
+                disabled={isSaving}
+              />
+              <p className="text-sm text-muted-foreground">
+                Minimum amount users need to tip to unlock the full content
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save changes'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
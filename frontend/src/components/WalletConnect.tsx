@@ -6,7 +6,8 @@ import { Wallet, LogOut, Copy, Check, UserPlus, CheckCircle, AlertTriangle, Refr
 import { EnhancedRegistrationModal } from './EnhancedRegistrationModal';
 import { toast } from 'sonner';
 import { useState } from 'react';
-import { switchToSepolia } from '../lib/network-utils';
+import { switchToActiveNetwork } from '../lib/network-utils';
+import { activeDeployment, setActiveChainId } from '../lib/deployments';
 
 export function WalletConnect() {
   const { address, isConnected, connector, connectWallet, disconnect, isPending, networkInfo } = useWallet();
@@ -36,8 +37,8 @@ export function WalletConnect() {
   const handleSwitchNetwork = async () => {
     setIsSwitchingNetwork(true);
     try {
-      await switchToSepolia();
-      toast.success('Successfully switched to Sepolia network');
+      await switchToActiveNetwork();
+      toast.success(`Successfully switched to ${activeDeployment.name}`);
     } catch (error) {
       console.error('Network switch failed:', error);
       toast.error('Failed to switch network. Please switch manually in your wallet.');
@@ -46,6 +47,13 @@ export function WalletConnect() {
     }
   };
 
+  // The wallet is on another chain Ventbuddy is deployed to, so reload the app against it
+  const handleUseWalletNetwork = () => {
+    if (networkInfo) {
+      setActiveChainId(parseInt(networkInfo.chainId, 16));
+    }
+  };
+
 
   if (!isConnected) {
     return (
@@ -110,41 +118,53 @@ export function WalletConnect() {
         <CardContent className="space-y-4">
           {networkInfo && (
             <div className={`p-3 rounded-lg border ${
-              networkInfo.isSepolia 
+              networkInfo.isActiveNetwork 
                 ? 'bg-green-50 border-green-200' 
                 : 'bg-orange-50 border-orange-200'
             }`}>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
-                  {networkInfo.isSepolia ? (
+                  {networkInfo.isActiveNetwork ? (
                     <CheckCircle className="h-4 w-4 text-green-600" />
                   ) : (
                     <AlertTriangle className="h-4 w-4 text-orange-600" />
                   )}
                   <div>
                     <p className="text-sm font-medium">
-                      {networkInfo.isSepolia ? 'Sepolia Network' : 'Wrong Network'}
+                      {networkInfo.isActiveNetwork ? activeDeployment.name : 'Wrong Network'}
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {networkInfo.chainName}
                     </p>
                   </div>
                 </div>
-                {!networkInfo.isSepolia && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleSwitchNetwork}
-                    disabled={isSwitchingNetwork}
-                    className="text-xs"
-                  >
-                    {isSwitchingNetwork ? (
-                      <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                    ) : (
-                      <RefreshCw className="h-3 w-3 mr-1" />
+                {!networkInfo.isActiveNetwork && (
+                  <div className="flex items-center gap-1">
+                    {networkInfo.isSupported && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleUseWalletNetwork}
+                        className="text-xs"
+                      >
+                        Use {networkInfo.chainName}
+                      </Button>
                     )}
-                    Switch
-                  </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSwitchNetwork}
+                      disabled={isSwitchingNetwork}
+                      className="text-xs"
+                    >
+                      {isSwitchingNetwork ? (
+                        <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      Switch
+                    </Button>
+                  </div>
                 )}
               </div>
             </div>
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
+import { toast } from 'sonner';
+import { VentbuddyContract, getWalletClientFromWagmi, publicClient } from '@/lib/contract';
+import { visibilityManager } from '@/lib/visibility-manager';
+import { useLogger } from './useLogger';
+
+export interface RevealTarget {
+  rawPostId: number;
+  // On-chain reply id. Leave undefined for posts; null marks a reply that was never
+  // anchored on-chain and so has nothing to reveal.
+  replyId?: number | null;
+}
+
+// Carried into the 'revealed' visibility event so it keeps the content's current visibility
+export interface RevealDetails {
+  visibilityType: number;
+  contentHash: string;
+  previewHash: string;
+  supabaseId: string;
+}
+
+
+export function useAuthorReveal({ rawPostId, replyId }: RevealTarget) {
+  const { address } = useAccount();
+  const log = useLogger('useAuthorReveal');
+  const [revealedAuthor, setRevealedAuthor] = useState<Address | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  const contentType = replyId === undefined ? 'post' : 'reply';
+
+  // The contract is the source of truth; visibility events are only a log and can be forged
+  const fetchRevealedAuthor = useCallback(async () => {
+    if (!rawPostId || replyId === null) {
+      setRevealedAuthor(null);
+      return;
+    }
+
+    try {
+      const contract = new VentbuddyContract();
+      setRevealedAuthor(await contract.getRevealedAuthor(rawPostId, replyId));
+    } catch (err) {
+      log.warn('Failed to read revealed author', err);
+    }
+  }, [rawPostId, replyId, log]);
+
+
+  useEffect(() => {
+    fetchRevealedAuthor();
+  }, [fetchRevealedAuthor]);
+
+  const revealAuthor = useCallback(async (details: RevealDetails): Promise<boolean> => {
+    if (!address) {
+      toast.error('Please connect your wallet to reveal your identity');
+      return false;
+    }
+
+    if (replyId === null) {
+      toast.error('Only replies anchored on-chain can be revealed');
+      return false;
+    }
+
+    setIsRevealing(true);
+
+    try {
+      const walletClient = await getWalletClientFromWagmi();
+      if (!walletClient) {
+        throw new Error('Wallet client not available');
+      }
+
+      const contract = new VentbuddyContract(walletClient);
+      const txHash = replyId
+        ? await contract.revealReplyAuthor(rawPostId, replyId)
+        : await contract.revealPostAuthor(rawPostId);
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        throw new Error('Reveal transaction failed');
+      }
+
+      log.info('Author revealed on-chain', { rawPostId, replyId, txHash });
+
+      await visibilityManager.logVisibilityEvent({
+        postId: rawPostId,
+        replyId: replyId ?? undefined,
+        contentType,
+        visibilityType: details.visibilityType,
+        eventType: 'revealed',
+        userAddress: address,
+        contentHash: details.contentHash,
+        previewHash: details.previewHash,
+        supabaseId: details.supabaseId,
+      });
+
+      setRevealedAuthor(address);
+      toast.success(`Your identity is now shown on this ${contentType}`);
+      return true;
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      log.error('Author reveal failed', error);
+
+      if (message.includes('Only the author can reveal')) {
+        toast.error(`Only the author can reveal this ${contentType}.`);
+      } else if (message.includes('Already revealed')) {
+        toast.error(`This ${contentType} is already revealed.`);
+        await fetchRevealedAuthor();
+      } else if (message.includes('user rejected')) {
+        toast.error('Transaction was cancelled by user.');
+      } else {
+        toast.error('Failed to reveal identity. Please try again.');
+      }
+      return false;
+    } finally {
+      setIsRevealing(false);
+    }
+  }, [address, rawPostId, replyId, contentType, fetchRevealedAuthor, log]);
+
+  return {
+    revealedAuthor,
+    isRevealed: revealedAuthor !== null,
+    isRevealing,
+    revealAuthor,
+    refresh: fetchRevealedAuthor,
+  };
+}
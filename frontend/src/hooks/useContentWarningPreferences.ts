@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import {
+  CONTENT_WARNING_PREFERENCES_EVENT,
+  loadContentWarningPreferences,
+  saveContentWarningPreferences,
+  type ContentWarning,
+  type ContentWarningPreference,
+  type ContentWarningPreferences,
+} from '@/lib/content-warnings';
+
+// Preferences live in localStorage per wallet; every card re-reads them when settings change
+export function useContentWarningPreferences() {
+  const { address } = useAccount();
+  const [preferences, setPreferences] = useState<ContentWarningPreferences>(
+    () => (address ? loadContentWarningPreferences(address) : {})
+  );
+
+  useEffect(() => {
+    setPreferences(address ? loadContentWarningPreferences(address) : {});
+
+    if (!address) return;
+
+    const handleChange = () => setPreferences(loadContentWarningPreferences(address));
+    window.addEventListener(CONTENT_WARNING_PREFERENCES_EVENT, handleChange);
+
+    return () => {
+      window.removeEventListener(CONTENT_WARNING_PREFERENCES_EVENT, handleChange);
+    };
+  }, [address]);
+
+  const setPreference = useCallback((warning: ContentWarning, preference: ContentWarningPreference) => {
+    if (!address) return;
+
+    saveContentWarningPreferences(address, { ...loadContentWarningPreferences(address), [warning]: preference });
+  }, [address]);
+
+  return {
+    preferences,
+    setPreference,
+  };
+}
@@ -1,10 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAccount, useConnect, useDisconnect, useWalletClient } from 'wagmi';
 import { getWalletClientFromWagmi, VentbuddyContract } from '../lib/contract';
-import { supabase, type EncryptedContent } from '../lib/supabase';
+import { contentStorage, MUTED_AUTHORS_EVENT, type ContentCursor, type EncryptedContent, type PostStats, type VisibilityEvent } from '../lib/storage';
 import { fheEncryptionService } from '../lib/fhe-encryption';
-import { ensureSepoliaNetwork, getCurrentNetwork, onNetworkChange } from '../lib/network-utils';
+import { ensureActiveNetwork, getCurrentNetwork, onNetworkChange } from '../lib/network-utils';
+import { activeDeployment } from '../lib/deployments';
 import { useLogger } from './useLogger';
+import { DEFAULT_RANKING, rankPosts, rankingScore as scorePost, type RankingOptions } from '../lib/ranking';
+import type { ContentWarning } from '../lib/content-warnings';
 
 export function useWallet() {
   const { address, isConnected, connector } = useAccount();
@@ -15,7 +18,8 @@ export function useWallet() {
   const [networkInfo, setNetworkInfo] = useState<{
     chainId: string;
     chainName: string;
-    isSepolia: boolean;
+    isActiveNetwork: boolean;
+    isSupported: boolean;
   } | null>(null);
 
   const connectWallet = useCallback(async () => {
@@ -29,8 +33,8 @@ export function useWallet() {
         
         await new Promise(resolve => setTimeout(resolve, 1000));
         
-        log.info('Ensuring Sepolia network');
-        await ensureSepoliaNetwork();
+        log.info('Ensuring active network');
+        await ensureActiveNetwork();
         
         log.info('Wallet connected and network verified');
       }
@@ -178,7 +182,7 @@ export function useUserRegistration() {
         }
       }
       
-      const { contentStorage } = await import('../lib/supabase');
+      const { contentStorage } = await import('../lib/storage');
       const sessionToken = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       
       try {
@@ -206,7 +210,7 @@ export function useUserRegistration() {
         log.info('User already registered - syncing to Supabase only');
         
         try {
-          const { contentStorage } = await import('../lib/supabase');
+          const { contentStorage } = await import('../lib/storage');
           const sessionToken = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
           
           const { encryptedAddress: syncEncryptedAddress } = await fheEncryptionService.encryptAddress(address!, address!);
@@ -287,7 +291,7 @@ export function useRegistrationStatus() {
       setTimeout(() => setIsLoading(true), 0);
       
       try {
-        const { contentStorage } = await import('../lib/supabase');
+        const { contentStorage } = await import('../lib/storage');
         const userSession = await contentStorage.getUserSession(address);
         setIsRegistered(!!userSession);
         log.debug('Registration status check', { address, isRegistered: !!userSession });
@@ -317,7 +321,9 @@ export function useCreatePost() {
   const createPost = useCallback(async (
     content: string,
     visibility: number,
-    minTipAmount: number
+    minTipAmount: number,
+    tags: string[] = [],
+    contentWarnings: ContentWarning[] = []
   ) => {
     if (!walletClient || !address) {
       setError('Wallet not connected');
@@ -341,7 +347,7 @@ export function useCreatePost() {
       
       const isFHEReady = await fheEncryptionService.isFullyReady();
       if (!isFHEReady) {
-        throw new Error('FHE encryption service is not ready. Please ensure you are connected to Sepolia network and try again.');
+        throw new Error(`FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`);
       }
       
       log.info('FHE service is ready, proceeding with post creation');
@@ -356,10 +362,12 @@ export function useCreatePost() {
       
       const contentHash = await contentEncryptionService.generateHash(content);
       const previewHash = await contentEncryptionService.generateHash(preview);
-      const encryptedContent = contentEncryptionService.encryptContent(content);
-      const encryptedPreview = contentEncryptionService.encryptContent(preview);
+      const contentKey = await contentEncryptionService.createContentKey({ sealed: visibility === 1 });
+      const encryptedContent = await contentEncryptionService.encryptContent(content, contentKey);
+      const encryptedPreview = await contentEncryptionService.encryptContent(preview, contentKey);
 
       log.info('Content encrypted', {
+        keyId: contentKey.keyId,
         contentHash: contentHash.substring(0, 20) + '...',
         previewHash: previewHash.substring(0, 20) + '...',
         encryptedContentLength: encryptedContent.length,
@@ -422,7 +430,7 @@ export function useCreatePost() {
 
       
       log.info('Step 5: Storing content in Supabase with raw post ID');
-      const { contentStorage } = await import('../lib/supabase');
+      const { contentStorage } = await import('../lib/storage');
       const storedContent =         await contentStorage.storeEncryptedContent(
           contentHash,
           previewHash,
@@ -464,6 +472,25 @@ export function useCreatePost() {
         
       }
 
+      // Tags would leak plaintext of locked posts, so only public posts may carry them
+      if (tags.length > 0 && visibility === 0) {
+        try {
+          await contentStorage.storePostTags(rawPostId, tags);
+          log.info('Post tags stored', { rawPostId, tags });
+        } catch (tagError) {
+          log.warn('Failed to store post tags', tagError);
+        }
+      }
+
+      if (contentWarnings.length > 0) {
+        try {
+          await contentStorage.setContentWarnings(rawPostId, contentWarnings);
+          log.info('Content warnings stored', { rawPostId, contentWarnings });
+        } catch (warningError) {
+          log.warn('Failed to store content warnings', warningError);
+        }
+      }
+
       return {
         txHash,
         encryptedPostId,
@@ -482,9 +509,9 @@ export function useCreatePost() {
       const errorMessage = err.message || err.toString() || '';
       
       if (errorMessage.includes('FHE encryption service is not ready')) {
-        userFriendlyError = 'FHE encryption service is not ready. Please ensure you are connected to Sepolia network and try again.';
+        userFriendlyError = `FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`;
       } else if (errorMessage.includes('FHE service not ready')) {
-        userFriendlyError = 'FHE encryption service not ready. Please ensure wallet is connected to Sepolia network.';
+        userFriendlyError = `FHE encryption service not ready. Please ensure wallet is connected to ${activeDeployment.name}.`;
       } else if (errorMessage.includes('encryption module not available')) {
         userFriendlyError = 'Encryption module not available. Please check your FHEVM Gateway configuration.';
       } else if (errorMessage.includes('insufficient funds')) {
@@ -598,7 +625,7 @@ export function useCreateReply() {
         supabaseId: contentData.supabaseId,
         encryptedVisibility: visibilityEncryption.encryptedValue as `0x${string}`,
         visibilityProof: visibilityEncryption.proof as `0x${string}`,
-        minTipAmount: unlockPrice, 
+        minTipAmount: BigInt(unlockPrice),
       };
 
       log.info('Contract data prepared', {
@@ -613,7 +640,7 @@ export function useCreateReply() {
       
       log.info('Step 4: Calling smart contract');
       const contract = new VentbuddyContract(walletClient);
-      const txHash = await contract.replyToPost({
+      const { txHash } = await contract.replyToPost({
         postId: replyData.postId,
         contentHash: replyData.contentHash,
         previewHash: replyData.previewHash,
@@ -669,7 +696,7 @@ export function useCreateReply() {
       const errorMessage = err.message || err.toString() || '';
       
       if (errorMessage.includes('FHE service not ready')) {
-        userFriendlyError = 'FHE encryption service not ready. Please ensure wallet is connected to Sepolia network.';
+        userFriendlyError = `FHE encryption service not ready. Please ensure wallet is connected to ${activeDeployment.name}.`;
       } else if (errorMessage.includes('encryption module not available')) {
         userFriendlyError = 'Encryption module not available. Please check your FHEVM Gateway configuration.';
       } else if (errorMessage.includes('insufficient funds')) {
@@ -699,163 +726,6 @@ export function useCreateReply() {
 }
 
 
-export function useTipping() {
-  const { address } = useAccount();
-  const { walletClient } = useWallet();
-  const log = useLogger('useTipping');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const tipPost = useCallback(async (postId: number, amount: number) => {
-    if (!walletClient || !address) {
-      setError('Wallet not connected');
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      log.info('Starting tip process for post', { postId, amount });
-      
-
-      const contract = new (await import('../lib/contract')).VentbuddyContract(walletClient);
-      
-      log.info('Calling smart contract for tip');
-      const txHash = await contract.tipPost(postId, { value: BigInt(Math.floor(amount * 1e18)) });
-      
-      log.info('Tip transaction successful', { txHash });
-      
-      
-      const { contentStorage } = await import('../lib/supabase');
-      await contentStorage.logAccess(
-        postId.toString(), 
-        'post',
-        address,
-        'tip',
-        amount
-      );
-
-      return txHash;
-    } catch (err) {
-      log.info('Tip failed', err);
-      setError(err instanceof Error ? err.message : 'Failed to tip post');
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletClient, address]);
-
-  const tipReply = useCallback(async (postId: number, replyId: number, amount: number) => {
-    if (!walletClient || !address) {
-      setError('Wallet not connected');
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      log.info('Starting tip process for reply', { postId, replyId, amount });
-      
-      
-      const contract = new (await import('../lib/contract')).VentbuddyContract(walletClient);
-      
-      log.info('Calling smart contract for reply tip');
-      const txHash = await contract.tipReply(
-        postId, 
-        replyId, 
-        { value: BigInt(Math.floor(amount * 1e18)) }
-      );
-      
-      log.info('Reply tip transaction successful', { txHash });
-      
-      
-      const { contentStorage } = await import('../lib/supabase');
-      await contentStorage.logAccess(
-        replyId.toString(),
-        'reply',
-        address,
-        'tip',
-        amount
-      );
-
-      return txHash;
-    } catch (err) {
-      log.info('Reply tip failed', err);
-      setError(err instanceof Error ? err.message : 'Failed to tip reply');
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletClient, address]);
-
-  const unlockContent = useCallback(async (postId: number, amount: number) => {
-    if (!walletClient || !address) {
-      setError('Wallet not connected');
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      log.info('Starting content unlock process for post', { postId, amount });
-      
-      
-      const contract = new (await import('../lib/contract')).VentbuddyContract(walletClient);
-      
-      log.info('Calling smart contract for content unlock');
-      const txHash = await contract.unlockTippableContent(postId, { value: BigInt(Math.floor(amount * 1e18)) });
-      
-      log.info('Content unlock transaction successful', { txHash });
-      
-      
-      const { contentStorage } = await import('../lib/supabase');
-      await contentStorage.logAccess(
-        postId.toString(),
-        'post',
-        address,
-        'unlock',
-        amount
-      );
-
-      
-      try {
-        const { visibilityManager } = await import('../lib/visibility-manager');
-        await visibilityManager.logVisibilityEvent({
-          postId: postId.toString(),
-          contentType: 'post',
-          visibilityType: 1, 
-          eventType: 'unlocked',
-          userAddress: address,
-          contentHash: '0x', 
-          previewHash: '0x',
-          supabaseId: postId.toString()
-        });
-      } catch (visibilityError) {
-        log.info('Failed to log unlock visibility event', visibilityError);
-      }
-
-      return txHash;
-    } catch (err) {
-      log.error('Content unlock failed', err);
-      setError(err instanceof Error ? err.message : 'Failed to unlock content');
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletClient, address]);
-
-  return {
-    tipPost,
-    tipReply,
-    unlockContent,
-    isLoading,
-    error,
-  };
-}
-
 export function useContractData() {
   const log = useLogger('useContractData');
   const [contractInfo, setContractInfo] = useState<any>(null);
@@ -898,276 +768,361 @@ export function useContractData() {
 }
 
 
-export function usePosts() {
+const POSTS_PAGE_SIZE = 20;
+
+export function usePosts(ranking: RankingOptions = DEFAULT_RANKING, tag: string | null = null) {
   const { address } = useAccount();
   const log = useLogger('usePosts');
   const [posts, setPosts] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const cursorRef = useRef<ContentCursor | null>(null);
+  const offsetRef = useRef(0);
+  const rankedRpcRef = useRef(true);
+  const taggedPostIdsRef = useRef<number[] | null>(null);
+  const loadingMoreRef = useRef(false);
+  // Encrypted author ids the viewer muted or blocked; compared as opaque strings only
+  const mutedAuthorIdsRef = useRef<Set<string>>(new Set());
+  const { mode: rankingMode, window: rankingWindow } = ranking;
+
+  // Decrypts one page of encrypted_content rows; ordering is left to loadPage
+  const buildPosts = useCallback(async (pageContent: EncryptedContent[]) => {
+    // Posts carry the author's wallet, so map it to the encrypted id the mute list holds
+    let authorIds = new Map<string, string>();
+    if (mutedAuthorIdsRef.current.size > 0) {
+      const { contentStorage } = await import('../lib/storage');
+      authorIds = await contentStorage.getEncryptedAddresses(pageContent.map(content => content.author_id));
+    }
+    const encryptedContent = pageContent.filter(content =>
+      !mutedAuthorIdsRef.current.has(authorIds.get(content.author_id.toLowerCase()) ?? '')
+    );
+    log.info('Fetched encrypted content', { count: encryptedContent.length });
 
-  const fetchPosts = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      log.info('Fetching posts from Supabase');
-      const { contentStorage } = await import('../lib/supabase');
-      
-      
-      const encryptedContent = await contentStorage.getRecentContent(20);
-      
-      log.info('Fetched encrypted content', { count: encryptedContent.length });
-
-      
-      const { contentEncryptionService } = await import('../lib/content-encryption');
-      
-      
-      const rawPostIds = encryptedContent.map(content => content.raw_post_id).filter(Boolean);
-      
-      
-      const { data: engagementStats, error: statsError } = await supabase
-        .from('post_stats')
-        .select('*')
-        .in('raw_post_id', rawPostIds);
-
-      if (statsError) {
-        log.error('Error fetching engagement stats', statsError);
-      }
-
-      
-      const encryptedPostIds = encryptedContent.map(c => String(c.encrypted_post_id)).filter(Boolean);
-      
-      log.debug('Encrypted post IDs from content', { encryptedPostIds });
-      
-      let visibilityQuery = supabase
-        .from('visibility_events')
-        .select('*');
-      
-      
-      if (encryptedPostIds.length > 0) {
-        visibilityQuery = visibilityQuery.in('encrypted_post_id', encryptedPostIds);
-      } else {
-        
-        visibilityQuery = visibilityQuery.eq('encrypted_post_id', 'nonexistent');
-      }
-      
-      const { data: visibilityData, error: visibilityError } = await visibilityQuery
-        .order('created_at', { ascending: false });
+    
+    const { contentEncryptionService } = await import('../lib/content-encryption');
+    
+    
+    const rawPostIds = encryptedContent.map(content => content.raw_post_id).filter(Boolean);
+    
+    
+    const engagementStats: PostStats[] = await contentStorage.getPostStatsBatch(rawPostIds).catch(statsError => {
+      log.error('Error fetching engagement stats', statsError);
+      return [];
+    });
 
-      if (visibilityError) {
-        log.error('Error fetching visibility data', visibilityError);
-      }
-      
-      log.debug('Visibility data fetched', {
-        totalEvents: visibilityData?.length || 0,
-        events: visibilityData?.map(e => ({
-          encrypted_post_id: e.encrypted_post_id,
-          visibility_type: e.visibility_type,
-          content_type: e.content_type
-        }))
-      });
-      
-      
-      const { data: allVisibilityEvents, error: allEventsError } = await supabase
-        .from('visibility_events')
-        .select('encrypted_post_id, visibility_type, content_type, created_at')
-        .order('created_at', { ascending: false })
-        .limit(10);
-        
-      log.debug('All recent visibility events', {
-        total: allVisibilityEvents?.length || 0,
-        events: allVisibilityEvents
-      });
-      
-      const decryptedPosts = await Promise.all(
-        encryptedContent.map(async (content) => {
-          try {
-            
-            const { content: decryptedContent } = 
-              await contentEncryptionService.decryptPostContent(content.id.toString());
-            
+    
+    const encryptedPostIds = encryptedContent.map(c => String(c.encrypted_post_id)).filter(Boolean);
+    
+    log.debug('Encrypted post IDs from content', { encryptedPostIds });
+    
+    const visibilityData: VisibilityEvent[] = await contentStorage.getVisibilityEvents(encryptedPostIds).catch(visibilityError => {
+      log.error('Error fetching visibility data', visibilityError);
+      return [];
+    });
+    
+    log.debug('Visibility data fetched', {
+      totalEvents: visibilityData.length,
+      events: visibilityData.map(e => ({
+        encrypted_post_id: e.encrypted_post_id,
+        visibility_type: e.visibility_type,
+        content_type: e.content_type
+      }))
+    });
+    
+    
+    const decryptedPosts = await Promise.all(
+      encryptedContent.map(async (content) => {
+        try {
 
-            const postStats = engagementStats?.find(stat => stat.raw_post_id === content.raw_post_id);
-            
-              
-            const postVisibilityEvents = visibilityData?.filter(event => 
-              content.encrypted_post_id && String(event.encrypted_post_id) === String(content.encrypted_post_id)
-            );
-            const latestVisibilityEvent = postVisibilityEvents?.[0]; 
-            
-              
-            log.debug('Post visibility data', {
-              postId: content.id,
-              encryptedPostId: content.encrypted_post_id,
-              hasEncryptedPostId: !!content.encrypted_post_id,
-              postVisibilityEvents: postVisibilityEvents,
-              latestVisibilityEvent: latestVisibilityEvent,
-              visibilityType: latestVisibilityEvent?.visibility_type,
-              isLocked: latestVisibilityEvent?.visibility_type === 1
-            });
-            
-              
-            if (!postVisibilityEvents || postVisibilityEvents.length === 0) {
-              log.debug('No visibility events found for this content. Checking if any exist at all');
-              
-              
-              const { data: specificEvents, error: specificError } = await supabase
-                .from('visibility_events')
-                .select('*')
-                .eq('encrypted_post_id', content.encrypted_post_id);
-                
-              log.debug('Specific visibility events for this ID', {
-                encryptedPostId: content.encrypted_post_id,
-                events: specificEvents,
-                error: specificError
-              });
-            }
+          const postStats = engagementStats.find(stat => stat.raw_post_id === content.raw_post_id);
+          
             
-              
-            const replyCount = postStats?.reply_count || 0;
-            const upvoteCount = postStats?.upvote_count || 0;
-            const downvoteCount = postStats?.downvote_count || 0;
+          const postVisibilityEvents = visibilityData.filter(event => 
+            content.encrypted_post_id && String(event.encrypted_post_id) === String(content.encrypted_post_id)
+          );
+          const latestVisibilityEvent = postVisibilityEvents[0]; 
+          
             
-              
-            const rankingScore = (replyCount * 10) + (upvoteCount * 3) - (downvoteCount * 1);
+          log.debug('Post visibility data', {
+            postId: content.id,
+            encryptedPostId: content.encrypted_post_id,
+            hasEncryptedPostId: !!content.encrypted_post_id,
+            postVisibilityEvents: postVisibilityEvents,
+            latestVisibilityEvent: latestVisibilityEvent,
+            visibilityType: latestVisibilityEvent?.visibility_type,
+            isLocked: latestVisibilityEvent?.visibility_type === 1
+          });
+          
             
-              
-            const netScore = upvoteCount - downvoteCount;
+          if (postVisibilityEvents.length === 0) {
+            log.debug('No visibility events found for this content', { encryptedPostId: content.encrypted_post_id });
+          }
+          
             
-              
-            const visibility = latestVisibilityEvent?.visibility_type ?? 0; 
-            const isLocked = visibility === 1; // 1 = Tippable (locked), 0 = Public (unlocked)
+          const replyCount = postStats?.reply_count || 0;
+          const upvoteCount = postStats?.upvote_count || 0;
+          const downvoteCount = postStats?.downvote_count || 0;
+          
             
-              
-            const minTipAmount = (content as EncryptedContent & { min_tip_amount?: number }).min_tip_amount || 0;
+          const rankingScore = scorePost(
+            { replyCount, upvoteCount, downvoteCount, createdAt: content.created_at },
+            rankingMode
+          );
+          
             
-              
-            const shouldBeLocked = isLocked || (minTipAmount > 0 && !latestVisibilityEvent);
+          const netScore = upvoteCount - downvoteCount;
+          
             
-            if (minTipAmount > 0 && !latestVisibilityEvent) {
-              log.debug('TEMPORARY FIX: Content has min_tip_amount but no visibility event. Assuming tippable');
-            }
+          const visibility = latestVisibilityEvent?.visibility_type ?? 0; 
+          const isLocked = visibility === 1; // 1 = Tippable (locked), 0 = Public (unlocked)
+          
             
-            if (!content.raw_post_id) {
-              log.error('Missing raw_post_id for post', { postId: content.id, message: 'Cannot use this post for smart contract operations!' });
-              return null;
-            }
+          const minTipAmount = (content as EncryptedContent & { min_tip_amount?: number }).min_tip_amount || 0;
+          
             
-            return {
-              rawPostId: content.raw_post_id, 
-              author: 'Anon', 
-              content: decryptedContent, 
-              preview: '[Content preview removed for security]',
-              isLocked: shouldBeLocked, 
-              tipAmount: minTipAmount, 
-              likes: netScore, 
-              comments: postStats?.reply_count || 0,
-              timestamp: new Date(content.created_at).toLocaleString(),
-              isPremium: false, 
-              contentHash: content.content_hash,
-              previewHash: content.preview_hash,
-              authorId: content.author_id,
-              createdAt: content.created_at,
-              updatedAt: content.updated_at,
-              minTipAmount: minTipAmount, 
-              visibility: shouldBeLocked ? 1 : 0, 
-              visibilityEvent: latestVisibilityEvent, 
-              supabaseId: content.id.toString(), 
-             
-              rankingScore: rankingScore,
-              upvoteCount: upvoteCount,
-              downvoteCount: downvoteCount,
-              replyCount: replyCount
-            };
-          } catch (decryptError) {
-            log.warn('Failed to decrypt content for post', { postId: content.id, error: decryptError });
+          const shouldBeLocked = isLocked || (minTipAmount > 0 && !latestVisibilityEvent);
+          
+          if (minTipAmount > 0 && !latestVisibilityEvent) {
+            log.debug('TEMPORARY FIX: Content has min_tip_amount but no visibility event. Assuming tippable');
+          }
+
+          // Locked posts stay encrypted here; VentCard decrypts them once the key is released
+          const decryptedContent = shouldBeLocked
+            ? ''
+            : (await contentEncryptionService.decryptPostContent(content.id.toString())).content;
+          
+          if (!content.raw_post_id) {
+            log.error('Missing raw_post_id for post', { postId: content.id, message: 'Cannot use this post for smart contract operations!' });
+            return null;
+          }
+          
+          return {
+            rawPostId: content.raw_post_id, 
+            author: 'Anon', 
+            content: decryptedContent, 
+            preview: '[Content preview removed for security]',
+            isLocked: shouldBeLocked, 
+            tipAmount: minTipAmount, 
+            likes: netScore, 
+            comments: postStats?.reply_count || 0,
+            timestamp: new Date(content.created_at).toLocaleString(),
+            isPremium: false, 
+            contentHash: content.content_hash,
+            previewHash: content.preview_hash,
+            authorId: content.author_id,
+            createdAt: content.created_at,
+            updatedAt: content.updated_at,
+            minTipAmount: minTipAmount, 
+            visibility: shouldBeLocked ? 1 : 0, 
+            visibilityEvent: latestVisibilityEvent, 
+            supabaseId: content.id.toString(), 
+            revisionCount: content.revision_count ?? 0,
+            contentWarnings: content.content_warnings ?? [],
            
-            const fallbackVisibilityEvents = visibilityData?.filter(event => 
-              content.encrypted_post_id && event.encrypted_post_id === content.encrypted_post_id
-            );
-            const fallbackLatestEvent = fallbackVisibilityEvents?.[0];
-            const fallbackVisibility = fallbackLatestEvent?.visibility_type ?? 0;
-            
-            log.debug('Fallback visibility data', {
-              postId: content.id,
-              encryptedPostId: content.encrypted_post_id,
-              fallbackVisibilityEvents: fallbackVisibilityEvents,
-              fallbackLatestEvent: fallbackLatestEvent,
-              fallbackVisibility: fallbackVisibility,
-              isLocked: fallbackVisibility === 1
-            });
-            const fallbackMinTipAmount = (content as EncryptedContent & { min_tip_amount?: number }).min_tip_amount || 0;
-            
-            
-            const fallbackShouldBeLocked = (fallbackVisibility === 1) || (fallbackMinTipAmount > 0 && !fallbackLatestEvent);
-            
+            rankingScore: rankingScore,
+            upvoteCount: upvoteCount,
+            downvoteCount: downvoteCount,
+            replyCount: replyCount
+          };
+        } catch (decryptError) {
+          log.warn('Failed to decrypt content for post', { postId: content.id, error: decryptError });
+         
+          const fallbackVisibilityEvents = visibilityData?.filter(event => 
+            content.encrypted_post_id && event.encrypted_post_id === content.encrypted_post_id
+          );
+          const fallbackLatestEvent = fallbackVisibilityEvents?.[0];
+          const fallbackVisibility = fallbackLatestEvent?.visibility_type ?? 0;
+          
+          log.debug('Fallback visibility data', {
+            postId: content.id,
+            encryptedPostId: content.encrypted_post_id,
+            fallbackVisibilityEvents: fallbackVisibilityEvents,
+            fallbackLatestEvent: fallbackLatestEvent,
+            fallbackVisibility: fallbackVisibility,
+            isLocked: fallbackVisibility === 1
+          });
+          const fallbackMinTipAmount = (content as EncryptedContent & { min_tip_amount?: number }).min_tip_amount || 0;
+          
+          
+          const fallbackShouldBeLocked = (fallbackVisibility === 1) || (fallbackMinTipAmount > 0 && !fallbackLatestEvent);
+          
+         
+          if (!content.raw_post_id) {
+            log.error('Missing raw_post_id for fallback post', { postId: content.id, message: 'Cannot use this post for smart contract operations!' });
            
-            if (!content.raw_post_id) {
-              log.error('Missing raw_post_id for fallback post', { postId: content.id, message: 'Cannot use this post for smart contract operations!' });
-             
-              return null;
-            }
-            
-            return {
-              rawPostId: content.raw_post_id, 
-              author: 'Anon',
-              content: 'This content could not be decrypted.',
-              preview: '[Content preview removed for security]',
-              isLocked: fallbackShouldBeLocked,
-              tipAmount: fallbackMinTipAmount,
-              likes: 0,
-              comments: 0,
-              timestamp: new Date(content.created_at).toLocaleString(),
-              isPremium: false,
-              contentHash: content.content_hash,
-              previewHash: content.preview_hash,
-              authorId: content.author_id,
-              createdAt: content.created_at,
-              updatedAt: content.updated_at,
-              minTipAmount: fallbackMinTipAmount,
-              visibility: fallbackShouldBeLocked ? 1 : 0, 
-              decryptError: true,
-              supabaseId: content.id.toString(), 
-              encryptedPostId: content.encrypted_post_id 
-            };
+            return null;
           }
-        })
-      );
+          
+          return {
+            rawPostId: content.raw_post_id, 
+            author: 'Anon',
+            content: 'This content could not be decrypted.',
+            preview: '[Content preview removed for security]',
+            isLocked: fallbackShouldBeLocked,
+            tipAmount: fallbackMinTipAmount,
+            likes: 0,
+            comments: 0,
+            rankingScore: 0,
+            upvoteCount: 0,
+            downvoteCount: 0,
+            replyCount: 0,
+            timestamp: new Date(content.created_at).toLocaleString(),
+            isPremium: false,
+            contentHash: content.content_hash,
+            previewHash: content.preview_hash,
+            authorId: content.author_id,
+            createdAt: content.created_at,
+            updatedAt: content.updated_at,
+            minTipAmount: fallbackMinTipAmount,
+            visibility: fallbackShouldBeLocked ? 1 : 0, 
+            decryptError: true,
+            supabaseId: content.id.toString(), 
+            revisionCount: content.revision_count ?? 0,
+            contentWarnings: content.content_warnings ?? [],
+            encryptedPostId: content.encrypted_post_id 
+          };
+        }
+      })
+    );
 
-      log.info('Decrypted posts', { count: decryptedPosts.length });
-      
+    log.info('Decrypted posts', { count: decryptedPosts.length });
 
-      const validPosts = decryptedPosts.filter(post => post !== null);
-      
-      const sortedPosts = validPosts.sort((a, b) => {
-       
-        if (b.rankingScore !== a.rankingScore) {
-          return b.rankingScore - a.rankingScore;
-        }
-        
-       
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      });
-      
-      log.info('Posts sorted by ranking algorithm', { 
-        count: sortedPosts.length,
-        topPosts: sortedPosts.slice(0, 3).map(p => ({
-          rawPostId: p.rawPostId,
-          rankingScore: p.rankingScore,
-          replies: p.replyCount,
-          upvotes: p.upvoteCount,
-          downvotes: p.downvoteCount
-        }))
-      });
-      
-      setPosts(sortedPosts);
+    return decryptedPosts.filter(post => post !== null);
+  }, [log, rankingMode]);
+
+  // Ranked modes page through the get_ranked_content RPC by offset. New, and any mode
+  // on a backend without the RPC, pages by keyset cursor and ranks on the client.
+  const loadPage = useCallback(async (reset: boolean) => {
+    const { contentStorage } = await import('../lib/storage');
+
+    if (reset) {
+      cursorRef.current = null;
+      offsetRef.current = 0;
+      taggedPostIdsRef.current = tag ? await contentStorage.getRawPostIdsForTag(tag) : null;
+
+      try {
+        const mutedAuthors = address ? await contentStorage.getMutedAuthors(address) : [];
+        mutedAuthorIdsRef.current = new Set(mutedAuthors.map(muted => muted.author_id));
+      } catch (err) {
+        log.warn('Failed to load muted authors, showing all posts', err);
+        mutedAuthorIdsRef.current = new Set();
+      }
+    }
+
+    const taggedPostIds = taggedPostIdsRef.current;
+    if (taggedPostIds && taggedPostIds.length === 0) {
+      return { posts: [], hasMore: false };
+    }
+
+    // Tag filtering happens on the keyset query, so tagged feeds always rank on the client
+    if (rankingMode !== 'new' && !taggedPostIds && rankedRpcRef.current) {
+      try {
+        const page = await contentStorage.getRankedContentPage(
+          rankingMode,
+          rankingWindow,
+          POSTS_PAGE_SIZE,
+          offsetRef.current
+        );
+        offsetRef.current += page.length;
+
+        return { posts: await buildPosts(page), hasMore: page.length === POSTS_PAGE_SIZE };
+      } catch (err) {
+        log.warn('Ranked feed RPC unavailable, ranking on the client', err);
+        rankedRpcRef.current = false;
+      }
+    }
+
+    const page = await contentStorage.getContentPage(
+      POSTS_PAGE_SIZE,
+      cursorRef.current,
+      taggedPostIds ? { rawPostIds: taggedPostIds } : undefined
+    );
+    cursorRef.current = page.nextCursor;
+
+    const pagePosts = await buildPosts(page.items);
+    const rankedPosts = rankPosts(pagePosts, { mode: rankingMode, window: rankingWindow });
+
+    log.info('Posts sorted by ranking algorithm', {
+      mode: rankingMode,
+      count: rankedPosts.length,
+      topPosts: rankedPosts.slice(0, 3).map(p => ({
+        rawPostId: p.rawPostId,
+        rankingScore: p.rankingScore,
+        replies: p.replyCount,
+        upvotes: p.upvoteCount,
+        downvotes: p.downvoteCount
+      }))
+    });
+
+    return { posts: rankedPosts, hasMore: !!page.nextCursor };
+  }, [address, buildPosts, log, rankingMode, rankingWindow, tag]);
+
+  const fetchPosts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      log.info('Fetching posts from Supabase', { mode: rankingMode, window: rankingWindow, tag });
+
+      const page = await loadPage(true);
+
+      setHasMore(page.hasMore);
+      setPosts(page.posts);
     } catch (err) {
       log.error('Failed to fetch posts', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch posts');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [loadPage, log, rankingMode, rankingWindow, tag]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMoreRef.current) {
+      return;
+    }
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      log.info('Loading next page of posts', { cursor: cursorRef.current, offset: offsetRef.current });
+      const page = await loadPage(false);
+
+      setHasMore(page.hasMore);
+      setPosts(prev => {
+        const seen = new Set(prev.map(post => post.supabaseId));
+        return [...prev, ...page.posts.filter(post => !seen.has(post.supabaseId))];
+      });
+    } catch (err) {
+      log.error('Failed to load more posts', err);
+      setError(err instanceof Error ? err.message : 'Failed to load more posts');
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [hasMore, loadPage, log]);
+
+  const prependPost = useCallback(async (content: EncryptedContent) => {
+    // Tags are written after the post row, so a tagged feed cannot place live inserts yet
+    if (tag) {
+      return;
+    }
+
+    try {
+      const [post] = await buildPosts([content]);
+      if (!post) {
+        return;
+      }
+
+      setPosts(prev => prev.some(existing => existing.supabaseId === post.supabaseId)
+        ? prev
+        : [post, ...prev]);
+    } catch (err) {
+      log.warn('Failed to add realtime post', { postId: content.id, error: err });
+    }
+  }, [buildPosts, log, tag]);
 
   const refreshPosts = useCallback(() => {
     fetchPosts();
@@ -1178,45 +1133,37 @@ export function usePosts() {
     fetchPosts();
   }, [fetchPosts]);
 
-  
   useEffect(() => {
-    let subscription: any = null;
+    window.addEventListener(MUTED_AUTHORS_EVENT, fetchPosts);
 
-    const setupRealtimeSubscription = async () => {
-      try {
-        const { realtimeSubscriptions } = await import('../lib/supabase');
-        
-        
-        subscription = realtimeSubscriptions.subscribeToNewContent((payload) => {
-          log.info('New post detected', payload);
-          
-          
-          fetchPosts();
-        });
-
-      } catch (error) {
-        log.warn('Failed to set up real-time subscription', error);
-      }
+    return () => {
+      window.removeEventListener(MUTED_AUTHORS_EVENT, fetchPosts);
     };
+  }, [fetchPosts]);
 
-    setupRealtimeSubscription();
+  
+  useEffect(() => {
+    const unsubscribe = contentStorage.subscribeToNewContent((content) => {
+      log.info('New post detected', content);
+      prependPost(content);
+    });
 
-    
     return () => {
-      if (subscription) {
-        try {
-          subscription.unsubscribe();
-        } catch (error) {
-          log.warn('Failed to cleanup real-time subscription', error);
-        }
+      try {
+        unsubscribe();
+      } catch (error) {
+        log.warn('Failed to cleanup real-time subscription', error);
       }
     };
-  }, [fetchPosts]);
+  }, [log, prependPost]);
 
   return {
     posts,
     isLoading,
+    isLoadingMore,
+    hasMore,
     error,
+    loadMore,
     refreshPosts,
   };
 }
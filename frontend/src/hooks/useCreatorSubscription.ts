@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
+import { VentbuddyContract } from '@/lib/contract';
+import { contentStorage } from '@/lib/storage';
+import { useLogger } from './useLogger';
+
+export interface CreatorSubscriptionState {
+  pricePerMonthWei: bigint;
+  expiresAt: Date | null;
+  isActive: boolean;
+  subscriberCount: number;
+}
+
+const EMPTY_STATE: CreatorSubscriptionState = {
+  pricePerMonthWei: 0n,
+  expiresAt: null,
+  isActive: false,
+  subscriberCount: 0,
+};
+
+
+export function useCreatorSubscription(creatorAddress?: string) {
+  const { address } = useAccount();
+  const log = useLogger('useCreatorSubscription');
+  const [state, setState] = useState<CreatorSubscriptionState>(EMPTY_STATE);
+  const [isLoading, setIsLoading] = useState(!!creatorAddress);
+
+  const fetchSubscription = useCallback(async () => {
+    if (!creatorAddress) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const contract = new VentbuddyContract();
+      const [pricePerMonthWei, expirySeconds, subscriberCount] = await Promise.all([
+        contract.getSubscriptionPrice(creatorAddress as Address),
+        address ? contract.getSubscriptionExpiry(creatorAddress as Address, address) : Promise.resolve(0),
+        contentStorage.getActiveSubscriberCount(creatorAddress).catch((err) => {
+          log.warn('Failed to count subscribers', err);
+          return 0;
+        }),
+      ]);
+
+      const expiresAt = expirySeconds > 0 ? new Date(expirySeconds * 1000) : null;
+
+      setState({
+        pricePerMonthWei,
+        expiresAt,
+        isActive: !!expiresAt && expiresAt.getTime() > Date.now(),
+        subscriberCount,
+      });
+    } catch (err) {
+      log.error('Failed to fetch subscription state', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [creatorAddress, address, log]);
+
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [fetchSubscription]);
+
+  return {
+    ...state,
+    isLoading,
+    refresh: fetchSubscription,
+  };
+}
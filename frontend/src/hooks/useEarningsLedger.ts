@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Address } from 'viem';
+import { VentbuddyContract } from '@/lib/contract';
+import { contentStorage } from '@/lib/storage';
+import { chainIndexer } from '@/lib/chain-indexer';
+import { buildEarningsLedger, EMPTY_LEDGER, type EarningsLedger } from '@/lib/earnings-ledger';
+import { useLogger } from './useLogger';
+
+
+export function useEarningsLedger(creatorAddress?: string) {
+  const log = useLogger('useEarningsLedger');
+  const [ledger, setLedger] = useState<EarningsLedger>(EMPTY_LEDGER);
+  const [claimableWei, setClaimableWei] = useState(0n);
+  const [isLoading, setIsLoading] = useState(!!creatorAddress);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    if (!creatorAddress) {
+      setLedger(EMPTY_LEDGER);
+      setClaimableWei(0n);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [events, balance] = await Promise.all([
+        contentStorage.getCreatorChainEvents(chainIndexer.chainId, creatorAddress),
+        new VentbuddyContract().getBalance(creatorAddress as Address),
+      ]);
+
+      setLedger(buildEarningsLedger(events));
+      setClaimableWei(balance);
+      setError(null);
+    } catch (err) {
+      log.error('Failed to load earnings ledger', err);
+      setError(err instanceof Error ? err.message : 'Failed to load earnings ledger');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [creatorAddress, log]);
+
+  // Indexes any blocks mined since the last pass before reloading the ledger
+  const refresh = useCallback(async () => {
+    setIsSyncing(true);
+
+    try {
+      await chainIndexer.sync();
+    } catch (err) {
+      log.warn('Indexer sync failed, showing last indexed figures', err);
+    } finally {
+      setIsSyncing(false);
+    }
+
+    await loadLedger();
+  }, [loadLedger, log]);
+
+
+  useEffect(() => {
+    loadLedger();
+
+    const stopIndexer = chainIndexer.start();
+    const unsubscribe = chainIndexer.onSynced(loadLedger);
+
+    return () => {
+      unsubscribe();
+      stopIndexer();
+    };
+  }, [loadLedger]);
+
+  return {
+    ledger,
+    claimableWei,
+    isLoading,
+    isSyncing,
+    error,
+    refresh,
+  };
+}
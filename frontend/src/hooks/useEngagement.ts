@@ -1,31 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
-import { supabase } from '../lib/supabase';
+import { contentStorage, type PostStats } from '../lib/storage';
 import { toast } from 'sonner';
 
-interface PostStats {
-  raw_post_id: number; 
-  upvote_count: number;
-  downvote_count: number;
-  reply_count: number;
-  last_updated: string;
-}
-
-interface ReplyStats {
-  post_id: number;
-  reply_id: number;
-  upvote_count: number;
-  downvote_count: number;
-  last_updated: string;
-}
-
-interface UserEngagement {
-  raw_post_id: number; 
-  user_encrypted_id: string;
-  engagement_type: 'upvote' | 'downvote';
-  created_at: string;
-}
-
 export function useEngagement() {
   const { address } = useAccount();
   const [isLoading, setIsLoading] = useState(false);
@@ -33,16 +10,7 @@ export function useEngagement() {
   
   const getPostStats = useCallback(async (rawPostId: number): Promise<PostStats | null> => {
     try {
-      const { data, error } = await supabase
-        .from('post_stats')
-        .select('*')
-        .eq('raw_post_id', rawPostId)
-        .maybeSingle();
-
-      if (error) {
-        console.error('Error fetching post stats:', error);
-        return null;
-      }
+      const data = await contentStorage.getPostStats(rawPostId);
 
       return data || {
         raw_post_id: rawPostId,
@@ -60,18 +28,7 @@ export function useEngagement() {
   
   const getMultiplePostStats = useCallback(async (rawPostIds: number[]): Promise<PostStats[]> => {
     try {
-      const { data, error } = await supabase
-        .from('post_stats')
-        .select('*')
-        .in('raw_post_id', rawPostIds);
-
-      if (error) {
-        console.error('Error fetching multiple post stats:', error);
-        return [];
-      }
-
-      
-      const existingStats = data || [];
+      const existingStats = await contentStorage.getPostStatsBatch(rawPostIds);
       const existingRawPostIds = existingStats.map(stat => stat.raw_post_id);
       const missingRawPostIds = rawPostIds.filter(id => !existingRawPostIds.includes(id));
       
@@ -104,32 +61,10 @@ export function useEngagement() {
       }
 
       
-      const { data: existingUpvote, error: checkError } = await supabase
-        .from('post_engagement')
-        .select('id')
-        .eq('raw_post_id', rawPostIdValue)
-        .eq('user_encrypted_id', userEncryptedId)
-        .eq('engagement_type', 'upvote')
-        .maybeSingle();
-
-      if (checkError) {
-        console.error('Error checking existing upvote:', checkError);
-        return false;
-      }
+      const existingUpvote = await contentStorage.hasPostEngagement(rawPostIdValue, userEncryptedId, 'upvote');
 
       if (existingUpvote) {
-        
-        const { error: deleteError } = await supabase
-          .from('post_engagement')
-          .delete()
-          .eq('raw_post_id', rawPostIdValue)
-          .eq('user_encrypted_id', userEncryptedId)
-          .eq('engagement_type', 'upvote');
-
-        if (deleteError) {
-          console.error('Error removing upvote:', deleteError);
-          return false;
-        }
+        await contentStorage.removePostEngagement(rawPostIdValue, userEncryptedId, 'upvote');
 
 
 
@@ -137,26 +72,8 @@ export function useEngagement() {
         return false; 
       } else {
         
-        await supabase
-          .from('post_engagement')
-          .delete()
-          .eq('raw_post_id', rawPostIdValue)
-          .eq('user_encrypted_id', userEncryptedId)
-          .eq('engagement_type', 'downvote');
-
-        
-        const { error: insertError } = await supabase
-          .from('post_engagement')
-          .insert({
-            raw_post_id: rawPostIdValue,
-            user_encrypted_id: userEncryptedId,
-            engagement_type: 'upvote'
-          });
-
-        if (insertError) {
-          console.error('Error adding upvote:', insertError);
-          return false;
-        }
+        await contentStorage.removePostEngagement(rawPostIdValue, userEncryptedId, 'downvote');
+        await contentStorage.addPostEngagement(rawPostIdValue, userEncryptedId, 'upvote');
 
         
 
@@ -185,32 +102,10 @@ export function useEngagement() {
       }
 
       
-      const { data: existingDownvote, error: checkError } = await supabase
-        .from('post_engagement')
-        .select('id')
-        .eq('raw_post_id', rawPostIdValue)
-        .eq('user_encrypted_id', userEncryptedId)
-        .eq('engagement_type', 'downvote')
-        .maybeSingle();
-
-      if (checkError) {
-        console.error('Error checking existing downvote:', checkError);
-        return false;
-      }
+      const existingDownvote = await contentStorage.hasPostEngagement(rawPostIdValue, userEncryptedId, 'downvote');
 
       if (existingDownvote) {
-        
-        const { error: deleteError } = await supabase
-          .from('post_engagement')
-          .delete()
-          .eq('raw_post_id', rawPostIdValue)
-          .eq('user_encrypted_id', userEncryptedId)
-          .eq('engagement_type', 'downvote');
-
-        if (deleteError) {
-          console.error('Error removing downvote:', deleteError);
-          return false;
-        }
+        await contentStorage.removePostEngagement(rawPostIdValue, userEncryptedId, 'downvote');
 
 
 
@@ -218,26 +113,8 @@ export function useEngagement() {
           return false; 
       } else {
         
-        await supabase
-          .from('post_engagement')
-          .delete()
-          .eq('raw_post_id', rawPostIdValue)
-          .eq('user_encrypted_id', userEncryptedId)
-          .eq('engagement_type', 'upvote');
-
-        
-        const { error: insertError } = await supabase
-          .from('post_engagement')
-          .insert({
-            raw_post_id: rawPostIdValue,
-            user_encrypted_id: userEncryptedId,
-            engagement_type: 'downvote'
-          });
-
-        if (insertError) {
-          console.error('Error adding downvote:', insertError);
-          return false;
-        }
+        await contentStorage.removePostEngagement(rawPostIdValue, userEncryptedId, 'upvote');
+        await contentStorage.addPostEngagement(rawPostIdValue, userEncryptedId, 'downvote');
 
         
 
@@ -257,20 +134,7 @@ export function useEngagement() {
     try {
       const rawPostIdValue = parseInt(rawPostId.toString());
       
-      const { data, error } = await supabase
-        .from('post_engagement')
-        .select('id')
-        .eq('raw_post_id', rawPostIdValue)
-        .eq('user_encrypted_id', userEncryptedId)
-        .eq('engagement_type', 'upvote')
-        .maybeSingle();
-
-      if (error) {
-        console.error('Error checking user upvote:', error);
-        return false;
-      }
-
-      return !!data;
+      return await contentStorage.hasPostEngagement(rawPostIdValue, userEncryptedId, 'upvote');
     } catch (error) {
       console.error('Error checking user upvote:', error);
       return false;
@@ -282,20 +146,7 @@ export function useEngagement() {
     try {
       const rawPostIdValue = parseInt(rawPostId.toString());
       
-      const { data, error } = await supabase
-        .from('post_engagement')
-        .select('id')
-        .eq('raw_post_id', rawPostIdValue)
-        .eq('user_encrypted_id', userEncryptedId)
-        .eq('engagement_type', 'downvote')
-        .maybeSingle();
-
-      if (error) {
-        console.error('Error checking user downvote:', error);
-        return false;
-      }
-
-      return !!data;
+      return await contentStorage.hasPostEngagement(rawPostIdValue, userEncryptedId, 'downvote');
     } catch (error) {
       console.error('Error checking user downvote:', error);
       return false;
@@ -313,20 +164,10 @@ export function useEngagement() {
         return;
       }
       
-      const { error } = await supabase
-        .from('post_stats')
-        .upsert({
-          raw_post_id: rawPostIdValue,
-          reply_count: newCount,
-          last_updated: new Date().toISOString()
-        }, {
-          onConflict: 'raw_post_id',
-          ignoreDuplicates: false
-        });
-
-      if (error) {
-        console.error('Error updating reply count:', error);
-      }
+      await contentStorage.upsertPostStats({
+        raw_post_id: rawPostIdValue,
+        reply_count: newCount
+      });
     } catch (error) {
       console.error('Error updating reply count:', error);
     }
@@ -336,50 +177,18 @@ export function useEngagement() {
   const updatePostStatsCounts = useCallback(async (rawPostId: number) => {
     try {
       
-      const [upvoteResult, downvoteResult] = await Promise.all([
-        supabase
-          .from('post_engagement')
-          .select('id', { count: 'exact' })
-          .eq('raw_post_id', rawPostId)
-          .eq('engagement_type', 'upvote'),
-        supabase
-          .from('post_engagement')
-          .select('id', { count: 'exact' })
-          .eq('raw_post_id', rawPostId)
-          .eq('engagement_type', 'downvote')
+      const [upvoteCount, downvoteCount] = await Promise.all([
+        contentStorage.countPostEngagement(rawPostId, 'upvote'),
+        contentStorage.countPostEngagement(rawPostId, 'downvote')
       ]);
 
-      const upvoteCount = upvoteResult.count || 0;
-      const downvoteCount = downvoteResult.count || 0;
+      await contentStorage.upsertPostStats({
+        raw_post_id: rawPostId,
+        upvote_count: upvoteCount,
+        downvote_count: downvoteCount
+      });
 
-      
-      const { data: existingStats } = await supabase
-        .from('post_stats')
-        .select('reply_count')
-        .eq('raw_post_id', rawPostId)
-        .maybeSingle();
-
-      const replyCount = existingStats?.reply_count || 0;
-
-
-      const { error } = await supabase
-        .from('post_stats')
-        .upsert({
-          raw_post_id: rawPostId,
-          upvote_count: upvoteCount,
-          downvote_count: downvoteCount,
-          reply_count: replyCount,
-          last_updated: new Date().toISOString()
-        }, {
-          onConflict: 'raw_post_id',
-          ignoreDuplicates: false
-        });
-
-      if (error) {
-        console.error('Error updating post stats counts:', error);
-      } else {
-        console.log(`Updated post ${rawPostId} stats: ${upvoteCount} upvotes, ${downvoteCount} downvotes`);
-      }
+      console.log(`Updated post ${rawPostId} stats: ${upvoteCount} upvotes, ${downvoteCount} downvotes`);
     } catch (error) {
       console.error('Error in updatePostStatsCounts:', error);
     }
@@ -391,18 +200,7 @@ export function useEngagement() {
       console.log('Starting to fix all post stats counts...');
       
       
-      const { data: engagementData, error: engagementError } = await supabase
-        .from('post_engagement')
-        .select('raw_post_id')
-        .order('raw_post_id');
-
-      if (engagementError) {
-        console.error('Error fetching engagement data:', engagementError);
-        return;
-      }
-
-      
-      const uniquePostIds = [...new Set(engagementData?.map(item => item.raw_post_id) || [])];
+      const uniquePostIds = await contentStorage.getEngagedRawPostIds();
       
       console.log(`Found ${uniquePostIds.length} posts with engagement data`);
 
@@ -441,40 +239,23 @@ export function useEngagementSubscription(rawPostIds: number[]) {
     if (rawPostIds.length === 0) return;
 
     
-    const subscription = supabase
-      .channel('post-stats-updates')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'post_stats',
-          filter: `raw_post_id=in.(${rawPostIds.join(',')})`
-        },
-        (payload) => {
-          console.log('Real-time stats update:', payload);
-          
-          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-            setStats(prev => {
-              const newStats = payload.new as PostStats;
-              const existingIndex = prev.findIndex(stat => stat.raw_post_id === newStats.raw_post_id);
-              
-              if (existingIndex >= 0) {
-                const updated = [...prev];
-                updated[existingIndex] = newStats;
-                return updated;
-              } else {
-                return [...prev, newStats];
-              }
-            });
-          }
+    const unsubscribe = contentStorage.subscribeToPostStats(rawPostIds, (newStats) => {
+      console.log('Real-time stats update:', newStats);
+
+      setStats(prev => {
+        const existingIndex = prev.findIndex(stat => stat.raw_post_id === newStats.raw_post_id);
+
+        if (existingIndex >= 0) {
+          const updated = [...prev];
+          updated[existingIndex] = newStats;
+          return updated;
+        } else {
+          return [...prev, newStats];
         }
-      )
-      .subscribe();
+      });
+    });
 
-    return () => {
-      subscription.unsubscribe();
-    };
+    return unsubscribe;
   }, [rawPostIds]);
 
   return stats;
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import {
+  loadRankingPreference,
+  saveRankingPreference,
+  type RankingMode,
+  type RankingOptions,
+  type TopWindow,
+} from '../lib/ranking';
+
+
+export function useFeedRanking() {
+  const { address } = useAccount();
+  const [ranking, setRanking] = useState<RankingOptions>(() => loadRankingPreference(address));
+
+
+  useEffect(() => {
+    setRanking(loadRankingPreference(address));
+  }, [address]);
+
+  const updateRanking = useCallback((changes: Partial<RankingOptions>) => {
+    setRanking(prev => {
+      const next = { ...prev, ...changes };
+      saveRankingPreference(next, address);
+      return next;
+    });
+  }, [address]);
+
+  const setMode = useCallback((mode: RankingMode) => updateRanking({ mode }), [updateRanking]);
+  const setWindow = useCallback((window: TopWindow) => updateRanking({ window }), [updateRanking]);
+
+  return {
+    ranking,
+    setMode,
+    setWindow,
+  };
+}
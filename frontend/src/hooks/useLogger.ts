@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { logger, LogLevel } from '../lib/logger';
 
 
@@ -10,45 +10,40 @@ export function useLogger(componentName: string) {
     [componentName]
   );
 
-  return {
-    debug: useCallback((message: string, data?: any) => log('debug', message, data), [log]),
-    info: useCallback((message: string, data?: any) => log('info', message, data), [log]),
-    warn: useCallback((message: string, data?: any) => log('warn', message, data), [log]),
-    error: useCallback((message: string, data?: any) => log('error', message, data), [log]),
-    
-    
-    api: useCallback((method: string, url: string, data?: any) => {
-      logger.api(method, url, data, componentName);
-    }, [componentName]),
-    
-    db: useCallback((operation: string, table: string, data?: any) => {
-      logger.db(operation, table, data, componentName);
-    }, [componentName]),
-    
-    contract: useCallback((method: string, data?: any) => {
-      logger.contract(method, data, componentName);
-    }, [componentName]),
-    
-    user: useCallback((action: string, data?: any) => {
-      logger.user(action, data, componentName);
-    }, [componentName]),
-    
-    performance: useCallback((operation: string, duration: number) => {
-      logger.performance(operation, duration, componentName);
-    }, [componentName]),
-    
-    security: useCallback((event: string, data?: any) => {
-      logger.security(event, data, componentName);
-    }, [componentName]),
-    
-    trace: useCallback((functionName: string) => {
-      logger.trace(functionName, componentName);
-    }, [componentName]),
-    
-    traceExit: useCallback((functionName: string, result?: any) => {
-      logger.traceExit(functionName, result, componentName);
-    }, [componentName])
-  };
+  const debug = useCallback((message: string, data?: any) => log('debug', message, data), [log]);
+  const info = useCallback((message: string, data?: any) => log('info', message, data), [log]);
+  const warn = useCallback((message: string, data?: any) => log('warn', message, data), [log]);
+  const error = useCallback((message: string, data?: any) => log('error', message, data), [log]);
+  const api = useCallback((method: string, url: string, data?: any) => {
+    logger.api(method, url, data, componentName);
+  }, [componentName]);
+  const db = useCallback((operation: string, table: string, data?: any) => {
+    logger.db(operation, table, data, componentName);
+  }, [componentName]);
+  const contract = useCallback((method: string, data?: any) => {
+    logger.contract(method, data, componentName);
+  }, [componentName]);
+  const user = useCallback((action: string, data?: any) => {
+    logger.user(action, data, componentName);
+  }, [componentName]);
+  const performance = useCallback((operation: string, duration: number) => {
+    logger.performance(operation, duration, componentName);
+  }, [componentName]);
+  const security = useCallback((event: string, data?: any) => {
+    logger.security(event, data, componentName);
+  }, [componentName]);
+  const trace = useCallback((functionName: string) => {
+    logger.trace(functionName, componentName);
+  }, [componentName]);
+  const traceExit = useCallback((functionName: string, result?: any) => {
+    logger.traceExit(functionName, result, componentName);
+  }, [componentName]);
+
+  // Memoized so hooks can list the logger in their dependency arrays
+  return useMemo(
+    () => ({ debug, info, warn, error, api, db, contract, user, performance, security, trace, traceExit }),
+    [debug, info, warn, error, api, db, contract, user, performance, security, trace, traceExit]
+  );
 }
 
 export default useLogger;
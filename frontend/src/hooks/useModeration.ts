@@ -0,0 +1,112 @@
+import { useState, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import { getWalletClientFromWagmi } from '@/lib/contract';
+import {
+  moderationService,
+  type ModerationQueueItem,
+  type ModerationTarget,
+  type ReportReason,
+} from '@/lib/moderation';
+import { useLogger } from './useLogger';
+
+
+export function useModeration() {
+  const { address } = useAccount();
+  const log = useLogger('useModeration');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isModerator = moderationService.isModerator(address);
+
+  const getWalletClient = async () => {
+    const walletClient = await getWalletClientFromWagmi();
+    if (!walletClient) {
+      throw new Error('Wallet client not available');
+    }
+    return walletClient;
+  };
+
+  const reportContent = useCallback(async (
+    target: ModerationTarget,
+    reason: ReportReason,
+    details: string
+  ): Promise<boolean> => {
+    if (!address) {
+      toast.error('Please connect your wallet to report content');
+      return false;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const reported = await moderationService.report(target, reason, details, await getWalletClient());
+
+      log.info('Content reported', { target, reason, reported });
+      toast.success(reported
+        ? 'Thanks for reporting. Moderators will review it.'
+        : 'You already reported this.');
+      return true;
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      log.error('Report failed', error);
+
+      if (message.toLowerCase().includes('user rejected')) {
+        toast.error('Report was cancelled.');
+      } else {
+        toast.error('Failed to send report. Please try again.');
+      }
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, log]);
+
+  const loadQueue = useCallback(async (): Promise<ModerationQueueItem[]> => {
+    setIsLoading(true);
+
+    try {
+      return await moderationService.getQueue(await getWalletClient());
+    } catch (error) {
+      log.error('Failed to load moderation queue', error);
+      toast.error('Failed to load the review queue');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [log]);
+
+  const setHidden = useCallback(async (target: ModerationTarget, hidden: boolean): Promise<boolean> => {
+    setIsLoading(true);
+
+    try {
+      const walletClient = await getWalletClient();
+      if (hidden) {
+        await moderationService.hide(target, walletClient);
+      } else {
+        await moderationService.restore(target, walletClient);
+      }
+
+      log.info(hidden ? 'Content hidden' : 'Content restored', { target });
+      toast.success(hidden ? 'Content hidden' : 'Content restored');
+      return true;
+    } catch (error) {
+      log.error('Moderation action failed', error);
+      toast.error(hidden ? 'Failed to hide content' : 'Failed to restore content');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [log]);
+
+  const hideContent = useCallback((target: ModerationTarget) => setHidden(target, true), [setHidden]);
+  const restoreContent = useCallback((target: ModerationTarget) => setHidden(target, false), [setHidden]);
+
+  return {
+    isModerator,
+    reportContent,
+    loadQueue,
+    hideContent,
+    restoreContent,
+    isLoading,
+  };
+}
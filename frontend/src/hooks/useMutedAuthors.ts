@@ -0,0 +1,124 @@
+import { useState, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import { getWalletClientFromWagmi } from '@/lib/contract';
+import {
+  buildMutedAuthorsMessage,
+  contentStorage,
+  MUTED_AUTHORS_EVENT,
+  type MuteAction,
+  type MuteKind,
+  type MutedAuthor,
+  type SignedMuteRequest,
+} from '@/lib/storage';
+import { useLogger } from './useLogger';
+
+export function useMutedAuthors() {
+  const { address } = useAccount();
+  const log = useLogger('useMutedAuthors');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const notifyChange = () => {
+    window.dispatchEvent(new CustomEvent(MUTED_AUTHORS_EVENT));
+  };
+
+  // Mute list requests are signed here so the storage layer never touches the wallet
+  const signRequest = useCallback(async (action: MuteAction, authorId?: string, kind?: MuteKind): Promise<SignedMuteRequest> => {
+    const walletClient = await getWalletClientFromWagmi();
+    const issuedAt = new Date().toISOString();
+    const signature = await walletClient.signMessage({
+      account: walletClient.account!,
+      message: buildMutedAuthorsMessage(action, issuedAt, authorId, kind),
+    });
+
+    return { action, authorId, kind, issuedAt, signature };
+  }, []);
+
+  const muteAuthor = useCallback(async (authorId: string, kind: MuteKind): Promise<boolean> => {
+    if (!address) {
+      toast.error('Please connect your wallet to mute authors');
+      return false;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const signed = await signRequest('mute', authorId, kind);
+      await contentStorage.muteAuthor(address, authorId, kind, signed);
+
+      log.info('Author muted', { kind });
+      toast.success(kind === 'block'
+        ? 'Author blocked. You will no longer see their posts or replies.'
+        : 'Author muted. Their posts are hidden and their replies collapsed.');
+      notifyChange();
+      return true;
+    } catch (error) {
+      log.error('Mute failed', error);
+      toast.error(kind === 'block' ? 'Failed to block author.' : 'Failed to mute author.');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, log, signRequest]);
+
+  const unmuteAuthor = useCallback(async (authorId: string): Promise<boolean> => {
+    if (!address) return false;
+
+    setIsLoading(true);
+
+    try {
+      const signed = await signRequest('unmute', authorId);
+      await contentStorage.unmuteAuthor(address, authorId, signed);
+
+      log.info('Author unmuted');
+      toast.success('Author unmuted.');
+      notifyChange();
+      return true;
+    } catch (error) {
+      log.error('Unmute failed', error);
+      toast.error('Failed to unmute author.');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, log, signRequest]);
+
+  const getMutedAuthors = useCallback(async (): Promise<MutedAuthor[]> => {
+    if (!address) return [];
+
+    try {
+      return await contentStorage.getMutedAuthors(address);
+    } catch (error) {
+      log.error('Failed to load muted authors', error);
+      return [];
+    }
+  }, [address, log]);
+
+  const hasListAccess = useCallback((): boolean => {
+    return !!address && contentStorage.hasMuteListGrant(address);
+  }, [address]);
+
+  // Asks the wallet once for a read grant; used when this browser has none yet
+  const authorizeList = useCallback(async (): Promise<boolean> => {
+    if (!address) return false;
+
+    try {
+      contentStorage.saveMuteListGrant(address, await signRequest('list'));
+      notifyChange();
+      return true;
+    } catch (error) {
+      log.error('Mute list authorization failed', error);
+      toast.error('Signature is needed to load your muted authors.');
+      return false;
+    }
+  }, [address, log, signRequest]);
+
+  return {
+    muteAuthor,
+    unmuteAuthor,
+    getMutedAuthors,
+    hasListAccess,
+    authorizeList,
+    isLoading,
+  };
+}
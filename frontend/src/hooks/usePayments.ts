@@ -3,7 +3,9 @@ import { useAccount } from 'wagmi';
 import { parseEther, formatEther } from 'viem';
 import { toast } from 'sonner';
 import { VentbuddyContract, getWalletClientFromWagmi, publicClient } from '@/lib/contract';
-import { supabase } from '@/lib/supabase';
+import { contentStorage, type AccessContentType, type AccessType } from '@/lib/storage';
+import { visibilityManager } from '@/lib/visibility-manager';
+import { chainIndexer } from '@/lib/chain-indexer';
 
 export interface PaymentResult {
   txHash: string;
@@ -41,15 +43,7 @@ export const usePayments = () => {
     if (!address) return false;
     
     try {
-      const { data, error } = await supabase
-        .from('user_sessions')
-        .select('id, wallet_address, encrypted_address')
-        .eq('wallet_address', address)
-        .maybeSingle();
-
-      if (error) {
-        return false;
-      }
+      const data = await contentStorage.getUserSession(address);
 
       const isRegistered = !!data && !!data.encrypted_address;
       return isRegistered;
@@ -121,6 +115,25 @@ export const usePayments = () => {
     }
   }, [contract]);
 
+  // Earnings dashboards read access_logs, so every confirmed payment is recorded there.
+  // A failed write is only logged: the payment itself already succeeded on-chain.
+  const recordAccess = useCallback(async (entry: {
+    contentId: number | string;
+    contentType: AccessContentType;
+    accessType: AccessType;
+    amountWei: bigint;
+    txHash: string;
+    rawPostId?: number;
+  }) => {
+    if (!address) return;
+
+    try {
+      await visibilityManager.logAccess({ ...entry, userAddress: address });
+    } catch (error) {
+      console.warn('Failed to record access log:', error);
+    }
+  }, [address]);
+
   const tipPost = useCallback(async (postId: string | number, amountInETH: string | number): Promise<PaymentResult> => {
     if (!isConnected || !address) {
       const error = 'Please connect your wallet to tip posts';
@@ -168,6 +181,14 @@ export const usePayments = () => {
       const confirmation = await waitForTransactionConfirmation(txHash);
       
       if (confirmation.success) {
+        await recordAccess({
+          contentId: postIdNum,
+          contentType: 'post',
+          accessType: 'tip',
+          amountWei: amountInWei,
+          txHash,
+          rawPostId: postIdNum,
+        });
         const successMsg = `Successfully tipped ${amountInETH} ETH to the post creator!`;
         toast.success(successMsg);
         return { txHash, success: true };
@@ -196,7 +217,7 @@ export const usePayments = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation]);
+  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation, recordAccess]);
 
   const tipReply = useCallback(async (postId: string | number, replyId: string | number, amountInETH: string | number): Promise<PaymentResult> => {
     if (!isConnected || !address) {
@@ -253,6 +274,14 @@ export const usePayments = () => {
       const confirmation = await waitForTransactionConfirmation(txHash);
       
       if (confirmation.success) {
+        await recordAccess({
+          contentId: replyIdNum,
+          contentType: 'reply',
+          accessType: 'tip',
+          amountWei: amountInWei,
+          txHash,
+          rawPostId: postIdNum,
+        });
         const successMsg = `Successfully tipped ${amountInETH} ETH to the reply author!`;
         toast.success(successMsg);
         return { txHash, success: true };
@@ -281,7 +310,7 @@ export const usePayments = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation]);
+  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation, recordAccess]);
 
   const unlockTippableContent = useCallback(async (postId: string | number, amountInETH: string | number): Promise<PaymentResult> => {
     if (!isConnected || !address) {
@@ -330,6 +359,14 @@ export const usePayments = () => {
       const confirmation = await waitForTransactionConfirmation(txHash);
       
       if (confirmation.success) {
+        await recordAccess({
+          contentId: postIdNum,
+          contentType: 'post',
+          accessType: 'unlock',
+          amountWei: amountInWei,
+          txHash,
+          rawPostId: postIdNum,
+        });
         const successMsg = `Successfully unlocked content with ${amountInETH} ETH tip!`;
         toast.success(successMsg);
         return { txHash, success: true };
@@ -360,7 +397,255 @@ export const usePayments = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation]);
+  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation, recordAccess]);
+
+  const unlockTippableReply = useCallback(async (
+    postId: string | number,
+    replyId: string | number,
+    amountInETH: string | number
+  ): Promise<PaymentResult> => {
+    if (!isConnected || !address) {
+      const error = 'Please connect your wallet to unlock replies';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    if (!contract) {
+      const error = 'Payment contract not initialized. Please try reconnecting your wallet.';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    const postIdNum = typeof postId === 'string' ? parseInt(postId, 10) : postId;
+    const replyIdNum = typeof replyId === 'string' ? parseInt(replyId, 10) : replyId;
+
+    if (isNaN(postIdNum) || postIdNum <= 0) {
+      const error = 'Invalid post ID';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    if (isNaN(replyIdNum) || replyIdNum <= 0) {
+      const error = 'Invalid reply ID';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    let amountInWei: bigint;
+    try {
+      amountInWei = parseEther(amountInETH.toString());
+      if (amountInWei <= 0n) {
+        throw new Error('Amount must be greater than 0');
+      }
+    } catch (error) {
+      const errorMsg = 'Invalid unlock amount. Please enter a valid ETH amount.';
+      toast.error(errorMsg);
+      return { txHash: '', success: false, error: errorMsg };
+    }
+
+    setIsLoading(true);
+
+    try {
+      const isRegistered = await checkUserRegistration();
+      if (!isRegistered) {
+        const error = 'Wallet not registered. Please register your wallet first before unlocking replies.';
+        toast.error(error);
+        return { txHash: '', success: false, error };
+      }
+
+      const txHash = await contract.unlockTippableReply(postIdNum, replyIdNum, { value: amountInWei });
+
+      const confirmation = await waitForTransactionConfirmation(txHash);
+
+      if (confirmation.success) {
+        await recordAccess({
+          contentId: replyIdNum,
+          contentType: 'reply',
+          accessType: 'unlock',
+          amountWei: amountInWei,
+          txHash,
+          rawPostId: postIdNum,
+        });
+        const successMsg = `Successfully unlocked reply with ${amountInETH} ETH tip!`;
+        toast.success(successMsg);
+        return { txHash, success: true };
+      } else {
+        toast.error(confirmation.error || 'Transaction failed');
+        return { txHash, success: false, error: confirmation.error };
+      }
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      let errorMsg = 'Failed to unlock reply. Please try again.';
+
+      if (message.includes('User not registered')) {
+        errorMsg = 'Please register your wallet first before unlocking replies.';
+      } else if (message.includes('Reply does not exist')) {
+        errorMsg = 'This reply no longer exists.';
+      } else if (message.includes('No zero tips')) {
+        errorMsg = 'Unlock amount must be greater than 0.';
+      } else if (message.includes('Tip amount below minimum required')) {
+        errorMsg = 'Tip amount is below the minimum required to unlock this reply.';
+      } else if (message.includes('insufficient funds')) {
+        errorMsg = 'Insufficient ETH balance to unlock this reply.';
+      } else if (message.includes('user rejected')) {
+        errorMsg = 'Transaction was cancelled by user.';
+        return { txHash: '', success: false, error: errorMsg };
+      }
+
+      toast.error(errorMsg);
+      return { txHash: '', success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation, recordAccess]);
+
+  const subscribeToCreator = useCallback(async (
+    creatorAddress: string,
+    months: number,
+    pricePerMonthWei: bigint
+  ): Promise<PaymentResult & { expiresAt?: Date }> => {
+    if (!isConnected || !address) {
+      const error = 'Please connect your wallet to subscribe';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    if (!contract) {
+      const error = 'Payment contract not initialized. Please try reconnecting your wallet.';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    if (creatorAddress.toLowerCase() === address.toLowerCase()) {
+      const error = 'You cannot subscribe to yourself';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    if (pricePerMonthWei <= 0n) {
+      const error = 'This creator has not enabled subscriptions yet';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    const amountInWei = pricePerMonthWei * BigInt(months);
+
+    setIsLoading(true);
+
+    try {
+      const isRegistered = await checkUserRegistration();
+      if (!isRegistered) {
+        const error = 'Wallet not registered. Please register your wallet first before subscribing.';
+        toast.error(error);
+        return { txHash: '', success: false, error };
+      }
+
+      const txHash = await contract.subscribe(creatorAddress as `0x${string}`, months, { value: amountInWei });
+
+      const confirmation = await waitForTransactionConfirmation(txHash);
+
+      if (!confirmation.success) {
+        toast.error(confirmation.error || 'Transaction failed');
+        return { txHash, success: false, error: confirmation.error };
+      }
+
+      const expirySeconds = await contract.getSubscriptionExpiry(
+        creatorAddress as `0x${string}`,
+        address
+      );
+      const expiresAt = new Date(expirySeconds * 1000);
+
+      // The indexer mirrors the subscription for subscriber counts; access already reads the contract
+      chainIndexer.sync().catch(syncError => console.warn('Failed to sync subscriptions:', syncError));
+
+      await recordAccess({
+        contentId: creatorAddress.toLowerCase(),
+        contentType: 'creator',
+        accessType: 'subscribe',
+        amountWei: amountInWei,
+        txHash,
+      });
+
+      toast.success(`Subscribed until ${expiresAt.toLocaleDateString()}`);
+      return { txHash, success: true, expiresAt };
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      let errorMsg = 'Failed to subscribe. Please try again.';
+
+      if (message.includes('User not registered')) {
+        errorMsg = 'Please register your wallet first before subscribing.';
+      } else if (message.includes('Creator not registered')) {
+        errorMsg = 'This creator is not registered.';
+      } else if (message.includes('Subscriptions not enabled')) {
+        errorMsg = 'This creator has not enabled subscriptions yet.';
+      } else if (message.includes('Incorrect subscription payment')) {
+        errorMsg = 'The subscription price changed. Please refresh and try again.';
+      } else if (message.includes('insufficient funds')) {
+        errorMsg = 'Insufficient ETH balance for this subscription.';
+      } else if (message.includes('user rejected')) {
+        errorMsg = 'Transaction was cancelled by user.';
+        return { txHash: '', success: false, error: errorMsg };
+      }
+
+      toast.error(errorMsg);
+      return { txHash: '', success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isConnected, address, contract, checkUserRegistration, waitForTransactionConfirmation, recordAccess]);
+
+  const setSubscriptionPrice = useCallback(async (priceInETH: string | number): Promise<PaymentResult> => {
+    if (!isConnected || !address || !contract) {
+      const error = 'Please connect your wallet to update your subscription price';
+      toast.error(error);
+      return { txHash: '', success: false, error };
+    }
+
+    let priceInWei: bigint;
+    try {
+      priceInWei = parseEther(priceInETH.toString());
+      if (priceInWei < 0n) {
+        throw new Error('Price cannot be negative');
+      }
+    } catch (error) {
+      const errorMsg = 'Invalid subscription price. Please enter a valid ETH amount.';
+      toast.error(errorMsg);
+      return { txHash: '', success: false, error: errorMsg };
+    }
+
+    setIsLoading(true);
+
+    try {
+      const txHash = await contract.setSubscriptionPrice(priceInWei);
+
+      const confirmation = await waitForTransactionConfirmation(txHash);
+
+      if (confirmation.success) {
+        toast.success(priceInWei > 0n
+          ? `Subscription price set to ${priceInETH} ETH per month`
+          : 'Subscriptions disabled');
+        return { txHash, success: true };
+      } else {
+        toast.error(confirmation.error || 'Transaction failed');
+        return { txHash, success: false, error: confirmation.error };
+      }
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      let errorMsg = 'Failed to update subscription price. Please try again.';
+
+      if (message.includes('User not registered')) {
+        errorMsg = 'Please register your wallet first before enabling subscriptions.';
+      } else if (message.includes('user rejected')) {
+        errorMsg = 'Transaction was cancelled by user.';
+        return { txHash: '', success: false, error: errorMsg };
+      }
+
+      toast.error(errorMsg);
+      return { txHash: '', success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isConnected, address, contract, waitForTransactionConfirmation]);
 
   const tipPostLegacy = useCallback(async (postId: string, amountInETH: number): Promise<string> => {
     const result = await tipPost(postId, amountInETH.toString());
@@ -383,6 +668,9 @@ export const usePayments = () => {
     tipReply,
     unlockTippableContent,
     unlockContent,
+    unlockTippableReply,
+    subscribeToCreator,
+    setSubscriptionPrice,
     checkUserRegistration,
     checkPostExists,
     contract,
@@ -0,0 +1,240 @@
+import { useState, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import { VentbuddyContract, getWalletClientFromWagmi, publicClient } from '@/lib/contract';
+import { contentEncryptionService, SEALED_KEY_ERROR } from '@/lib/content-encryption';
+import { contentStorage, type EncryptedContent, type PostRevision } from '@/lib/storage';
+import { useLogger } from './useLogger';
+
+// verified: the stored content hashes to the on-chain hash for that revision
+// mismatch: it does not, so the stored copy was changed after it was anchored
+// locked: the revision uses a sealed key that has not been released to this wallet yet
+// missing: the revision is anchored on-chain but its content never reached Supabase
+export type RevisionStatus = 'verified' | 'mismatch' | 'locked' | 'missing';
+
+export interface VerifiedRevision {
+  revision: number;
+  content: string | null;
+  encryptedContent: string | null;
+  onchainContentHash: string;
+  editedAt: Date | null; // null for the original post
+  txHash: string | null;
+  status: RevisionStatus;
+}
+
+const PREVIEW_LENGTH = 100;
+
+
+export function usePostRevisions() {
+  const { address } = useAccount();
+  const log = useLogger('usePostRevisions');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const getContract = async () => {
+    const walletClient = await getWalletClientFromWagmi();
+    if (!walletClient) {
+      throw new Error('Wallet client not available');
+    }
+    return new VentbuddyContract(walletClient);
+  };
+
+  const toastError = (error: unknown, fallback: string) => {
+    const message = (error as Error)?.message || '';
+
+    if (message.includes('Only the author')) {
+      toast.error('Only the author can change this post.');
+    } else if (message.includes('Post deleted')) {
+      toast.error('This post has been deleted.');
+    } else if (message.includes('user rejected')) {
+      toast.error('Transaction was cancelled by user.');
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  // Paywalled posts keep a sealed key after editing so the new text stays behind the unlock
+  const editPost = useCallback(async (
+    rawPostId: number,
+    content: string,
+    options: { sealed: boolean }
+  ): Promise<EncryptedContent | null> => {
+    if (!address) {
+      toast.error('Please connect your wallet to edit posts');
+      return null;
+    }
+
+    if (!content.trim()) {
+      toast.error('Post content cannot be empty');
+      return null;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const preview = content.length > PREVIEW_LENGTH ? content.substring(0, PREVIEW_LENGTH) + '...' : content;
+      const contentHash = await contentEncryptionService.generateHash(content);
+      const previewHash = await contentEncryptionService.generateHash(preview);
+      const contentKey = await contentEncryptionService.createContentKey({ sealed: options.sealed });
+      const encryptedContent = await contentEncryptionService.encryptContent(content, contentKey);
+      const encryptedPreview = await contentEncryptionService.encryptContent(preview, contentKey);
+
+      const contract = await getContract();
+      const { txHash, revision } = await contract.editPost(
+        rawPostId,
+        contentHash as `0x${string}`,
+        previewHash as `0x${string}`
+      );
+
+      log.info('Post edit anchored on-chain', { rawPostId, revision, txHash });
+
+      const updated = await contentStorage.editPost(rawPostId, {
+        revision,
+        contentHash,
+        previewHash,
+        encryptedContent,
+        encryptedPreview,
+        txHash,
+      });
+
+      toast.success('Post updated!');
+      return updated;
+    } catch (error) {
+      log.error('Post edit failed', error);
+      toastError(error, 'Failed to edit post. Please try again.');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, log]);
+
+  const deletePost = useCallback(async (rawPostId: number): Promise<boolean> => {
+    if (!address) {
+      toast.error('Please connect your wallet to delete posts');
+      return false;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const contract = await getContract();
+      const txHash = await contract.deletePost(rawPostId);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        throw new Error('Delete transaction failed');
+      }
+
+      await contentStorage.softDeletePost(rawPostId);
+
+      log.info('Post deleted', { rawPostId, txHash });
+      toast.success('Post deleted');
+      return true;
+    } catch (error) {
+      log.error('Post deletion failed', error);
+      toastError(error, 'Failed to delete post. Please try again.');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, log]);
+
+  const verify = useCallback(async (content: string, onchainContentHash: string): Promise<RevisionStatus> => {
+    const hash = await contentEncryptionService.generateHash(content);
+    return hash.toLowerCase() === onchainContentHash.toLowerCase() ? 'verified' : 'mismatch';
+  }, []);
+
+  /**
+   * Loads every revision anchored on-chain and checks each stored copy against it.
+   * Sealed revisions are left 'locked'; decryptRevision releases them one at a time
+   * because every revision has its own key and release signature.
+   */
+  const loadRevisions = useCallback(async (rawPostId: number): Promise<VerifiedRevision[]> => {
+    setIsLoading(true);
+
+    try {
+      const contract = new VentbuddyContract();
+      const [count, storedRevisions, current] = await Promise.all([
+        contract.getPostRevisionCount(rawPostId),
+        contentStorage.getPostRevisions(rawPostId),
+        contentStorage.getEncryptedContentByRawPostId(rawPostId),
+      ]);
+
+      const byRevision = new Map<number, Pick<PostRevision, 'encrypted_content' | 'tx_hash'>>(
+        storedRevisions.map(revision => [revision.revision, revision])
+      );
+      // A post that was never edited has no revision rows; its live row is revision 0
+      if (!byRevision.has(0) && current && !(current.revision_count ?? 0)) {
+        byRevision.set(0, { encrypted_content: current.encrypted_content, tx_hash: null });
+      }
+
+      const revisions: VerifiedRevision[] = [];
+
+      for (let revision = 0; revision < count; revision++) {
+        const onchain = await contract.getPostRevision(rawPostId, revision);
+        const stored = byRevision.get(revision);
+        const base = {
+          revision,
+          encryptedContent: stored?.encrypted_content ?? null,
+          onchainContentHash: onchain.contentHash,
+          editedAt: onchain.editedAt > 0 ? new Date(onchain.editedAt * 1000) : null,
+          txHash: stored?.tx_hash ?? null,
+        };
+
+        if (!stored) {
+          revisions.push({ ...base, content: null, status: 'missing' });
+          continue;
+        }
+
+        try {
+          const content = await contentEncryptionService.decryptContent(stored.encrypted_content);
+          revisions.push({ ...base, content, status: await verify(content, onchain.contentHash) });
+        } catch (error) {
+          if (error instanceof Error && error.message === SEALED_KEY_ERROR) {
+            revisions.push({ ...base, content: null, status: 'locked' });
+          } else {
+            log.warn('Failed to decrypt revision', { rawPostId, revision, error });
+            revisions.push({ ...base, content: null, status: 'mismatch' });
+          }
+        }
+      }
+
+      return revisions;
+    } catch (error) {
+      log.error('Failed to load post revisions', error);
+      toast.error('Failed to load edit history');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [log, verify]);
+
+  const decryptRevision = useCallback(async (
+    rawPostId: number,
+    revision: VerifiedRevision
+  ): Promise<VerifiedRevision> => {
+    if (!revision.encryptedContent) {
+      return revision;
+    }
+
+    try {
+      const walletClient = await getWalletClientFromWagmi();
+      const content = await contentEncryptionService.decryptSealedContent(
+        revision.encryptedContent,
+        rawPostId,
+        walletClient
+      );
+      return { ...revision, content, status: await verify(content, revision.onchainContentHash) };
+    } catch (error) {
+      log.error('Failed to decrypt revision', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to decrypt revision');
+      return revision;
+    }
+  }, [log, verify]);
+
+  return {
+    editPost,
+    deletePost,
+    loadRevisions,
+    decryptRevision,
+    isLoading,
+  };
+}
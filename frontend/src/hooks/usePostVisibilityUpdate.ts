@@ -0,0 +1,143 @@
+import { useState, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { toast } from 'sonner';
+import { VentbuddyContract, getWalletClientFromWagmi, publicClient } from '@/lib/contract';
+import { contentEncryptionService } from '@/lib/content-encryption';
+import { fheEncryptionService } from '@/lib/fhe-encryption';
+import { contentStorage, type EncryptedContent } from '@/lib/storage';
+import { visibilityManager } from '@/lib/visibility-manager';
+import { activeDeployment } from '@/lib/deployments';
+import { useLogger } from './useLogger';
+
+const PREVIEW_LENGTH = 100;
+
+export interface VisibilityChange {
+  rawPostId: number;
+  currentVisibility: number;
+  visibility: number; // 0 = Public, 1 = Tippable
+  minTipAmountWei: number;
+  // Plaintext is only needed when the post moves between public and sealed keys
+  content: string | null;
+}
+
+
+export function usePostVisibilityUpdate() {
+  const { address } = useAccount();
+  const log = useLogger('usePostVisibilityUpdate');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  /**
+   * Locks, unlocks or reprices a post. Repricing only touches the contract and the stored
+   * price; switching between public and tippable also re-encrypts the content so tippable
+   * posts keep a sealed key and public ones can be read without a release.
+   */
+  const updateVisibility = useCallback(async (change: VisibilityChange): Promise<EncryptedContent | null> => {
+    if (!address) {
+      toast.error('Please connect your wallet to change visibility');
+      return null;
+    }
+
+    if (change.visibility === 1 && change.minTipAmountWei <= 0) {
+      toast.error('Please set a minimum tip amount for tippable posts');
+      return null;
+    }
+
+    const isSwitching = change.visibility !== change.currentVisibility;
+    if (isSwitching && change.content === null) {
+      toast.error('Decrypt the post before changing its visibility');
+      return null;
+    }
+
+    setIsUpdating(true);
+
+    try {
+      const isFHEReady = await fheEncryptionService.isFullyReady();
+      if (!isFHEReady) {
+        throw new Error(`FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`);
+      }
+
+      let reencrypted: { encryptedContent: string; encryptedPreview: string } | undefined;
+      if (isSwitching && change.content !== null) {
+        const preview = change.content.length > PREVIEW_LENGTH
+          ? change.content.substring(0, PREVIEW_LENGTH) + '...'
+          : change.content;
+        const contentKey = await contentEncryptionService.createContentKey({ sealed: change.visibility === 1 });
+        reencrypted = {
+          encryptedContent: await contentEncryptionService.encryptContent(change.content, contentKey),
+          encryptedPreview: await contentEncryptionService.encryptContent(preview, contentKey),
+        };
+      }
+
+      const minTipAmount = change.visibility === 1 ? change.minTipAmountWei : 0;
+      const visibilityEncryption = await fheEncryptionService.encryptNumber(change.visibility, address);
+
+      const walletClient = await getWalletClientFromWagmi();
+      if (!walletClient) {
+        throw new Error('Wallet client not available');
+      }
+
+      const contract = new VentbuddyContract(walletClient);
+      const txHash = await contract.updatePostVisibility(change.rawPostId, {
+        encryptedVisibility: visibilityEncryption.encryptedValue as `0x${string}`,
+        visibilityProof: visibilityEncryption.proof as `0x${string}`,
+        minTipAmount,
+      });
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        throw new Error('Visibility update transaction failed');
+      }
+
+      log.info('Post visibility updated on-chain', {
+        rawPostId: change.rawPostId,
+        visibility: change.visibility,
+        minTipAmount,
+        txHash
+      });
+
+      const updated = await contentStorage.updatePostVisibility(change.rawPostId, {
+        minTipAmount,
+        ...reencrypted,
+      });
+
+      // Same post id format as createPost so the feed picks this up as the latest event
+      await visibilityManager.logVisibilityEvent({
+        postId: change.rawPostId.toString(),
+        contentType: 'post',
+        visibilityType: change.visibility,
+        eventType: 'updated',
+        userAddress: address,
+        encryptedVisibility: visibilityEncryption.encryptedValue,
+        contentHash: updated.content_hash,
+        previewHash: updated.preview_hash,
+        supabaseId: updated.id.toString(),
+      });
+
+      toast.success(
+        !isSwitching ? 'Unlock price updated' : change.visibility === 1 ? 'Post is now tippable' : 'Post is now public'
+      );
+      return updated;
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      log.error('Visibility update failed', error);
+
+      if (message.includes('Only the author')) {
+        toast.error('Only the author can change this post.');
+      } else if (message.includes('Post deleted')) {
+        toast.error('This post has been deleted.');
+      } else if (message.includes('user rejected')) {
+        toast.error('Transaction was cancelled by user.');
+      } else {
+        toast.error('Failed to update visibility. Please try again.');
+      }
+      return null;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [address, log]);
+
+  return {
+    updateVisibility,
+    isUpdating,
+  };
+}
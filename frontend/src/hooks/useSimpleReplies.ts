@@ -1,10 +1,18 @@
 import { useState, useCallback } from 'react';
 import { useAccount } from 'wagmi';
-import { supabase } from '../lib/supabase';
+import { contentStorage, type EncryptedReply, type MuteKind } from '../lib/storage';
 import { contentEncryptionService } from '../lib/content-encryption';
+import { activeDeployment } from '../lib/deployments';
 import { toast } from 'sonner';
 import { useLogger } from './useLogger';
 
+export interface CreateReplyOptions {
+  // Also register the reply through Ventbuddy.replyToPost so it can receive tips
+  anchorOnChain?: boolean;
+  // Paywalls the reply behind unlockTippableReply; implies anchorOnChain
+  minTipAmountWei?: bigint;
+}
+
 
 export function useSimpleReplies() {
   const { address } = useAccount();
@@ -17,17 +25,8 @@ export function useSimpleReplies() {
     if (!address) return null;
     
     try {
-      const { data: userSession, error } = await supabase
-        .from('user_sessions')
-        .select('encrypted_address')
-        .eq('wallet_address', address)
-        .maybeSingle();
-
-      if (error) {
-        console.error('Failed to get encrypted address:', error);
-        return null;
-      }
-      
+      const userSession = await contentStorage.getUserSession(address);
+
       if (!userSession) {
         console.warn('User not registered yet - no encrypted address available');
         return null;
@@ -41,10 +40,50 @@ export function useSimpleReplies() {
   }, [address]);
 
 
+  // Free anchored replies are public with min tip 0, so they are tippable without an unlock
+  const anchorReply = useCallback(async (
+    rawPostId: string,
+    reply: EncryptedReply,
+    contentHash: string,
+    previewHash: string,
+    minTipAmountWei: bigint = 0n
+  ): Promise<EncryptedReply> => {
+    const { fheEncryptionService } = await import('../lib/fhe-encryption');
+    const isFHEReady = await fheEncryptionService.isFullyReady();
+    if (!isFHEReady) {
+      throw new Error(`FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`);
+    }
+
+    const visibilityEncryption = await fheEncryptionService.encryptNumber(minTipAmountWei > 0n ? 1 : 0, address!);
+
+    const { VentbuddyContract, getWalletClientFromWagmi } = await import('../lib/contract');
+    const walletClient = await getWalletClientFromWagmi();
+    if (!walletClient) {
+      throw new Error('Wallet client not available');
+    }
+
+    const contract = new VentbuddyContract(walletClient);
+    const { txHash, replyId } = await contract.replyToPost({
+      postId: parseInt(rawPostId),
+      contentHash: contentHash as `0x${string}`,
+      previewHash: previewHash as `0x${string}`,
+      supabaseId: reply.id.toString(),
+      encryptedVisibility: visibilityEncryption.encryptedValue as `0x${string}`,
+      visibilityProof: visibilityEncryption.proof as `0x${string}`,
+      minTipAmount: minTipAmountWei,
+    });
+
+    log.info('Reply anchored on-chain', { supabaseId: reply.id, onchainReplyId: replyId, txHash });
+
+    return contentStorage.anchorReply(reply.id, replyId, txHash);
+  }, [address, log]);
+
+
   const createReply = useCallback(async (
     rawPostId: string,
     content: string,
-    parentReplyId?: string
+    parentReplyId?: string,
+    options: CreateReplyOptions = {}
   ) => {
     if (!address) {
       setError('Wallet not connected');
@@ -56,6 +95,9 @@ export function useSimpleReplies() {
       return;
     }
 
+    const minTipAmountWei = options.minTipAmountWei ?? 0n;
+    const isPaywalled = minTipAmountWei > 0n;
+
     setIsLoading(true);
     setError(null);
 
@@ -63,6 +105,7 @@ export function useSimpleReplies() {
       log.info('Creating encrypted reply', {
         rawPostId,
         parentReplyId,
+        isPaywalled,
         contentLength: content.length,
         author: address
       });
@@ -77,8 +120,9 @@ export function useSimpleReplies() {
       const preview = content.length > 100 ? content.substring(0, 100) + '...' : content;
 
      
-      const encryptedContent = contentEncryptionService.encryptContent(content);
-      const encryptedPreview = contentEncryptionService.encryptContent(preview);
+      const contentKey = await contentEncryptionService.createContentKey({ sealed: isPaywalled });
+      const encryptedContent = await contentEncryptionService.encryptContent(content, contentKey);
+      const encryptedPreview = await contentEncryptionService.encryptContent(preview, contentKey);
 
       
       const contentHash = await contentEncryptionService.generateHash(content);
@@ -96,44 +140,45 @@ export function useSimpleReplies() {
       });
 
       
-      const { data, error: insertError } = await supabase
-        .from('encrypted_replies')
-        .insert({
-          post_id: rawPostId,
-          raw_post_id: parseInt(rawPostId.toString()), 
-          reply_id: replyId,
-          content_hash: contentHash,
-          preview_hash: previewHash,
-          encrypted_content: encryptedContent,
-          encrypted_preview: encryptedPreview,
-          replier_id: encryptedAddress,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (insertError) {
-        throw new Error(`Failed to create reply: ${insertError.message}`);
-      }
+      const data = await contentStorage.storeEncryptedReply(
+        parseInt(rawPostId),
+        replyId,
+        contentHash,
+        previewHash,
+        encryptedContent,
+        encryptedPreview,
+        encryptedAddress,
+        parentReplyId ? parseInt(parentReplyId) : undefined,
+        isPaywalled ? minTipAmountWei : undefined
+      );
 
-      
-      const { error: statsError } = await supabase
-        .from('reply_stats')
-        .insert({
-          post_id: rawPostId,
-          reply_id: replyId,
-          upvote_count: 0,
-          downvote_count: 0,
-          last_updated: new Date().toISOString(),
-          raw_post_id: rawPostId
-        });
-
-      if (statsError) {
+      try {
+        await contentStorage.createReplyStats(parseInt(rawPostId), replyId);
+      } catch (statsError) {
         console.warn('Failed to create reply stats:', statsError);
       }
 
       log.info('Encrypted reply created successfully', { replyId: data?.id });
+
+      // The reply is already stored; a failed anchor leaves a free reply off-chain. A paywalled
+      // reply could never be unlocked without its on-chain record, so it is removed instead.
+      if (options.anchorOnChain || isPaywalled) {
+        try {
+          const anchored = await anchorReply(rawPostId, data, contentHash, previewHash, minTipAmountWei);
+          toast.success(isPaywalled ? 'Paywalled reply posted on-chain!' : 'Reply posted and anchored on-chain!');
+          return anchored;
+        } catch (anchorError) {
+          if (isPaywalled) {
+            await contentStorage.deleteEncryptedReply(parseInt(rawPostId), replyId);
+            throw new Error(`Failed to publish paywalled reply: ${(anchorError as Error)?.message || 'anchoring failed'}`);
+          }
+
+          log.error('On-chain anchoring failed', anchorError);
+          toast.warning('Reply posted, but anchoring it on-chain failed. It cannot receive tips.');
+          return data;
+        }
+      }
+
       toast.success('Reply posted successfully!');
       
       return data;
@@ -146,24 +191,26 @@ export function useSimpleReplies() {
     } finally {
       setIsLoading(false);
     }
-  }, [address, getEncryptedAddress]);
+  }, [address, getEncryptedAddress, anchorReply, log]);
 
   
   const getReplies = useCallback(async (rawPostId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('encrypted_replies')
-        .select('*')
-        .eq('post_id', rawPostId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        throw new Error(`Failed to fetch replies: ${error.message}`);
+      const data = await contentStorage.getPostReplies(parseInt(rawPostId));
+
+      // Muted authors are matched on the encrypted replier_id, so nothing here learns who they are
+      const mutedKinds = new Map<string, MuteKind>();
+      if (address) {
+        try {
+          const mutedAuthors = await contentStorage.getMutedAuthors(address);
+          mutedAuthors.forEach(muted => mutedKinds.set(muted.author_id, muted.kind));
+        } catch (mutedError) {
+          log.warn('Failed to load muted authors, showing all replies', mutedError);
+        }
       }
 
-      
       const decryptedReplies = await Promise.all(
-        (data || []).map(async (reply) => {
+        data.map(async (reply) => {
           log.debug('Processing encrypted reply', {
             id: reply.id,
             postId: reply.post_id,
@@ -172,10 +219,51 @@ export function useSimpleReplies() {
             encryptedContentLength: reply.encrypted_content?.length || 0
           });
 
+          // Hidden replies stay in the list so their children still attach to the thread
+          if (reply.hidden_at) {
+            return {
+              id: reply.id.toString(),
+              raw_post_id: reply.post_id,
+              reply_id: reply.reply_id,
+              onchain_reply_id: reply.onchain_reply_id ?? null,
+              parent_reply_id: reply.parent_reply_id?.toString() ?? null,
+              author_id: reply.replier_id,
+              content: '',
+              encrypted_author_id: reply.replier_id,
+              content_hash: reply.content_hash,
+              preview_hash: reply.preview_hash,
+              isEncrypted: true,
+              is_hidden: true,
+              created_at: reply.created_at,
+              updated_at: reply.updated_at
+            };
+          }
+
+          // Paywalled replies use a sealed key; the card decrypts them once the viewer has access
+          if (reply.min_tip_amount) {
+            return {
+              id: reply.id.toString(),
+              raw_post_id: reply.post_id,
+              reply_id: reply.reply_id,
+              onchain_reply_id: reply.onchain_reply_id ?? null,
+              parent_reply_id: reply.parent_reply_id?.toString() ?? null,
+              author_id: reply.replier_id,
+              content: '',
+              encrypted_content: reply.encrypted_content,
+              encrypted_author_id: reply.replier_id,
+              content_hash: reply.content_hash,
+              preview_hash: reply.preview_hash,
+              isEncrypted: true,
+              min_tip_amount: Number(reply.min_tip_amount) / 1e18,
+              created_at: reply.created_at,
+              updated_at: reply.updated_at
+            };
+          }
+
           try {
             
             log.debug('Decrypting reply using main post service');
-            const decryptedContent = contentEncryptionService.decryptContent(reply.encrypted_content);
+            const decryptedContent = await contentEncryptionService.decryptContent(reply.encrypted_content);
             log.debug('Reply decrypted successfully', {
               length: decryptedContent.length
             });
@@ -184,10 +272,15 @@ export function useSimpleReplies() {
             return {
               id: reply.id.toString(),
               raw_post_id: reply.post_id,
+              reply_id: reply.reply_id,
+              onchain_reply_id: reply.onchain_reply_id ?? null,
+              parent_reply_id: reply.parent_reply_id?.toString() ?? null,
               author_id: reply.replier_id, 
               content: decryptedContent,
               encrypted_content: reply.encrypted_content,
               encrypted_author_id: reply.replier_id,
+              content_hash: reply.content_hash,
+              preview_hash: reply.preview_hash,
               isEncrypted: true,
               created_at: reply.created_at,
               updated_at: reply.updated_at
@@ -197,10 +290,15 @@ export function useSimpleReplies() {
             return {
               id: reply.id.toString(),
               raw_post_id: reply.post_id,
+              reply_id: reply.reply_id,
+              onchain_reply_id: reply.onchain_reply_id ?? null,
+              parent_reply_id: reply.parent_reply_id?.toString() ?? null,
               author_id: reply.replier_id,
               content: '[Decryption failed]',
               encrypted_content: reply.encrypted_content,
               encrypted_author_id: reply.replier_id,
+              content_hash: reply.content_hash,
+              preview_hash: reply.preview_hash,
               isEncrypted: true,
               created_at: reply.created_at,
               updated_at: reply.updated_at
@@ -209,19 +307,28 @@ export function useSimpleReplies() {
         })
       );
 
-      
-      return decryptedReplies;
+      // Muted replies stay in the thread like hidden ones; blocked ones lose their content
+      return decryptedReplies.map(reply => {
+        const mutedAs = mutedKinds.get(reply.author_id);
+        if (!mutedAs) {
+          return reply;
+        }
+
+        return mutedAs === 'block'
+          ? { ...reply, content: '', encrypted_content: undefined, min_tip_amount: undefined, muted_as: mutedAs }
+          : { ...reply, muted_as: mutedAs };
+      });
     } catch (err) {
       console.error('❌ Failed to fetch replies:', err);
       return [];
     }
-  }, []);
+  }, [address, log]);
 
   
-  const decryptReplyContent = useCallback((reply: any): string => {
+  const decryptReplyContent = useCallback(async (reply: any): Promise<string> => {
     if (reply.encrypted_content) {
       try {
-        return contentEncryptionService.decryptContent(reply.encrypted_content);
+        return await contentEncryptionService.decryptContent(reply.encrypted_content);
       } catch (error) {
         console.error('Failed to decrypt reply content:', error);
         return '[Decryption failed]';
@@ -233,25 +340,17 @@ export function useSimpleReplies() {
   
   const getReplyCounts = useCallback(async (rawPostId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('reply_stats')
-        .select('*')
-        .eq('raw_post_id', rawPostId);
-
-      if (error) {
-        console.error('Failed to fetch reply counts:', error);
-        return { totalReplies: 0, totalUpvotes: 0, totalDownvotes: 0 };
-      }
+      const data = await contentStorage.getPostReplyStats(parseInt(rawPostId));
 
-      const totalReplies = data?.length || 0;
-      const totalUpvotes = data?.reduce((sum, stat) => sum + (stat.upvote_count || 0), 0) || 0;
-      const totalDownvotes = data?.reduce((sum, stat) => sum + (stat.downvote_count || 0), 0) || 0;
+      const totalReplies = data.length;
+      const totalUpvotes = data.reduce((sum, stat) => sum + (stat.upvote_count || 0), 0);
+      const totalDownvotes = data.reduce((sum, stat) => sum + (stat.downvote_count || 0), 0);
 
       return {
         totalReplies,
         totalUpvotes,
         totalDownvotes,
-        replyStats: data || []
+        replyStats: data
       };
     } catch (err) {
       console.error('❌ Failed to fetch reply counts:', err);
@@ -262,17 +361,7 @@ export function useSimpleReplies() {
     
   const getReplyStats = useCallback(async (postId: number, replyId: number) => {
     try {
-      const { data, error } = await supabase
-        .from('reply_stats')
-        .select('*')
-        .eq('post_id', postId)
-        .eq('reply_id', replyId)
-        .single();
-
-      if (error) {
-        console.error('Failed to fetch reply stats:', error);
-        return { upvote_count: 0, downvote_count: 0 };
-      }
+      const data = await contentStorage.getReplyStats(postId, replyId);
 
       return {
         upvote_count: data?.upvote_count || 0,
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { contentStorage, type TrendingTag } from '../lib/storage';
+import { TRENDING_WINDOW_HOURS } from '../lib/hashtags';
+import { useLogger } from './useLogger';
+
+const TRENDING_REFRESH_MS = 60 * 1000;
+
+
+export function useTrendingTags(limit: number = 5) {
+  const log = useLogger('useTrendingTags');
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrendingTags = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const trending = await contentStorage.getTrendingTags(TRENDING_WINDOW_HOURS, limit);
+      setTags(trending);
+      setError(null);
+    } catch (err) {
+      log.error('Failed to fetch trending tags', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch trending tags');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [limit, log]);
+
+
+  useEffect(() => {
+    fetchTrendingTags();
+
+    const interval = setInterval(fetchTrendingTags, TRENDING_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchTrendingTags]);
+
+  return {
+    tags,
+    isLoading,
+    error,
+    refetch: fetchTrendingTags,
+  };
+}
@@ -1,30 +1,9 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { supabase } from '../lib/supabase';
+import { contentStorage, type CreateProfileData, type UserProfile } from '../lib/storage';
 import { useLogger } from './useLogger';
 
-export interface UserProfile {
-  id: string;
-  wallet_address: string;
-  username: string | null;
-  display_name: string | null;
-  bio: string | null;
-  avatar_url: string | null;
-  is_username_public: boolean;
-  is_profile_public: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface CreateProfileData {
-  username?: string;
-  display_name?: string;
-  bio?: string;
-  avatar_url?: string;
-  is_username_public?: boolean;
-  is_profile_public?: boolean;
-}
-
+export type { UserProfile, CreateProfileData };
 
 export function useUserProfile() {
   const { address } = useAccount();
@@ -46,17 +25,7 @@ export function useUserProfile() {
     try {
       log.debug('Fetching user profile', { address });
 
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('wallet_address', address.toLowerCase())
-        .maybeSingle();
-
-      if (error) {
-        log.error('Error fetching user profile', error);
-        setError('Failed to fetch profile');
-        return;
-      }
+      const data = await contentStorage.getUserProfile(address);
 
       if (data) {
         setProfile(data);
@@ -86,25 +55,7 @@ export function useUserProfile() {
     try {
       log.info('Creating user profile', { profileData });
 
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .insert({
-          wallet_address: address.toLowerCase(),
-          username: profileData.username || null,
-          display_name: profileData.display_name || null,
-          bio: profileData.bio || null,
-          avatar_url: profileData.avatar_url || null,
-          is_username_public: profileData.is_username_public || false,
-          is_profile_public: profileData.is_profile_public || false
-        })
-        .select()
-        .maybeSingle();
-
-      if (error) {
-        log.error('Error creating profile', error);
-        setError(error.message);
-        return;
-      }
+      const data = await contentStorage.createUserProfile(address, profileData);
 
       setProfile(data);
       log.info('User profile created', { profileId: data.id, username: data.username });
@@ -130,25 +81,7 @@ export function useUserProfile() {
     try {
       log.info('Updating user profile', { profileData });
 
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .update({
-          username: profileData.username !== undefined ? profileData.username : profile.username,
-          display_name: profileData.display_name !== undefined ? profileData.display_name : profile.display_name,
-          bio: profileData.bio !== undefined ? profileData.bio : profile.bio,
-          avatar_url: profileData.avatar_url !== undefined ? profileData.avatar_url : profile.avatar_url,
-          is_username_public: profileData.is_username_public !== undefined ? profileData.is_username_public : profile.is_username_public,
-          is_profile_public: profileData.is_profile_public !== undefined ? profileData.is_profile_public : profile.is_profile_public
-        })
-        .eq('wallet_address', address.toLowerCase())
-        .select()
-        .maybeSingle();
-
-      if (error) {
-        log.error('Error updating profile', error);
-        setError(error.message);
-        return;
-      }
+      const data = await contentStorage.updateUserProfile(address, profileData);
 
       setProfile(data);
       log.info('User profile updated', { profileId: data.id, username: data.username });
@@ -166,18 +99,7 @@ export function useUserProfile() {
     if (!username || username.length < 3) return false;
 
     try {
-      const { data, error } = await supabase
-        .rpc('is_username_available', {
-          check_username: username,
-          exclude_wallet: address?.toLowerCase() || null
-        });
-
-      if (error) {
-        log.error('Error checking username availability', error);
-        return false;
-      }
-
-      return data;
+      return await contentStorage.isUsernameAvailable(username, address);
     } catch (err) {
       log.error('Failed to check username availability', err);
       return false;
@@ -219,17 +141,7 @@ export function useDisplayName(walletAddress: string) {
       log.debug('Fetching display name', { walletAddress });
 
       
-      const { data: profileData, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('username, display_name, is_username_public, is_profile_public')
-        .eq('wallet_address', walletAddress.toLowerCase())
-        .maybeSingle();
-
-      if (profileError) {
-        log.error('Error fetching user profile', profileError);
-        setDisplayName('Anon');
-        return;
-      }
+      const profileData = await contentStorage.getUserProfile(walletAddress);
 
       if (profileData) {
         log.debug('Profile data found', { 
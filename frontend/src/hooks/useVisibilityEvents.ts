@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
 import { visibilityManager } from '../lib/visibility-manager';
-import { supabase } from '../lib/supabase';
+import { contentStorage, type Unsubscribe, type VisibilityEventType } from '../lib/storage';
 
 export function useVisibilityEvents() {
   const { address, isConnected } = useAccount();
@@ -32,7 +32,7 @@ export function useVisibilityEvents() {
     replyId?: number;
     contentType: 'post' | 'reply';
     visibilityType: number;
-    eventType: 'created' | 'updated' | 'unlocked' | 'revealed';
+    eventType: VisibilityEventType;
     userAddress?: string;
     encryptedVisibility?: string;
     encryptedUnlockPrice?: string;
@@ -72,44 +72,36 @@ export function useVisibilityEvents() {
       return;
     }
 
+    let unsubscribe: Unsubscribe | null = null;
+
     const setupRealtimeSubscriptions = async () => {
       try {
         
-        const subscription = supabase
-          .channel('visibility_events')
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'visibility_events',
-            },
-            (payload) => {
-              try {
-                const { post_id, reply_id, visibility_type, event_type } = payload.new;
-                
-                visibilityManager.updateVisibilityCache(
-                  post_id,
-                  reply_id,
-                  visibility_type,
-                  event_type
-                );
-
-                
-                window.dispatchEvent(new CustomEvent('visibilityUpdated', {
-                  detail: {
-                    postId: post_id,
-                    replyId: reply_id,
-                    visibility: visibility_type,
-                    eventType: event_type
-                  }
-                }));
-              } catch (error) {
-                console.error('Error handling visibility event:', error);
+        unsubscribe = contentStorage.subscribeToVisibilityEvents((event) => {
+          try {
+            const { post_id, reply_id, visibility_type, event_type } = event;
+            if (post_id == null) return;
+
+            visibilityManager.updateVisibilityCache(
+              post_id,
+              reply_id ?? undefined,
+              visibility_type,
+              event_type
+            );
+
+            
+            window.dispatchEvent(new CustomEvent('visibilityUpdated', {
+              detail: {
+                postId: post_id,
+                replyId: reply_id,
+                visibility: visibility_type,
+                eventType: event_type
               }
-            }
-          )
-          .subscribe();
+            }));
+          } catch (error) {
+            console.error('Error handling visibility event:', error);
+          }
+        });
 
         
         setTimeout(() => {
@@ -129,7 +121,7 @@ export function useVisibilityEvents() {
 
    
     return () => {
-      
+      unsubscribe?.();
       setTimeout(() => {
         setIsListening(false);
       }, 0);
@@ -0,0 +1,314 @@
+import type { Abi, AbiEvent, Address, Log } from 'viem';
+import { publicClient, CONTRACT_CONFIG, INDEXER_CONFIG, NETWORK_CONFIG, VentbuddyContract } from './contract';
+import { contentStorage, type AccessContentType, type ChainEventInsert, type ChainEventName } from './storage';
+import { logger } from './logger';
+
+const INDEXED_EVENT_NAMES: ChainEventName[] = [
+  'TipAddedToPost',
+  'TipAddedToReply',
+  'ContentUnlocked',
+  'ReplyUnlocked',
+  'Subscribed',
+  'Claim',
+  'TipStranded',
+  'StrandedTipsClaimed',
+  'StrandedTipRefunded',
+];
+
+// Part of the checkpoint id; bump it when INDEXED_EVENT_NAMES grows so the new events are backfilled
+const INDEXER_VERSION = 2;
+
+// Stranded tip events use reply id 0 for the post itself
+const STRANDED_EVENT_NAMES: ChainEventName[] = ['TipStranded', 'StrandedTipsClaimed', 'StrandedTipRefunded'];
+
+const INDEXED_EVENTS = (CONTRACT_CONFIG.abi as Abi).filter(
+  (item): item is AbiEvent => item.type === 'event' && INDEXED_EVENT_NAMES.includes(item.name as ChainEventName)
+);
+
+type IndexedLog = Log<bigint, number, false, AbiEvent, true, AbiEvent[]>;
+type IndexedArgs = Record<string, bigint | string | undefined>;
+
+/**
+ * Keeps the contract's earning events (`chain_events`) current so earnings dashboards
+ * read what actually happened on chain. With Supabase the index-chain-events edge
+ * function owns the tables and this only asks it to catch up; the in-browser backend
+ * is indexed here instead. Progress is checkpointed by block number and hash; if the
+ * checkpoint block is no longer canonical the indexer rolls back `reorgDepth` blocks
+ * and indexes them again.
+ */
+export class ChainIndexer {
+  readonly chainId = NETWORK_CONFIG.chain.id;
+  private readonly contractAddress = CONTRACT_CONFIG.address.toLowerCase();
+  private readonly indexerId = `${this.chainId}:${this.contractAddress}:v${INDEXER_VERSION}`;
+
+  private syncPromise: Promise<void> | null = null;
+  private resyncRequested = false;
+  private unwatch: (() => void) | null = null;
+  private watchers = 0;
+  private listeners = new Set<() => void>();
+  private creatorCache = new Map<string, string>();
+
+  /** Starts watching for new events; the returned function releases this caller's hold. */
+  start(): () => void {
+    this.watchers += 1;
+
+    if (!this.unwatch) {
+      this.unwatch = publicClient.watchContractEvent({
+        address: CONTRACT_CONFIG.address,
+        abi: CONTRACT_CONFIG.abi,
+        onLogs: () => {
+          this.sync().catch(error => logger.warn('Indexer sync failed', error, 'ChainIndexer'));
+        },
+        onError: error => logger.warn('Contract event watch failed', error, 'ChainIndexer'),
+      });
+
+      this.sync().catch(error => logger.warn('Indexer sync failed', error, 'ChainIndexer'));
+    }
+
+    return () => {
+      this.watchers -= 1;
+      if (this.watchers === 0 && this.unwatch) {
+        this.unwatch();
+        this.unwatch = null;
+      }
+    };
+  }
+
+  onSynced(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Concurrent callers share one run; a request arriving mid-run schedules one more pass
+  sync(): Promise<void> {
+    if (this.syncPromise) {
+      this.resyncRequested = true;
+      return this.syncPromise;
+    }
+
+    this.syncPromise = (async () => {
+      try {
+        do {
+          this.resyncRequested = false;
+          await this.indexToHead();
+        } while (this.resyncRequested);
+      } finally {
+        this.syncPromise = null;
+      }
+
+      this.listeners.forEach(listener => listener());
+    })();
+
+    return this.syncPromise;
+  }
+
+  private async indexToHead(): Promise<void> {
+    if (await contentStorage.requestChainSync(this.chainId)) {
+      return;
+    }
+
+    const head = await publicClient.getBlockNumber();
+    let fromBlock = await this.resolveStartBlock(head);
+
+    while (fromBlock <= head) {
+      const toBlock = fromBlock + INDEXER_CONFIG.batchSize - 1n < head
+        ? fromBlock + INDEXER_CONFIG.batchSize - 1n
+        : head;
+
+      const logs = await publicClient.getLogs({
+        address: CONTRACT_CONFIG.address,
+        events: INDEXED_EVENTS,
+        fromBlock,
+        toBlock,
+      });
+
+      await contentStorage.upsertChainEvents(await this.toChainEvents(logs as IndexedLog[]));
+
+      const checkpoint = await publicClient.getBlock({ blockNumber: toBlock });
+      await contentStorage.saveIndexerCheckpoint(this.indexerId, toBlock, checkpoint.hash);
+
+      logger.debug('Indexed block range', { fromBlock, toBlock, logs: logs.length }, 'ChainIndexer');
+      fromBlock = toBlock + 1n;
+    }
+
+    await this.attributePendingEvents();
+  }
+
+  private async resolveStartBlock(head: bigint): Promise<bigint> {
+    const checkpoint = await contentStorage.getIndexerCheckpoint(this.indexerId);
+    if (!checkpoint) {
+      return INDEXER_CONFIG.deployBlock;
+    }
+
+    const checkpointBlock = BigInt(checkpoint.block_number);
+    if (checkpointBlock <= head) {
+      const block = await publicClient.getBlock({ blockNumber: checkpointBlock });
+      if (block.hash === checkpoint.block_hash) {
+        return checkpointBlock + 1n;
+      }
+    }
+
+    const rewindTo = checkpointBlock - INDEXER_CONFIG.reorgDepth > INDEXER_CONFIG.deployBlock
+      ? checkpointBlock - INDEXER_CONFIG.reorgDepth
+      : INDEXER_CONFIG.deployBlock;
+
+    logger.warn('Checkpoint block is no longer canonical, rewinding', {
+      checkpointBlock,
+      rewindTo,
+    }, 'ChainIndexer');
+
+    await contentStorage.deleteChainEventsFrom(this.chainId, this.contractAddress, rewindTo);
+    return rewindTo;
+  }
+
+  private async toChainEvents(logs: IndexedLog[]): Promise<ChainEventInsert[]> {
+    const blockNumbers = [...new Set(logs.map(log => log.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map(blockNumber => publicClient.getBlock({ blockNumber })));
+    const blockTimes = new Map(blocks.map(block => [block.number, new Date(Number(block.timestamp) * 1000)]));
+
+    const events: ChainEventInsert[] = [];
+
+    for (const log of logs) {
+      const eventName = log.eventName as ChainEventName;
+      const args = log.args as IndexedArgs;
+      const postId = args.postId !== undefined ? Number(args.postId) : null;
+      const replyId = args.replyId !== undefined && !(STRANDED_EVENT_NAMES.includes(eventName) && args.replyId === 0n)
+        ? Number(args.replyId)
+        : null;
+
+      let creatorAddress: string | null = null;
+      let amountWei = 0n;
+      let feeWei = 0n;
+
+      switch (eventName) {
+        case 'TipAddedToPost':
+          amountWei = args.amount as bigint;
+          creatorAddress = await this.resolveCreator(postId!, 'post');
+          break;
+        case 'ContentUnlocked':
+          amountWei = args.tipAmount as bigint;
+          creatorAddress = await this.resolveCreator(postId!, 'post');
+          break;
+        case 'TipAddedToReply':
+          amountWei = args.amount as bigint;
+          creatorAddress = await this.resolveCreator(replyId!, 'reply', postId!);
+          break;
+        case 'ReplyUnlocked':
+          amountWei = args.tipAmount as bigint;
+          creatorAddress = await this.resolveCreator(replyId!, 'reply', postId!);
+          break;
+        case 'Subscribed':
+          amountWei = args.amount as bigint;
+          creatorAddress = (args.creator as string).toLowerCase();
+          await this.mirrorSubscription(log, creatorAddress, amountWei);
+          break;
+        case 'Claim':
+          amountWei = args.amount as bigint;
+          feeWei = args.fee as bigint;
+          creatorAddress = (args.creator as string).toLowerCase();
+          break;
+        case 'TipStranded':
+        case 'StrandedTipRefunded':
+          amountWei = args.amount as bigint;
+          creatorAddress = replyId !== null
+            ? await this.resolveCreator(replyId, 'reply', postId!)
+            : await this.resolveCreator(postId!, 'post');
+          break;
+        case 'StrandedTipsClaimed':
+          amountWei = args.amount as bigint;
+          creatorAddress = (args.author as string).toLowerCase();
+          break;
+      }
+
+      events.push({
+        chain_id: this.chainId,
+        contract_address: this.contractAddress,
+        block_number: Number(log.blockNumber),
+        block_hash: log.blockHash,
+        tx_hash: log.transactionHash,
+        log_index: log.logIndex,
+        event_name: eventName,
+        post_id: postId,
+        reply_id: replyId,
+        creator_address: creatorAddress,
+        amount_wei: amountWei.toString(),
+        fee_wei: feeWei.toString(),
+        block_time: blockTimes.get(log.blockNumber)!.toISOString(),
+      });
+    }
+
+    return events;
+  }
+
+  // Subscribed only carries the subscriber's encrypted address, so the subscriber is the
+  // transaction sender; the contract's current expiry also covers later renewals
+  private async mirrorSubscription(log: IndexedLog, creatorAddress: string, amountWei: bigint): Promise<void> {
+    const transaction = await publicClient.getTransaction({ hash: log.transactionHash });
+    const expirySeconds = await new VentbuddyContract().getSubscriptionExpiry(creatorAddress as Address, transaction.from);
+
+    await contentStorage.recordSubscription(
+      creatorAddress,
+      transaction.from,
+      new Date(expirySeconds * 1000),
+      amountWei,
+      log.transactionHash
+    );
+  }
+
+  // Tip events only carry the post or reply id; the recipient comes from the stored content
+  // and is kept only when the contract confirms that wallet as the author
+  private async resolveCreator(
+    contentId: number,
+    contentType: AccessContentType,
+    rawPostId?: number
+  ): Promise<string | null> {
+    const cacheKey = `${contentType}:${rawPostId ?? ''}:${contentId}`;
+    const cached = this.creatorCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const creatorAddress = await contentStorage.resolveCreatorAddress(contentId, contentType, rawPostId);
+      if (!creatorAddress) {
+        return null;
+      }
+
+      const isAuthor = contentType === 'reply'
+        ? await new VentbuddyContract().isContentAuthor(rawPostId!, creatorAddress as Address, Number(contentId))
+        : await new VentbuddyContract().isContentAuthor(Number(contentId), creatorAddress as Address);
+      if (!isAuthor) {
+        return null;
+      }
+
+      this.creatorCache.set(cacheKey, creatorAddress);
+      return creatorAddress;
+    } catch (error) {
+      logger.warn('Failed to resolve creator for event', { contentId, contentType, error }, 'ChainIndexer');
+      return null;
+    }
+  }
+
+  // Tips can be indexed before their post is stored, or while its author's mapping is broken; retry those on every pass
+  private async attributePendingEvents(): Promise<void> {
+    const pending = await contentStorage.getUnattributedChainEvents(this.chainId);
+
+    for (const event of pending) {
+      if (event.post_id === null) {
+        continue;
+      }
+
+      const creatorAddress = event.reply_id !== null
+        ? await this.resolveCreator(event.reply_id, 'reply', event.post_id)
+        : await this.resolveCreator(event.post_id, 'post');
+
+      if (creatorAddress) {
+        await contentStorage.setChainEventCreator(event.id, creatorAddress);
+      }
+    }
+  }
+}
+
+export const chainIndexer = new ChainIndexer();
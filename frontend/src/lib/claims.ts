@@ -0,0 +1,42 @@
+export const BASIS_POINTS = 10000n;
+
+export interface ClaimPreview {
+  amountWei: bigint;
+  feeWei: bigint;
+  payoutWei: bigint;
+}
+
+// Same integer math as Ventbuddy.claimEarnings, so the preview matches the payout to the wei
+export function previewClaim(amountWei: bigint, feeBasisPoints: bigint): ClaimPreview {
+  const feeWei = (amountWei * feeBasisPoints) / BASIS_POINTS;
+
+  return {
+    amountWei,
+    feeWei,
+    payoutWei: amountWei - feeWei,
+  };
+}
+
+const thresholdKey = (userAddress: string) => `claim_threshold_${userAddress.toLowerCase()}`;
+
+/** Balance in wei at which the dashboard prompts the creator to claim; 0 means no reminder. */
+export function loadClaimThreshold(userAddress: string): bigint {
+  try {
+    const stored = localStorage.getItem(thresholdKey(userAddress));
+    return stored ? BigInt(stored) : 0n;
+  } catch {
+    return 0n;
+  }
+}
+
+export function saveClaimThreshold(userAddress: string, thresholdWei: bigint): void {
+  if (thresholdWei > 0n) {
+    localStorage.setItem(thresholdKey(userAddress), thresholdWei.toString());
+  } else {
+    localStorage.removeItem(thresholdKey(userAddress));
+  }
+}
+
+export function hasCrossedThreshold(balanceWei: bigint, thresholdWei: bigint): boolean {
+  return thresholdWei > 0n && balanceWei >= thresholdWei;
+}
@@ -1,7 +1,35 @@
-import { contentStorage } from './supabase';
+import type { WalletClient } from 'viem';
+import { contentStorage } from './storage';
 import { logger } from './logger';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { keyReleaseService } from './key-release';
+
+export const CONTENT_ENVELOPE_VERSION = 1;
+export const CONTENT_ENVELOPE_ALG = 'AES-GCM';
+
+// Serialized form of everything written to encrypted_content / encrypted_replies.
+// Rows written before versioning are plain base64 and are still readable.
+export interface ContentEnvelope {
+  v: number;
+  alg: typeof CONTENT_ENVELOPE_ALG;
+  kid: string;
+  iv: string;
+  ct: string;
+}
+
+export interface ContentKey {
+  keyId: string;
+  key: CryptoKey;
+  sealed: boolean;
+}
+
+export const SEALED_KEY_ERROR = 'Content key is sealed';
+
+const IV_LENGTH = 12;
 
 export class ContentEncryptionService {
+  private keyCache = new Map<string, CryptoKey>();
+
   async encryptAndStorePost(
     content: string,
     preview: string,
@@ -27,8 +55,9 @@ export class ContentEncryptionService {
       const contentHash = await this.generateHash(content);
       const previewHash = await this.generateHash(preview);
 
-      const encryptedContent = this.encryptContent(content);
-      const encryptedPreview = this.encryptContent(preview);
+      const contentKey = await this.createContentKey({ sealed: !!minTipAmount && minTipAmount > 0 });
+      const encryptedContent = await this.encryptContent(content, contentKey);
+      const encryptedPreview = await this.encryptContent(preview, contentKey);
 
       const storedContent = await contentStorage.storeEncryptedContent(
         contentHash,
@@ -78,8 +107,9 @@ export class ContentEncryptionService {
       const contentHash = await this.generateHash(content);
       const previewHash = await this.generateHash(preview);
 
-      const encryptedContent = this.encryptContent(content);
-      const encryptedPreview = this.encryptContent(preview);
+      const contentKey = await this.createContentKey();
+      const encryptedContent = await this.encryptContent(content, contentKey);
+      const encryptedPreview = await this.encryptContent(preview, contentKey);
 
       const storedReply = await contentStorage.storeEncryptedReply(
         postId,
@@ -114,7 +144,7 @@ export class ContentEncryptionService {
         throw new Error('Content not found');
       }
 
-      const content = this.decryptContent(storedContent.encrypted_content);
+      const content = await this.decryptContent(storedContent.encrypted_content);
       // Preview content removed for security - never decrypt preview
       const preview = '[Content preview removed for security]';
 
@@ -124,6 +154,60 @@ export class ContentEncryptionService {
     }
   }
 
+  /**
+   * Decrypts a tippable post. When the post key is sealed it is requested from
+   * the key-release service, which checks authorship or on-chain access first.
+   */
+  async decryptLockedPostContent(supabaseId: string, rawPostId: number, walletClient: WalletClient): Promise<string> {
+    const storedContent = await contentStorage.getEncryptedContent(parseInt(supabaseId));
+
+    if (!storedContent) {
+      throw new Error('Content not found');
+    }
+
+    const envelope = this.parseEnvelope(storedContent.encrypted_content);
+    if (envelope && !this.keyCache.has(envelope.kid)) {
+      const keyRecord = await contentStorage.getContentKey(envelope.kid);
+      if (keyRecord?.sealed) {
+        const rawKey = await keyReleaseService.requestContentKey({
+          rawPostId,
+          keyId: envelope.kid,
+          walletClient,
+        });
+        await this.importReleasedKey(envelope.kid, rawKey);
+      }
+    }
+
+    return this.decryptContent(storedContent.encrypted_content);
+  }
+
+  /**
+   * Decrypts a paywalled reply, fetching its sealed key from the key-release
+   * service the same way decryptLockedPostContent does for posts.
+   */
+  async decryptLockedReplyContent(encryptedContent: string, rawPostId: number, onchainReplyId: number, walletClient: WalletClient): Promise<string> {
+    return this.decryptSealedContent(encryptedContent, rawPostId, walletClient, onchainReplyId);
+  }
+
+  // Works for any envelope tied to a post: earlier post revisions, or a reply when replyId is set
+  async decryptSealedContent(encryptedContent: string, rawPostId: number, walletClient: WalletClient, replyId?: number): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedContent);
+    if (envelope && !this.keyCache.has(envelope.kid)) {
+      const keyRecord = await contentStorage.getContentKey(envelope.kid);
+      if (keyRecord?.sealed) {
+        const rawKey = await keyReleaseService.requestContentKey({
+          rawPostId,
+          replyId,
+          keyId: envelope.kid,
+          walletClient,
+        });
+        await this.importReleasedKey(envelope.kid, rawKey);
+      }
+    }
+
+    return this.decryptContent(encryptedContent);
+  }
+
   async decryptReplyContent(postId: number, replyId: number): Promise<{
     content: string;
     preview: string;
@@ -135,7 +219,7 @@ export class ContentEncryptionService {
         throw new Error('Reply content not found');
       }
 
-      const content = this.decryptContent(storedReply.encrypted_content);
+      const content = await this.decryptContent(storedReply.encrypted_content);
       // Preview content removed for security - never decrypt preview
       const preview = '[Content preview removed for security]';
 
@@ -187,11 +271,135 @@ export class ContentEncryptionService {
     return '0x' + hashHex;
   }
 
-  encryptContent(content: string): string {
-    return btoa(unescape(encodeURIComponent(content)));
+  /**
+   * Generates a fresh AES-256-GCM key for a single post or reply and registers
+   * it in the key table so the envelope's `kid` can be resolved on read. Keys of
+   * tippable content are sealed to the key-release service instead of being
+   * stored in the clear. Keys of public posts and replies are stored raw on
+   * purpose: that content is meant for every reader, and the envelope only ties
+   * it to its anchored hash.
+   */
+  async createContentKey(options: { sealed?: boolean } = {}): Promise<ContentKey> {
+    const sealed = !!options.sealed;
+    const key = await crypto.subtle.generateKey(
+      { name: CONTENT_ENVELOPE_ALG, length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+    const keyId = crypto.randomUUID();
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+
+    const keyMaterial = sealed
+      ? await keyReleaseService.sealContentKey(rawKey)
+      : bytesToBase64(rawKey);
+
+    await contentStorage.storeContentKey(keyId, keyMaterial, sealed);
+    this.keyCache.set(keyId, key);
+
+    return { keyId, key, sealed };
+  }
+
+  async encryptContent(content: string, contentKey: ContentKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: CONTENT_ENVELOPE_ALG, iv },
+      contentKey.key,
+      new TextEncoder().encode(content)
+    );
+
+    const envelope: ContentEnvelope = {
+      v: CONTENT_ENVELOPE_VERSION,
+      alg: CONTENT_ENVELOPE_ALG,
+      kid: contentKey.keyId,
+      iv: bytesToBase64(iv),
+      ct: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+
+    return JSON.stringify(envelope);
+  }
+
+  async decryptContent(encryptedContent: string): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedContent);
+
+    if (!envelope) {
+      return this.decryptLegacyContent(encryptedContent);
+    }
+
+    if (envelope.v !== CONTENT_ENVELOPE_VERSION || envelope.alg !== CONTENT_ENVELOPE_ALG) {
+      throw new Error(`Unsupported content envelope (v${envelope.v}, ${envelope.alg})`);
+    }
+
+    try {
+      const key = await this.getContentKey(envelope.kid);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: CONTENT_ENVELOPE_ALG, iv: base64ToBytes(envelope.iv) },
+        key,
+        base64ToBytes(envelope.ct)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      if (error instanceof Error && error.message === SEALED_KEY_ERROR) {
+        throw error;
+      }
+      logger.warn('Envelope decryption failed', { kid: envelope.kid }, 'ContentEncryptionService');
+      throw new Error('Failed to decrypt content');
+    }
+  }
+
+  isEnvelope(encryptedContent: string): boolean {
+    return this.parseEnvelope(encryptedContent) !== null;
+  }
+
+  parseEnvelope(encryptedContent: string): ContentEnvelope | null {
+    if (!encryptedContent || !encryptedContent.startsWith('{')) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(encryptedContent);
+      if (typeof parsed?.v === 'number' && parsed.alg && parsed.kid && parsed.iv && parsed.ct) {
+        return parsed as ContentEnvelope;
+      }
+    } catch (error) {
+      return null;
+    }
+
+    return null;
+  }
+
+  private async getContentKey(keyId: string): Promise<CryptoKey> {
+    const cached = this.keyCache.get(keyId);
+    if (cached) {
+      return cached;
+    }
+
+    const keyRecord = await contentStorage.getContentKey(keyId);
+    if (!keyRecord) {
+      throw new Error('Content key not available');
+    }
+
+    if (keyRecord.sealed) {
+      throw new Error(SEALED_KEY_ERROR);
+    }
+
+    return this.importReleasedKey(keyId, base64ToBytes(keyRecord.key_material));
+  }
+
+  private async importReleasedKey(keyId: string, rawKey: Uint8Array): Promise<CryptoKey> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      rawKey,
+      { name: CONTENT_ENVELOPE_ALG },
+      false,
+      ['decrypt']
+    );
+    this.keyCache.set(keyId, key);
+
+    return key;
   }
 
-  decryptContent(encryptedContent: string): string {
+  // Pre-envelope rows were only base64 encoded.
+  private decryptLegacyContent(encryptedContent: string): string {
     try {
       return decodeURIComponent(escape(atob(encryptedContent)));
     } catch (error) {
@@ -0,0 +1,62 @@
+// Content warnings are stored in plaintext next to the encrypted post, so they are only
+// ever set by the author's choice.
+export type ContentWarning =
+  | 'self_harm'
+  | 'eating_disorders'
+  | 'abuse'
+  | 'substance_use'
+  | 'grief'
+  | 'graphic';
+
+export const CONTENT_WARNINGS: { value: ContentWarning; label: string }[] = [
+  { value: 'self_harm', label: 'Suicide & self-harm' },
+  { value: 'eating_disorders', label: 'Eating disorders' },
+  { value: 'abuse', label: 'Abuse & violence' },
+  { value: 'substance_use', label: 'Substance use' },
+  { value: 'grief', label: 'Death & grief' },
+  { value: 'graphic', label: 'Graphic descriptions' },
+];
+
+export function contentWarningLabel(warning: string): string {
+  return CONTENT_WARNINGS.find((option) => option.value === warning)?.label ?? warning;
+}
+
+// warn: blurred until the reader clicks through (the default)
+// hide: the post is left out of the reader's feed
+// show: no blur for this category
+export type ContentWarningPreference = 'warn' | 'hide' | 'show';
+
+export type ContentWarningPreferences = Partial<Record<ContentWarning, ContentWarningPreference>>;
+
+export const CONTENT_WARNING_PREFERENCES_EVENT = 'contentWarningPreferencesChanged';
+
+const preferencesKey = (userAddress: string) => `content_warning_prefs_${userAddress.toLowerCase()}`;
+
+export function loadContentWarningPreferences(userAddress: string): ContentWarningPreferences {
+  try {
+    const stored = localStorage.getItem(preferencesKey(userAddress));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveContentWarningPreferences(userAddress: string, preferences: ContentWarningPreferences): void {
+  localStorage.setItem(preferencesKey(userAddress), JSON.stringify(preferences));
+  window.dispatchEvent(new CustomEvent(CONTENT_WARNING_PREFERENCES_EVENT, { detail: { userAddress } }));
+}
+
+/**
+ * How a post with these warnings is shown: hidden if any category is set to hide,
+ * blurred if any is left on warn, and shown only when every category is set to show.
+ */
+export function resolveContentWarnings(
+  warnings: string[],
+  preferences: ContentWarningPreferences
+): ContentWarningPreference {
+  const resolved = warnings.map((warning) => preferences[warning as ContentWarning] ?? 'warn');
+
+  if (resolved.includes('hide')) return 'hide';
+  if (resolved.includes('warn')) return 'warn';
+  return 'show';
+}
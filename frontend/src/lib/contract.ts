@@ -1,6 +1,6 @@
-import { createPublicClient, http, type Address, decodeEventLog } from 'viem';
-import { sepolia } from 'viem/chains';
+import { createPublicClient, http, type Address, decodeEventLog, parseEventLogs, zeroAddress } from 'viem';
 import { config } from './wagmi';
+import { activeDeployment } from './deployments';
 import { getWalletClient } from 'wagmi/actions';
 
 const createLogger = (context: string) => ({
@@ -23,13 +23,22 @@ import VentbuddyABI from '../contract/Ventbuddy.json';
 export const VENTBUDDY_ABI = VentbuddyABI;
 
 export const CONTRACT_CONFIG = {
-  address: '0xC531862c0669E67c7B30eD72ED275364aD14395b' as Address, // 
+  address: activeDeployment.ventbuddyAddress,
   abi: VENTBUDDY_ABI,
 };
 
+export const INDEXER_CONFIG = {
+  // First block the chain indexer scans; the deployment block skips empty history
+  deployBlock: activeDeployment.deployBlock,
+  // Blocks per getLogs call; public Sepolia RPCs reject much wider ranges
+  batchSize: 2000n,
+  // How far to rewind when the last indexed block is no longer canonical
+  reorgDepth: 64n,
+};
+
 export const NETWORK_CONFIG = {
-  chain: sepolia,
-  rpcUrl: import.meta.env.VITE_RPC_URL || 'https://sepolia.infura.io/v3/8800e5d43f644529846d90ee5c29adcf',
+  chain: activeDeployment.chain,
+  rpcUrl: activeDeployment.rpcUrl,
 };
 
 export const ETH_CONFIG = {
@@ -130,6 +139,187 @@ export class VentbuddyContract {
     });
   }
 
+  async unlockTippableReply(postId: number, replyId: number, options?: { value?: bigint }) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+    if (!replyId || replyId <= 0) {
+      throw new Error('Valid reply ID is required');
+    }
+
+    if (!options?.value || options.value <= 0n) {
+      throw new Error('ETH amount must be greater than 0');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'unlockTippableReply',
+      args: [postId, replyId],
+      value: options.value,
+    });
+  }
+
+  async subscribe(creatorAddress: Address, months: number, options?: { value?: bigint }) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!creatorAddress) {
+      throw new Error('Creator address is required');
+    }
+
+    if (!Number.isInteger(months) || months <= 0) {
+      throw new Error('Subscription length must be at least one month');
+    }
+
+    if (!options?.value || options.value <= 0n) {
+      throw new Error('ETH amount must be greater than 0');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'subscribe',
+      args: [creatorAddress, months],
+      value: options.value,
+    });
+  }
+
+  async setSubscriptionPrice(price: bigint) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (price < 0n) {
+      throw new Error('Subscription price cannot be negative');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'setSubscriptionPrice',
+      args: [price],
+    });
+  }
+
+  async editPost(postId: number, contentHash: `0x${string}`, previewHash: `0x${string}`) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    const txHash = await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'editPost',
+      args: [postId, contentHash, previewHash],
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash,
+    });
+
+    const [postEdited] = parseEventLogs({
+      abi: CONTRACT_CONFIG.abi,
+      logs: receipt.logs,
+      eventName: 'PostEdited',
+    });
+
+    if (!postEdited) {
+      throw new Error('Edit transaction confirmed but no PostEdited event was found');
+    }
+
+    return {
+      txHash,
+      revision: Number((postEdited as unknown as { args: { revision: number } }).args.revision)
+    };
+  }
+
+  async deletePost(postId: number) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'deletePost',
+      args: [postId],
+    });
+  }
+
+  async updatePostVisibility(postId: number, update: {
+    encryptedVisibility: `0x${string}`;
+    visibilityProof: `0x${string}`;
+    minTipAmount: number;
+  }) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'updatePostVisibility',
+      args: [postId, update.encryptedVisibility, update.visibilityProof, update.minTipAmount],
+    });
+  }
+
+  async revealPostAuthor(postId: number) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'revealPostAuthor',
+      args: [postId],
+    });
+  }
+
+  async revealReplyAuthor(postId: number, replyId: number) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+    if (!replyId || replyId <= 0) {
+      throw new Error('Valid reply ID is required');
+    }
+
+
+    return await this.walletClient.writeContract({
+      ...CONTRACT_CONFIG,
+      functionName: 'revealReplyAuthor',
+      args: [postId, replyId],
+    });
+  }
+
   async claimEarnings(amount: bigint) {
     if (!this.walletClient) {
       throw new Error('Wallet client not initialized');
@@ -147,6 +337,55 @@ export class VentbuddyContract {
     });
   }
 
+  // Moves tips stranded on a post, or on one of its replies, into the caller's balance; the caller must
+  // be the author the encrypted id resolves to again
+  async claimStrandedTips(postId: number, replyId?: number) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    return replyId
+      ? await this.walletClient.writeContract({
+          ...CONTRACT_CONFIG,
+          functionName: 'claimStrandedReplyTips',
+          args: [postId, replyId],
+        })
+      : await this.walletClient.writeContract({
+          ...CONTRACT_CONFIG,
+          functionName: 'claimStrandedPostTips',
+          args: [postId],
+        });
+  }
+
+  // Sends the caller's own stranded tip back once the refund delay has passed
+  async refundStrandedTip(postId: number, replyId?: number) {
+    if (!this.walletClient) {
+      throw new Error('Wallet client not initialized');
+    }
+
+    if (!postId || postId <= 0) {
+      throw new Error('Valid post ID is required');
+    }
+
+
+    return replyId
+      ? await this.walletClient.writeContract({
+          ...CONTRACT_CONFIG,
+          functionName: 'refundStrandedReplyTip',
+          args: [postId, replyId],
+        })
+      : await this.walletClient.writeContract({
+          ...CONTRACT_CONFIG,
+          functionName: 'refundStrandedPostTip',
+          args: [postId],
+        });
+  }
+
   async createPost(postData: {
     contentHash: `0x${string}`;
     previewHash: `0x${string}`;
@@ -174,11 +413,6 @@ export class VentbuddyContract {
     });
 
 
-    const publicClient = createPublicClient({
-      chain: sepolia,
-      transport: http()
-    });
-
     const receipt = await publicClient.waitForTransactionReceipt({
       hash: txHash,
     });
@@ -242,14 +476,14 @@ export class VentbuddyContract {
     supabaseId: string;
     encryptedVisibility: `0x${string}`;
     visibilityProof: `0x${string}`;
-    minTipAmount: number;
+    minTipAmount: bigint;
   }) {
     if (!this.walletClient) {
       throw new Error('Wallet client not initialized');
     }
 
 
-    return await this.walletClient.writeContract({
+    const txHash = await this.walletClient.writeContract({
       ...CONTRACT_CONFIG,
       functionName: 'replyToPost',
       args: [
@@ -262,6 +496,29 @@ export class VentbuddyContract {
         replyData.minTipAmount
       ],
     });
+
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash,
+    });
+
+    const [replyCreated] = parseEventLogs({
+      abi: CONTRACT_CONFIG.abi,
+      logs: receipt.logs,
+      eventName: 'ReplyCreated',
+    });
+    const replyId = replyCreated
+      ? Number((replyCreated as unknown as { args: { replyId: bigint } }).args.replyId)
+      : undefined;
+
+    // Unlike posts there is no fallback id: tipping a guessed reply id would revert
+    if (replyId === undefined) {
+      throw new Error('Reply transaction confirmed but no ReplyCreated event was found');
+    }
+
+    return {
+      txHash,
+      replyId
+    };
   }
 
   async registerUser(encryptedAddress: `0x${string}`, addressProof: `0x${string}`) {
@@ -345,8 +602,183 @@ export class VentbuddyContract {
     }
   }
 
+  // True when the user paid to unlock the reply or is subscribed to its replier
+  async hasUnlockedReply(postId: number, replyId: number, userAddress: Address): Promise<boolean> {
+    const unlocked = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'hasUnlockedReply',
+      args: [postId, replyId, userAddress],
+      authorizationList: [],
+    });
+
+    return unlocked as boolean;
+  }
+
+  // Revision 0 is the original post; editedAt is a unix timestamp in seconds, 0 for the original
+  async getPostRevision(postId: number, revision: number): Promise<{
+    contentHash: `0x${string}`;
+    previewHash: `0x${string}`;
+    editedAt: number;
+  }> {
+    const [contentHash, previewHash, editedAt] = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'getPostRevision',
+      args: [postId, revision],
+      authorizationList: [],
+    }) as [`0x${string}`, `0x${string}`, bigint];
+
+    return { contentHash, previewHash, editedAt: Number(editedAt) };
+  }
+
+  async getPostRevisionCount(postId: number): Promise<number> {
+    const count = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'getPostRevisionCount',
+      args: [postId],
+      authorizationList: [],
+    });
+
+    return Number(count);
+  }
+
+  // Revealed author of a post or reply; null while the content is still anonymous
+  async getRevealedAuthor(postId: number, replyId?: number): Promise<Address | null> {
+    const author = replyId
+      ? await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'getRevealedReplyAuthor',
+          args: [postId, replyId],
+          authorizationList: [],
+        })
+      : await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'getRevealedPostAuthor',
+          args: [postId],
+          authorizationList: [],
+        });
+
+    return author && author !== zeroAddress ? (author as Address) : null;
+  }
+
+  // False when the author's encrypted id no longer resolves to a wallet; tips sent then are held as
+  // stranded until the author recovers their mapping or the tipper takes them back after the refund delay
+  async isAuthorMapped(postId: number, replyId?: number): Promise<boolean> {
+    const mapped = replyId
+      ? await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'isReplyAuthorMapped',
+          args: [postId, replyId],
+          authorizationList: [],
+        })
+      : await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'isPostAuthorMapped',
+          args: [postId],
+          authorizationList: [],
+        });
+
+    return mapped as boolean;
+  }
+
+  // Whether the wallet is the author the contract resolves for a post or reply right now
+  async isContentAuthor(postId: number, user: Address, replyId?: number): Promise<boolean> {
+    const isAuthor = replyId
+      ? await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'isReplyAuthor',
+          args: [postId, replyId, user],
+          authorizationList: [],
+        })
+      : await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'isPostAuthor',
+          args: [postId, user],
+          authorizationList: [],
+        });
+
+    return isAuthor as boolean;
+  }
+
+  // A tipper's stranded tip still owed to them; refundableAt is a unix timestamp in seconds, 0 when nothing is owed
+  async getStrandedTip(postId: number, tipper: Address, replyId?: number): Promise<{
+    amount: bigint;
+    refundableAt: number;
+  }> {
+    const [amount, refundableAt] = (replyId
+      ? await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'getStrandedReplyTip',
+          args: [postId, replyId, tipper],
+          authorizationList: [],
+        })
+      : await publicClient.readContract({
+          address: CONTRACT_CONFIG.address,
+          abi: CONTRACT_CONFIG.abi,
+          functionName: 'getStrandedPostTip',
+          args: [postId, tipper],
+          authorizationList: [],
+        })) as [bigint, bigint];
+
+    return { amount, refundableAt: Number(refundableAt) };
+  }
+
+  async getSubscriptionPrice(creatorAddress: Address): Promise<bigint> {
+    const price = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'subscriptionPrice',
+      args: [creatorAddress],
+      authorizationList: [],
+    });
+
+    return price as bigint;
+  }
+
+  // Expiry is a unix timestamp in seconds; 0 means the subscriber never subscribed
+  async getSubscriptionExpiry(creatorAddress: Address, subscriberAddress: Address): Promise<number> {
+    const expiry = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'subscriptionExpiry',
+      args: [creatorAddress, subscriberAddress],
+      authorizationList: [],
+    });
+
+    return Number(expiry);
+  }
+
   async getBalance(userAddress: Address): Promise<bigint> {
-    return 0n;
+    const balance = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'getBalance',
+      args: [userAddress],
+      authorizationList: [],
+    });
+
+    return balance as bigint;
+  }
+
+  // Platform fee taken from each claim, in basis points (100 = 1%)
+  async getFeeBasisPoints(): Promise<bigint> {
+    const feeBasisPoints = await publicClient.readContract({
+      address: CONTRACT_CONFIG.address,
+      abi: CONTRACT_CONFIG.abi,
+      functionName: 'feeBasisPoints',
+      authorizationList: [],
+    });
+
+    return feeBasisPoints as bigint;
   }
 
   async getContractBalance(): Promise<bigint> {
@@ -0,0 +1,130 @@
+// Client-side crisis detection for the compose forms. Everything runs locally: the text
+// never leaves the browser unencrypted, and a match only shows support resources. It
+// never blocks posting.
+
+export type CrisisLocale = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+export interface CrisisDetection {
+  detected: boolean;
+  matches: string[];
+}
+
+export interface SupportResource {
+  name: string;
+  contact: string;
+  url?: string;
+}
+
+// Patterns run on lowercased text with accents stripped, so they are written without accents
+const CRISIS_PATTERNS: Record<CrisisLocale, RegExp[]> = {
+  en: [
+    /\bsuicid(e|al)\b/,
+    /\bkill(ing)? myself\b/,
+    /\bend(ing)? my (own )?life\b/,
+    /\bend(ing)? it all\b/,
+    /\btak(e|ing) my (own )?life\b/,
+    /\b(want|wanna|going) to die\b/,
+    /\bdon'?t want to (live|be alive|wake up)\b/,
+    /\bno reason to (live|go on)\b/,
+    /\bbetter off (dead|without me)\b/,
+    /\bself[- ]?harm(ing)?\b/,
+    /\b(cut|cutting|hurt|hurting) myself\b/,
+    /\boverdos(e|ing)\b/,
+  ],
+  es: [
+    /\bsuicid(io|arme|a)\b/,
+    /\bmatarme\b/,
+    /\bquitarme la vida\b/,
+    /\bacabar con mi vida\b/,
+    /\bno quiero (seguir )?vivir\b/,
+    /\bquiero morir(me)?\b/,
+    /\bhacerme dano\b/,
+    /\bcortarme\b/,
+  ],
+  fr: [
+    /\bsuicid(e|er|aire)\b/,
+    /\bme tuer\b/,
+    /\ben finir\b/,
+    /\bmettre fin a (mes jours|ma vie)\b/,
+    /\b(envie de|veux) mourir\b/,
+    /\bme faire du mal\b/,
+    /\bme scarifier\b/,
+  ],
+  de: [
+    /\bsuizid/,
+    /\bselbstmord/,
+    /\bmich umbringen\b/,
+    /\bmir das leben nehmen\b/,
+    /\bnicht mehr leben\b/,
+    /\b(will|mochte) sterben\b/,
+    /\bselbstverletz/,
+    /\britzen\b/,
+  ],
+  pt: [
+    /\bsuicid(io|ar|a)\b/,
+    /\bme matar\b/,
+    /\bquero morrer\b/,
+    /\btirar (a )?minha (propria )?vida\b/,
+    /\bnao quero (mais )?viver\b/,
+    /\bme cortar\b/,
+  ],
+};
+
+// Keyed by the region part of the browser locale; INTERNATIONAL_RESOURCE is always listed last
+const SUPPORT_RESOURCES: Record<string, SupportResource[]> = {
+  US: [{ name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', url: 'https://988lifeline.org' }],
+  CA: [{ name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', url: 'https://988.ca' }],
+  GB: [{ name: 'Samaritans', contact: 'Call 116 123', url: 'https://www.samaritans.org' }],
+  IE: [{ name: 'Samaritans', contact: 'Call 116 123', url: 'https://www.samaritans.org' }],
+  AU: [{ name: 'Lifeline', contact: 'Call 13 11 14', url: 'https://www.lifeline.org.au' }],
+  ES: [{ name: 'Línea 024', contact: 'Llama al 024' }],
+  FR: [{ name: '3114 - Prévention du suicide', contact: 'Appelez le 3114', url: 'https://3114.fr' }],
+  DE: [{ name: 'TelefonSeelsorge', contact: 'Anrufen: 0800 111 0 111', url: 'https://www.telefonseelsorge.de' }],
+};
+
+const INTERNATIONAL_RESOURCE: SupportResource = {
+  name: 'Find A Helpline',
+  contact: 'Free, confidential helplines in your country',
+  url: 'https://findahelpline.com',
+};
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'");
+}
+
+export function getBrowserLocale(): string {
+  return typeof navigator !== 'undefined' ? navigator.language || 'en' : 'en';
+}
+
+/**
+ * Checks text against the patterns for the reader's language plus English, which many
+ * people vent in regardless of their browser locale.
+ */
+export function detectCrisisLanguage(text: string, locale: string = getBrowserLocale()): CrisisDetection {
+  if (!text.trim()) {
+    return { detected: false, matches: [] };
+  }
+
+  const language = locale.split('-')[0].toLowerCase() as CrisisLocale;
+  const patterns = [
+    ...CRISIS_PATTERNS.en,
+    ...(language !== 'en' && CRISIS_PATTERNS[language] ? CRISIS_PATTERNS[language] : []),
+  ];
+
+  const normalized = normalize(text);
+  const matches = patterns
+    .map((pattern) => normalized.match(pattern)?.[0])
+    .filter((match): match is string => !!match);
+
+  return { detected: matches.length > 0, matches };
+}
+
+export function getSupportResources(locale: string = getBrowserLocale()): SupportResource[] {
+  const region = locale.split('-')[1]?.toUpperCase();
+  const regional = (region && SUPPORT_RESOURCES[region]) || [];
+  return [...regional, INTERNATIONAL_RESOURCE];
+}
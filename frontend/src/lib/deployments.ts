@@ -0,0 +1,121 @@
+import { zeroAddress, type Address, type Chain } from 'viem';
+import { hardhat, sepolia } from 'viem/chains';
+
+// Host-chain contracts the FHEVM relayer SDK needs (see FhevmInstanceConfig)
+export interface FHEDeployment {
+  aclContractAddress: Address;
+  kmsContractAddress: Address;
+  inputVerifierContractAddress: Address;
+  verifyingContractAddressDecryption: Address;
+  verifyingContractAddressInputVerification: Address;
+  gatewayChainId: number;
+  relayerUrl: string;
+}
+
+export interface Deployment {
+  chain: Chain;
+  name: string;
+  rpcUrl: string;
+  blockExplorerUrl?: string;
+  ventbuddyAddress: Address;
+  // First block the chain indexer scans; the block Ventbuddy was deployed at
+  deployBlock: bigint;
+  fhe: FHEDeployment;
+}
+
+const env = import.meta.env;
+
+// VITE_MODE=local runs against `npx hardhat node` with mock FHE and a local Supabase
+export const IS_LOCAL_MODE = env.VITE_MODE === 'local';
+
+export const DEPLOYMENTS: Record<number, Deployment> = {
+  [sepolia.id]: {
+    chain: sepolia,
+    name: 'Sepolia Testnet',
+    rpcUrl: env.VITE_RPC_URL || 'https://sepolia.infura.io/v3/8800e5d43f644529846d90ee5c29adcf',
+    blockExplorerUrl: 'https://sepolia.etherscan.io',
+    ventbuddyAddress: (env.VITE_CONTRACT_ADDRESS || '0xC531862c0669E67c7B30eD72ED275364aD14395b') as Address,
+    deployBlock: BigInt(env.VITE_CONTRACT_DEPLOY_BLOCK || 0),
+    fhe: {
+      aclContractAddress: (env.VITE_ACL_CONTRACT || '0x687820221192C5B662b25367F70076A37bc79b6c') as Address,
+      kmsContractAddress: (env.VITE_KMS_VERIFIER_CONTRACT || '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC') as Address,
+      inputVerifierContractAddress: (env.VITE_INPUT_VERIFIER_CONTRACT || '0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4') as Address,
+      verifyingContractAddressDecryption: (env.VITE_DECRYPTION_ADDRESS || '0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1') as Address,
+      verifyingContractAddressInputVerification: (env.VITE_INPUT_VERIFICATION_ADDRESS || '0x7048C39f048125eDa9d678AEbaDfB22F7900a29F') as Address,
+      gatewayChainId: parseInt(env.VITE_CHAIN_ID_GATEWAY || '55815'),
+      relayerUrl: env.VITE_RELAYER_URL || 'https://relayer.testnet.zama.cloud',
+    },
+  },
+  // `npx hardhat node` in fhevm-hardhat-template; the FHEVM plugin deploys its mock
+  // host contracts at these fixed addresses (local mode reads them from the node)
+  [hardhat.id]: {
+    chain: hardhat,
+    name: 'Local Hardhat',
+    rpcUrl: env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+    ventbuddyAddress: (env.VITE_LOCAL_CONTRACT_ADDRESS || zeroAddress) as Address,
+    deployBlock: 0n,
+    fhe: {
+      aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+      kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+      inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+      verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+      verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+      gatewayChainId: 55815,
+      relayerUrl: '',
+    },
+  },
+};
+
+// A chain only counts as supported once Ventbuddy has an address on it
+export const SUPPORTED_DEPLOYMENTS = Object.values(DEPLOYMENTS).filter(
+  deployment => deployment.ventbuddyAddress !== zeroAddress
+);
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  const deployment = DEPLOYMENTS[chainId];
+  return deployment && deployment.ventbuddyAddress !== zeroAddress ? deployment : undefined;
+}
+
+const ACTIVE_CHAIN_KEY = 'ventbuddy_active_chain_id';
+
+// The chosen chain survives reloads; VITE_DEFAULT_CHAIN_ID only picks the first one
+function resolveActiveChainId(): number {
+  if (IS_LOCAL_MODE) {
+    return hardhat.id;
+  }
+
+  try {
+    const stored = parseInt(localStorage.getItem(ACTIVE_CHAIN_KEY) || '');
+    if (getDeployment(stored)) {
+      return stored;
+    }
+  } catch {
+    // localStorage is unavailable (private mode); fall through to the default
+  }
+
+  const defaultChainId = parseInt(env.VITE_DEFAULT_CHAIN_ID || '');
+  return getDeployment(defaultChainId) ? defaultChainId : sepolia.id;
+}
+
+export const ACTIVE_CHAIN_ID = resolveActiveChainId();
+
+export const activeDeployment: Deployment = DEPLOYMENTS[ACTIVE_CHAIN_ID];
+
+if (IS_LOCAL_MODE && activeDeployment.ventbuddyAddress === zeroAddress) {
+  throw new Error('Missing VITE_LOCAL_CONTRACT_ADDRESS. Deploy Ventbuddy to the local Hardhat node and set it in .env.local.');
+}
+
+/**
+ * Clients and contract config are built once at load, so switching deployments
+ * reloads the app against the new chain.
+ */
+export function setActiveChainId(chainId: number): void {
+  if (!getDeployment(chainId)) {
+    throw new Error(`No Ventbuddy deployment on chain ${chainId}`);
+  }
+
+  localStorage.setItem(ACTIVE_CHAIN_KEY, chainId.toString());
+  if (chainId !== ACTIVE_CHAIN_ID) {
+    window.location.reload();
+  }
+}
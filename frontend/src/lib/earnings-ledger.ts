@@ -0,0 +1,357 @@
+import { formatEther } from 'viem';
+import type { ChainEvent } from './storage';
+
+export type LedgerEntryKind = 'tip' | 'reply_tip' | 'unlock' | 'subscription';
+
+export interface LedgerEntry {
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  kind: LedgerEntryKind;
+  postId: number | null;
+  replyId: number | null;
+  amountWei: bigint;
+}
+
+export interface PostEarnings {
+  postId: number;
+  earnedWei: bigint;
+  count: number;
+}
+
+export interface ReplyEarnings {
+  postId: number;
+  replyId: number;
+  earnedWei: bigint;
+  count: number;
+}
+
+// Tips held by the contract because the author's encrypted id had no address mapping
+export interface StrandedEarnings {
+  postId: number;
+  replyId: number | null;
+  heldWei: bigint; // stranded and neither claimed by the author nor refunded to the tipper yet
+}
+
+export interface DailyEarnings {
+  day: string; // YYYY-MM-DD, UTC
+  earnedWei: bigint;
+  claimedWei: bigint;
+  feesWei: bigint;
+}
+
+export interface ClaimRecord {
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  amountWei: bigint;
+  feeWei: bigint;
+  payoutWei: bigint;
+}
+
+export interface EarningsLedger {
+  entries: LedgerEntry[];
+  byPost: PostEarnings[];
+  byReply: ReplyEarnings[];
+  byDay: DailyEarnings[];
+  claims: ClaimRecord[];
+  stranded: StrandedEarnings[];
+  totalEarnedWei: bigint;
+  totalClaimedWei: bigint;
+  totalFeesWei: bigint;
+  totalStrandedWei: bigint;
+  lastClaimedAt: Date | null;
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const paymentKey = (event: ChainEvent) => `${event.tx_hash}:${event.post_id}:${event.reply_id ?? ''}`;
+
+/**
+ * Folds a creator's indexed contract events into ledger totals. unlockTippableContent
+ * and unlockTippableReply emit an unlock event and a tip event for the same payment,
+ * so the tip half of each pair is dropped and the payment is counted once as an unlock.
+ * A payment that emitted TipStranded never reached the creator's balance, so it is left
+ * out until StrandedTipsClaimed moves it there; refunded tips never count.
+ */
+export function buildEarningsLedger(events: ChainEvent[]): EarningsLedger {
+  const unlockKeys = new Set(
+    events
+      .filter(event => event.event_name === 'ContentUnlocked' || event.event_name === 'ReplyUnlocked')
+      .map(paymentKey)
+  );
+  const strandedKeys = new Set(events.filter(event => event.event_name === 'TipStranded').map(paymentKey));
+
+  const entries: LedgerEntry[] = [];
+  const claims: ClaimRecord[] = [];
+  const held = new Map<string, StrandedEarnings>();
+
+  const holdFor = (event: ChainEvent) => {
+    const key = `${event.post_id}:${event.reply_id ?? ''}`;
+    let bucket = held.get(key);
+    if (!bucket) {
+      bucket = { postId: event.post_id!, replyId: event.reply_id, heldWei: 0n };
+      held.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  for (const event of events) {
+    const timestamp = new Date(event.block_time);
+    const amountWei = BigInt(event.amount_wei);
+
+    if (event.event_name === 'TipStranded') {
+      holdFor(event).heldWei += amountWei;
+      continue;
+    }
+
+    if (event.event_name === 'StrandedTipRefunded') {
+      holdFor(event).heldWei -= amountWei;
+      continue;
+    }
+
+    if (event.event_name === 'Claim') {
+      const feeWei = BigInt(event.fee_wei);
+      claims.push({
+        txHash: event.tx_hash,
+        blockNumber: event.block_number,
+        timestamp,
+        amountWei,
+        feeWei,
+        payoutWei: amountWei - feeWei,
+      });
+      continue;
+    }
+
+    if ((event.event_name === 'TipAddedToPost' || event.event_name === 'TipAddedToReply') && unlockKeys.has(paymentKey(event))) {
+      continue;
+    }
+
+    if (strandedKeys.has(paymentKey(event))) {
+      continue;
+    }
+
+    // A claim takes everything still held, so the bucket starts over for the next round
+    if (event.event_name === 'StrandedTipsClaimed') {
+      holdFor(event).heldWei = 0n;
+    }
+
+    const kind: LedgerEntryKind =
+      event.event_name === 'ContentUnlocked' || event.event_name === 'ReplyUnlocked' ? 'unlock'
+        : event.event_name === 'TipAddedToReply' ? 'reply_tip'
+        : event.event_name === 'StrandedTipsClaimed' ? (event.reply_id !== null ? 'reply_tip' : 'tip')
+        : event.event_name === 'Subscribed' ? 'subscription'
+        : 'tip';
+
+    entries.push({
+      txHash: event.tx_hash,
+      blockNumber: event.block_number,
+      timestamp,
+      kind,
+      postId: event.post_id,
+      replyId: event.reply_id,
+      amountWei,
+    });
+  }
+
+  const posts = new Map<number, PostEarnings>();
+  const replies = new Map<string, ReplyEarnings>();
+  const days = new Map<string, DailyEarnings>();
+
+  const dayFor = (date: Date) => {
+    const day = toDay(date);
+    let bucket = days.get(day);
+    if (!bucket) {
+      bucket = { day, earnedWei: 0n, claimedWei: 0n, feesWei: 0n };
+      days.set(day, bucket);
+    }
+    return bucket;
+  };
+
+  for (const entry of entries) {
+    dayFor(entry.timestamp).earnedWei += entry.amountWei;
+
+    if (entry.postId !== null && entry.replyId !== null) {
+      const key = `${entry.postId}:${entry.replyId}`;
+      const reply = replies.get(key) ?? { postId: entry.postId, replyId: entry.replyId, earnedWei: 0n, count: 0 };
+      reply.earnedWei += entry.amountWei;
+      reply.count += 1;
+      replies.set(key, reply);
+    } else if (entry.postId !== null) {
+      const post = posts.get(entry.postId) ?? { postId: entry.postId, earnedWei: 0n, count: 0 };
+      post.earnedWei += entry.amountWei;
+      post.count += 1;
+      posts.set(entry.postId, post);
+    }
+  }
+
+  for (const claim of claims) {
+    const bucket = dayFor(claim.timestamp);
+    bucket.claimedWei += claim.amountWei;
+    bucket.feesWei += claim.feeWei;
+  }
+
+  const stranded = [...held.values()].filter(bucket => bucket.heldWei > 0n);
+
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+  const byEarnedDesc = (a: { earnedWei: bigint }, b: { earnedWei: bigint }) =>
+    b.earnedWei > a.earnedWei ? 1 : b.earnedWei < a.earnedWei ? -1 : 0;
+
+  return {
+    entries,
+    byPost: [...posts.values()].sort(byEarnedDesc),
+    byReply: [...replies.values()].sort(byEarnedDesc),
+    byDay: [...days.values()].sort((a, b) => a.day.localeCompare(b.day)),
+    claims,
+    stranded,
+    totalEarnedWei: sum(entries.map(entry => entry.amountWei)),
+    totalClaimedWei: sum(claims.map(claim => claim.amountWei)),
+    totalFeesWei: sum(claims.map(claim => claim.feeWei)),
+    totalStrandedWei: sum(stranded.map(bucket => bucket.heldWei)),
+    lastClaimedAt: claims.length > 0 ? claims[claims.length - 1].timestamp : null,
+  };
+}
+
+export const EMPTY_LEDGER: EarningsLedger = buildEarningsLedger([]);
+
+export type EarningsPeriod = 'day' | 'week' | 'month';
+
+export interface EarningsBucket {
+  start: string; // first day of the bucket, YYYY-MM-DD, UTC
+  tipsWei: bigint;
+  unlocksWei: bigint;
+  replyTipsWei: bigint;
+  subscriptionsWei: bigint;
+}
+
+// How many buckets the history chart shows for each period
+export const PERIOD_BUCKETS: Record<EarningsPeriod, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+};
+
+const BUCKET_FIELD: Record<LedgerEntryKind, Exclude<keyof EarningsBucket, 'start'>> = {
+  tip: 'tipsWei',
+  unlock: 'unlocksWei',
+  reply_tip: 'replyTipsWei',
+  subscription: 'subscriptionsWei',
+};
+
+// Weeks start on Monday, matching ISO 8601
+const periodStart = (date: Date, period: EarningsPeriod) => {
+  const start = new Date(Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    period === 'month' ? 1 : date.getUTCDate()
+  ));
+
+  if (period === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+
+  return start;
+};
+
+const shiftPeriod = (date: Date, period: EarningsPeriod, amount: number) => {
+  const shifted = new Date(date);
+
+  if (period === 'month') {
+    shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+  } else {
+    shifted.setUTCDate(shifted.getUTCDate() + amount * (period === 'week' ? 7 : 1));
+  }
+
+  return shifted;
+};
+
+/** Sums entries into the last `count` periods up to now, including empty ones so charts keep a steady axis. */
+export function bucketEarnings(
+  entries: LedgerEntry[],
+  period: EarningsPeriod,
+  count: number = PERIOD_BUCKETS[period],
+  now: Date = new Date()
+): EarningsBucket[] {
+  const first = shiftPeriod(periodStart(now, period), period, -(count - 1));
+  const buckets = new Map<string, EarningsBucket>();
+
+  for (let i = 0; i < count; i++) {
+    const start = toDay(shiftPeriod(first, period, i));
+    buckets.set(start, { start, tipsWei: 0n, unlocksWei: 0n, replyTipsWei: 0n, subscriptionsWei: 0n });
+  }
+
+  for (const entry of entries) {
+    const bucket = buckets.get(toDay(periodStart(entry.timestamp, period)));
+    if (bucket) {
+      bucket[BUCKET_FIELD[entry.kind]] += entry.amountWei;
+    }
+  }
+
+  return [...buckets.values()];
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['date', 'type', 'tx_hash', 'block', 'post_id', 'reply_id', 'amount_eth', 'amount_wei', 'fee_wei', 'net_wei'];
+
+/** One row per earning and per claim, oldest first, with exact wei amounts alongside ETH. */
+export function ledgerToCsv(ledger: EarningsLedger): string {
+  const rows = [
+    ...ledger.entries.map(entry => ({
+      timestamp: entry.timestamp,
+      cells: [
+        entry.timestamp.toISOString(),
+        entry.kind,
+        entry.txHash,
+        entry.blockNumber,
+        entry.postId,
+        entry.replyId,
+        formatEther(entry.amountWei),
+        entry.amountWei.toString(),
+        '0',
+        entry.amountWei.toString(),
+      ],
+    })),
+    ...ledger.claims.map(claim => ({
+      timestamp: claim.timestamp,
+      cells: [
+        claim.timestamp.toISOString(),
+        'claim',
+        claim.txHash,
+        claim.blockNumber,
+        null,
+        null,
+        formatEther(claim.amountWei),
+        claim.amountWei.toString(),
+        claim.feeWei.toString(),
+        claim.payoutWei.toString(),
+      ],
+    })),
+  ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return [CSV_COLUMNS, ...rows.map(row => row.cells)]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\n');
+}
+
+// Wei amounts are written as decimal strings; JSON numbers would lose precision
+export function ledgerToJson(ledger: EarningsLedger): string {
+  return JSON.stringify(
+    {
+      totalEarnedWei: ledger.totalEarnedWei,
+      totalClaimedWei: ledger.totalClaimedWei,
+      totalFeesWei: ledger.totalFeesWei,
+      totalStrandedWei: ledger.totalStrandedWei,
+      entries: ledger.entries,
+      claims: ledger.claims,
+      byPost: ledger.byPost,
+      byReply: ledger.byReply,
+      stranded: ledger.stranded,
+    },
+    (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { initSDK, createInstance, SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
-import { isSepoliaNetwork } from './network-utils';
+import { initSDK, createInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { isActiveNetwork } from './network-utils';
+import { activeDeployment, IS_LOCAL_MODE } from './deployments';
 import { ethers } from 'ethers';
 
 interface FHEInstance {
@@ -23,7 +24,7 @@ declare global {
 export class FHEEncryptionService {
   private isInitialized = false;
   private instance: FHEInstance | null = null;
-  private contractAddress = import.meta.env.VITE_CONTRACT_ADDRESS || '0xC531862c0669E67c7B30eD72ED275364aD14395b';
+  private contractAddress: string = activeDeployment.ventbuddyAddress;
   private useNpmImport = true;
   private networkCache: { chainId: string; timestamp: number } | null = null;
   private readonly NETWORK_CACHE_TTL = 10000;
@@ -36,14 +37,6 @@ export class FHEEncryptionService {
   private async initializeWithNpm(): Promise<void> {
     try {
       await initSDK();
-      
-      try {
-        this.instance = await createInstance(SepoliaConfig);
-        this.isInitialized = true;
-        return;
-      } catch (sepoliaError: any) {
-        console.warn('SepoliaConfig failed, trying manual configuration:', sepoliaError);
-      }
 
       const config = this.createConfig();
       this.instance = await createInstance(config);
@@ -61,6 +54,32 @@ export class FHEEncryptionService {
     }
   }
 
+  // The Hardhat node's FHEVM plugin has no relayer; @fhevm/mock-utils encrypts against
+  // its mock host contracts instead. The node reports where it deployed them.
+  private async initializeWithMock(): Promise<void> {
+    const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+    const provider = new ethers.JsonRpcProvider(activeDeployment.rpcUrl);
+
+    let metadata: { ACLAddress?: string; InputVerifierAddress?: string; KMSVerifierAddress?: string } = {};
+    try {
+      metadata = await provider.send('fhevm_relayer_metadata', []);
+    } catch (metadataError) {
+      console.warn('Local node did not report FHEVM metadata, using registry addresses:', metadataError);
+    }
+
+    const { fhe } = activeDeployment;
+    this.instance = await MockFhevmInstance.create(provider, provider, {
+      aclContractAddress: metadata.ACLAddress ?? fhe.aclContractAddress,
+      inputVerifierContractAddress: metadata.InputVerifierAddress ?? fhe.inputVerifierContractAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress ?? fhe.kmsContractAddress,
+      verifyingContractAddressDecryption: fhe.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: fhe.verifyingContractAddressInputVerification,
+      chainId: activeDeployment.chain.id,
+      gatewayChainId: fhe.gatewayChainId,
+    });
+    this.isInitialized = true;
+  }
+
   private async initializeWithCDN(): Promise<void> {
     const sdkGlobal = this.getSDKGlobal();
     if (!sdkGlobal) {
@@ -73,33 +92,18 @@ export class FHEEncryptionService {
     }
     
     await sdkGlobalCDN.initSDK();
-    
-    try {
-      this.instance = await sdkGlobalCDN.createInstance(sdkGlobalCDN.SepoliaConfig);
-      this.isInitialized = true;
-      return;
-    } catch (sepoliaError: any) {
-      console.warn('SepoliaConfig failed in CDN, trying manual configuration:', sepoliaError);
-    }
 
     const config = this.createConfig();
     this.instance = await sdkGlobalCDN.createInstance(config);
     this.isInitialized = true;
   }
 
+  // FHE host contracts and relayer come from the active deployment in the registry
   private createConfig() {
-    const relayerUrl = import.meta.env.VITE_RELAYER_URL || 'https://relayer.testnet.zama.cloud';
-    
     return {
-      aclContractAddress: import.meta.env.VITE_ACL_CONTRACT || '0x687820221192C5B662b25367F70076A37bc79b6c',
-      kmsContractAddress: import.meta.env.VITE_KMS_VERIFIER_CONTRACT || '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC',
-      inputVerifierContractAddress: import.meta.env.VITE_INPUT_VERIFIER_CONTRACT || '0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4',
-      chainId: parseInt(import.meta.env.VITE_CHAIN_ID || '11155111'),
-      gatewayChainId: parseInt(import.meta.env.VITE_CHAIN_ID_GATEWAY || '55815'),
-      network: import.meta.env.VITE_RPC_URL || 'https://eth-sepolia.public.blastapi.io',
-      relayerUrl: relayerUrl,
-      verifyingContractAddressDecryption: import.meta.env.VITE_DECRYPTION_ADDRESS || '0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1',
-      verifyingContractAddressInputVerification: import.meta.env.VITE_INPUT_VERIFICATION_ADDRESS || '0x7048C39f048125eDa9d678AEbaDfB22F7900a29F',
+      ...activeDeployment.fhe,
+      chainId: activeDeployment.chain.id,
+      network: activeDeployment.rpcUrl,
     };
   }
 
@@ -157,12 +161,17 @@ export class FHEEncryptionService {
     if (this.isInitialized) return;
 
     try {
+      if (IS_LOCAL_MODE) {
+        await this.initializeWithMock();
+        return;
+      }
+
       if (this.useNpmImport) {
         try {
           await this.initializeWithNpm();
           return;
         } catch (npmError: any) {
-          if (npmError.message?.includes('Sepolia network') || npmError.message?.includes('Wallet must be connected')) {
+          if (npmError.message?.includes(activeDeployment.name) || npmError.message?.includes('Wallet must be connected')) {
             throw npmError;
           }
           console.warn('NPM import failed, falling back to CDN:', npmError);
@@ -188,8 +197,8 @@ export class FHEEncryptionService {
         return false;
       }
 
-      const isOnSepolia = await this.isSepoliaNetworkCached();
-      if (!isOnSepolia) {
+      const isOnActiveNetwork = await this.isActiveNetworkCached();
+      if (!isOnActiveNetwork) {
         return false;
       }
 
@@ -200,15 +209,15 @@ export class FHEEncryptionService {
     }
   }
 
-  private async isSepoliaNetworkCached(): Promise<boolean> {
+  private async isActiveNetworkCached(): Promise<boolean> {
     const now = Date.now();
     
     if (this.networkCache && (now - this.networkCache.timestamp) < this.NETWORK_CACHE_TTL) {
-      return this.networkCache.chainId === '0xaa36a7';
+      return parseInt(this.networkCache.chainId, 16) === activeDeployment.chain.id;
     }
 
     try {
-      const isSepolia = await isSepoliaNetwork();
+      const isOnActiveNetwork = await isActiveNetwork();
       
       const chainId = await window.ethereum.request({ method: 'eth_chainId' });
       this.networkCache = {
@@ -216,7 +225,7 @@ export class FHEEncryptionService {
         timestamp: now
       };
 
-      return isSepolia;
+      return isOnActiveNetwork;
     } catch (error) {
       console.warn('Error checking network:', error);
       return false;
@@ -229,11 +238,11 @@ export class FHEEncryptionService {
   }> {
     const isReady = await this.isFullyReady();
     if (!isReady) {
-      throw new Error('FHE encryption service is not ready. Please ensure you are connected to Sepolia network and try again.');
+      throw new Error(`FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`);
     }
 
     if (!this.instance) {
-      throw new Error('FHEVM SDK not initialized. Please ensure you are connected to Sepolia network and try again.');
+      throw new Error(`FHEVM SDK not initialized. Please ensure you are connected to ${activeDeployment.name} and try again.`);
     }
 
     try {
@@ -304,11 +313,11 @@ export class FHEEncryptionService {
   }> {
     const isReady = await this.isFullyReady();
     if (!isReady) {
-      throw new Error('FHE encryption service is not ready. Please ensure you are connected to Sepolia network and try again.');
+      throw new Error(`FHE encryption service is not ready. Please ensure you are connected to ${activeDeployment.name} and try again.`);
     }
 
     if (!this.instance) {
-      throw new Error('FHEVM SDK not initialized. Please ensure you are connected to Sepolia network and try again.');
+      throw new Error(`FHEVM SDK not initialized. Please ensure you are connected to ${activeDeployment.name} and try again.`);
     }
 
     try {
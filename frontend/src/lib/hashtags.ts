@@ -0,0 +1,26 @@
+export const MAX_TAGS_PER_POST = 10;
+export const TRENDING_WINDOW_HOURS = 24;
+
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_#])#([\p{L}\p{N}_]{2,32})/gu;
+
+// Tags are stored lowercase so #WorkStress and #workstress count as one trend
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').trim().toLowerCase();
+}
+
+export function extractHashtags(content: string): string[] {
+  const tags = new Set<string>();
+
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    tags.add(normalizeTag(match[1]));
+    if (tags.size >= MAX_TAGS_PER_POST) {
+      break;
+    }
+  }
+
+  return Array.from(tags);
+}
+
+export function formatTag(tag: string): string {
+  return `#${tag}`;
+}
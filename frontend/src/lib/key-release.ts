@@ -0,0 +1,139 @@
+import type { WalletClient } from 'viem';
+import { getSupabaseClient } from './supabase';
+import { logger } from './logger';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+export const SEALED_KEY_VERSION = 1;
+export const SEALED_KEY_ALG = 'ECDH-ES+A256GCM';
+export const KEY_RELEASE_FUNCTION = 'release-content-key';
+
+// Content keys of tippable posts and replies are sealed to the key-release service
+// before they reach Supabase. Only the release function holds the matching private
+// key and it hands a key back to the author or to wallets with on-chain access.
+export interface SealedContentKey {
+  v: number;
+  alg: typeof SEALED_KEY_ALG;
+  epk: string;
+  iv: string;
+  ct: string;
+}
+
+export interface KeyReleaseRequest {
+  rawPostId: number;
+  // Set for paywalled replies; the on-chain reply id, not the Supabase row id
+  replyId?: number;
+  keyId: string;
+  walletClient: WalletClient;
+}
+
+export function buildKeyReleaseMessage(rawPostId: number, keyId: string, issuedAt: string, replyId?: number): string {
+  return [
+    'Ventbuddy content key release',
+    `Post: ${rawPostId}`,
+    ...(replyId ? [`Reply: ${replyId}`] : []),
+    `Key: ${keyId}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+export class KeyReleaseService {
+  private servicePublicKey: CryptoKey | null = null;
+  private readonly publicKeySpki = import.meta.env.VITE_KEY_RELEASE_PUBLIC_KEY;
+
+  isConfigured(): boolean {
+    return !!this.publicKeySpki;
+  }
+
+  async sealContentKey(rawKey: Uint8Array): Promise<string> {
+    const servicePublicKey = await this.getServicePublicKey();
+
+    const ephemeral = await crypto.subtle.generateKey(
+      { name: 'ECDH', namedCurve: 'P-256' },
+      true,
+      ['deriveKey']
+    );
+    const wrappingKey = await crypto.subtle.deriveKey(
+      { name: 'ECDH', public: servicePublicKey },
+      ephemeral.privateKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt']
+    );
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, rawKey);
+    const epk = new Uint8Array(await crypto.subtle.exportKey('spki', ephemeral.publicKey));
+
+    const sealed: SealedContentKey = {
+      v: SEALED_KEY_VERSION,
+      alg: SEALED_KEY_ALG,
+      epk: bytesToBase64(epk),
+      iv: bytesToBase64(iv),
+      ct: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+
+    return JSON.stringify(sealed);
+  }
+
+  /**
+   * Proves wallet ownership with a signed message and asks the release function
+   * for the raw content key. The function only answers for the author or for
+   * addresses the contract reports as having unlocked the post or reply.
+   */
+  async requestContentKey({ rawPostId, replyId, keyId, walletClient }: KeyReleaseRequest): Promise<Uint8Array> {
+    if (!walletClient?.account) {
+      throw new Error('Wallet not connected');
+    }
+
+    const issuedAt = new Date().toISOString();
+    const message = buildKeyReleaseMessage(rawPostId, keyId, issuedAt, replyId);
+    const signature = await walletClient.signMessage({
+      account: walletClient.account,
+      message,
+    });
+
+    const { data, error } = await getSupabaseClient().functions.invoke(KEY_RELEASE_FUNCTION, {
+      body: {
+        rawPostId,
+        replyId,
+        keyId,
+        address: walletClient.account.address,
+        issuedAt,
+        signature,
+      },
+    });
+
+    if (error) {
+      logger.warn('Key release refused', { rawPostId, replyId, keyId, error: error.message }, 'KeyReleaseService');
+      throw new Error(`Key release failed: ${error.message}`);
+    }
+
+    if (!data?.keyMaterial) {
+      throw new Error('Key release failed: no key returned');
+    }
+
+    return base64ToBytes(data.keyMaterial);
+  }
+
+  private async getServicePublicKey(): Promise<CryptoKey> {
+    if (this.servicePublicKey) {
+      return this.servicePublicKey;
+    }
+
+    if (!this.publicKeySpki) {
+      throw new Error('Key release service is not configured. Please set VITE_KEY_RELEASE_PUBLIC_KEY.');
+    }
+
+    this.servicePublicKey = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(this.publicKeySpki),
+      { name: 'ECDH', namedCurve: 'P-256' },
+      false,
+      []
+    );
+
+    return this.servicePublicKey;
+  }
+}
+
+export const keyReleaseService = new KeyReleaseService();
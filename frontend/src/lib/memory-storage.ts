@@ -0,0 +1,944 @@
+import { rankPosts, type RankingMode, type TopWindow } from './ranking';
+import { logger } from './logger';
+import {
+  EARNING_ACCESS_TYPES,
+  toEncryptedIdHex,
+  type AccessContentType,
+  type AccessLog,
+  type AccessLogDetails,
+  type AccessType,
+  type ChainEvent,
+  type ChainEventInsert,
+  type ContentCursor,
+  type ContentKeyRecord,
+  type ContentPage,
+  type ContentPageFilter,
+  type CreateProfileData,
+  type EncryptedContent,
+  type EncryptedReply,
+  type EngagementType,
+  type IndexerCheckpoint,
+  type LatestVisibility,
+  type MuteKind,
+  type MutedAuthor,
+  type PostEdit,
+  type PostEngagement,
+  type PostRevision,
+  type PostStats,
+  type PostStatsUpdate,
+  type PostTag,
+  type ReplyStats,
+  type StorageBackend,
+  type Subscription,
+  type TrendingTag,
+  type Unsubscribe,
+  type UserProfile,
+  type UserSession,
+  type VisibilityEvent,
+  type VisibilityEventInsert,
+  type VisibilityUpdate,
+} from './storage-backend';
+
+interface MemoryTables {
+  nextId: number;
+  encrypted_content: EncryptedContent[];
+  post_revisions: PostRevision[];
+  post_tags: PostTag[];
+  encrypted_replies: EncryptedReply[];
+  reply_stats: ReplyStats[];
+  post_stats: PostStats[];
+  post_engagement: PostEngagement[];
+  visibility_events: VisibilityEvent[];
+  content_keys: ContentKeyRecord[];
+  access_logs: AccessLog[];
+  subscriptions: Subscription[];
+  muted_authors: MutedAuthor[];
+  indexer_checkpoints: IndexerCheckpoint[];
+  chain_events: ChainEvent[];
+  user_profiles: UserProfile[];
+  user_sessions: UserSession[];
+}
+
+const emptyTables = (): MemoryTables => ({
+  nextId: 1,
+  encrypted_content: [],
+  post_revisions: [],
+  post_tags: [],
+  encrypted_replies: [],
+  reply_stats: [],
+  post_stats: [],
+  post_engagement: [],
+  visibility_events: [],
+  content_keys: [],
+  access_logs: [],
+  subscriptions: [],
+  muted_authors: [],
+  indexer_checkpoints: [],
+  chain_events: [],
+  user_profiles: [],
+  user_sessions: [],
+});
+
+const DB_NAME = 'ventbuddy-storage';
+const STORE_NAME = 'tables';
+const SNAPSHOT_KEY = 'snapshot';
+
+const now = () => new Date().toISOString();
+
+const newestFirst = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+const isVisible = (content: EncryptedContent) => !content.deleted_at && !content.hidden_at;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser-only StorageBackend for running the app without Supabase. Tables live
+ * in memory and are snapshotted to IndexedDB after every write, so data survives
+ * reloads but is never shared with other browsers. Edge functions (moderation,
+ * key release) have no equivalent here, so sealed content cannot be unlocked.
+ */
+export class MemoryStorage implements StorageBackend {
+  private tables: MemoryTables = emptyTables();
+  private loaded: Promise<void> | null = null;
+  private contentListeners = new Set<(content: EncryptedContent) => void>();
+  private statsListeners = new Set<(stats: PostStats) => void>();
+  private visibilityListeners = new Set<(event: VisibilityEvent) => void>();
+
+  constructor(private persistent: boolean = typeof indexedDB !== 'undefined') {}
+
+  private async db(): Promise<MemoryTables> {
+    if (!this.loaded) {
+      this.loaded = this.persistent ? this.restore() : Promise.resolve();
+    }
+    await this.loaded;
+    return this.tables;
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const database = await openDatabase();
+      const snapshot = await new Promise<MemoryTables | undefined>((resolve, reject) => {
+        const request = database.transaction(STORE_NAME).objectStore(STORE_NAME).get(SNAPSHOT_KEY);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      database.close();
+
+      if (snapshot) {
+        this.tables = { ...emptyTables(), ...snapshot };
+      }
+    } catch (error) {
+      logger.warn('Failed to restore stored data, starting empty', error, 'MemoryStorage');
+    }
+  }
+
+  private persist(): void {
+    if (!this.persistent) {
+      return;
+    }
+
+    openDatabase()
+      .then(database => {
+        const transaction = database.transaction(STORE_NAME, 'readwrite');
+        transaction.objectStore(STORE_NAME).put(this.tables, SNAPSHOT_KEY);
+        transaction.oncomplete = () => database.close();
+      })
+      .catch(error => logger.warn('Failed to persist stored data', error, 'MemoryStorage'));
+  }
+
+  private nextId(tables: MemoryTables): number {
+    return tables.nextId++;
+  }
+
+  private notify<T>(listeners: Set<(value: T) => void>, value: T): void {
+    listeners.forEach(listener => {
+      try {
+        listener(value);
+      } catch (error) {
+        logger.warn('Storage listener failed', error, 'MemoryStorage');
+      }
+    });
+  }
+
+  private subscribe<T>(listeners: Set<(value: T) => void>, callback: (value: T) => void): Unsubscribe {
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  async storeEncryptedContent(
+    contentHash: string,
+    previewHash: string,
+    encryptedContent: string,
+    encryptedPreview: string,
+    authorId: string,
+    minTipAmount?: number,
+    rawPostId?: number,
+    encryptedPostId?: string
+  ): Promise<EncryptedContent> {
+    const tables = await this.db();
+    const timestamp = now();
+    const content: EncryptedContent = {
+      id: this.nextId(tables),
+      content_hash: contentHash,
+      preview_hash: previewHash,
+      encrypted_content: encryptedContent,
+      encrypted_preview: encryptedPreview,
+      author_id: authorId,
+      min_tip_amount: minTipAmount || undefined,
+      raw_post_id: rawPostId || 0,
+      encrypted_post_id: encryptedPostId,
+      revision_count: 0,
+      deleted_at: null,
+      hidden_at: null,
+      content_warnings: [],
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    tables.encrypted_content.push(content);
+    this.persist();
+    this.notify(this.contentListeners, content);
+    return content;
+  }
+
+  async getEncryptedContent(supabaseId: number): Promise<EncryptedContent | null> {
+    return (await this.db()).encrypted_content.find(content => content.id === supabaseId) ?? null;
+  }
+
+  async getEncryptedContentByRawPostId(rawPostId: number): Promise<EncryptedContent | null> {
+    return (await this.db()).encrypted_content.find(content => content.raw_post_id === rawPostId) ?? null;
+  }
+
+  async getEncryptedContentByHash(contentHash: string): Promise<EncryptedContent | null> {
+    return (await this.db()).encrypted_content.find(content => content.content_hash === contentHash) ?? null;
+  }
+
+  async getRecentContent(limit: number = 20): Promise<EncryptedContent[]> {
+    return (await this.db()).encrypted_content.filter(isVisible).sort(newestFirst).slice(0, limit);
+  }
+
+  async getContentPage(
+    limit: number = 20,
+    cursor?: ContentCursor | null,
+    filter?: ContentPageFilter
+  ): Promise<ContentPage> {
+    const items = (await this.db()).encrypted_content
+      .filter(isVisible)
+      .filter(content => !filter?.rawPostIds || filter.rawPostIds.includes(content.raw_post_id))
+      .filter(content => !cursor
+        || content.created_at < cursor.createdAt
+        || (content.created_at === cursor.createdAt && content.id < cursor.id))
+      .sort((a, b) => newestFirst(a, b) || b.id - a.id)
+      .slice(0, limit);
+
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: items.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  }
+
+  async getRankedContentPage(
+    mode: RankingMode,
+    window: TopWindow,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<EncryptedContent[]> {
+    const tables = await this.db();
+    const candidates = tables.encrypted_content.filter(isVisible).map(content => {
+      const stats = tables.post_stats.find(stat => stat.raw_post_id === content.raw_post_id);
+      return {
+        content,
+        replyCount: stats?.reply_count ?? 0,
+        upvoteCount: stats?.upvote_count ?? 0,
+        downvoteCount: stats?.downvote_count ?? 0,
+        createdAt: content.created_at,
+      };
+    });
+
+    return rankPosts(candidates, { mode, window })
+      .slice(offset, offset + limit)
+      .map(candidate => candidate.content);
+  }
+
+  async countContentByAuthor(authorId: string): Promise<number> {
+    return (await this.db()).encrypted_content.filter(content => content.author_id === authorId).length;
+  }
+
+  async editPost(rawPostId: number, edit: PostEdit): Promise<EncryptedContent> {
+    const tables = await this.db();
+    const current = tables.encrypted_content.find(content => content.raw_post_id === rawPostId);
+    if (!current) {
+      throw new Error('Failed to edit post: post not found');
+    }
+
+    const addRevision = (revision: Omit<PostRevision, 'id' | 'created_at'>) => {
+      const exists = tables.post_revisions.some(
+        stored => stored.raw_post_id === rawPostId && stored.revision === revision.revision
+      );
+      if (!exists) {
+        tables.post_revisions.push({ ...revision, id: this.nextId(tables), created_at: now() });
+      }
+    };
+
+    addRevision({
+      raw_post_id: rawPostId,
+      revision: current.revision_count ?? 0,
+      content_hash: current.content_hash,
+      preview_hash: current.preview_hash,
+      encrypted_content: current.encrypted_content,
+      encrypted_preview: current.encrypted_preview,
+      tx_hash: null,
+    });
+    addRevision({
+      raw_post_id: rawPostId,
+      revision: edit.revision,
+      content_hash: edit.contentHash,
+      preview_hash: edit.previewHash,
+      encrypted_content: edit.encryptedContent,
+      encrypted_preview: edit.encryptedPreview,
+      tx_hash: edit.txHash,
+    });
+
+    Object.assign(current, {
+      content_hash: edit.contentHash,
+      preview_hash: edit.previewHash,
+      encrypted_content: edit.encryptedContent,
+      encrypted_preview: edit.encryptedPreview,
+      revision_count: edit.revision,
+      updated_at: now(),
+    });
+    this.persist();
+    return current;
+  }
+
+  async getPostRevisions(rawPostId: number): Promise<PostRevision[]> {
+    return (await this.db()).post_revisions
+      .filter(revision => revision.raw_post_id === rawPostId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async updatePostVisibility(rawPostId: number, update: VisibilityUpdate): Promise<EncryptedContent> {
+    const content = await this.getEncryptedContentByRawPostId(rawPostId);
+    if (!content) {
+      throw new Error('Failed to update post visibility: post not found');
+    }
+
+    content.min_tip_amount = update.minTipAmount || undefined;
+    if (update.encryptedContent && update.encryptedPreview) {
+      content.encrypted_content = update.encryptedContent;
+      content.encrypted_preview = update.encryptedPreview;
+    }
+    content.updated_at = now();
+    this.persist();
+    return content;
+  }
+
+  async softDeletePost(rawPostId: number): Promise<void> {
+    const content = await this.getEncryptedContentByRawPostId(rawPostId);
+    if (content) {
+      content.deleted_at = content.updated_at = now();
+      this.persist();
+    }
+  }
+
+  async setContentWarnings(rawPostId: number, warnings: string[]): Promise<void> {
+    const content = await this.getEncryptedContentByRawPostId(rawPostId);
+    if (content) {
+      content.content_warnings = warnings;
+      this.persist();
+    }
+  }
+
+  subscribeToNewContent(callback: (content: EncryptedContent) => void): Unsubscribe {
+    return this.subscribe(this.contentListeners, callback);
+  }
+
+  async storePostTags(rawPostId: number, tags: string[]): Promise<PostTag[]> {
+    const tables = await this.db();
+    const stored = tags
+      .filter(tag => !tables.post_tags.some(existing => existing.raw_post_id === rawPostId && existing.tag === tag))
+      .map(tag => ({ raw_post_id: rawPostId, tag, created_at: now() }));
+
+    tables.post_tags.push(...stored);
+    this.persist();
+    return stored;
+  }
+
+  async getRawPostIdsForTag(tag: string, limit: number = 500): Promise<number[]> {
+    return (await this.db()).post_tags
+      .filter(postTag => postTag.tag === tag)
+      .sort(newestFirst)
+      .slice(0, limit)
+      .map(postTag => postTag.raw_post_id);
+  }
+
+  async getTrendingTags(windowHours: number = 24, limit: number = 10): Promise<TrendingTag[]> {
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+    const counts = new Map<string, { post_count: number; latest: string }>();
+
+    (await this.db()).post_tags
+      .filter(postTag => postTag.created_at >= since)
+      .forEach(postTag => {
+        const entry = counts.get(postTag.tag) ?? { post_count: 0, latest: postTag.created_at };
+        entry.post_count++;
+        entry.latest = entry.latest > postTag.created_at ? entry.latest : postTag.created_at;
+        counts.set(postTag.tag, entry);
+      });
+
+    return [...counts.entries()]
+      .sort(([, a], [, b]) => b.post_count - a.post_count || b.latest.localeCompare(a.latest))
+      .slice(0, limit)
+      .map(([tag, { post_count }]) => ({ tag, post_count }));
+  }
+
+  async storeEncryptedReply(
+    postId: number,
+    replyId: number,
+    contentHash: string,
+    previewHash: string,
+    encryptedContent: string,
+    encryptedPreview: string,
+    replierId: string,
+    parentReplyId?: number,
+    minTipAmountWei?: bigint
+  ): Promise<EncryptedReply> {
+    const tables = await this.db();
+    const timestamp = now();
+    const reply: EncryptedReply = {
+      id: this.nextId(tables),
+      post_id: postId,
+      reply_id: replyId,
+      content_hash: contentHash,
+      preview_hash: previewHash,
+      encrypted_content: encryptedContent,
+      encrypted_preview: encryptedPreview,
+      replier_id: replierId,
+      parent_reply_id: parentReplyId ?? null,
+      onchain_reply_id: null,
+      anchor_tx_hash: null,
+      min_tip_amount: minTipAmountWei?.toString() ?? null,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    tables.encrypted_replies.push(reply);
+    this.persist();
+    return reply;
+  }
+
+  async getPostReplies(postId: number): Promise<EncryptedReply[]> {
+    return (await this.db()).encrypted_replies
+      .filter(reply => reply.post_id === postId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async getEncryptedReply(postId: number, replyId: number): Promise<EncryptedReply | null> {
+    return (await this.db()).encrypted_replies
+      .find(reply => reply.post_id === postId && reply.reply_id === replyId) ?? null;
+  }
+
+  async getEncryptedReplyById(supabaseId: number): Promise<EncryptedReply | null> {
+    return (await this.db()).encrypted_replies.find(reply => reply.id === supabaseId) ?? null;
+  }
+
+  async anchorReply(supabaseId: number, onchainReplyId: number, txHash: string): Promise<EncryptedReply> {
+    const reply = await this.getEncryptedReplyById(supabaseId);
+    if (!reply) {
+      throw new Error('Failed to record on-chain reply: reply not found');
+    }
+
+    reply.onchain_reply_id = onchainReplyId;
+    reply.anchor_tx_hash = txHash;
+    reply.updated_at = now();
+    this.persist();
+    return reply;
+  }
+
+  async deleteEncryptedReply(postId: number, replyId: number): Promise<void> {
+    const tables = await this.db();
+    const matches = (row: { post_id: number; reply_id: number }) => row.post_id === postId && row.reply_id === replyId;
+
+    tables.reply_stats = tables.reply_stats.filter(stats => !matches(stats));
+    tables.encrypted_replies = tables.encrypted_replies.filter(reply => !matches(reply));
+    this.persist();
+  }
+
+  async createReplyStats(postId: number, replyId: number): Promise<void> {
+    (await this.db()).reply_stats.push({
+      post_id: postId,
+      reply_id: replyId,
+      upvote_count: 0,
+      downvote_count: 0,
+      last_updated: now(),
+    });
+    this.persist();
+  }
+
+  async getReplyStats(postId: number, replyId: number): Promise<ReplyStats | null> {
+    return (await this.db()).reply_stats
+      .find(stats => stats.post_id === postId && stats.reply_id === replyId) ?? null;
+  }
+
+  async getPostReplyStats(postId: number): Promise<ReplyStats[]> {
+    return (await this.db()).reply_stats.filter(stats => stats.post_id === postId);
+  }
+
+  async getPostStats(rawPostId: number): Promise<PostStats | null> {
+    return (await this.db()).post_stats.find(stats => stats.raw_post_id === rawPostId) ?? null;
+  }
+
+  async getPostStatsBatch(rawPostIds: number[]): Promise<PostStats[]> {
+    return (await this.db()).post_stats.filter(stats => rawPostIds.includes(stats.raw_post_id));
+  }
+
+  async upsertPostStats(update: PostStatsUpdate): Promise<void> {
+    const tables = await this.db();
+    let stats = tables.post_stats.find(existing => existing.raw_post_id === update.raw_post_id);
+
+    if (!stats) {
+      stats = { raw_post_id: update.raw_post_id, upvote_count: 0, downvote_count: 0, reply_count: 0, last_updated: now() };
+      tables.post_stats.push(stats);
+    }
+
+    Object.assign(stats, update, { last_updated: now() });
+    this.persist();
+    this.notify(this.statsListeners, stats);
+  }
+
+  async hasPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<boolean> {
+    return (await this.db()).post_engagement.some(engagement =>
+      engagement.raw_post_id === rawPostId
+      && engagement.user_encrypted_id === userEncryptedId
+      && engagement.engagement_type === type
+    );
+  }
+
+  async addPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void> {
+    const tables = await this.db();
+    tables.post_engagement.push({
+      id: this.nextId(tables),
+      raw_post_id: rawPostId,
+      user_encrypted_id: userEncryptedId,
+      engagement_type: type,
+      created_at: now(),
+    });
+    this.persist();
+  }
+
+  async removePostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void> {
+    const tables = await this.db();
+    tables.post_engagement = tables.post_engagement.filter(engagement => !(
+      engagement.raw_post_id === rawPostId
+      && engagement.user_encrypted_id === userEncryptedId
+      && engagement.engagement_type === type
+    ));
+    this.persist();
+  }
+
+  async countPostEngagement(rawPostId: number, type: EngagementType): Promise<number> {
+    return (await this.db()).post_engagement
+      .filter(engagement => engagement.raw_post_id === rawPostId && engagement.engagement_type === type)
+      .length;
+  }
+
+  async getUserEngagement(userEncryptedId: string): Promise<PostEngagement[]> {
+    return (await this.db()).post_engagement.filter(engagement => engagement.user_encrypted_id === userEncryptedId);
+  }
+
+  async getEngagedRawPostIds(): Promise<number[]> {
+    const rawPostIds = (await this.db()).post_engagement.map(engagement => engagement.raw_post_id);
+    return [...new Set(rawPostIds)].sort((a, b) => a - b);
+  }
+
+  subscribeToPostStats(rawPostIds: number[], callback: (stats: PostStats) => void): Unsubscribe {
+    return this.subscribe(this.statsListeners, stats => {
+      if (rawPostIds.includes(stats.raw_post_id)) {
+        callback(stats);
+      }
+    });
+  }
+
+  async logVisibilityEvent(insert: VisibilityEventInsert): Promise<void> {
+    const tables = await this.db();
+    const event: VisibilityEvent = { ...insert, id: this.nextId(tables), created_at: now() };
+
+    tables.visibility_events.push(event);
+    this.persist();
+    this.notify(this.visibilityListeners, event);
+  }
+
+  async getLatestVisibility(postId: number | string, replyId?: number | string): Promise<LatestVisibility | null> {
+    const encryptedPostId = toEncryptedIdHex(postId);
+    const encryptedReplyId = replyId ? toEncryptedIdHex(replyId) : null;
+
+    const latest = (await this.db()).visibility_events
+      .filter(event => event.encrypted_post_id === encryptedPostId
+        && (!encryptedReplyId || event.encrypted_reply_id === encryptedReplyId))
+      .sort(newestFirst)[0];
+
+    return latest ?? null;
+  }
+
+  async getVisibilityEvents(encryptedPostIds: string[]): Promise<VisibilityEvent[]> {
+    return (await this.db()).visibility_events
+      .filter(event => encryptedPostIds.includes(event.encrypted_post_id))
+      .sort(newestFirst);
+  }
+
+  async getContentVisibilityEvents(encryptedPostId: string, contentType: 'post' | 'reply'): Promise<VisibilityEvent[]> {
+    return (await this.db()).visibility_events
+      .filter(event => event.encrypted_post_id === encryptedPostId && event.content_type === contentType)
+      .sort(newestFirst);
+  }
+
+  subscribeToVisibilityEvents(callback: (event: VisibilityEvent) => void): Unsubscribe {
+    return this.subscribe(this.visibilityListeners, callback);
+  }
+
+  // Same dedupe rules as the Supabase unique indexes: one view per user and item, one log per transaction
+  async logAccess(
+    contentId: number | string,
+    contentType: AccessContentType,
+    userEncryptedId: string,
+    accessType: AccessType,
+    amountWei: bigint | number = 0,
+    details: AccessLogDetails = {}
+  ): Promise<AccessLog | null> {
+    const tables = await this.db();
+    const duplicate = tables.access_logs.some(log => accessType === 'view'
+      ? log.access_type === 'view'
+        && log.content_id === contentId.toString()
+        && log.content_type === contentType
+        && log.user_encrypted_id === userEncryptedId
+      : !!details.txHash && log.tx_hash === details.txHash && log.access_type === accessType
+    );
+
+    if (duplicate) {
+      return null;
+    }
+
+    const log: AccessLog = {
+      id: this.nextId(tables),
+      content_id: contentId.toString(),
+      content_type: contentType,
+      user_encrypted_id: userEncryptedId,
+      access_type: accessType,
+      amount_wei: Number(amountWei),
+      tx_hash: details.txHash ?? null,
+      creator_address: details.creatorAddress?.toLowerCase() ?? null,
+      raw_post_id: details.rawPostId ?? null,
+      created_at: now(),
+    };
+
+    tables.access_logs.push(log);
+    this.persist();
+    return log;
+  }
+
+  async getLatestPaidAccess(
+    contentId: string,
+    contentType: AccessContentType,
+    userEncryptedId: string
+  ): Promise<AccessLog | null> {
+    return (await this.db()).access_logs
+      .filter(log => log.content_id === contentId
+        && log.content_type === contentType
+        && log.user_encrypted_id === userEncryptedId
+        && (log.access_type === 'tip' || log.access_type === 'unlock'))
+      .sort(newestFirst)[0] ?? null;
+  }
+
+  async getCreatorEarningLogs(creatorAddress: string): Promise<AccessLog[]> {
+    return (await this.db()).access_logs
+      .filter(log => log.creator_address === creatorAddress.toLowerCase() && EARNING_ACCESS_TYPES.includes(log.access_type))
+      .sort(newestFirst);
+  }
+
+  async resolveCreatorAddress(
+    contentId: number | string,
+    contentType: AccessContentType,
+    rawPostId?: number
+  ): Promise<string | null> {
+    if (contentType === 'creator') {
+      return contentId.toString();
+    }
+
+    const tables = await this.db();
+    const authorId = contentType === 'post'
+      ? tables.encrypted_content.find(content => content.raw_post_id === Number(contentId))?.author_id
+      : tables.encrypted_replies.find(reply => reply.onchain_reply_id === Number(contentId)
+          && (rawPostId === undefined || reply.post_id === rawPostId))?.replier_id;
+
+    if (!authorId) {
+      return null;
+    }
+
+    if (/^0x[0-9a-fA-F]{40}$/.test(authorId)) {
+      return authorId.toLowerCase();
+    }
+
+    const session = tables.user_sessions.find(stored => stored.encrypted_address === authorId);
+    return session?.wallet_address.toLowerCase() ?? null;
+  }
+
+  async storeContentKey(keyId: string, keyMaterial: string, sealed: boolean = false): Promise<void> {
+    (await this.db()).content_keys.push({ key_id: keyId, key_material: keyMaterial, sealed, created_at: now() });
+    this.persist();
+  }
+
+  async getContentKey(keyId: string): Promise<ContentKeyRecord | null> {
+    return (await this.db()).content_keys.find(key => key.key_id === keyId) ?? null;
+  }
+
+  async recordSubscription(
+    creatorAddress: string,
+    subscriberAddress: string,
+    expiresAt: Date,
+    amountWei: bigint,
+    txHash: string
+  ): Promise<Subscription> {
+    const tables = await this.db();
+    const creator = creatorAddress.toLowerCase();
+    const subscriber = subscriberAddress.toLowerCase();
+    let subscription = tables.subscriptions.find(
+      stored => stored.creator_address === creator && stored.subscriber_address === subscriber
+    );
+
+    if (!subscription) {
+      subscription = {
+        id: this.nextId(tables),
+        creator_address: creator,
+        subscriber_address: subscriber,
+        expires_at: '',
+        amount_wei: '0',
+        tx_hash: '',
+        created_at: now(),
+        updated_at: now(),
+      };
+      tables.subscriptions.push(subscription);
+    }
+
+    Object.assign(subscription, {
+      expires_at: expiresAt.toISOString(),
+      amount_wei: amountWei.toString(),
+      tx_hash: txHash,
+      updated_at: now(),
+    });
+    this.persist();
+    return subscription;
+  }
+
+  async getActiveSubscriberCount(creatorAddress: string): Promise<number> {
+    return (await this.db()).subscriptions.filter(subscription =>
+      subscription.creator_address === creatorAddress.toLowerCase() && subscription.expires_at > now()
+    ).length;
+  }
+
+  async getMutedAuthors(ownerAddress: string): Promise<MutedAuthor[]> {
+    return (await this.db()).muted_authors
+      .filter(muted => muted.owner_address === ownerAddress.toLowerCase())
+      .sort(newestFirst);
+  }
+
+  // Local lists never leave this browser, so there is nothing to sign for
+  hasMuteListGrant(): boolean {
+    return true;
+  }
+
+  saveMuteListGrant(): void {}
+
+  async muteAuthor(ownerAddress: string, authorId: string, kind: MuteKind): Promise<MutedAuthor> {
+    const tables = await this.db();
+    const owner = ownerAddress.toLowerCase();
+    let muted = tables.muted_authors.find(stored => stored.owner_address === owner && stored.author_id === authorId);
+
+    if (muted) {
+      muted.kind = kind;
+    } else {
+      muted = { id: this.nextId(tables), owner_address: owner, author_id: authorId, kind, created_at: now() };
+      tables.muted_authors.push(muted);
+    }
+
+    this.persist();
+    return muted;
+  }
+
+  async unmuteAuthor(ownerAddress: string, authorId: string): Promise<void> {
+    const tables = await this.db();
+    tables.muted_authors = tables.muted_authors.filter(
+      muted => !(muted.owner_address === ownerAddress.toLowerCase() && muted.author_id === authorId)
+    );
+    this.persist();
+  }
+
+  // Nothing runs outside this browser, so the browser indexes for itself
+  async requestChainSync(): Promise<boolean> {
+    return false;
+  }
+
+  async getIndexerCheckpoint(indexerId: string): Promise<IndexerCheckpoint | null> {
+    return (await this.db()).indexer_checkpoints.find(checkpoint => checkpoint.id === indexerId) ?? null;
+  }
+
+  async saveIndexerCheckpoint(indexerId: string, blockNumber: bigint, blockHash: string): Promise<void> {
+    const tables = await this.db();
+    tables.indexer_checkpoints = tables.indexer_checkpoints.filter(checkpoint => checkpoint.id !== indexerId);
+    tables.indexer_checkpoints.push({
+      id: indexerId,
+      block_number: Number(blockNumber),
+      block_hash: blockHash,
+      updated_at: now(),
+    });
+    this.persist();
+  }
+
+  async upsertChainEvents(events: ChainEventInsert[]): Promise<void> {
+    const tables = await this.db();
+
+    events.forEach(event => {
+      const existing = tables.chain_events.find(stored =>
+        stored.chain_id === event.chain_id && stored.tx_hash === event.tx_hash && stored.log_index === event.log_index
+      );
+
+      if (existing) {
+        Object.assign(existing, event);
+      } else {
+        tables.chain_events.push({ ...event, id: this.nextId(tables), created_at: now() });
+      }
+    });
+    this.persist();
+  }
+
+  async deleteChainEventsFrom(chainId: number, contractAddress: string, fromBlock: bigint): Promise<void> {
+    const tables = await this.db();
+    tables.chain_events = tables.chain_events.filter(event => !(
+      event.chain_id === chainId
+      && event.contract_address === contractAddress.toLowerCase()
+      && event.block_number >= Number(fromBlock)
+    ));
+    this.persist();
+  }
+
+  async getUnattributedChainEvents(chainId: number, limit: number = 100): Promise<ChainEvent[]> {
+    const attributable = ['TipAddedToPost', 'TipAddedToReply', 'ContentUnlocked', 'ReplyUnlocked', 'TipStranded', 'StrandedTipRefunded'];
+
+    return (await this.db()).chain_events
+      .filter(event => event.chain_id === chainId && !event.creator_address && attributable.includes(event.event_name))
+      .slice(0, limit);
+  }
+
+  async setChainEventCreator(eventId: number, creatorAddress: string): Promise<void> {
+    const event = (await this.db()).chain_events.find(stored => stored.id === eventId);
+    if (event) {
+      event.creator_address = creatorAddress.toLowerCase();
+      this.persist();
+    }
+  }
+
+  async getCreatorChainEvents(chainId: number, creatorAddress: string): Promise<ChainEvent[]> {
+    return (await this.db()).chain_events
+      .filter(event => event.chain_id === chainId && event.creator_address === creatorAddress.toLowerCase())
+      .sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+  }
+
+  async getUserProfile(walletAddress: string): Promise<UserProfile | null> {
+    return (await this.db()).user_profiles
+      .find(profile => profile.wallet_address === walletAddress.toLowerCase()) ?? null;
+  }
+
+  async createUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile> {
+    const tables = await this.db();
+    if (profile.username && !(await this.isUsernameAvailable(profile.username, walletAddress))) {
+      throw new Error('Username is already taken');
+    }
+
+    const created: UserProfile = {
+      id: this.nextId(tables).toString(),
+      wallet_address: walletAddress.toLowerCase(),
+      username: profile.username || null,
+      display_name: profile.display_name || null,
+      bio: profile.bio || null,
+      avatar_url: profile.avatar_url || null,
+      is_username_public: profile.is_username_public || false,
+      is_profile_public: profile.is_profile_public || false,
+      created_at: now(),
+      updated_at: now(),
+    };
+
+    tables.user_profiles.push(created);
+    this.persist();
+    return created;
+  }
+
+  async updateUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile> {
+    const existing = await this.getUserProfile(walletAddress);
+    if (!existing) {
+      throw new Error('Profile not found');
+    }
+    if (profile.username && !(await this.isUsernameAvailable(profile.username, walletAddress))) {
+      throw new Error('Username is already taken');
+    }
+
+    Object.assign(existing, profile, { updated_at: now() });
+    this.persist();
+    return existing;
+  }
+
+  async isUsernameAvailable(username: string, excludeWallet?: string): Promise<boolean> {
+    return !(await this.db()).user_profiles.some(profile =>
+      profile.username?.toLowerCase() === username.toLowerCase()
+      && profile.wallet_address !== excludeWallet?.toLowerCase()
+    );
+  }
+
+  async createUserSession(walletAddress: string, encryptedAddress: string, sessionToken: string): Promise<UserSession> {
+    const tables = await this.db();
+    let session = tables.user_sessions.find(stored => stored.wallet_address === walletAddress);
+
+    if (!session) {
+      session = {
+        id: this.nextId(tables).toString(),
+        wallet_address: walletAddress,
+        encrypted_address: encryptedAddress,
+        session_token: sessionToken,
+        created_at: now(),
+        last_active: now(),
+      };
+      tables.user_sessions.push(session);
+    }
+
+    Object.assign(session, { encrypted_address: encryptedAddress, session_token: sessionToken, last_active: now() });
+    this.persist();
+    return session;
+  }
+
+  async getUserSession(walletAddress: string): Promise<UserSession | null> {
+    return (await this.db()).user_sessions.find(session => session.wallet_address === walletAddress) ?? null;
+  }
+
+  async getEncryptedAddresses(walletAddresses: string[]): Promise<Map<string, string>> {
+    const wanted = new Set(walletAddresses.map(address => address.toLowerCase()));
+    return new Map((await this.db()).user_sessions
+      .filter(session => wanted.has(session.wallet_address.toLowerCase()))
+      .map(session => [session.wallet_address.toLowerCase(), session.encrypted_address]));
+  }
+
+  async updateUserSessionActivity(walletAddress: string): Promise<void> {
+    const session = await this.getUserSession(walletAddress);
+    if (session) {
+      session.last_active = now();
+      this.persist();
+    }
+  }
+}
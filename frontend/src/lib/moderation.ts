@@ -0,0 +1,125 @@
+import type { WalletClient } from 'viem';
+import { getSupabaseClient } from './supabase';
+import { logger } from './logger';
+
+export const MODERATION_FUNCTION = 'moderate-content';
+
+export type ModerationAction = 'report' | 'queue' | 'hide' | 'restore';
+
+export type ReportReason = 'harassment' | 'hate' | 'self_harm' | 'personal_info' | 'spam' | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'harassment', label: 'Harassment', description: 'Targets or bullies someone' },
+  { value: 'hate', label: 'Hate speech', description: 'Attacks people for who they are' },
+  { value: 'self_harm', label: 'Encourages self-harm', description: 'Promotes or instructs self-harm or suicide' },
+  { value: 'personal_info', label: 'Personal information', description: 'Shares someone\'s identity or private details' },
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or repeated content' },
+  { value: 'other', label: 'Something else', description: 'Tell the moderators what is wrong' },
+];
+
+// content_id follows access_logs: the raw post id for posts, the Supabase row id for replies.
+// The edge function looks up the post a reply belongs to, so the signature covers the whole target.
+export interface ModerationTarget {
+  contentType: 'post' | 'reply';
+  contentId: string;
+}
+
+export interface ModerationQueueItem {
+  content_type: 'post' | 'reply';
+  content_id: string;
+  raw_post_id: number;
+  reporter_count: number;
+  reasons: ReportReason[];
+  details: string[];
+  last_reported_at: string;
+  hidden_at: string | null;
+  hidden_by: string | null; // 'reports' when hidden automatically
+  reviewed_at: string | null;
+  encrypted_content: string;
+}
+
+export function buildModerationMessage(
+  action: ModerationAction,
+  issuedAt: string,
+  target?: ModerationTarget,
+  reason?: string
+): string {
+  return [
+    'Ventbuddy moderation',
+    `Action: ${action}`,
+    ...(target ? [`Target: ${target.contentType} ${target.contentId}`] : []),
+    ...(reason ? [`Reason: ${reason}`] : []),
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+export class ModerationService {
+  private readonly moderators = new Set(
+    (import.meta.env.VITE_MODERATOR_ADDRESSES || '')
+      .split(',')
+      .map((address: string) => address.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+  // Only decides whether to show moderator UI; the edge function enforces its own allowlist
+  isModerator(address?: string): boolean {
+    return !!address && this.moderators.has(address.toLowerCase());
+  }
+
+  /**
+   * Files a report signed by the reporter's wallet. Resolves false when this wallet
+   * already reported the item, so repeat reports never count twice.
+   */
+  async report(target: ModerationTarget, reason: ReportReason, details: string, walletClient: WalletClient): Promise<boolean> {
+    const data = await this.invoke('report', walletClient, { target, reason, details: details.trim() || undefined });
+    return !!data.reported;
+  }
+
+  async getQueue(walletClient: WalletClient): Promise<ModerationQueueItem[]> {
+    const data = await this.invoke('queue', walletClient);
+    return data.items || [];
+  }
+
+  async hide(target: ModerationTarget, walletClient: WalletClient): Promise<void> {
+    await this.invoke('hide', walletClient, { target });
+  }
+
+  async restore(target: ModerationTarget, walletClient: WalletClient): Promise<void> {
+    await this.invoke('restore', walletClient, { target });
+  }
+
+  private async invoke(
+    action: ModerationAction,
+    walletClient: WalletClient,
+    params: { target?: ModerationTarget; reason?: ReportReason; details?: string } = {}
+  ) {
+    if (!walletClient?.account) {
+      throw new Error('Wallet not connected');
+    }
+
+    const issuedAt = new Date().toISOString();
+    const signature = await walletClient.signMessage({
+      account: walletClient.account,
+      message: buildModerationMessage(action, issuedAt, params.target, params.reason),
+    });
+
+    const { data, error } = await getSupabaseClient().functions.invoke(MODERATION_FUNCTION, {
+      body: {
+        action,
+        ...params,
+        address: walletClient.account.address,
+        issuedAt,
+        signature,
+      },
+    });
+
+    if (error) {
+      logger.warn('Moderation request refused', { action, target: params.target, error: error.message }, 'ModerationService');
+      throw new Error(`Moderation request failed: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+export const moderationService = new ModerationService();
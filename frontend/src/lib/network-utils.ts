@@ -1,29 +1,23 @@
-export const SEPOLIA_CHAIN_ID = 11155111;
-export const SEPOLIA_CHAIN_ID_HEX = '0xaa36a7';
-
-export const SEPOLIA_NETWORK_CONFIG = {
-  chainId: SEPOLIA_CHAIN_ID_HEX,
-  chainName: 'Sepolia Testnet',
-  nativeCurrency: {
-    name: 'Sepolia Ether',
-    symbol: 'ETH',
-    decimals: 18,
-  },
-  rpcUrls: [
-    'https://sepolia.infura.io/v3/8800e5d43f644529846d90ee5c29adcf',
-    'https://rpc.sepolia.org',
-    'https://sepolia.gateway.tenderly.co',
-  ],
-  blockExplorerUrls: ['https://sepolia.etherscan.io'],
+import { toHex } from 'viem';
+import { activeDeployment, getDeployment } from './deployments';
+
+export const ACTIVE_CHAIN_ID_HEX = toHex(activeDeployment.chain.id);
+
+export const ACTIVE_NETWORK_CONFIG = {
+  chainId: ACTIVE_CHAIN_ID_HEX,
+  chainName: activeDeployment.name,
+  nativeCurrency: activeDeployment.chain.nativeCurrency,
+  rpcUrls: [activeDeployment.rpcUrl],
+  blockExplorerUrls: activeDeployment.blockExplorerUrl ? [activeDeployment.blockExplorerUrl] : undefined,
 };
 
 
-export async function isSepoliaNetwork(): Promise<boolean> {
+export async function isActiveNetwork(): Promise<boolean> {
   if (!window.ethereum) return false;
   
   try {
     const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-    return chainId === SEPOLIA_CHAIN_ID_HEX;
+    return parseInt(chainId, 16) === activeDeployment.chain.id;
   } catch (error) {
     console.error('Error checking network:', error);
     return false;
@@ -31,7 +25,7 @@ export async function isSepoliaNetwork(): Promise<boolean> {
 }
 
 
-export async function switchToSepolia(): Promise<boolean> {
+export async function switchToActiveNetwork(): Promise<boolean> {
   if (!window.ethereum) {
     throw new Error('No wallet detected');
   }
@@ -40,10 +34,10 @@ export async function switchToSepolia(): Promise<boolean> {
     
     await window.ethereum.request({
       method: 'wallet_switchEthereumChain',
-      params: [{ chainId: SEPOLIA_CHAIN_ID_HEX }],
+      params: [{ chainId: ACTIVE_CHAIN_ID_HEX }],
     });
     
-    console.log('✅ Successfully switched to Sepolia network');
+    console.log(`✅ Successfully switched to ${activeDeployment.name}`);
     return true;
   } catch (switchError: any) {
     
@@ -51,27 +45,30 @@ export async function switchToSepolia(): Promise<boolean> {
       try {
         await window.ethereum.request({
           method: 'wallet_addEthereumChain',
-          params: [SEPOLIA_NETWORK_CONFIG],
+          params: [ACTIVE_NETWORK_CONFIG],
         });
         
-        console.log('✅ Successfully added and switched to Sepolia network');
+        console.log(`✅ Successfully added and switched to ${activeDeployment.name}`);
         return true;
       } catch (addError) {
-        console.error('❌ Failed to add Sepolia network:', addError);
-        throw new Error('Failed to add Sepolia network to wallet');
+        console.error(`❌ Failed to add ${activeDeployment.name}:`, addError);
+        throw new Error(`Failed to add ${activeDeployment.name} to wallet`);
       }
     } else {
-      console.error('❌ Failed to switch to Sepolia network:', switchError);
-      throw new Error('Failed to switch to Sepolia network');
+      console.error(`❌ Failed to switch to ${activeDeployment.name}:`, switchError);
+      throw new Error(`Failed to switch to ${activeDeployment.name}`);
     }
   }
 }
 
 
+// isActiveNetwork: the wallet is on the chain the app was loaded for.
+// isSupported: the wallet is on some chain with a Ventbuddy deployment.
 export async function getCurrentNetwork(): Promise<{
   chainId: string;
   chainName: string;
-  isSepolia: boolean;
+  isActiveNetwork: boolean;
+  isSupported: boolean;
 }> {
   if (!window.ethereum) {
     throw new Error('No wallet detected');
@@ -79,23 +76,20 @@ export async function getCurrentNetwork(): Promise<{
 
   try {
     const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-    const isSepolia = chainId === SEPOLIA_CHAIN_ID_HEX;
+    const deployment = getDeployment(parseInt(chainId, 16));
     
-    let chainName = 'Unknown Network';
-    if (chainId === '0x1') {
+    let chainName = deployment?.name ?? 'Unknown Network';
+    if (!deployment && chainId === '0x1') {
       chainName = 'Ethereum Mainnet';
-    } else if (chainId === SEPOLIA_CHAIN_ID_HEX) {
-      chainName = 'Sepolia Testnet';
-    } else if (chainId === '0x89') {
+    } else if (!deployment && chainId === '0x89') {
       chainName = 'Polygon Mainnet';
-    } else if (chainId === '0x13881') {
-      chainName = 'Polygon Mumbai';
     }
 
     return {
       chainId,
       chainName,
-      isSepolia,
+      isActiveNetwork: deployment?.chain.id === activeDeployment.chain.id,
+      isSupported: !!deployment,
     };
   } catch (error) {
     console.error('Error getting network info:', error);
@@ -125,24 +119,24 @@ export function onNetworkChange(callback: (chainId: string) => void): () => void
 }
 
 
-export async function ensureSepoliaNetwork(): Promise<boolean> {
+export async function ensureActiveNetwork(): Promise<boolean> {
   try {
-    const isSepolia = await isSepoliaNetwork();
+    const isOnActiveNetwork = await isActiveNetwork();
     
-    if (!isSepolia) {
-      console.log('🔄 Switching to Sepolia network...');
-      await switchToSepolia();
+    if (!isOnActiveNetwork) {
+      console.log(`🔄 Switching to ${activeDeployment.name}...`);
+      await switchToActiveNetwork();
       
       
-      const newIsSepolia = await isSepoliaNetwork();
-      if (!newIsSepolia) {
-        throw new Error('Failed to verify network switch to Sepolia');
+      const nowOnActiveNetwork = await isActiveNetwork();
+      if (!nowOnActiveNetwork) {
+        throw new Error(`Failed to verify network switch to ${activeDeployment.name}`);
       }
     }
     
     return true;
   } catch (error) {
-    console.error('❌ Failed to ensure Sepolia network:', error);
+    console.error(`❌ Failed to ensure ${activeDeployment.name}:`, error);
     throw error;
   }
 }
@@ -0,0 +1,120 @@
+export type RankingMode = 'hot' | 'new' | 'top' | 'controversial';
+export type TopWindow = 'day' | 'week' | 'all';
+
+export interface RankingOptions {
+  mode: RankingMode;
+  window: TopWindow;
+}
+
+export interface RankableStats {
+  replyCount: number;
+  upvoteCount: number;
+  downvoteCount: number;
+  createdAt: string;
+}
+
+export const DEFAULT_RANKING: RankingOptions = { mode: 'hot', window: 'week' };
+
+export const RANKING_MODES: { value: RankingMode; label: string }[] = [
+  { value: 'hot', label: 'Hot' },
+  { value: 'new', label: 'New' },
+  { value: 'top', label: 'Top' },
+  { value: 'controversial', label: 'Controversial' },
+];
+
+export const TOP_WINDOWS: { value: TopWindow; label: string }[] = [
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'all', label: 'All time' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_MS: Record<Exclude<TopWindow, 'all'>, number> = {
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+};
+
+// Hot ranking decays like (age + 2h)^1.5, so a post needs steady engagement to stay on top
+const HOT_GRAVITY = 1.5;
+
+// These formulas are mirrored by the get_ranked_content RPC; keep both in sync.
+export function engagementScore({ replyCount, upvoteCount, downvoteCount }: RankableStats): number {
+  return (replyCount * 10) + (upvoteCount * 3) - downvoteCount;
+}
+
+export function hotScore(stats: RankableStats, now: number = Date.now()): number {
+  const ageHours = Math.max(0, now - new Date(stats.createdAt).getTime()) / HOUR_MS;
+  return engagementScore(stats) / Math.pow(ageHours + 2, HOT_GRAVITY);
+}
+
+// Many votes split close to evenly score highest; one-sided posts score zero
+export function controversialScore({ upvoteCount, downvoteCount }: RankableStats): number {
+  if (upvoteCount === 0 || downvoteCount === 0) {
+    return 0;
+  }
+
+  const balance = Math.min(upvoteCount, downvoteCount) / Math.max(upvoteCount, downvoteCount);
+  return Math.pow(upvoteCount + downvoteCount, balance);
+}
+
+export function rankingScore(stats: RankableStats, mode: RankingMode, now: number = Date.now()): number {
+  switch (mode) {
+    case 'hot':
+      return hotScore(stats, now);
+    case 'top':
+      return engagementScore(stats);
+    case 'controversial':
+      return controversialScore(stats);
+    case 'new':
+    default:
+      return new Date(stats.createdAt).getTime();
+  }
+}
+
+export function isWithinWindow(createdAt: string, window: TopWindow, now: number = Date.now()): boolean {
+  if (window === 'all') {
+    return true;
+  }
+
+  return now - new Date(createdAt).getTime() <= WINDOW_MS[window];
+}
+
+/**
+ * Client-side ranking used when the get_ranked_content RPC is not deployed.
+ * Top is restricted to its window; the other modes rank every post.
+ */
+export function rankPosts<T extends RankableStats>(posts: T[], options: RankingOptions, now: number = Date.now()): T[] {
+  const candidates = options.mode === 'top'
+    ? posts.filter(post => isWithinWindow(post.createdAt, options.window, now))
+    : posts;
+
+  return [...candidates].sort((a, b) => {
+    const diff = rankingScore(b, options.mode, now) - rankingScore(a, options.mode, now);
+    if (diff !== 0) {
+      return diff;
+    }
+
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+}
+
+export function loadRankingPreference(userAddress?: string): RankingOptions {
+  try {
+    const stored = localStorage.getItem(`feed_ranking_${userAddress || 'anonymous'}`);
+    if (!stored) {
+      return DEFAULT_RANKING;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<RankingOptions>;
+    return {
+      mode: RANKING_MODES.some(m => m.value === parsed.mode) ? parsed.mode! : DEFAULT_RANKING.mode,
+      window: TOP_WINDOWS.some(w => w.value === parsed.window) ? parsed.window! : DEFAULT_RANKING.window,
+    };
+  } catch {
+    return DEFAULT_RANKING;
+  }
+}
+
+export function saveRankingPreference(options: RankingOptions, userAddress?: string): void {
+  localStorage.setItem(`feed_ranking_${userAddress || 'anonymous'}`, JSON.stringify(options));
+}
@@ -0,0 +1,85 @@
+// Replies nested deeper than this render behind a "continue this thread" link
+export const MAX_REPLY_DEPTH = 3;
+
+export interface ThreadableReply {
+  id: string;
+  parent_reply_id?: string | null;
+  created_at: string;
+}
+
+export type ReplyNode<T extends ThreadableReply> = T & {
+  children: ReplyNode<T>[];
+  depth: number;
+  descendantCount: number;
+  hasHiddenReplies: boolean;
+};
+
+export interface ReplyTreeOptions {
+  rootId?: string | null;
+  maxDepth?: number;
+}
+
+/**
+ * Builds a reply tree from a flat list. Replies whose parent is missing (deleted or
+ * never stored) are treated as top-level. With `rootId` the tree starts at that reply,
+ * which is how a thread cut off at `maxDepth` is continued. `descendantCount` always
+ * counts the full subtree, including replies hidden past `maxDepth`.
+ */
+export function buildReplyTree<T extends ThreadableReply>(
+  replies: T[],
+  { rootId = null, maxDepth = MAX_REPLY_DEPTH }: ReplyTreeOptions = {}
+): ReplyNode<T>[] {
+  const byId = new Map(replies.map(reply => [reply.id, reply]));
+  const childrenOf = new Map<string | null, T[]>();
+
+  for (const reply of replies) {
+    const parentId = reply.parent_reply_id && byId.has(reply.parent_reply_id) && reply.parent_reply_id !== reply.id
+      ? reply.parent_reply_id
+      : null;
+
+    const siblings = childrenOf.get(parentId) ?? [];
+    siblings.push(reply);
+    childrenOf.set(parentId, siblings);
+  }
+
+  for (const siblings of childrenOf.values()) {
+    siblings.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+
+  const countCache = new Map<string, number>();
+  const countDescendants = (id: string, visiting: Set<string>): number => {
+    const cached = countCache.get(id);
+    if (cached !== undefined) return cached;
+
+    visiting.add(id);
+    const count = (childrenOf.get(id) ?? [])
+      .filter(child => !visiting.has(child.id))
+      .reduce((total, child) => total + 1 + countDescendants(child.id, visiting), 0);
+    visiting.delete(id);
+
+    countCache.set(id, count);
+    return count;
+  };
+
+  // `path` guards against parent cycles in malformed data
+  const toNode = (reply: T, depth: number, path: Set<string>): ReplyNode<T> => {
+    const children = (childrenOf.get(reply.id) ?? []).filter(child => !path.has(child.id));
+    const showChildren = depth < maxDepth;
+    const nextPath = new Set(path).add(reply.id);
+
+    return {
+      ...reply,
+      depth,
+      descendantCount: countDescendants(reply.id, new Set()),
+      hasHiddenReplies: !showChildren && children.length > 0,
+      children: showChildren ? children.map(child => toNode(child, depth + 1, nextPath)) : [],
+    };
+  };
+
+  if (rootId !== null) {
+    const root = byId.get(rootId);
+    return root ? [toNode(root, 0, new Set())] : [];
+  }
+
+  return (childrenOf.get(null) ?? []).map(reply => toNode(reply, 0, new Set()));
+}
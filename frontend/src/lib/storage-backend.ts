@@ -0,0 +1,442 @@
+import type { RankingMode, TopWindow } from './ranking';
+
+export interface EncryptedContent {
+  id: number;
+  content_hash: string;
+  preview_hash: string;
+  encrypted_content: string;
+  encrypted_preview: string;
+  author_id: string;
+  min_tip_amount?: number;
+  raw_post_id: number;
+  encrypted_post_id?: string;
+  revision_count?: number; // edits after the original; 0 for a post that was never edited
+  deleted_at?: string | null;
+  hidden_at?: string | null; // set after enough reports or by a moderator
+  content_warnings?: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Every version of an edited post, including the original as revision 0. Revision n
+// matches Ventbuddy.getPostRevision(raw_post_id, n).
+export interface PostRevision {
+  id: number;
+  raw_post_id: number;
+  revision: number;
+  content_hash: string;
+  preview_hash: string;
+  encrypted_content: string;
+  encrypted_preview: string;
+  tx_hash: string | null; // null for the original, which was anchored by createPost
+  created_at: string;
+}
+
+export interface PostEdit {
+  revision: number;
+  contentHash: string;
+  previewHash: string;
+  encryptedContent: string;
+  encryptedPreview: string;
+  txHash: string;
+}
+
+// Content is re-encrypted only when the post moves between public and tippable keys
+export interface VisibilityUpdate {
+  minTipAmount: number;
+  encryptedContent?: string;
+  encryptedPreview?: string;
+}
+
+export interface EncryptedReply {
+  id: number;
+  post_id: number;
+  reply_id: number;
+  content_hash: string;
+  preview_hash: string;
+  encrypted_content: string;
+  encrypted_preview: string;
+  replier_id: string;
+  parent_reply_id: number | null;
+  onchain_reply_id: number | null; // set once the reply is registered via Ventbuddy.replyToPost
+  anchor_tx_hash: string | null;
+  min_tip_amount: string | null; // wei as a decimal string so no digits are lost; only set on paywalled replies
+  hidden_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContentCursor {
+  createdAt: string;
+  id: number;
+}
+
+export interface ContentPage {
+  items: EncryptedContent[];
+  nextCursor: ContentCursor | null;
+}
+
+export interface ContentPageFilter {
+  rawPostIds?: number[];
+}
+
+export interface PostTag {
+  raw_post_id: number;
+  tag: string;
+  created_at: string;
+}
+
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
+export interface ContentKeyRecord {
+  key_id: string;
+  key_material: string;
+  sealed: boolean;
+  created_at: string;
+}
+
+export interface UserSession {
+  id: string;
+  wallet_address: string;
+  encrypted_address: string;
+  session_token: string;
+  created_at: string;
+  last_active: string;
+}
+
+export type AccessType = 'view' | 'tip' | 'unlock' | 'subscribe';
+export type AccessContentType = 'post' | 'reply' | 'creator';
+
+// Paid access types that count towards a creator's earnings
+export const EARNING_ACCESS_TYPES: AccessType[] = ['tip', 'unlock', 'subscribe'];
+
+export interface AccessLog {
+  id: number;
+  content_id: string;
+  content_type: AccessContentType;
+  user_encrypted_id: string;
+  access_type: AccessType;
+  amount_wei: number;
+  tx_hash: string | null;
+  creator_address: string | null;
+  raw_post_id: number | null;
+  created_at: string;
+}
+
+export interface AccessLogDetails {
+  txHash?: string;
+  creatorAddress?: string;
+  rawPostId?: number;
+}
+
+export interface Subscription {
+  id: number;
+  creator_address: string;
+  subscriber_address: string;
+  expires_at: string;
+  amount_wei: string;
+  tx_hash: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// mute collapses the author's replies behind a click; block removes them outright.
+// Both leave the author's posts out of the feed.
+export type MuteKind = 'mute' | 'block';
+
+export const MUTED_AUTHORS_EVENT = 'mutedAuthorsChanged';
+
+export interface MutedAuthor {
+  id: number;
+  owner_address: string;
+  author_id: string;
+  kind: MuteKind;
+  created_at: string;
+}
+
+export type MuteAction = 'list' | 'mute' | 'unmute';
+
+// A mute list request signed by the owner's wallet. The last mute, unmute or list request
+// a wallet signed also lets it read its own list for a while without signing again.
+export interface SignedMuteRequest {
+  action: MuteAction;
+  authorId?: string;
+  kind?: MuteKind;
+  issuedAt: string;
+  signature: string;
+}
+
+// Must match buildMutedAuthorsMessage in supabase/functions/manage-muted-authors/index.ts
+export function buildMutedAuthorsMessage(action: MuteAction, issuedAt: string, authorId?: string, kind?: MuteKind): string {
+  return [
+    'Ventbuddy muted authors',
+    `Action: ${action}`,
+    ...(authorId ? [`Author: ${authorId}`] : []),
+    ...(kind ? [`Kind: ${kind}`] : []),
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+export type ChainEventName =
+  | 'TipAddedToPost'
+  | 'TipAddedToReply'
+  | 'ContentUnlocked'
+  | 'ReplyUnlocked'
+  | 'Subscribed'
+  | 'Claim'
+  | 'TipStranded'
+  | 'StrandedTipsClaimed'
+  | 'StrandedTipRefunded';
+
+// One decoded contract log, keyed by (chain_id, tx_hash, log_index)
+export interface ChainEvent {
+  id: number;
+  chain_id: number;
+  contract_address: string;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  event_name: ChainEventName;
+  post_id: number | null;
+  reply_id: number | null;
+  creator_address: string | null;
+  amount_wei: string;
+  fee_wei: string;
+  block_time: string;
+  created_at: string;
+}
+
+export type ChainEventInsert = Omit<ChainEvent, 'id' | 'created_at'>;
+
+export interface IndexerCheckpoint {
+  id: string;
+  block_number: number;
+  block_hash: string;
+  updated_at: string;
+}
+
+export interface PostStats {
+  raw_post_id: number;
+  upvote_count: number;
+  downvote_count: number;
+  reply_count: number;
+  last_updated: string;
+}
+
+export type PostStatsUpdate = Pick<PostStats, 'raw_post_id'> & Partial<Omit<PostStats, 'raw_post_id'>>;
+
+export interface ReplyStats {
+  post_id: number;
+  reply_id: number;
+  upvote_count: number;
+  downvote_count: number;
+  last_updated: string;
+}
+
+export type EngagementType = 'upvote' | 'downvote';
+
+export interface PostEngagement {
+  id: number;
+  raw_post_id: number;
+  user_encrypted_id: string;
+  engagement_type: EngagementType;
+  created_at: string;
+}
+
+export type VisibilityEventType = 'created' | 'updated' | 'unlocked' | 'revealed';
+
+// Post and reply ids are stored as 32-byte hex, whether they came in encrypted or raw
+export interface VisibilityEvent {
+  id: number;
+  encrypted_post_id: string;
+  encrypted_reply_id: string | null;
+  post_id?: number | null; // raw ids, only on rows written before ids were stored as hex
+  reply_id?: number | null;
+  content_type: 'post' | 'reply';
+  visibility_type: number;
+  event_type: VisibilityEventType;
+  user_address: string | null;
+  encrypted_visibility: string | null;
+  content_hash: string;
+  preview_hash: string;
+  supabase_id: string;
+  created_at: string;
+}
+
+export type VisibilityEventInsert = Omit<VisibilityEvent, 'id' | 'created_at'>;
+
+export type LatestVisibility = Pick<VisibilityEvent, 'visibility_type' | 'event_type' | 'created_at'>;
+
+export interface UserProfile {
+  id: string;
+  wallet_address: string;
+  username: string | null;
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  is_username_public: boolean;
+  is_profile_public: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateProfileData {
+  username?: string;
+  display_name?: string;
+  bio?: string;
+  avatar_url?: string;
+  is_username_public?: boolean;
+  is_profile_public?: boolean;
+}
+
+export type Unsubscribe = () => void;
+
+/**
+ * Everything the app persists off-chain. Components and hooks go through this
+ * interface (via `contentStorage` in ./storage) and never query a backend directly,
+ * so the feed can run against Supabase or the in-browser MemoryStorage.
+ *
+ * Lookups that miss resolve to null; failed writes and reads throw.
+ */
+export interface StorageBackend {
+  // Posts
+  storeEncryptedContent(
+    contentHash: string,
+    previewHash: string,
+    encryptedContent: string,
+    encryptedPreview: string,
+    authorId: string,
+    minTipAmount?: number,
+    rawPostId?: number,
+    encryptedPostId?: string
+  ): Promise<EncryptedContent>;
+  getEncryptedContent(supabaseId: number): Promise<EncryptedContent | null>;
+  getEncryptedContentByRawPostId(rawPostId: number): Promise<EncryptedContent | null>;
+  getEncryptedContentByHash(contentHash: string): Promise<EncryptedContent | null>;
+  getRecentContent(limit?: number): Promise<EncryptedContent[]>;
+  getContentPage(limit?: number, cursor?: ContentCursor | null, filter?: ContentPageFilter): Promise<ContentPage>;
+  getRankedContentPage(mode: RankingMode, window: TopWindow, limit?: number, offset?: number): Promise<EncryptedContent[]>;
+  countContentByAuthor(authorId: string): Promise<number>;
+  editPost(rawPostId: number, edit: PostEdit): Promise<EncryptedContent>;
+  getPostRevisions(rawPostId: number): Promise<PostRevision[]>;
+  updatePostVisibility(rawPostId: number, update: VisibilityUpdate): Promise<EncryptedContent>;
+  softDeletePost(rawPostId: number): Promise<void>;
+  setContentWarnings(rawPostId: number, warnings: string[]): Promise<void>;
+  subscribeToNewContent(callback: (content: EncryptedContent) => void): Unsubscribe;
+
+  // Tags
+  storePostTags(rawPostId: number, tags: string[]): Promise<PostTag[]>;
+  getRawPostIdsForTag(tag: string, limit?: number): Promise<number[]>;
+  getTrendingTags(windowHours?: number, limit?: number): Promise<TrendingTag[]>;
+
+  // Replies
+  storeEncryptedReply(
+    postId: number,
+    replyId: number,
+    contentHash: string,
+    previewHash: string,
+    encryptedContent: string,
+    encryptedPreview: string,
+    replierId: string,
+    parentReplyId?: number,
+    minTipAmountWei?: bigint
+  ): Promise<EncryptedReply>;
+  getPostReplies(postId: number): Promise<EncryptedReply[]>;
+  getEncryptedReply(postId: number, replyId: number): Promise<EncryptedReply | null>;
+  getEncryptedReplyById(supabaseId: number): Promise<EncryptedReply | null>;
+  anchorReply(supabaseId: number, onchainReplyId: number, txHash: string): Promise<EncryptedReply>;
+  deleteEncryptedReply(postId: number, replyId: number): Promise<void>;
+  createReplyStats(postId: number, replyId: number): Promise<void>;
+  getReplyStats(postId: number, replyId: number): Promise<ReplyStats | null>;
+  getPostReplyStats(postId: number): Promise<ReplyStats[]>;
+
+  // Engagement
+  getPostStats(rawPostId: number): Promise<PostStats | null>;
+  getPostStatsBatch(rawPostIds: number[]): Promise<PostStats[]>;
+  upsertPostStats(stats: PostStatsUpdate): Promise<void>;
+  hasPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<boolean>;
+  addPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void>;
+  removePostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void>;
+  countPostEngagement(rawPostId: number, type: EngagementType): Promise<number>;
+  getUserEngagement(userEncryptedId: string): Promise<PostEngagement[]>;
+  getEngagedRawPostIds(): Promise<number[]>;
+  subscribeToPostStats(rawPostIds: number[], callback: (stats: PostStats) => void): Unsubscribe;
+
+  // Visibility events
+  logVisibilityEvent(event: VisibilityEventInsert): Promise<void>;
+  // Raw numeric ids are matched against their padded hex form
+  getLatestVisibility(postId: number | string, replyId?: number | string): Promise<LatestVisibility | null>;
+  getVisibilityEvents(encryptedPostIds: string[]): Promise<VisibilityEvent[]>;
+  getContentVisibilityEvents(encryptedPostId: string, contentType: 'post' | 'reply'): Promise<VisibilityEvent[]>;
+  subscribeToVisibilityEvents(callback: (event: VisibilityEvent) => void): Unsubscribe;
+
+  // Access logs
+  logAccess(
+    contentId: number | string,
+    contentType: AccessContentType,
+    userEncryptedId: string,
+    accessType: AccessType,
+    amountWei?: bigint | number,
+    details?: AccessLogDetails
+  ): Promise<AccessLog | null>;
+  getLatestPaidAccess(contentId: string, contentType: AccessContentType, userEncryptedId: string): Promise<AccessLog | null>;
+  getCreatorEarningLogs(creatorAddress: string): Promise<AccessLog[]>;
+  resolveCreatorAddress(contentId: number | string, contentType: AccessContentType, rawPostId?: number): Promise<string | null>;
+
+  // Content keys
+  storeContentKey(keyId: string, keyMaterial: string, sealed?: boolean): Promise<void>;
+  getContentKey(keyId: string): Promise<ContentKeyRecord | null>;
+
+  // Creator subscriptions. The mirror backs subscriber counts only; access is checked
+  // against the contract. It is written by whichever indexer fills chain_events.
+  recordSubscription(
+    creatorAddress: string,
+    subscriberAddress: string,
+    expiresAt: Date,
+    amountWei: bigint,
+    txHash: string
+  ): Promise<Subscription>;
+  getActiveSubscriberCount(creatorAddress: string): Promise<number>;
+
+  // Mute and block lists. Reads never prompt the wallet: without a stored read grant
+  // the list comes back empty until the owner signs a mute, unmute or list request.
+  getMutedAuthors(ownerAddress: string): Promise<MutedAuthor[]>;
+  hasMuteListGrant(ownerAddress: string): boolean;
+  saveMuteListGrant(ownerAddress: string, grant: SignedMuteRequest): void;
+  muteAuthor(ownerAddress: string, authorId: string, kind: MuteKind, signed: SignedMuteRequest): Promise<MutedAuthor>;
+  unmuteAuthor(ownerAddress: string, authorId: string, signed: SignedMuteRequest): Promise<void>;
+
+  // Chain indexer. requestChainSync asks the backend's own indexer to catch up and
+  // returns false when it has none, in which case the browser indexes into the
+  // write methods below; backends that index server-side reject those writes.
+  requestChainSync(chainId: number): Promise<boolean>;
+  getIndexerCheckpoint(indexerId: string): Promise<IndexerCheckpoint | null>;
+  saveIndexerCheckpoint(indexerId: string, blockNumber: bigint, blockHash: string): Promise<void>;
+  upsertChainEvents(events: ChainEventInsert[]): Promise<void>;
+  deleteChainEventsFrom(chainId: number, contractAddress: string, fromBlock: bigint): Promise<void>;
+  getUnattributedChainEvents(chainId: number, limit?: number): Promise<ChainEvent[]>;
+  setChainEventCreator(eventId: number, creatorAddress: string): Promise<void>;
+  getCreatorChainEvents(chainId: number, creatorAddress: string): Promise<ChainEvent[]>;
+
+  // Profiles
+  getUserProfile(walletAddress: string): Promise<UserProfile | null>;
+  createUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile>;
+  updateUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile>;
+  isUsernameAvailable(username: string, excludeWallet?: string): Promise<boolean>;
+
+  // Wallet sessions; encrypted_address is the stable author id of a wallet
+  createUserSession(walletAddress: string, encryptedAddress: string, sessionToken: string): Promise<UserSession>;
+  getUserSession(walletAddress: string): Promise<UserSession | null>;
+  // Keyed by lowercased wallet address; unregistered wallets are left out
+  getEncryptedAddresses(walletAddresses: string[]): Promise<Map<string, string>>;
+  updateUserSessionActivity(walletAddress: string): Promise<void>;
+}
+
+// Shared by the backends: numeric post and reply ids become the 32-byte hex that encrypted ids use
+export function toEncryptedIdHex(id: number | string): string {
+  return typeof id === 'string' ? id : `0x${id.toString(16).padStart(64, '0')}`;
+}
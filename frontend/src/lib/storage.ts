@@ -0,0 +1,28 @@
+import { isSupabaseConfigured, SupabaseStorage } from './supabase';
+import { MemoryStorage } from './memory-storage';
+import { logger } from './logger';
+import type { StorageBackend } from './storage-backend';
+
+export * from './storage-backend';
+
+export type StorageBackendName = 'supabase' | 'memory';
+
+// VITE_STORAGE_BACKEND picks the backend explicitly; otherwise Supabase is used whenever it is configured
+function resolveStorageBackend(): StorageBackendName {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND;
+  if (requested === 'supabase' || requested === 'memory') {
+    return requested;
+  }
+
+  return isSupabaseConfigured ? 'supabase' : 'memory';
+}
+
+export const STORAGE_BACKEND = resolveStorageBackend();
+
+if (STORAGE_BACKEND === 'memory') {
+  logger.warn('Using in-browser storage; posts and replies are only visible in this browser', undefined, 'Storage');
+}
+
+export const contentStorage: StorageBackend = STORAGE_BACKEND === 'memory'
+  ? new MemoryStorage()
+  : new SupabaseStorage();
@@ -1,75 +1,106 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { RankingMode, TopWindow } from './ranking';
+import {
+  EARNING_ACCESS_TYPES,
+  type AccessContentType,
+  type AccessLog,
+  type AccessLogDetails,
+  type AccessType,
+  type ChainEvent,
+  type ChainEventInsert,
+  type ContentCursor,
+  type ContentKeyRecord,
+  type ContentPage,
+  type ContentPageFilter,
+  type CreateProfileData,
+  type EncryptedContent,
+  type EncryptedReply,
+  type EngagementType,
+  type IndexerCheckpoint,
+  type LatestVisibility,
+  type MuteKind,
+  type MutedAuthor,
+  type SignedMuteRequest,
+  type PostEdit,
+  type PostEngagement,
+  type PostRevision,
+  type PostStats,
+  type PostStatsUpdate,
+  type PostTag,
+  type ReplyStats,
+  type StorageBackend,
+  type Subscription,
+  type TrendingTag,
+  type Unsubscribe,
+  type UserProfile,
+  type UserSession,
+  type VisibilityEvent,
+  type VisibilityEventInsert,
+  type VisibilityUpdate,
+} from './storage-backend';
+import { IS_LOCAL_MODE } from './deployments';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// Local mode talks to `supabase start`, which serves on 54321 and prints its anon key
+const supabaseUrl = IS_LOCAL_MODE
+  ? import.meta.env.VITE_LOCAL_SUPABASE_URL || 'http://127.0.0.1:54321'
+  : import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = IS_LOCAL_MODE
+  ? import.meta.env.VITE_LOCAL_SUPABASE_ANON_KEY
+  : import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables. Please check your .env.local file.');
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: false, // We don't need Supabase auth, using wallet auth
-  },
-  realtime: {
-    params: {
-      eventsPerSecond: 10,
-    },
-  },
-  global: {
-    headers: {
-      'Accept': 'application/json',
-    },
-  },
-});
-
-export interface EncryptedContent {
-  id: number;
-  content_hash: string;
-  preview_hash: string;
-  encrypted_content: string;
-  encrypted_preview: string;
-  author_id: string;
-  min_tip_amount?: number;
-  raw_post_id: number;
-  encrypted_post_id?: string;
-  created_at: string;
-  updated_at: string;
-}
+let client: SupabaseClient | null = null;
 
-export interface EncryptedReply {
-  id: number;
-  post_id: number;
-  reply_id: number;
-  content_hash: string;
-  preview_hash: string;
-  encrypted_content: string;
-  encrypted_preview: string;
-  replier_id: string;
-  created_at: string;
-  updated_at: string;
-}
+// Created on first use, so the app still loads without Supabase when ./storage picks MemoryStorage
+export function getSupabaseClient(): SupabaseClient {
+  if (!client) {
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables. Please check your .env.local file.');
+    }
 
-export interface UserSession {
-  id: string;
-  wallet_address: string;
-  encrypted_address: string;
-  session_token: string;
-  created_at: string;
-  last_active: string;
-}
+    client = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        persistSession: false, // We don't need Supabase auth, using wallet auth
+      },
+      realtime: {
+        params: {
+          eventsPerSecond: 10,
+        },
+      },
+      global: {
+        headers: {
+          'Accept': 'application/json',
+        },
+      },
+    });
+  }
 
-export interface AccessLog {
-  id: number;
-  content_id: string;
-  content_type: 'post' | 'reply';
-  user_encrypted_id: string;
-  access_type: 'view' | 'tip' | 'unlock' | 'subscribe';
-  amount_wei: number;
-  created_at: string;
+  return client;
 }
 
-export class ContentStorage {
+// Edge function that verifies an editPost transaction before storing the revision
+const RECORD_REVISION_FUNCTION = 'record-post-revision';
+
+// Edge function that owns muted_authors; the table has no client policies
+const MUTED_AUTHORS_FUNCTION = 'manage-muted-authors';
+// The function accepts a signed request as a read grant for 30 days; renew a day before that
+const MUTE_LIST_GRANT_TTL_MS = 29 * 24 * 60 * 60 * 1000;
+
+const muteListGrantKey = (ownerAddress: string) => `muted_authors_grant_${ownerAddress.toLowerCase()}`;
+
+// Edge function that owns chain_events and indexer_checkpoints; clients can only read events
+const INDEX_CHAIN_EVENTS_FUNCTION = 'index-chain-events';
+const SERVER_INDEXED_ERROR = 'Chain events are indexed by the index-chain-events edge function';
+
+export class SupabaseStorage implements StorageBackend {
+  private get db(): SupabaseClient {
+    return getSupabaseClient();
+  }
+
+
+  private loggedViews = new Set<string>();
+
   async storeEncryptedContent(
     contentHash: string,
     previewHash: string,
@@ -80,7 +111,7 @@ export class ContentStorage {
     rawPostId?: number, 
     encryptedPostId?: string 
   ): Promise<EncryptedContent> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_content')
       .insert({
         content_hash: contentHash,
@@ -103,7 +134,7 @@ export class ContentStorage {
   }
 
   async getEncryptedContent(supabaseId: number): Promise<EncryptedContent | null> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_content')
       .select('*')
       .eq('id', supabaseId)
@@ -120,7 +151,7 @@ export class ContentStorage {
   }
 
   async getEncryptedContentByRawPostId(rawPostId: number): Promise<EncryptedContent | null> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_content')
       .select('*')
       .eq('raw_post_id', rawPostId)
@@ -137,7 +168,7 @@ export class ContentStorage {
   }
 
   async getEncryptedContentByHash(contentHash: string): Promise<EncryptedContent | null> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_content')
       .select('*')
       .eq('content_hash', contentHash)
@@ -154,9 +185,11 @@ export class ContentStorage {
   }
 
   async getRecentContent(limit: number = 20): Promise<EncryptedContent[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_content')
       .select('*')
+      .is('deleted_at', null)
+      .is('hidden_at', null)
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -167,6 +200,233 @@ export class ContentStorage {
     return data || [];
   }
 
+  /**
+   * Keyset pagination over (created_at, id), newest first. Pass the previous
+   * page's nextCursor to continue; nextCursor is null once the feed is exhausted.
+   */
+  async getContentPage(
+    limit: number = 20,
+    cursor?: ContentCursor | null,
+    filter?: ContentPageFilter
+  ): Promise<ContentPage> {
+    let query = this.db
+      .from('encrypted_content')
+      .select('*')
+      .is('deleted_at', null)
+      .is('hidden_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (filter?.rawPostIds) {
+      query = query.in('raw_post_id', filter.rawPostIds);
+    }
+
+    if (cursor) {
+      // Timestamps are quoted because their offset ("+00:00") is not a safe PostgREST literal
+      const createdAt = `"${cursor.createdAt}"`;
+      query = query.or(
+        `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to retrieve content page: ${error.message}`);
+    }
+
+    const items = data || [];
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: items.length === limit && last ? { createdAt: last.created_at, id: last.id } : null,
+    };
+  }
+
+  async getRankedContentPage(
+    mode: RankingMode,
+    window: TopWindow,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<EncryptedContent[]> {
+    const { data, error } = await this.db.rpc('get_ranked_content', {
+      mode_param: mode,
+      window_param: window,
+      limit_param: limit,
+      offset_param: offset,
+    });
+
+    if (error) {
+      throw new Error(`Failed to retrieve ranked content: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async countContentByAuthor(authorId: string): Promise<number> {
+    const { count, error } = await this.db
+      .from('encrypted_content')
+      .select('id', { count: 'exact', head: true })
+      .eq('author_id', authorId);
+
+    if (error) {
+      throw new Error(`Failed to count posts: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Applies an on-chain confirmed edit. post_revisions is written only by the
+   * record-post-revision function, which checks the edit transaction and copies the
+   * pre-edit row (as revision 0 on the first edit) so every anchored hash keeps its content.
+   */
+  async editPost(rawPostId: number, edit: PostEdit): Promise<EncryptedContent> {
+    const { error: revisionError } = await this.db.functions.invoke(RECORD_REVISION_FUNCTION, {
+      body: {
+        rawPostId,
+        revision: edit.revision,
+        encryptedContent: edit.encryptedContent,
+        encryptedPreview: edit.encryptedPreview,
+        txHash: edit.txHash,
+      },
+    });
+
+    if (revisionError) {
+      throw new Error(`Failed to store post revision: ${revisionError.message}`);
+    }
+
+    const { data, error } = await this.db
+      .from('encrypted_content')
+      .update({
+        content_hash: edit.contentHash,
+        preview_hash: edit.previewHash,
+        encrypted_content: edit.encryptedContent,
+        encrypted_preview: edit.encryptedPreview,
+        revision_count: edit.revision,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('raw_post_id', rawPostId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to edit post: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getPostRevisions(rawPostId: number): Promise<PostRevision[]> {
+    const { data, error } = await this.db
+      .from('post_revisions')
+      .select('*')
+      .eq('raw_post_id', rawPostId)
+      .order('revision', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to retrieve post revisions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async updatePostVisibility(rawPostId: number, update: VisibilityUpdate): Promise<EncryptedContent> {
+    const { data, error } = await this.db
+      .from('encrypted_content')
+      .update({
+        min_tip_amount: update.minTipAmount || null,
+        ...(update.encryptedContent && update.encryptedPreview
+          ? { encrypted_content: update.encryptedContent, encrypted_preview: update.encryptedPreview }
+          : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('raw_post_id', rawPostId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update post visibility: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Soft delete: the row and its revisions stay so the on-chain history remains checkable
+  async softDeletePost(rawPostId: number): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.db
+      .from('encrypted_content')
+      .update({ deleted_at: now, updated_at: now })
+      .eq('raw_post_id', rawPostId);
+
+    if (error) {
+      throw new Error(`Failed to delete post: ${error.message}`);
+    }
+  }
+
+  async setContentWarnings(rawPostId: number, warnings: string[]): Promise<void> {
+    const { error } = await this.db
+      .from('encrypted_content')
+      .update({ content_warnings: warnings })
+      .eq('raw_post_id', rawPostId);
+
+    if (error) {
+      throw new Error(`Failed to store content warnings: ${error.message}`);
+    }
+  }
+
+  // Tags are plaintext, so callers only store them for public posts whose author opted in
+  async storePostTags(rawPostId: number, tags: string[]): Promise<PostTag[]> {
+    if (tags.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.db
+      .from('post_tags')
+      .upsert(
+        tags.map(tag => ({ raw_post_id: rawPostId, tag })),
+        { onConflict: 'raw_post_id,tag', ignoreDuplicates: true }
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to store post tags: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getRawPostIdsForTag(tag: string, limit: number = 500): Promise<number[]> {
+    const { data, error } = await this.db
+      .from('post_tags')
+      .select('raw_post_id')
+      .eq('tag', tag)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to retrieve tagged posts: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.raw_post_id);
+  }
+
+  async getTrendingTags(windowHours: number = 24, limit: number = 10): Promise<TrendingTag[]> {
+    const { data, error } = await this.db.rpc('get_trending_tags', {
+      window_hours_param: windowHours,
+      limit_param: limit,
+    });
+
+    if (error) {
+      throw new Error(`Failed to retrieve trending tags: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   async storeEncryptedReply(
     postId: number,
     replyId: number,
@@ -174,9 +434,11 @@ export class ContentStorage {
     previewHash: string,
     encryptedContent: string,
     encryptedPreview: string,
-    replierId: string
+    replierId: string,
+    parentReplyId?: number,
+    minTipAmountWei?: bigint
   ): Promise<EncryptedReply> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_replies')
       .insert({
         post_id: postId,
@@ -187,6 +449,8 @@ export class ContentStorage {
         encrypted_content: encryptedContent,
         encrypted_preview: encryptedPreview,
         replier_id: replierId,
+        parent_reply_id: parentReplyId ?? null,
+        min_tip_amount: minTipAmountWei?.toString() ?? null,
       })
       .select()
       .single();
@@ -199,7 +463,7 @@ export class ContentStorage {
   }
 
   async getPostReplies(postId: number): Promise<EncryptedReply[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_replies')
       .select('*')
       .eq('post_id', postId)
@@ -213,7 +477,7 @@ export class ContentStorage {
   }
 
   async getEncryptedReply(postId: number, replyId: number): Promise<EncryptedReply | null> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('encrypted_replies')
       .select('*')
       .eq('post_id', postId)
@@ -230,14 +494,707 @@ export class ContentStorage {
     return data;
   }
 
+  async anchorReply(supabaseId: number, onchainReplyId: number, txHash: string): Promise<EncryptedReply> {
+    const { data, error } = await this.db
+      .from('encrypted_replies')
+      .update({
+        onchain_reply_id: onchainReplyId,
+        anchor_tx_hash: txHash,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', supabaseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record on-chain reply: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getEncryptedReplyById(supabaseId: number): Promise<EncryptedReply | null> {
+    const { data, error } = await this.db
+      .from('encrypted_replies')
+      .select('*')
+      .eq('id', supabaseId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retrieve reply: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteEncryptedReply(postId: number, replyId: number): Promise<void> {
+    await this.db.from('reply_stats').delete().eq('post_id', postId).eq('reply_id', replyId);
+
+    const { error } = await this.db
+      .from('encrypted_replies')
+      .delete()
+      .eq('post_id', postId)
+      .eq('reply_id', replyId);
+
+    if (error) {
+      throw new Error(`Failed to delete reply: ${error.message}`);
+    }
+  }
+
+  async createReplyStats(postId: number, replyId: number): Promise<void> {
+    const { error } = await this.db
+      .from('reply_stats')
+      .insert({
+        post_id: postId,
+        reply_id: replyId,
+        raw_post_id: postId,
+        upvote_count: 0,
+        downvote_count: 0,
+        last_updated: new Date().toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to create reply stats: ${error.message}`);
+    }
+  }
+
+  async getReplyStats(postId: number, replyId: number): Promise<ReplyStats | null> {
+    const { data, error } = await this.db
+      .from('reply_stats')
+      .select('*')
+      .eq('post_id', postId)
+      .eq('reply_id', replyId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retrieve reply stats: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getPostReplyStats(postId: number): Promise<ReplyStats[]> {
+    const { data, error } = await this.db
+      .from('reply_stats')
+      .select('*')
+      .eq('raw_post_id', postId);
+
+    if (error) {
+      throw new Error(`Failed to retrieve reply stats: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getPostStats(rawPostId: number): Promise<PostStats | null> {
+    const { data, error } = await this.db
+      .from('post_stats')
+      .select('*')
+      .eq('raw_post_id', rawPostId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retrieve post stats: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getPostStatsBatch(rawPostIds: number[]): Promise<PostStats[]> {
+    if (rawPostIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.db
+      .from('post_stats')
+      .select('*')
+      .in('raw_post_id', rawPostIds);
+
+    if (error) {
+      throw new Error(`Failed to retrieve post stats: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async upsertPostStats(stats: PostStatsUpdate): Promise<void> {
+    const { error } = await this.db
+      .from('post_stats')
+      .upsert(
+        { ...stats, last_updated: new Date().toISOString() },
+        { onConflict: 'raw_post_id', ignoreDuplicates: false }
+      );
+
+    if (error) {
+      throw new Error(`Failed to update post stats: ${error.message}`);
+    }
+  }
+
+  async hasPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('post_engagement')
+      .select('id')
+      .eq('raw_post_id', rawPostId)
+      .eq('user_encrypted_id', userEncryptedId)
+      .eq('engagement_type', type)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check engagement: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  async addPostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void> {
+    const { error } = await this.db
+      .from('post_engagement')
+      .insert({
+        raw_post_id: rawPostId,
+        user_encrypted_id: userEncryptedId,
+        engagement_type: type,
+      });
+
+    if (error) {
+      throw new Error(`Failed to add ${type}: ${error.message}`);
+    }
+  }
+
+  async removePostEngagement(rawPostId: number, userEncryptedId: string, type: EngagementType): Promise<void> {
+    const { error } = await this.db
+      .from('post_engagement')
+      .delete()
+      .eq('raw_post_id', rawPostId)
+      .eq('user_encrypted_id', userEncryptedId)
+      .eq('engagement_type', type);
+
+    if (error) {
+      throw new Error(`Failed to remove ${type}: ${error.message}`);
+    }
+  }
+
+  async countPostEngagement(rawPostId: number, type: EngagementType): Promise<number> {
+    const { count, error } = await this.db
+      .from('post_engagement')
+      .select('id', { count: 'exact', head: true })
+      .eq('raw_post_id', rawPostId)
+      .eq('engagement_type', type);
+
+    if (error) {
+      throw new Error(`Failed to count ${type}s: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  async getUserEngagement(userEncryptedId: string): Promise<PostEngagement[]> {
+    const { data, error } = await this.db
+      .from('post_engagement')
+      .select('*')
+      .eq('user_encrypted_id', userEncryptedId);
+
+    if (error) {
+      throw new Error(`Failed to retrieve engagement: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getEngagedRawPostIds(): Promise<number[]> {
+    const { data, error } = await this.db
+      .from('post_engagement')
+      .select('raw_post_id')
+      .order('raw_post_id');
+
+    if (error) {
+      throw new Error(`Failed to retrieve engagement: ${error.message}`);
+    }
+
+    return [...new Set((data || []).map(row => row.raw_post_id as number))];
+  }
+
+  async logVisibilityEvent(event: VisibilityEventInsert): Promise<void> {
+    const { error } = await this.db
+      .from('visibility_events')
+      .insert(event);
+
+    if (error) {
+      throw new Error(`Failed to log visibility event: ${error.message}`);
+    }
+  }
+
+  // Raw ids go through the get_latest_*visibility RPCs; encrypted ids query the table
+  async getLatestVisibility(postId: number | string, replyId?: number | string): Promise<LatestVisibility | null> {
+    const isEncrypted = typeof postId === 'string' || typeof replyId === 'string';
+    let result;
+
+    if (isEncrypted) {
+      let query = this.db
+        .from('visibility_events')
+        .select('visibility_type, event_type, created_at')
+        .eq('encrypted_post_id', postId);
+
+      if (replyId) {
+        query = query.eq('encrypted_reply_id', replyId);
+      }
+
+      result = await query.order('created_at', { ascending: false }).limit(1);
+    } else if (replyId) {
+      result = await this.db.rpc('get_latest_reply_visibility', {
+        post_id_param: postId,
+        reply_id_param: replyId,
+      });
+    } else {
+      result = await this.db.rpc('get_latest_visibility', {
+        post_id_param: postId,
+      });
+    }
+
+    if (result.error) {
+      throw new Error(`Failed to retrieve visibility: ${result.error.message}`);
+    }
+
+    return result.data?.[0] ?? null;
+  }
+
+  // Newest first
+  async getVisibilityEvents(encryptedPostIds: string[]): Promise<VisibilityEvent[]> {
+    if (encryptedPostIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.db
+      .from('visibility_events')
+      .select('*')
+      .in('encrypted_post_id', encryptedPostIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to retrieve visibility events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getContentVisibilityEvents(encryptedPostId: string, contentType: 'post' | 'reply'): Promise<VisibilityEvent[]> {
+    const { data, error } = await this.db
+      .from('visibility_events')
+      .select('*')
+      .eq('encrypted_post_id', encryptedPostId)
+      .eq('content_type', contentType)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to retrieve visibility events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async storeContentKey(keyId: string, keyMaterial: string, sealed: boolean = false): Promise<void> {
+    const { error } = await this.db
+      .from('content_keys')
+      .insert({
+        key_id: keyId,
+        key_material: keyMaterial,
+        sealed,
+      });
+
+    if (error) {
+      throw new Error(`Failed to store content key: ${error.message}`);
+    }
+  }
+
+  async getContentKey(keyId: string): Promise<ContentKeyRecord | null> {
+    const { data, error } = await this.db
+      .from('content_keys')
+      .select('*')
+      .eq('key_id', keyId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retrieve content key: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // subscriptions is written only by the index-chain-events edge function from Subscribed events
+  async recordSubscription(): Promise<Subscription> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async getActiveSubscriberCount(creatorAddress: string): Promise<number> {
+    const { count, error } = await this.db
+      .from('subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('creator_address', creatorAddress.toLowerCase())
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Failed to count subscribers: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  async getMutedAuthors(ownerAddress: string): Promise<MutedAuthor[]> {
+    const grant = this.loadMuteListGrant(ownerAddress);
+    if (!grant) {
+      return [];
+    }
+
+    const { data, error } = await this.db.functions.invoke(MUTED_AUTHORS_FUNCTION, {
+      body: { action: 'list', address: ownerAddress.toLowerCase(), signed: grant },
+    });
+
+    if (error) {
+      // A refused grant is dropped so the next read does not retry it; nothing prompts here
+      localStorage.removeItem(muteListGrantKey(ownerAddress));
+      throw new Error(`Failed to retrieve muted authors: ${error.message}`);
+    }
+
+    return data?.items || [];
+  }
+
+  hasMuteListGrant(ownerAddress: string): boolean {
+    return this.loadMuteListGrant(ownerAddress) !== null;
+  }
+
+  saveMuteListGrant(ownerAddress: string, grant: SignedMuteRequest): void {
+    localStorage.setItem(muteListGrantKey(ownerAddress), JSON.stringify(grant));
+  }
+
+  // authorId is the encrypted address from user_sessions, never a wallet address
+  async muteAuthor(ownerAddress: string, authorId: string, kind: MuteKind, signed: SignedMuteRequest): Promise<MutedAuthor> {
+    const { data, error } = await this.db.functions.invoke(MUTED_AUTHORS_FUNCTION, {
+      body: { action: 'mute', authorId, kind, address: ownerAddress.toLowerCase(), signed },
+    });
+
+    if (error) {
+      throw new Error(`Failed to mute author: ${error.message}`);
+    }
+
+    this.saveMuteListGrant(ownerAddress, signed);
+    return data.muted;
+  }
+
+  async unmuteAuthor(ownerAddress: string, authorId: string, signed: SignedMuteRequest): Promise<void> {
+    const { error } = await this.db.functions.invoke(MUTED_AUTHORS_FUNCTION, {
+      body: { action: 'unmute', authorId, address: ownerAddress.toLowerCase(), signed },
+    });
+
+    if (error) {
+      throw new Error(`Failed to unmute author: ${error.message}`);
+    }
+
+    this.saveMuteListGrant(ownerAddress, signed);
+  }
+
+  private loadMuteListGrant(ownerAddress: string): SignedMuteRequest | null {
+    try {
+      const stored = localStorage.getItem(muteListGrantKey(ownerAddress));
+      const grant: SignedMuteRequest | null = stored ? JSON.parse(stored) : null;
+      return grant && Date.now() - new Date(grant.issuedAt).getTime() < MUTE_LIST_GRANT_TTL_MS ? grant : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Records one access. Views are kept once per user and item; paid accesses are
+   * unique per transaction so a retried write cannot double count earnings.
+   * Returns null when the access was already logged.
+   */
   async logAccess(
     contentId: number | string,
-    contentType: 'post' | 'reply',
+    contentType: AccessContentType,
     userEncryptedId: string,
-    accessType: 'view' | 'tip' | 'unlock' | 'subscribe',
-    amountWei: number = 0
-  ): Promise<void> {
-    // Access logging placeholder - can be implemented later if needed
+    accessType: AccessType,
+    amountWei: bigint | number = 0,
+    details: AccessLogDetails = {}
+  ): Promise<AccessLog | null> {
+    const viewKey = `${contentType}:${contentId}:${userEncryptedId}`;
+
+    if (accessType === 'view') {
+      if (this.loggedViews.has(viewKey)) {
+        return null;
+      }
+
+      const { data: existingView, error: viewError } = await this.db
+        .from('access_logs')
+        .select('id')
+        .eq('content_id', contentId.toString())
+        .eq('content_type', contentType)
+        .eq('user_encrypted_id', userEncryptedId)
+        .eq('access_type', 'view')
+        .limit(1);
+
+      if (viewError) {
+        throw new Error(`Failed to check existing view: ${viewError.message}`);
+      }
+
+      if (existingView && existingView.length > 0) {
+        this.loggedViews.add(viewKey);
+        return null;
+      }
+    }
+
+    const { data, error } = await this.db
+      .from('access_logs')
+      .insert({
+        content_id: contentId.toString(),
+        content_type: contentType,
+        user_encrypted_id: userEncryptedId,
+        access_type: accessType,
+        amount_wei: amountWei.toString(),
+        tx_hash: details.txHash ?? null,
+        creator_address: details.creatorAddress?.toLowerCase() ?? null,
+        raw_post_id: details.rawPostId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation: a concurrent write already logged this view or transaction
+      if (error.code === '23505') {
+        if (accessType === 'view') {
+          this.loggedViews.add(viewKey);
+        }
+        return null;
+      }
+      throw new Error(`Failed to log access: ${error.message}`);
+    }
+
+    if (accessType === 'view') {
+      this.loggedViews.add(viewKey);
+    }
+
+    return data;
+  }
+
+  async getLatestPaidAccess(
+    contentId: string,
+    contentType: AccessContentType,
+    userEncryptedId: string
+  ): Promise<AccessLog | null> {
+    const { data, error } = await this.db
+      .from('access_logs')
+      .select('*')
+      .eq('content_id', contentId)
+      .eq('content_type', contentType)
+      .eq('user_encrypted_id', userEncryptedId)
+      .in('access_type', ['tip', 'unlock'])
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to check access: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  async getCreatorEarningLogs(creatorAddress: string): Promise<AccessLog[]> {
+    const { data, error } = await this.db
+      .from('access_logs')
+      .select('*')
+      .eq('creator_address', creatorAddress.toLowerCase())
+      .in('access_type', EARNING_ACCESS_TYPES)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to retrieve earnings: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Posts store the author's wallet address, replies the encrypted address; both resolve to a wallet
+  async resolveCreatorAddress(
+    contentId: number | string,
+    contentType: AccessContentType,
+    rawPostId?: number
+  ): Promise<string | null> {
+    if (contentType === 'creator') {
+      return contentId.toString();
+    }
+
+    let authorId: string | undefined;
+
+    if (contentType === 'post') {
+      const { data, error } = await this.db
+        .from('encrypted_content')
+        .select('author_id')
+        .eq('raw_post_id', contentId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to resolve post author: ${error.message}`);
+      }
+      authorId = data?.author_id;
+    } else {
+      // Reply tips reference the on-chain reply id, which only anchored replies have
+      let query = this.db
+        .from('encrypted_replies')
+        .select('replier_id')
+        .eq('onchain_reply_id', contentId);
+
+      if (rawPostId !== undefined) {
+        query = query.eq('post_id', rawPostId);
+      }
+
+      const { data, error } = await query.limit(1).maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to resolve replier: ${error.message}`);
+      }
+      authorId = data?.replier_id;
+    }
+
+    if (!authorId) {
+      return null;
+    }
+
+    if (/^0x[0-9a-fA-F]{40}$/.test(authorId)) {
+      return authorId.toLowerCase();
+    }
+
+    const { data: session } = await this.db
+      .from('user_sessions')
+      .select('wallet_address')
+      .eq('encrypted_address', authorId)
+      .maybeSingle();
+
+    return session?.wallet_address?.toLowerCase() ?? null;
+  }
+
+  // chain_events and indexer_checkpoints are written only by the index-chain-events edge
+  // function; a browser just asks it to catch up, and concurrent requests share its lease
+  async requestChainSync(chainId: number): Promise<boolean> {
+    const { error } = await this.db.functions.invoke(INDEX_CHAIN_EVENTS_FUNCTION, { body: { chainId } });
+
+    if (error) {
+      throw new Error(`Failed to sync chain events: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  async getIndexerCheckpoint(): Promise<IndexerCheckpoint | null> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async saveIndexerCheckpoint(): Promise<void> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async upsertChainEvents(): Promise<void> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async deleteChainEventsFrom(): Promise<void> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async getUnattributedChainEvents(chainId: number, limit: number = 100): Promise<ChainEvent[]> {
+    const { data, error } = await this.db
+      .from('chain_events')
+      .select('*')
+      .eq('chain_id', chainId)
+      .is('creator_address', null)
+      .in('event_name', ['TipAddedToPost', 'TipAddedToReply', 'ContentUnlocked', 'ReplyUnlocked'])
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to retrieve unattributed chain events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async setChainEventCreator(): Promise<void> {
+    throw new Error(SERVER_INDEXED_ERROR);
+  }
+
+  async getCreatorChainEvents(chainId: number, creatorAddress: string): Promise<ChainEvent[]> {
+    const { data, error } = await this.db
+      .from('chain_events')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('creator_address', creatorAddress.toLowerCase())
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to retrieve chain events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getUserProfile(walletAddress: string): Promise<UserProfile | null> {
+    const { data, error } = await this.db
+      .from('user_profiles')
+      .select('*')
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retrieve profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async createUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile> {
+    const { data, error } = await this.db
+      .from('user_profiles')
+      .insert({
+        wallet_address: walletAddress.toLowerCase(),
+        username: profile.username || null,
+        display_name: profile.display_name || null,
+        bio: profile.bio || null,
+        avatar_url: profile.avatar_url || null,
+        is_username_public: profile.is_username_public || false,
+        is_profile_public: profile.is_profile_public || false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  async updateUserProfile(walletAddress: string, profile: CreateProfileData): Promise<UserProfile> {
+    const { data, error } = await this.db
+      .from('user_profiles')
+      .update(profile)
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  async isUsernameAvailable(username: string, excludeWallet?: string): Promise<boolean> {
+    const { data, error } = await this.db.rpc('is_username_available', {
+      check_username: username,
+      exclude_wallet: excludeWallet?.toLowerCase() || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to check username: ${error.message}`);
+    }
+
+    return !!data;
   }
 
   async createUserSession(
@@ -246,7 +1203,7 @@ export class ContentStorage {
     sessionToken: string
   ): Promise<UserSession> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await this.db
         .from('user_sessions')
         .upsert({
           wallet_address: walletAddress,
@@ -269,7 +1226,7 @@ export class ContentStorage {
 
   async getUserSession(walletAddress: string): Promise<UserSession | null> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await this.db
         .from('user_sessions')
         .select('id, wallet_address, encrypted_address, session_token, created_at, last_active')
         .eq('wallet_address', walletAddress)
@@ -286,8 +1243,26 @@ export class ContentStorage {
     }
   }
 
+  async getEncryptedAddresses(walletAddresses: string[]): Promise<Map<string, string>> {
+    const uniqueAddresses = [...new Set(walletAddresses)];
+    if (uniqueAddresses.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.db
+      .from('user_sessions')
+      .select('wallet_address, encrypted_address')
+      .in('wallet_address', uniqueAddresses);
+
+    if (error) {
+      throw new Error(`Failed to retrieve encrypted addresses: ${error.message}`);
+    }
+
+    return new Map((data || []).map(session => [session.wallet_address.toLowerCase(), session.encrypted_address]));
+  }
+
   async updateUserSessionActivity(walletAddress: string): Promise<void> {
-    const { error } = await supabase
+    const { error } = await this.db
       .from('user_sessions')
       .update({ last_active: new Date().toISOString() })
       .eq('wallet_address', walletAddress);
@@ -295,63 +1270,58 @@ export class ContentStorage {
     if (error) {
     }
   }
-}
-
-export const contentStorage = new ContentStorage();
-
-export class RealtimeSubscriptions {
-  private subscriptions: Map<string, any> = new Map();
 
-  subscribeToNewContent(callback: (payload: any) => void) {
-    const subscription = supabase
+  subscribeToNewContent(callback: (content: EncryptedContent) => void): Unsubscribe {
+    const channel = this.db
       .channel('new_content')
       .on(
         'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'encrypted_content',
-        },
-        callback
+        { event: 'INSERT', schema: 'public', table: 'encrypted_content' },
+        payload => callback(payload.new as EncryptedContent)
       )
       .subscribe();
 
-    this.subscriptions.set('new_content', subscription);
-    return subscription;
+    return () => {
+      this.db.removeChannel(channel);
+    };
   }
 
-  subscribeToNewReplies(callback: (payload: any) => void) {
-    const subscription = supabase
-      .channel('new_replies')
+  subscribeToPostStats(rawPostIds: number[], callback: (stats: PostStats) => void): Unsubscribe {
+    const channel = this.db
+      .channel('post-stats-updates')
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
-          table: 'encrypted_replies',
+          table: 'post_stats',
+          filter: `raw_post_id=in.(${rawPostIds.join(',')})`,
         },
-        callback
+        payload => {
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            callback(payload.new as PostStats);
+          }
+        }
       )
       .subscribe();
 
-    this.subscriptions.set('new_replies', subscription);
-    return subscription;
+    return () => {
+      this.db.removeChannel(channel);
+    };
   }
 
-  unsubscribe(channelName: string) {
-    const subscription = this.subscriptions.get(channelName);
-    if (subscription) {
-      supabase.removeChannel(subscription);
-      this.subscriptions.delete(channelName);
-    }
-  }
+  subscribeToVisibilityEvents(callback: (event: VisibilityEvent) => void): Unsubscribe {
+    const channel = this.db
+      .channel('visibility_events')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'visibility_events' },
+        payload => callback(payload.new as VisibilityEvent)
+      )
+      .subscribe();
 
-  unsubscribeAll() {
-    this.subscriptions.forEach((subscription) => {
-      supabase.removeChannel(subscription);
-    });
-    this.subscriptions.clear();
+    return () => {
+      this.db.removeChannel(channel);
+    };
   }
 }
-
-export const realtimeSubscriptions = new RealtimeSubscriptions();
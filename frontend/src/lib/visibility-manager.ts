@@ -1,4 +1,12 @@
-import { supabase } from './supabase';
+import {
+  contentStorage,
+  toEncryptedIdHex,
+  type AccessContentType,
+  type AccessLog,
+  type AccessType,
+  type VisibilityEvent,
+  type VisibilityEventType,
+} from './storage';
 
 export class VisibilityManager {
   private cache = new Map<string, {
@@ -26,45 +34,11 @@ export class VisibilityManager {
     }
 
     try {
-      let result;
-      
-      const isEncryptedPostId = typeof postId === 'string';
-      const isEncryptedReplyId = replyId && typeof replyId === 'string';
-      
-      if (isEncryptedPostId || isEncryptedReplyId) {
-        if (replyId) {
-          result = await supabase
-            .from('visibility_events')
-            .select('visibility_type, event_type, created_at')
-            .eq('encrypted_post_id', postId)
-            .eq('encrypted_reply_id', replyId)
-            .order('created_at', { ascending: false })
-            .limit(1);
-        } else {
-          result = await supabase
-            .from('visibility_events')
-            .select('visibility_type, event_type, created_at')
-            .eq('encrypted_post_id', postId)
-            .order('created_at', { ascending: false })
-            .limit(1);
-        }
-      } else {
-        if (replyId) {
-          result = await supabase.rpc('get_latest_reply_visibility', {
-            post_id_param: postId as number,
-            reply_id_param: replyId as number
-          });
-        } else {
-          result = await supabase.rpc('get_latest_visibility', {
-            post_id_param: postId as number
-          });
-        }
-      }
+      const latest = await contentStorage.getLatestVisibility(postId, replyId);
 
-      if (result.data && result.data.length > 0) {
-        const visibilityData = result.data[0];
-        const visibility = visibilityData.visibility_type;
-        const eventType = visibilityData.event_type;
+      if (latest) {
+        const visibility = latest.visibility_type;
+        const eventType = latest.event_type;
 
         this.cache.set(cacheKey, {
           visibility,
@@ -94,7 +68,7 @@ export class VisibilityManager {
     replyId?: number | string;
     contentType: 'post' | 'reply';
     visibilityType: number;
-    eventType: 'created' | 'updated' | 'unlocked' | 'revealed';
+    eventType: VisibilityEventType;
     userAddress?: string;
     encryptedVisibility?: string;
     encryptedUnlockPrice?: string; 
@@ -103,11 +77,9 @@ export class VisibilityManager {
     supabaseId: string;
   }): Promise<void> {
     try {
-
-      const isEncryptedPostId = typeof data.postId === 'string';
-      const isEncryptedReplyId = data.replyId && typeof data.replyId === 'string';
-      
-      const insertData: any = {
+      await contentStorage.logVisibilityEvent({
+        encrypted_post_id: toEncryptedIdHex(data.postId),
+        encrypted_reply_id: data.replyId ? toEncryptedIdHex(data.replyId) : null,
         content_type: data.contentType,
         visibility_type: data.visibilityType,
         event_type: data.eventType,
@@ -116,32 +88,7 @@ export class VisibilityManager {
         content_hash: data.contentHash,
         preview_hash: data.previewHash,
         supabase_id: data.supabaseId
-      };
-      
-      if (isEncryptedPostId) {
-        insertData.encrypted_post_id = data.postId;
-      } else {
-        insertData.encrypted_post_id = `0x${(data.postId as number).toString(16).padStart(64, '0')}`;
-      }
-      
-      if (data.replyId) {
-        if (isEncryptedReplyId) {
-          insertData.encrypted_reply_id = data.replyId;
-        } else {
-          insertData.encrypted_reply_id = `0x${(data.replyId as number).toString(16).padStart(64, '0')}`;
-        }
-      } else {
-        insertData.encrypted_reply_id = null;
-      }
-
-
-      const { error } = await supabase
-        .from('visibility_events')
-        .insert(insertData);
-
-      if (error) {
-        return;
-      }
+      });
 
       const cacheKey = data.replyId ? `${data.postId}_${data.replyId}` : data.postId.toString();
       this.cache.set(cacheKey, {
@@ -220,25 +167,13 @@ export class VisibilityManager {
     lastAccess: string | null;
   }> {
     try {
-      const { data, error } = await supabase
-        .from('access_logs')
-        .select('access_type, created_at')
-        .eq('content_id', contentId)
-        .eq('content_type', contentType)
-        .eq('user_encrypted_id', userEncryptedId)
-        .in('access_type', ['tip', 'unlock', 'view'])
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (error) {
-        return { hasAccess: false, accessType: null, lastAccess: null };
-      }
+      const access = await contentStorage.getLatestPaidAccess(contentId, contentType, userEncryptedId);
 
-      if (data && data.length > 0) {
+      if (access) {
         return {
           hasAccess: true,
-          accessType: data[0].access_type,
-          lastAccess: data[0].created_at
+          accessType: access.access_type,
+          lastAccess: access.created_at
         };
       }
 
@@ -254,29 +189,9 @@ export class VisibilityManager {
     lastAccess: string | null;
   }> {
     try {
-      const isEncryptedContentId = typeof contentId === 'string';
-      
-      let visibilityQuery = supabase
-        .from('visibility_events')
-        .select('visibility_type, event_type, created_at, user_address')
-        .eq('content_type', contentType)
-        .order('created_at', { ascending: false })
-        .limit(1);
-      
-      if (isEncryptedContentId) {
-        visibilityQuery = visibilityQuery.eq('encrypted_post_id', contentId);
-      } else {
-        const encryptedContentId = `0x${(contentId as number).toString(16).padStart(64, '0')}`;
-        visibilityQuery = visibilityQuery.eq('encrypted_post_id', encryptedContentId);
-      }
-      
-      const { data: visibilityData, error: visibilityError } = await visibilityQuery;
-
-      if (visibilityError) {
-        return { hasAccess: false, accessType: null, lastAccess: null };
-      }
+      const visibilityData = await contentStorage.getContentVisibilityEvents(toEncryptedIdHex(contentId), contentType);
 
-      if (visibilityData && visibilityData.length > 0) {
+      if (visibilityData.length > 0) {
         const visibilityEvent = visibilityData[0];
         const visibilityType = visibilityEvent.visibility_type;
         
@@ -325,42 +240,51 @@ export class VisibilityManager {
 
   async logAccess(data: {
     contentId: number | string;
-    contentType: 'post' | 'reply';
+    contentType: AccessContentType;
     userAddress: string;
-    accessType: 'view' | 'tip' | 'unlock' | 'subscribe';
-    amountWei?: number;
-  }): Promise<void> {
-    // Access logging placeholder - can be implemented later if needed
+    accessType: AccessType;
+    amountWei?: bigint | number;
+    txHash?: string;
+    rawPostId?: number;
+  }): Promise<AccessLog | null> {
+    const session = await contentStorage.getUserSession(data.userAddress);
+
+    if (!session?.encrypted_address) {
+      throw new Error('Cannot log access for an unregistered wallet');
+    }
+
+    const creatorAddress = data.accessType === 'view'
+      ? undefined
+      : await contentStorage
+          .resolveCreatorAddress(data.contentId, data.contentType, data.rawPostId)
+          .catch(() => null);
+
+    return contentStorage.logAccess(
+      data.contentId,
+      data.contentType,
+      session.encrypted_address,
+      data.accessType,
+      data.amountWei ?? 0,
+      {
+        txHash: data.txHash,
+        creatorAddress: creatorAddress ?? undefined,
+        rawPostId: data.rawPostId,
+      }
+    );
   }
 
   async debugVisibility(contentId: string, contentType: 'post' | 'reply' = 'post'): Promise<{
     contentId: string;
     contentType: string;
-    visibilityEvents: any[];
-    latestEvent: any;
+    visibilityEvents: VisibilityEvent[];
+    latestEvent: VisibilityEvent | null;
     visibilityType: number | null;
     isLocked: boolean;
   }> {
     try { 
-      const { data: events, error } = await supabase
-        .from('visibility_events')
-        .select('*')
-        .eq('encrypted_post_id', contentId)
-        .eq('content_type', contentType)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        return {
-          contentId,
-          contentType,
-          visibilityEvents: [],
-          latestEvent: null,
-          visibilityType: null,
-          isLocked: false
-        };
-      }
+      const events = await contentStorage.getContentVisibilityEvents(contentId, contentType);
 
-      const latestEvent = events?.[0] || null;
+      const latestEvent = events[0] || null;
       const visibilityType = latestEvent?.visibility_type ?? null;
       const isLocked = visibilityType === 1;
 
@@ -368,7 +292,7 @@ export class VisibilityManager {
       return {
         contentId,
         contentType,
-        visibilityEvents: events || [],
+        visibilityEvents: events,
         latestEvent,
         visibilityType,
         isLocked
@@ -1,9 +1,17 @@
 import { createConfig, http } from 'wagmi';
-import { sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
 import { injected, metaMask, walletConnect, coinbaseWallet } from 'wagmi/connectors';
+import { activeDeployment, SUPPORTED_DEPLOYMENTS } from './deployments';
+
+// The active deployment's chain goes first so wagmi treats it as the default
+const deployments = [
+  activeDeployment,
+  ...SUPPORTED_DEPLOYMENTS.filter(deployment => deployment.chain.id !== activeDeployment.chain.id),
+];
+const chains = deployments.map(deployment => deployment.chain) as [Chain, ...Chain[]];
 
 export const config = createConfig({
-  chains: [sepolia],
+  chains,
   connectors: [
     injected(),
     metaMask(),
@@ -14,9 +22,9 @@ export const config = createConfig({
       projectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || '',
     }),
   ],
-  transports: {
-    [sepolia.id]: http(import.meta.env.VITE_RPC_URL),
-  },
+  transports: Object.fromEntries(
+    deployments.map(deployment => [deployment.chain.id, http(deployment.rpcUrl)])
+  ),
   ssr: false,
 });
 
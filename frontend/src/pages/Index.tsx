@@ -20,6 +20,7 @@ const Index = () => {
   const [activeTab, setActiveTab] = useState("feed");
   const [showRegistrationModal, setShowRegistrationModal] = useState(false);
   const [viewingCreator, setViewingCreator] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
 
   // Listen for navigation events from header
   useEffect(() => {
@@ -96,7 +97,7 @@ const Index = () => {
               
               {/* Scrollable Feed Content */}
               <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
-                <VentFeed />
+                <VentFeed tag={activeTag} onClearTag={() => setActiveTag(null)} />
               </div>
             </div>
           )}
@@ -137,7 +138,13 @@ const Index = () => {
               <div className="p-6 space-y-6">
                 {/* Side Panel Section */}
                 <div>
-                  <SidePanel />
+                  <SidePanel
+                    activeTag={activeTag}
+                    onTagSelect={(tag) => {
+                      setActiveTag(tag);
+                      setActiveTab("feed");
+                    }}
+                  />
                 </div>
               </div>
             </div>
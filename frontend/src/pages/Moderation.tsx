@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { ArrowLeft, EyeOff, Loader2, RefreshCw, RotateCcw, ShieldAlert } from "lucide-react";
+import { useModeration } from "@/hooks/useModeration";
+import { contentEncryptionService, SEALED_KEY_ERROR } from "@/lib/content-encryption";
+import { REPORT_REASONS, type ModerationQueueItem, type ModerationTarget } from "@/lib/moderation";
+
+interface QueueEntry extends ModerationQueueItem {
+  content: string | null; // null while sealed; moderators cannot read paywalled content
+}
+
+const reasonLabel = (reason: string) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+
+const toTarget = (item: ModerationQueueItem): ModerationTarget => ({
+  contentType: item.content_type,
+  contentId: item.content_id,
+});
+
+const Moderation = () => {
+  const { address } = useAccount();
+  const { isModerator, loadQueue, hideContent, restoreContent, isLoading } = useModeration();
+  const [entries, setEntries] = useState<QueueEntry[] | null>(null);
+
+  const handleLoad = async () => {
+    const items = await loadQueue();
+    const decrypted = await Promise.all(items.map(async (item): Promise<QueueEntry> => {
+      try {
+        return { ...item, content: await contentEncryptionService.decryptContent(item.encrypted_content) };
+      } catch (error) {
+        return {
+          ...item,
+          content: error instanceof Error && error.message === SEALED_KEY_ERROR ? null : '[Decryption failed]',
+        };
+      }
+    }));
+    setEntries(decrypted);
+  };
+
+  const handleToggle = async (entry: QueueEntry) => {
+    const target = toTarget(entry);
+    const restoring = !!entry.hidden_at;
+    const done = restoring ? await restoreContent(target) : await hideContent(target);
+    if (!done) return;
+
+    // Either action counts as a review, so restored items leave the queue until reported again
+    setEntries((current) => (current ?? []).flatMap((item) => {
+      if (item !== entry) return [item];
+      return restoring ? [] : [{ ...item, hidden_at: new Date().toISOString(), hidden_by: address ?? null }];
+    }));
+  };
+
+  if (!address || !isModerator) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center space-y-3">
+          <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="text-lg font-medium">Moderators only</p>
+          <p className="text-sm text-muted-foreground">Connect an allowlisted moderator wallet to review reports.</p>
+          <Link to="/" className="text-sm text-primary underline">Return to Home</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link to="/" className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Review Queue</h1>
+              <p className="text-sm text-muted-foreground">Reported posts and replies, hidden items first</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            {entries === null ? 'Load queue' : 'Refresh'}
+          </Button>
+        </div>
+
+        {entries === null ? (
+          <p className="text-sm text-muted-foreground">
+            Loading the queue asks your wallet to sign a message proving you are a moderator.
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to review.</p>
+        ) : (
+          entries.map((entry) => (
+            <Card key={`${entry.content_type}-${entry.content_id}`} className="border-border/50">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium">
+                    {entry.content_type === 'post' ? `Post #${entry.raw_post_id}` : `Reply on post #${entry.raw_post_id}`}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {entry.reporter_count} {Number(entry.reporter_count) === 1 ? 'reporter' : 'reporters'}
+                    </Badge>
+                    {entry.hidden_at ? (
+                      <Badge variant="destructive" className="text-xs">
+                        {entry.hidden_by === 'reports' ? 'Auto-hidden' : 'Hidden'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs border-green-500/50 text-green-400">Visible</Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1 pt-2">
+                  {entry.reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary" className="text-xs">{reasonLabel(reason)}</Badge>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent className="pb-3 space-y-3">
+                {entry.content !== null ? (
+                  <p className="text-sm whitespace-pre-wrap">{entry.content}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground italic">[Paywalled content - sealed key, not readable here]</p>
+                )}
+                {entry.details.length > 0 && (
+                  <ul className="text-xs text-muted-foreground space-y-1 border-l-2 border-border pl-3">
+                    {entry.details.map((detail, index) => (
+                      <li key={index}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+              <CardFooter className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  Last reported {new Date(entry.last_reported_at).toLocaleString()}
+                </span>
+                <Button
+                  variant={entry.hidden_at ? 'outline' : 'destructive'}
+                  size="sm"
+                  onClick={() => handleToggle(entry)}
+                  disabled={isLoading}
+                >
+                  {entry.hidden_at ? <RotateCcw className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  {entry.hidden_at ? 'Restore' : 'Hide'}
+                </Button>
+              </CardFooter>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Moderation;
@@ -0,0 +1,30 @@
+// The chain the edge functions read Ventbuddy from, matching DEPLOYMENTS in
+// frontend/src/lib/deployments.ts. CHAIN_ID selects the deployment (Sepolia unless
+// set), RPC_URL overrides its default endpoint and VENTBUDDY_CONTRACT_ADDRESS names
+// the contract on it.
+import { createPublicClient, http, type Address, type Chain } from 'https://esm.sh/viem@2';
+import { hardhat, sepolia } from 'https://esm.sh/viem@2/chains';
+
+const CHAINS: Record<number, Chain> = {
+  [sepolia.id]: sepolia,
+  // `npx hardhat node` in local mode
+  [hardhat.id]: hardhat,
+};
+
+function resolveChain(): Chain {
+  const chainId = parseInt(Deno.env.get('CHAIN_ID') || String(sepolia.id));
+  const chain = CHAINS[chainId];
+  if (!chain) {
+    throw new Error(`No Ventbuddy deployment on chain ${chainId}`);
+  }
+  return chain;
+}
+
+export const chain = resolveChain();
+
+export const publicClient = createPublicClient({
+  chain,
+  transport: http(Deno.env.get('RPC_URL')),
+});
+
+export const contractAddress = () => Deno.env.get('VENTBUDDY_CONTRACT_ADDRESS') as Address;
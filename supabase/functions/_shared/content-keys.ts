@@ -0,0 +1,119 @@
+// Content key helpers shared by the edge functions that need to read encrypted posts:
+// loading a key from content_keys (unsealing it when needed), opening a content
+// envelope and hashing plaintext the way the frontend anchors it on-chain.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+async function unsealContentKey(sealedKey: string): Promise<Uint8Array> {
+  const sealed = JSON.parse(sealedKey);
+  if (sealed.v !== 1 || sealed.alg !== 'ECDH-ES+A256GCM') {
+    throw new Error('Unsupported sealed key format');
+  }
+
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(Deno.env.get('KEY_RELEASE_PRIVATE_KEY')!),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveKey']
+  );
+  const ephemeralPublicKey = await crypto.subtle.importKey(
+    'spki',
+    base64ToBytes(sealed.epk),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const wrappingKey = await crypto.subtle.deriveKey(
+    { name: 'ECDH', public: ephemeralPublicKey },
+    privateKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const rawKey = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(sealed.iv) },
+    wrappingKey,
+    base64ToBytes(sealed.ct)
+  );
+  return new Uint8Array(rawKey);
+}
+
+// Raw AES key for a key id, or null when content_keys has no such row
+export async function loadContentKey(supabase: SupabaseClient, keyId: string): Promise<Uint8Array | null> {
+  const { data: keyRecord, error } = await supabase
+    .from('content_keys')
+    .select('key_material, sealed')
+    .eq('key_id', keyId)
+    .maybeSingle();
+
+  if (error || !keyRecord) {
+    return null;
+  }
+
+  return keyRecord.sealed
+    ? await unsealContentKey(keyRecord.key_material)
+    : base64ToBytes(keyRecord.key_material);
+}
+
+// Key id named by a serialized content envelope, or null for legacy and malformed rows
+export function envelopeKeyId(encryptedContent: string): string | null {
+  try {
+    return JSON.parse(encryptedContent)?.kid ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Must match ContentEncryptionService.decryptContent in frontend/src/lib/content-encryption.ts
+export async function decryptEnvelope(encryptedContent: string, rawKey: Uint8Array): Promise<string> {
+  const envelope = JSON.parse(encryptedContent);
+  if (envelope.v !== 1 || envelope.alg !== 'AES-GCM') {
+    throw new Error('Unsupported content envelope');
+  }
+
+  const key = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+    key,
+    base64ToBytes(envelope.ct)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// Must match ContentEncryptionService.generateHash, whose output is anchored on-chain
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return '0x' + Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Whether an envelope opens with the key and its plaintext is the content behind an anchored hash
+export async function envelopeMatchesHash(
+  encryptedContent: string,
+  rawKey: Uint8Array,
+  anchoredHash: string
+): Promise<boolean> {
+  try {
+    const content = await decryptEnvelope(encryptedContent, rawKey);
+    return (await hashContent(content)).toLowerCase() === anchoredHash.toLowerCase();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,415 @@
+// Supabase Edge Function (Deno) that mirrors Ventbuddy's earning events into chain_events.
+// Clients can only read chain_events: the frontend calls this function to ask for a sync
+// and a cron schedule keeps it running while nobody is online (see README). A lease in
+// indexer_leases lets one run at a time advance a checkpoint. Tip recipients are looked
+// up in the stored content and kept only when the contract confirms that wallet as the
+// author, so a client-written row cannot redirect earnings. Subscribed events also fill
+// the subscriptions mirror behind subscriber counts.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseAbi, type AbiEvent, type Address, type Hash } from 'https://esm.sh/viem@2';
+import { chain, contractAddress, publicClient } from '../_shared/chain.ts';
+
+// Part of the checkpoint id; bump it when INDEXER_ABI gains events so they are backfilled
+const INDEXER_VERSION = 2;
+// Blocks per getLogs call; public Sepolia RPCs reject much wider ranges
+const BATCH_SIZE = 2000n;
+// How far to rewind when the last indexed block is no longer canonical
+const REORG_DEPTH = 64n;
+// Caps one invocation well inside the edge function time limit; the next call continues
+const MAX_BATCHES_PER_RUN = 25;
+const LEASE_SECONDS = 120;
+
+const EARNING_EVENT_NAMES = [
+  'TipAddedToPost',
+  'TipAddedToReply',
+  'ContentUnlocked',
+  'ReplyUnlocked',
+  'Subscribed',
+  'Claim',
+  'TipStranded',
+  'StrandedTipsClaimed',
+  'StrandedTipRefunded',
+] as const;
+
+// Events whose recipient comes from the stored content rather than the log itself
+const CONTENT_EVENT_NAMES = ['TipAddedToPost', 'TipAddedToReply', 'ContentUnlocked', 'ReplyUnlocked', 'TipStranded', 'StrandedTipRefunded'];
+
+// Stranded tip events use reply id 0 for the post itself
+const STRANDED_EVENT_NAMES = ['TipStranded', 'StrandedTipsClaimed', 'StrandedTipRefunded'];
+
+const INDEXER_ABI = parseAbi([
+  'event TipAddedToPost(uint64 indexed postId, bytes32 indexed tipper, uint128 amount)',
+  'event TipAddedToReply(uint64 indexed postId, uint64 indexed replyId, bytes32 indexed tipper, uint128 amount)',
+  'event ContentUnlocked(uint64 indexed postId, bytes32 indexed user, uint128 tipAmount)',
+  'event ReplyUnlocked(uint64 indexed postId, uint64 indexed replyId, bytes32 indexed user, uint128 tipAmount)',
+  'event Subscribed(address indexed creator, bytes32 indexed subscriber, uint64 expiresAt, uint128 amount)',
+  'event Claim(address indexed creator, uint128 amount, uint128 fee, uint128 actualPayout, uint128 actualFee)',
+  'event TipStranded(uint64 indexed postId, uint64 indexed replyId, uint128 amount)',
+  'event StrandedTipsClaimed(uint64 indexed postId, uint64 indexed replyId, address indexed author, uint128 amount)',
+  'event StrandedTipRefunded(uint64 indexed postId, uint64 indexed replyId, address indexed tipper, uint128 amount)',
+  'function isPostAuthor(uint64 postId, address user) view returns (bool)',
+  'function isReplyAuthor(uint64 postId, uint64 replyId, address user) view returns (bool)',
+  'function subscriptionExpiry(address creator, address subscriber) view returns (uint64)',
+]);
+
+const INDEXED_EVENTS = INDEXER_ABI.filter(
+  (item): item is AbiEvent => item.type === 'event' && (EARNING_EVENT_NAMES as readonly string[]).includes(item.name)
+);
+
+type IndexedArgs = Record<string, bigint | string | undefined>;
+
+interface IndexedLog {
+  eventName: string;
+  args: IndexedArgs;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+// First block to scan; the block Ventbuddy was deployed at
+const deployBlock = BigInt(Deno.env.get('VENTBUDDY_DEPLOY_BLOCK') || '0');
+
+function reply(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function indexerId(): string {
+  return `${chain.id}:${contractAddress().toLowerCase()}:v${INDEXER_VERSION}`;
+}
+
+// Posts store the author's wallet address or encrypted address, replies the encrypted
+// address; either one resolves to the wallet the contract is asked to confirm
+async function findCandidateAuthor(postId: number, replyId: number | null): Promise<Address | null> {
+  let authorId: string | undefined;
+
+  if (replyId === null) {
+    const { data } = await supabase
+      .from('encrypted_content')
+      .select('author_id')
+      .eq('raw_post_id', postId)
+      .maybeSingle();
+    authorId = data?.author_id;
+  } else {
+    const { data } = await supabase
+      .from('encrypted_replies')
+      .select('replier_id')
+      .eq('post_id', postId)
+      .eq('onchain_reply_id', replyId)
+      .limit(1)
+      .maybeSingle();
+    authorId = data?.replier_id;
+  }
+
+  if (!authorId) {
+    return null;
+  }
+
+  if (/^0x[0-9a-fA-F]{40}$/.test(authorId)) {
+    return authorId.toLowerCase() as Address;
+  }
+
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('wallet_address')
+    .eq('encrypted_address', authorId)
+    .maybeSingle();
+
+  return (session?.wallet_address?.toLowerCase() as Address) ?? null;
+}
+
+const creatorCache = new Map<string, string>();
+
+async function resolveCreator(postId: number, replyId: number | null): Promise<string | null> {
+  const cacheKey = `${postId}:${replyId ?? ''}`;
+  const cached = creatorCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const candidate = await findCandidateAuthor(postId, replyId);
+  if (!candidate) {
+    return null;
+  }
+
+  const isAuthor = replyId === null
+    ? await publicClient.readContract({
+        address: contractAddress(),
+        abi: INDEXER_ABI,
+        functionName: 'isPostAuthor',
+        args: [BigInt(postId), candidate],
+      })
+    : await publicClient.readContract({
+        address: contractAddress(),
+        abi: INDEXER_ABI,
+        functionName: 'isReplyAuthor',
+        args: [BigInt(postId), BigInt(replyId), candidate],
+      });
+
+  if (!isAuthor) {
+    return null;
+  }
+
+  creatorCache.set(cacheKey, candidate);
+  return candidate;
+}
+
+// Subscribed only carries the subscriber's encrypted address, so the subscriber is the
+// transaction sender; the contract's current expiry also covers later renewals
+async function mirrorSubscription(log: IndexedLog, creatorAddress: string, amountWei: bigint): Promise<void> {
+  const transaction = await publicClient.getTransaction({ hash: log.transactionHash });
+  const expirySeconds = await publicClient.readContract({
+    address: contractAddress(),
+    abi: INDEXER_ABI,
+    functionName: 'subscriptionExpiry',
+    args: [creatorAddress as Address, transaction.from],
+  });
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .upsert(
+      {
+        creator_address: creatorAddress,
+        subscriber_address: transaction.from.toLowerCase(),
+        expires_at: new Date(Number(expirySeconds) * 1000).toISOString(),
+        amount_wei: amountWei.toString(),
+        tx_hash: log.transactionHash,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'creator_address,subscriber_address' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to mirror subscription: ${error.message}`);
+  }
+}
+
+async function toChainEvents(logs: IndexedLog[]): Promise<Record<string, unknown>[]> {
+  const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+  const blockTimes = new Map(blocks.map((block) => [block.number, new Date(Number(block.timestamp) * 1000)]));
+
+  const events: Record<string, unknown>[] = [];
+
+  for (const log of logs) {
+    const { eventName, args } = log;
+    const postId = args.postId !== undefined ? Number(args.postId) : null;
+    const replyId = args.replyId !== undefined && !(STRANDED_EVENT_NAMES.includes(eventName) && args.replyId === 0n)
+      ? Number(args.replyId)
+      : null;
+
+    let creatorAddress: string | null = null;
+    let amountWei = 0n;
+    let feeWei = 0n;
+
+    switch (eventName) {
+      case 'TipAddedToPost':
+      case 'TipAddedToReply':
+      case 'TipStranded':
+      case 'StrandedTipRefunded':
+        amountWei = args.amount as bigint;
+        creatorAddress = await resolveCreator(postId!, replyId);
+        break;
+      case 'ContentUnlocked':
+      case 'ReplyUnlocked':
+        amountWei = args.tipAmount as bigint;
+        creatorAddress = await resolveCreator(postId!, replyId);
+        break;
+      case 'Subscribed':
+        amountWei = args.amount as bigint;
+        creatorAddress = (args.creator as string).toLowerCase();
+        await mirrorSubscription(log, creatorAddress, amountWei);
+        break;
+      case 'Claim':
+        amountWei = args.amount as bigint;
+        feeWei = args.fee as bigint;
+        creatorAddress = (args.creator as string).toLowerCase();
+        break;
+      case 'StrandedTipsClaimed':
+        amountWei = args.amount as bigint;
+        creatorAddress = (args.author as string).toLowerCase();
+        break;
+    }
+
+    events.push({
+      chain_id: chain.id,
+      contract_address: contractAddress().toLowerCase(),
+      block_number: Number(log.blockNumber),
+      block_hash: log.blockHash,
+      tx_hash: log.transactionHash,
+      log_index: log.logIndex,
+      event_name: eventName,
+      post_id: postId,
+      reply_id: replyId,
+      creator_address: creatorAddress,
+      amount_wei: amountWei.toString(),
+      fee_wei: feeWei.toString(),
+      block_time: blockTimes.get(log.blockNumber)!.toISOString(),
+    });
+  }
+
+  return events;
+}
+
+async function resolveStartBlock(head: bigint): Promise<bigint> {
+  const { data: checkpoint, error } = await supabase
+    .from('indexer_checkpoints')
+    .select('*')
+    .eq('id', indexerId())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to retrieve indexer checkpoint: ${error.message}`);
+  }
+
+  if (!checkpoint) {
+    return deployBlock;
+  }
+
+  const checkpointBlock = BigInt(checkpoint.block_number);
+  if (checkpointBlock <= head) {
+    const block = await publicClient.getBlock({ blockNumber: checkpointBlock });
+    if (block.hash === checkpoint.block_hash) {
+      return checkpointBlock + 1n;
+    }
+  }
+
+  const rewindTo = checkpointBlock - REORG_DEPTH > deployBlock ? checkpointBlock - REORG_DEPTH : deployBlock;
+
+  // Drops everything indexed at or above the rewind point so the range is indexed again
+  const { error: deleteError } = await supabase
+    .from('chain_events')
+    .delete()
+    .eq('chain_id', chain.id)
+    .eq('contract_address', contractAddress().toLowerCase())
+    .gte('block_number', Number(rewindTo));
+
+  if (deleteError) {
+    throw new Error(`Failed to roll back chain events: ${deleteError.message}`);
+  }
+
+  return rewindTo;
+}
+
+async function indexTowardsHead(): Promise<bigint> {
+  const head = await publicClient.getBlockNumber();
+  let fromBlock = await resolveStartBlock(head);
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN && fromBlock <= head; batch++) {
+    const toBlock = fromBlock + BATCH_SIZE - 1n < head ? fromBlock + BATCH_SIZE - 1n : head;
+
+    const logs = await publicClient.getLogs({
+      address: contractAddress(),
+      events: INDEXED_EVENTS,
+      fromBlock,
+      toBlock,
+    });
+
+    const events = await toChainEvents(logs as unknown as IndexedLog[]);
+    if (events.length > 0) {
+      const { error } = await supabase
+        .from('chain_events')
+        .upsert(events, { onConflict: 'chain_id,tx_hash,log_index' });
+      if (error) {
+        throw new Error(`Failed to store chain events: ${error.message}`);
+      }
+    }
+
+    const checkpoint = await publicClient.getBlock({ blockNumber: toBlock });
+    const { error } = await supabase
+      .from('indexer_checkpoints')
+      .upsert({
+        id: indexerId(),
+        block_number: Number(toBlock),
+        block_hash: checkpoint.hash,
+        updated_at: new Date().toISOString(),
+      });
+    if (error) {
+      throw new Error(`Failed to save indexer checkpoint: ${error.message}`);
+    }
+
+    fromBlock = toBlock + 1n;
+  }
+
+  return fromBlock - 1n;
+}
+
+// Tips can be indexed before their content reaches Supabase, or while the author's
+// mapping is broken; retry those on every run
+async function attributePendingEvents(): Promise<void> {
+  const { data: pending, error } = await supabase
+    .from('chain_events')
+    .select('id, post_id, reply_id')
+    .eq('chain_id', chain.id)
+    .is('creator_address', null)
+    .in('event_name', CONTENT_EVENT_NAMES)
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to retrieve unattributed chain events: ${error.message}`);
+  }
+
+  for (const event of pending || []) {
+    if (event.post_id === null) {
+      continue;
+    }
+
+    const creatorAddress = await resolveCreator(event.post_id, event.reply_id);
+    if (creatorAddress) {
+      await supabase.from('chain_events').update({ creator_address: creatorAddress }).eq('id', event.id);
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { chainId } = await req.json().catch(() => ({} as { chainId?: number }));
+    if (chainId !== undefined && chainId !== chain.id) {
+      return reply(400, { error: `This indexer runs on chain ${chain.id}` });
+    }
+
+    // Open tabs and the cron schedule all call in; only the lease holder indexes
+    const holder = crypto.randomUUID();
+    const { data: acquired, error: leaseError } = await supabase.rpc('acquire_indexer_lease', {
+      lease_id: indexerId(),
+      lease_holder: holder,
+      lease_seconds: LEASE_SECONDS,
+    });
+
+    if (leaseError) {
+      return reply(500, { error: `Failed to acquire indexer lease: ${leaseError.message}` });
+    }
+
+    if (!acquired) {
+      return reply(200, { skipped: true });
+    }
+
+    try {
+      const indexedTo = await indexTowardsHead();
+      await attributePendingEvents();
+      return reply(200, { indexedTo: indexedTo.toString() });
+    } finally {
+      await supabase.from('indexer_leases').delete().eq('id', indexerId()).eq('holder', holder);
+    }
+  } catch (error) {
+    return reply(500, { error: error instanceof Error ? error.message : 'Indexing failed' });
+  }
+});
@@ -0,0 +1,158 @@
+// Supabase Edge Function (Deno) for per-wallet mute and block lists. muted_authors has
+// no client policies: every request carries a signature from the list owner's wallet
+// and a wallet only ever reads or changes its own rows. Authors are stored by the
+// encrypted address from user_sessions, so a stored row never names the muted wallet.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyMessage, type Address } from 'https://esm.sh/viem@2';
+
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+// Any request the owner signed, including a mute or unmute, lets them read their own list
+// for this long, so rendering the feed never asks the wallet for a signature
+const MAX_LIST_GRANT_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const MUTE_KINDS = ['mute', 'block'];
+
+type MuteAction = 'list' | 'mute' | 'unmute';
+
+interface SignedMuteRequest {
+  action: MuteAction;
+  authorId?: string;
+  kind?: string;
+  issuedAt: string;
+  signature: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+function reply(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Must match buildMutedAuthorsMessage in frontend/src/lib/storage-backend.ts
+function buildMutedAuthorsMessage(action: MuteAction, issuedAt: string, authorId?: string, kind?: string): string {
+  return [
+    'Ventbuddy muted authors',
+    `Action: ${action}`,
+    ...(authorId ? [`Author: ${authorId}`] : []),
+    ...(kind ? [`Kind: ${kind}`] : []),
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+async function mute(owner: string, authorId: string, kind: string): Promise<Response> {
+  if (!MUTE_KINDS.includes(kind)) {
+    return reply(400, { error: 'Unknown mute kind' });
+  }
+
+  // Only registered encrypted addresses are accepted, which keeps wallet addresses out of the list
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('encrypted_address')
+    .eq('encrypted_address', authorId)
+    .maybeSingle();
+
+  if (!session) {
+    return reply(400, { error: 'Unknown author' });
+  }
+
+  const { data, error } = await supabase
+    .from('muted_authors')
+    .upsert({ owner_address: owner, author_id: authorId, kind }, { onConflict: 'owner_address,author_id' })
+    .select()
+    .single();
+
+  if (error) {
+    return reply(500, { error: `Failed to mute author: ${error.message}` });
+  }
+
+  return reply(200, { muted: data });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { action, authorId, kind, address, signed } = (await req.json()) as {
+      action: MuteAction;
+      authorId?: string;
+      kind?: string;
+      address: string;
+      signed?: SignedMuteRequest;
+    };
+
+    if (!action || !address || !signed?.issuedAt || !signed?.signature) {
+      return reply(400, { error: 'Missing muted authors parameters' });
+    }
+
+    if (action !== 'list' && !authorId) {
+      return reply(400, { error: 'Missing author' });
+    }
+
+    // Changes must be signed for exactly this change; reads accept any recent request of the owner
+    if (action !== 'list' && (signed.action !== action || signed.authorId !== authorId || signed.kind !== kind)) {
+      return reply(400, { error: 'Signed request does not match' });
+    }
+
+    const age = Date.now() - new Date(signed.issuedAt).getTime();
+    const maxAge = action === 'list' ? MAX_LIST_GRANT_AGE_MS : MAX_REQUEST_AGE_MS;
+    if (isNaN(age) || age < 0 || age > maxAge) {
+      return reply(401, { error: 'Muted authors request expired' });
+    }
+
+    const isValidSignature = await verifyMessage({
+      address: address as Address,
+      message: buildMutedAuthorsMessage(signed.action, signed.issuedAt, signed.authorId, signed.kind),
+      signature: signed.signature as `0x${string}`,
+    });
+    if (!isValidSignature) {
+      return reply(401, { error: 'Invalid signature' });
+    }
+
+    const owner = String(address).toLowerCase();
+
+    switch (action) {
+      case 'list': {
+        const { data, error } = await supabase
+          .from('muted_authors')
+          .select('*')
+          .eq('owner_address', owner)
+          .order('created_at', { ascending: false });
+        if (error) {
+          return reply(500, { error: `Failed to load muted authors: ${error.message}` });
+        }
+        return reply(200, { items: data || [] });
+      }
+      case 'mute':
+        return await mute(owner, authorId!, kind ?? '');
+      case 'unmute': {
+        const { error } = await supabase
+          .from('muted_authors')
+          .delete()
+          .eq('owner_address', owner)
+          .eq('author_id', authorId!);
+        if (error) {
+          return reply(500, { error: `Failed to unmute author: ${error.message}` });
+        }
+        return reply(200, { unmuted: true });
+      }
+      default:
+        return reply(400, { error: 'Unknown muted authors action' });
+    }
+  } catch (error) {
+    return reply(500, { error: error instanceof Error ? error.message : 'Muted authors request failed' });
+  }
+});
@@ -0,0 +1,218 @@
+// Supabase Edge Function (Deno) for reports and moderation. Every request is signed
+// by the caller's wallet. Any wallet the contract reports as registered may report a
+// post or reply; listing the review queue and hiding or restoring content is limited
+// to the wallets in MODERATOR_ADDRESSES. The post a target belongs to is looked up
+// here rather than taken from the request, so a signature covers what it acts on.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseAbi, verifyMessage, type Address } from 'https://esm.sh/viem@2';
+import { contractAddress, publicClient } from '../_shared/chain.ts';
+
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+const MAX_DETAILS_LENGTH = 500;
+
+const REPORT_REASONS = ['harassment', 'hate', 'self_harm', 'personal_info', 'spam', 'other'];
+
+const REGISTRATION_ABI = parseAbi(['function isUserRegisteredCheck(address user) view returns (bool)']);
+
+type ModerationAction = 'report' | 'queue' | 'hide' | 'restore';
+
+// content_id follows access_logs: the raw post id for posts, encrypted_replies.id for replies
+interface ModerationTarget {
+  contentType: 'post' | 'reply';
+  contentId: string;
+}
+
+interface ResolvedTarget extends ModerationTarget {
+  rawPostId: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const moderators = new Set(
+  (Deno.env.get('MODERATOR_ADDRESSES') || '')
+    .split(',')
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+function reply(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Must match buildModerationMessage in frontend/src/lib/moderation.ts
+function buildModerationMessage(
+  action: ModerationAction,
+  issuedAt: string,
+  target?: ModerationTarget,
+  reason?: string
+): string {
+  return [
+    'Ventbuddy moderation',
+    `Action: ${action}`,
+    ...(target ? [`Target: ${target.contentType} ${target.contentId}`] : []),
+    ...(reason ? [`Reason: ${reason}`] : []),
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+// Finds the post the target belongs to; null when the content does not exist
+async function resolveTarget(target: ModerationTarget): Promise<ResolvedTarget | null> {
+  if (target.contentType === 'post') {
+    const rawPostId = Number(target.contentId);
+    if (!Number.isInteger(rawPostId) || rawPostId <= 0) {
+      return null;
+    }
+
+    const { data } = await supabase
+      .from('encrypted_content')
+      .select('raw_post_id')
+      .eq('raw_post_id', rawPostId)
+      .maybeSingle();
+    return data ? { ...target, rawPostId } : null;
+  }
+
+  const { data } = await supabase
+    .from('encrypted_replies')
+    .select('post_id')
+    .eq('id', Number(target.contentId))
+    .maybeSingle();
+  return data ? { ...target, rawPostId: Number(data.post_id) } : null;
+}
+
+// One id per wallet that user_sessions cannot change, without storing the wallet itself
+async function reporterId(address: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address.toLowerCase()));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function report(target: ResolvedTarget, address: string, reason: string, details?: string): Promise<Response> {
+  if (!REPORT_REASONS.includes(reason)) {
+    return reply(400, { error: 'Unknown report reason' });
+  }
+
+  const isRegistered = await publicClient.readContract({
+    address: contractAddress(),
+    abi: REGISTRATION_ABI,
+    functionName: 'isUserRegisteredCheck',
+    args: [address as Address],
+  });
+
+  if (!isRegistered) {
+    return reply(403, { error: 'Only registered users can report content' });
+  }
+
+  const { error } = await supabase
+    .from('reports')
+    .insert({
+      content_type: target.contentType,
+      content_id: target.contentId,
+      raw_post_id: target.rawPostId,
+      reporter_id: await reporterId(address),
+      reason,
+      details: details ? String(details).slice(0, MAX_DETAILS_LENGTH) : null,
+    });
+
+  // Unique violation: this wallet already reported the item
+  if (error?.code === '23505') {
+    return reply(200, { reported: false });
+  }
+  if (error) {
+    return reply(500, { error: `Failed to store report: ${error.message}` });
+  }
+
+  return reply(200, { reported: true });
+}
+
+async function setHidden(target: ResolvedTarget, address: string, hidden: boolean): Promise<Response> {
+  const now = new Date().toISOString();
+  const update = {
+    hidden_at: hidden ? now : null,
+    hidden_by: hidden ? address.toLowerCase() : null,
+    reviewed_at: now,
+  };
+
+  const { error } = target.contentType === 'post'
+    ? await supabase.from('encrypted_content').update(update).eq('raw_post_id', target.rawPostId)
+    : await supabase.from('encrypted_replies').update(update).eq('id', Number(target.contentId));
+
+  if (error) {
+    return reply(500, { error: `Failed to update content: ${error.message}` });
+  }
+
+  return reply(200, { hidden });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { action, target, reason, details, address, issuedAt, signature } = await req.json();
+
+    if (!action || !address || !issuedAt || !signature) {
+      return reply(400, { error: 'Missing moderation parameters' });
+    }
+
+    if (action !== 'queue' && (!['post', 'reply'].includes(target?.contentType) || !target?.contentId)) {
+      return reply(400, { error: 'Missing moderation target' });
+    }
+
+    const age = Date.now() - new Date(issuedAt).getTime();
+    if (isNaN(age) || age < 0 || age > MAX_REQUEST_AGE_MS) {
+      return reply(401, { error: 'Moderation request expired' });
+    }
+
+    const isValidSignature = await verifyMessage({
+      address: address as Address,
+      message: buildModerationMessage(action, issuedAt, target, reason),
+      signature,
+    });
+    if (!isValidSignature) {
+      return reply(401, { error: 'Invalid signature' });
+    }
+
+    const resolved = action !== 'queue' ? await resolveTarget(target) : null;
+    if (action !== 'queue' && !resolved) {
+      return reply(404, { error: 'Content not found' });
+    }
+
+    if (action === 'report') {
+      return await report(resolved!, address, reason, details);
+    }
+
+    if (!moderators.has(String(address).toLowerCase())) {
+      return reply(403, { error: 'Not a moderator' });
+    }
+
+    switch (action) {
+      case 'queue': {
+        const { data, error } = await supabase.rpc('get_moderation_queue');
+        if (error) {
+          return reply(500, { error: `Failed to load queue: ${error.message}` });
+        }
+        return reply(200, { items: data || [] });
+      }
+      case 'hide':
+        return await setHidden(resolved!, address, true);
+      case 'restore':
+        return await setHidden(resolved!, address, false);
+      default:
+        return reply(400, { error: 'Unknown moderation action' });
+    }
+  } catch (error) {
+    return reply(500, { error: error instanceof Error ? error.message : 'Moderation request failed' });
+  }
+});
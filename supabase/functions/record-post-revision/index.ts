@@ -0,0 +1,150 @@
+// Supabase Edge Function (Deno) that records post revisions. Clients cannot write
+// post_revisions: a revision is stored only for a confirmed Ventbuddy.editPost
+// transaction, with the hashes that transaction emitted, and only when its envelope
+// decrypts to exactly that content. The row being replaced is copied as the previous
+// revision when its hash matches the chain, so every anchored hash keeps its content.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseEventLogs, type Hash } from 'https://esm.sh/viem@2';
+import { contractAddress, publicClient } from '../_shared/chain.ts';
+import { envelopeKeyId, envelopeMatchesHash, loadContentKey } from '../_shared/content-keys.ts';
+
+const REVISION_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { indexed: true, internalType: 'uint32', name: 'revision', type: 'uint32' },
+      { indexed: false, internalType: 'bytes32', name: 'contentHash', type: 'bytes32' },
+      { indexed: false, internalType: 'bytes32', name: 'previewHash', type: 'bytes32' },
+    ],
+    name: 'PostEdited',
+    type: 'event',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'uint256', name: 'revision', type: 'uint256' },
+    ],
+    name: 'getPostRevision',
+    outputs: [
+      { internalType: 'bytes32', name: 'contentHash', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'previewHash', type: 'bytes32' },
+      { internalType: 'uint64', name: 'editedAt', type: 'uint64' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+function reply(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// The PostEdited event for this post and revision, if the transaction is a confirmed edit on the contract
+async function findEdit(txHash: Hash, rawPostId: number, revision: number) {
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash }).catch(() => null);
+  if (!receipt || receipt.status !== 'success') {
+    return null;
+  }
+
+  const edits = parseEventLogs({
+    abi: REVISION_ABI,
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === contractAddress().toLowerCase()),
+    eventName: 'PostEdited',
+  });
+
+  return edits.find((edit) => edit.args.postId === BigInt(rawPostId) && edit.args.revision === revision)?.args ?? null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { rawPostId, revision, encryptedContent, encryptedPreview, txHash } = await req.json();
+
+    if (!rawPostId || !revision || !encryptedContent || !encryptedPreview || !txHash) {
+      return reply(400, { error: 'Missing revision parameters' });
+    }
+
+    const edit = await findEdit(txHash, rawPostId, revision);
+    if (!edit) {
+      return reply(400, { error: 'No confirmed editPost for this revision' });
+    }
+
+    const keyId = envelopeKeyId(encryptedContent);
+    const rawKey = keyId && envelopeKeyId(encryptedPreview) === keyId ? await loadContentKey(supabase, keyId) : null;
+    const matchesAnchor = !!rawKey
+      && (await envelopeMatchesHash(encryptedContent, rawKey, edit.contentHash))
+      && (await envelopeMatchesHash(encryptedPreview, rawKey, edit.previewHash));
+    if (!matchesAnchor) {
+      return reply(400, { error: 'Revision does not match the anchored hashes' });
+    }
+
+    const rows: Record<string, unknown>[] = [
+      {
+        raw_post_id: rawPostId,
+        revision,
+        content_hash: edit.contentHash,
+        preview_hash: edit.previewHash,
+        encrypted_content: encryptedContent,
+        encrypted_preview: encryptedPreview,
+        tx_hash: txHash,
+      },
+    ];
+
+    // The client updates encrypted_content after this call, so the row still holds the replaced revision
+    const [{ data: current }, [previousHash]] = await Promise.all([
+      supabase
+        .from('encrypted_content')
+        .select('content_hash, preview_hash, encrypted_content, encrypted_preview')
+        .eq('raw_post_id', rawPostId)
+        .maybeSingle(),
+      publicClient.readContract({
+        address: contractAddress(),
+        abi: REVISION_ABI,
+        functionName: 'getPostRevision',
+        args: [BigInt(rawPostId), BigInt(revision - 1)],
+      }),
+    ]);
+
+    if (current && String(current.content_hash).toLowerCase() === previousHash.toLowerCase()) {
+      rows.unshift({
+        raw_post_id: rawPostId,
+        revision: revision - 1,
+        content_hash: current.content_hash,
+        preview_hash: current.preview_hash,
+        encrypted_content: current.encrypted_content,
+        encrypted_preview: current.encrypted_preview,
+        tx_hash: null,
+      });
+    }
+
+    const { error } = await supabase
+      .from('post_revisions')
+      .upsert(rows, { onConflict: 'raw_post_id,revision', ignoreDuplicates: true });
+
+    if (error) {
+      return reply(500, { error: `Failed to store post revision: ${error.message}` });
+    }
+
+    return reply(200, { recorded: rows.length });
+  } catch (error) {
+    return reply(500, { error: error instanceof Error ? error.message : 'Recording the revision failed' });
+  }
+});
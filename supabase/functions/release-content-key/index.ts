@@ -0,0 +1,324 @@
+// Supabase Edge Function (Deno) that releases sealed content keys of tippable posts
+// and replies. A key is returned only to the author or to a wallet the Ventbuddy
+// contract reports as having unlocked the content via unlockTippableContent or
+// unlockTippableReply. Both authorship and access are read from the contract, and the
+// key must open content whose hash the contract anchored for that post or reply.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyMessage, type Address } from 'https://esm.sh/viem@2';
+import { contractAddress, publicClient } from '../_shared/chain.ts';
+import { bytesToBase64, envelopeKeyId, envelopeMatchesHash, loadContentKey } from '../_shared/content-keys.ts';
+
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+// Content keys are created with crypto.randomUUID
+const KEY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ACCESS_ABI = [
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'isPostAuthor',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'uint64', name: 'replyId', type: 'uint64' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'isReplyAuthor',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'hasUnlocked',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'uint64', name: 'replyId', type: 'uint64' },
+      { internalType: 'address', name: 'user', type: 'address' },
+    ],
+    name: 'hasUnlockedReply',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const ANCHOR_ABI = [
+  {
+    inputs: [{ internalType: 'uint64', name: 'postId', type: 'uint64' }],
+    name: 'getPostRevisionCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: 'postId', type: 'uint64' },
+      { internalType: 'uint256', name: 'revision', type: 'uint256' },
+    ],
+    name: 'getPostRevision',
+    outputs: [
+      { internalType: 'bytes32', name: 'contentHash', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'previewHash', type: 'bytes32' },
+      { internalType: 'uint64', name: 'editedAt', type: 'uint64' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint64', name: '', type: 'uint64' },
+      { internalType: 'uint64', name: '', type: 'uint64' },
+    ],
+    name: 'replies',
+    outputs: [
+      { internalType: 'bytes32', name: 'contentHash', type: 'bytes32' },
+      { internalType: 'bytes32', name: 'previewHash', type: 'bytes32' },
+      { internalType: 'string', name: 'supabaseId', type: 'string' },
+      { internalType: 'eaddress', name: 'replierId', type: 'bytes32' },
+      { internalType: 'euint128', name: 'totalTips', type: 'bytes32' },
+      { internalType: 'euint128', name: 'visibility', type: 'bytes32' },
+      { internalType: 'uint128', name: 'minTipAmount', type: 'uint128' },
+      { internalType: 'bool', name: 'revealed', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+function reply(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Must match buildKeyReleaseMessage in frontend/src/lib/key-release.ts
+function buildKeyReleaseMessage(rawPostId: number, keyId: string, issuedAt: string, replyId?: number): string {
+  return [
+    'Ventbuddy content key release',
+    `Post: ${rawPostId}`,
+    ...(replyId ? [`Reply: ${replyId}`] : []),
+    `Key: ${keyId}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+// Rows are client-written, so a row naming a key proves nothing on its own: the key has to
+// open the current post or one of its stored revisions to content with an anchored hash.
+// The current row is checked against every anchored revision, since the chain is updated
+// before the row during an edit.
+async function isAnchoredPostKey(rawPostId: number, keyId: string, rawKey: Uint8Array): Promise<boolean> {
+  const [{ data: content }, { data: revisions }, revisionCount] = await Promise.all([
+    supabase.from('encrypted_content').select('encrypted_content').eq('raw_post_id', rawPostId).maybeSingle(),
+    supabase.from('post_revisions').select('revision, encrypted_content').eq('raw_post_id', rawPostId),
+    publicClient.readContract({
+      address: contractAddress(),
+      abi: ANCHOR_ABI,
+      functionName: 'getPostRevisionCount',
+      args: [BigInt(rawPostId)],
+    }),
+  ]);
+
+  const anchoredHash = async (revision: number): Promise<string | null> => {
+    if (revision < 0 || BigInt(revision) >= revisionCount) {
+      return null;
+    }
+    const [contentHash] = await publicClient.readContract({
+      address: contractAddress(),
+      abi: ANCHOR_ABI,
+      functionName: 'getPostRevision',
+      args: [BigInt(rawPostId), BigInt(revision)],
+    });
+    return contentHash;
+  };
+
+  for (const revision of revisions || []) {
+    if (envelopeKeyId(revision.encrypted_content) !== keyId) continue;
+    const hash = await anchoredHash(revision.revision);
+    if (hash && (await envelopeMatchesHash(revision.encrypted_content, rawKey, hash))) {
+      return true;
+    }
+  }
+
+  if (content && envelopeKeyId(content.encrypted_content) === keyId) {
+    for (let revision = Number(revisionCount) - 1; revision >= 0; revision--) {
+      const hash = await anchoredHash(revision);
+      if (hash && (await envelopeMatchesHash(content.encrypted_content, rawKey, hash))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+// Every key is created for a single post or reply. An author could anchor another post's public
+// content hash and copy its envelope, which would pass the hash check, so a key that any other
+// post, revision or reply names is never released through this one.
+async function isKeyUsedElsewhere(keyId: string, rawPostId: number, replyId?: number): Promise<boolean> {
+  const kidFilter = `%"kid":"${keyId}"%`;
+  const [{ data: posts }, { data: revisions }, { data: replies }] = await Promise.all([
+    supabase.from('encrypted_content').select('raw_post_id').like('encrypted_content', kidFilter),
+    supabase.from('post_revisions').select('raw_post_id').like('encrypted_content', kidFilter),
+    supabase.from('encrypted_replies').select('raw_post_id, onchain_reply_id').like('encrypted_content', kidFilter),
+  ]);
+
+  const isOtherPost = (row: { raw_post_id: number }) => replyId !== undefined || Number(row.raw_post_id) !== rawPostId;
+  const isOtherReply = (row: { raw_post_id: number; onchain_reply_id: number | null }) =>
+    replyId === undefined || Number(row.raw_post_id) !== rawPostId || Number(row.onchain_reply_id) !== replyId;
+
+  return (posts || []).some(isOtherPost)
+    || (revisions || []).some(isOtherPost)
+    || (replies || []).some(isOtherReply);
+}
+
+async function isAnchoredReplyKey(rawPostId: number, replyId: number, keyId: string, rawKey: Uint8Array): Promise<boolean> {
+  const [{ data: replyRow }, [contentHash]] = await Promise.all([
+    supabase
+      .from('encrypted_replies')
+      .select('encrypted_content')
+      .eq('raw_post_id', rawPostId)
+      .eq('onchain_reply_id', replyId)
+      .maybeSingle(),
+    publicClient.readContract({
+      address: contractAddress(),
+      abi: ANCHOR_ABI,
+      functionName: 'replies',
+      args: [BigInt(rawPostId), BigInt(replyId)],
+    }),
+  ]);
+
+  return !!replyRow
+    && envelopeKeyId(replyRow.encrypted_content) === keyId
+    && (await envelopeMatchesHash(replyRow.encrypted_content, rawKey, contentHash));
+}
+
+// Each check returns an error response, or null when the wallet may receive the key
+async function checkPostAccess(rawPostId: number, address: string): Promise<Response | null> {
+  // author_id on the row is client-written, so authorship is decided by the contract
+  const isAuthor = await publicClient.readContract({
+    address: contractAddress(),
+    abi: ACCESS_ABI,
+    functionName: 'isPostAuthor',
+    args: [BigInt(rawPostId), address as Address],
+  });
+  if (!isAuthor) {
+    const hasUnlocked = await publicClient.readContract({
+      address: contractAddress(),
+      abi: ACCESS_ABI,
+      functionName: 'hasUnlocked',
+      args: [BigInt(rawPostId), address as Address],
+    });
+
+    if (!hasUnlocked) {
+      return reply(403, { error: 'No on-chain access to this post' });
+    }
+  }
+
+  return null;
+}
+
+async function checkReplyAccess(rawPostId: number, replyId: number, address: string): Promise<Response | null> {
+  const isReplier = await publicClient.readContract({
+    address: contractAddress(),
+    abi: ACCESS_ABI,
+    functionName: 'isReplyAuthor',
+    args: [BigInt(rawPostId), BigInt(replyId), address as Address],
+  });
+  if (!isReplier) {
+    const hasUnlocked = await publicClient.readContract({
+      address: contractAddress(),
+      abi: ACCESS_ABI,
+      functionName: 'hasUnlockedReply',
+      args: [BigInt(rawPostId), BigInt(replyId), address as Address],
+    });
+
+    if (!hasUnlocked) {
+      return reply(403, { error: 'No on-chain access to this reply' });
+    }
+  }
+
+  return null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { rawPostId, replyId, keyId, address, issuedAt, signature } = await req.json();
+
+    if (!rawPostId || !keyId || !address || !issuedAt || !signature) {
+      return reply(400, { error: 'Missing key release parameters' });
+    }
+
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      return reply(400, { error: 'Invalid key id' });
+    }
+
+    const age = Date.now() - new Date(issuedAt).getTime();
+    if (isNaN(age) || age < 0 || age > MAX_REQUEST_AGE_MS) {
+      return reply(401, { error: 'Key release request expired' });
+    }
+
+    const isValidSignature = await verifyMessage({
+      address: address as Address,
+      message: buildKeyReleaseMessage(rawPostId, keyId, issuedAt, replyId),
+      signature,
+    });
+    if (!isValidSignature) {
+      return reply(401, { error: 'Invalid signature' });
+    }
+
+    const access = replyId
+      ? await checkReplyAccess(rawPostId, replyId, address)
+      : await checkPostAccess(rawPostId, address);
+    if (access) {
+      return access;
+    }
+
+    const rawKey = await loadContentKey(supabase, keyId);
+    if (!rawKey) {
+      return reply(404, { error: 'Content key not found' });
+    }
+
+    // Access to one post or reply must not release another's key
+    const isAnchored = replyId
+      ? await isAnchoredReplyKey(rawPostId, replyId, keyId, rawKey)
+      : await isAnchoredPostKey(rawPostId, keyId, rawKey);
+    if (!isAnchored || (await isKeyUsedElsewhere(keyId, rawPostId, replyId || undefined))) {
+      return reply(400, { error: replyId ? 'Key does not belong to this reply' : 'Key does not belong to this post' });
+    }
+
+    return reply(200, { keyMaterial: bytesToBase64(rawKey) });
+  } catch (error) {
+    return reply(500, { error: error instanceof Error ? error.message : 'Key release failed' });
+  }
+});
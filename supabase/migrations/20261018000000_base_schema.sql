@@ -0,0 +1,187 @@
+-- Base schema the later migrations build on: posts, replies, sessions, profiles,
+-- engagement and visibility history. Every statement is idempotent, so this is a no-op
+-- on projects that already have these tables and lets `supabase db reset` build the
+-- whole database locally.
+create table if not exists public.encrypted_content (
+  id bigint generated by default as identity primary key,
+  content_hash text not null,
+  preview_hash text not null,
+  encrypted_content text not null,
+  encrypted_preview text not null,
+  author_id text not null, -- the author's wallet address or encrypted address
+  min_tip_amount numeric, -- wei; null or 0 for public posts
+  raw_post_id bigint unique, -- Ventbuddy post id
+  encrypted_post_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists encrypted_content_created_idx
+  on public.encrypted_content (created_at desc, id desc);
+
+create index if not exists encrypted_content_author_idx
+  on public.encrypted_content (author_id);
+
+-- reply_id is generated by the client; post_id and raw_post_id are the Ventbuddy post id
+create table if not exists public.encrypted_replies (
+  id bigint generated by default as identity primary key,
+  post_id bigint not null,
+  raw_post_id bigint,
+  reply_id bigint not null,
+  content_hash text not null,
+  preview_hash text not null,
+  encrypted_content text not null,
+  encrypted_preview text not null,
+  replier_id text not null, -- encrypted address from user_sessions
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists encrypted_replies_post_idx
+  on public.encrypted_replies (post_id, created_at);
+
+-- Maps a wallet to the encrypted address it registered on-chain. Keyed by wallet so
+-- registering again updates the row.
+create table if not exists public.user_sessions (
+  id uuid not null default gen_random_uuid(),
+  wallet_address text primary key,
+  encrypted_address text not null,
+  session_token text not null,
+  created_at timestamptz not null default now(),
+  last_active timestamptz not null default now()
+);
+
+create index if not exists user_sessions_encrypted_address_idx
+  on public.user_sessions (encrypted_address);
+
+create table if not exists public.user_profiles (
+  id uuid primary key default gen_random_uuid(),
+  wallet_address text not null unique,
+  username text,
+  display_name text,
+  bio text,
+  avatar_url text,
+  is_username_public boolean not null default false,
+  is_profile_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists user_profiles_username_idx
+  on public.user_profiles (lower(username))
+  where username is not null;
+
+create or replace function public.is_username_available(check_username text, exclude_wallet text default null)
+returns boolean
+language sql
+stable
+as $$
+  select not exists (
+    select 1
+    from public.user_profiles
+    where lower(username) = lower(check_username)
+      and (exclude_wallet is null or wallet_address <> exclude_wallet)
+  );
+$$;
+
+create table if not exists public.post_stats (
+  raw_post_id bigint primary key,
+  upvote_count integer not null default 0,
+  downvote_count integer not null default 0,
+  reply_count integer not null default 0,
+  last_updated timestamptz not null default now()
+);
+
+create table if not exists public.reply_stats (
+  post_id bigint not null,
+  reply_id bigint not null,
+  raw_post_id bigint,
+  upvote_count integer not null default 0,
+  downvote_count integer not null default 0,
+  last_updated timestamptz not null default now(),
+  primary key (post_id, reply_id)
+);
+
+create table if not exists public.post_engagement (
+  id bigint generated by default as identity primary key,
+  raw_post_id bigint not null,
+  user_encrypted_id text not null,
+  engagement_type text not null check (engagement_type in ('upvote', 'downvote')),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists post_engagement_unique_idx
+  on public.post_engagement (raw_post_id, user_encrypted_id, engagement_type);
+
+-- Post and reply ids are 32-byte hex; post_id and reply_id are only set on rows written
+-- before ids were stored that way
+create table if not exists public.visibility_events (
+  id bigint generated by default as identity primary key,
+  encrypted_post_id text not null,
+  encrypted_reply_id text,
+  post_id bigint,
+  reply_id bigint,
+  content_type text not null check (content_type in ('post', 'reply')),
+  visibility_type integer not null,
+  event_type text not null,
+  user_address text,
+  encrypted_visibility text,
+  content_hash text,
+  preview_hash text,
+  supabase_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists visibility_events_post_idx
+  on public.visibility_events (encrypted_post_id, created_at desc);
+
+create or replace function public.get_latest_visibility(post_id_param bigint)
+returns table (visibility_type integer, event_type text, created_at timestamptz)
+language sql
+stable
+as $$
+  select e.visibility_type, e.event_type, e.created_at
+  from public.visibility_events e
+  where e.content_type = 'post'
+    and (e.post_id = post_id_param
+      or e.encrypted_post_id = '0x' || lpad(to_hex(post_id_param), 64, '0'))
+  order by e.created_at desc
+  limit 1;
+$$;
+
+create or replace function public.get_latest_reply_visibility(post_id_param bigint, reply_id_param bigint)
+returns table (visibility_type integer, event_type text, created_at timestamptz)
+language sql
+stable
+as $$
+  select e.visibility_type, e.event_type, e.created_at
+  from public.visibility_events e
+  where e.content_type = 'reply'
+    and (e.post_id = post_id_param
+      or e.encrypted_post_id = '0x' || lpad(to_hex(post_id_param), 64, '0'))
+    and (e.reply_id = reply_id_param
+      or e.encrypted_reply_id = '0x' || lpad(to_hex(reply_id_param), 64, '0'))
+  order by e.created_at desc
+  limit 1;
+$$;
+
+grant execute on function public.is_username_available(text, text) to anon, authenticated;
+grant execute on function public.get_latest_visibility(bigint) to anon, authenticated;
+grant execute on function public.get_latest_reply_visibility(bigint, bigint) to anon, authenticated;
+
+-- The feed subscribes to new posts, stats and visibility changes
+do $$
+declare
+  realtime_table text;
+begin
+  foreach realtime_table in array array['encrypted_content', 'post_stats', 'visibility_events'] loop
+    if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+      and not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = realtime_table
+      ) then
+      execute format('alter publication supabase_realtime add table public.%I', realtime_table);
+    end if;
+  end loop;
+end;
+$$;
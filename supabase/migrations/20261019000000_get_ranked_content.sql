@@ -0,0 +1,47 @@
+-- Server-side feed ranking used by usePosts for the Hot, Top and Controversial modes.
+-- Scores mirror frontend/src/lib/ranking.ts; keep both in sync.
+create or replace function public.get_ranked_content(
+  mode_param text default 'hot',
+  window_param text default 'all',
+  limit_param integer default 20,
+  offset_param integer default 0
+)
+returns setof public.encrypted_content
+language sql
+stable
+as $$
+  select c.*
+  from public.encrypted_content c
+  left join public.post_stats s on s.raw_post_id = c.raw_post_id
+  cross join lateral (
+    select
+      (coalesce(s.reply_count, 0) * 10
+        + coalesce(s.upvote_count, 0) * 3
+        - coalesce(s.downvote_count, 0))::double precision as engagement,
+      coalesce(s.upvote_count, 0)::double precision as ups,
+      coalesce(s.downvote_count, 0)::double precision as downs,
+      greatest(extract(epoch from now() - c.created_at), 0) / 3600 as age_hours
+  ) m
+  where mode_param <> 'top'
+    or window_param = 'all'
+    or c.created_at >= now() - case window_param
+      when 'day' then interval '1 day'
+      else interval '7 days'
+    end
+  order by
+    case mode_param
+      when 'hot' then m.engagement / power(m.age_hours + 2, 1.5)
+      when 'top' then m.engagement
+      when 'controversial' then case
+        when m.ups = 0 or m.downs = 0 then 0
+        else power(m.ups + m.downs, least(m.ups, m.downs) / greatest(m.ups, m.downs))
+      end
+      else extract(epoch from c.created_at)
+    end desc,
+    c.created_at desc,
+    c.id desc
+  limit limit_param
+  offset offset_param;
+$$;
+
+grant execute on function public.get_ranked_content(text, text, integer, integer) to anon, authenticated;
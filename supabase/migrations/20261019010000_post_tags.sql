@@ -0,0 +1,43 @@
+-- Opt-in hashtags for public posts. Tags are plaintext, so the client never writes
+-- them for tippable posts.
+create table if not exists public.post_tags (
+  raw_post_id bigint not null,
+  tag text not null check (tag ~ '^[[:alnum:]_]{2,32}$' and tag = lower(tag)),
+  created_at timestamptz not null default now(),
+  primary key (raw_post_id, tag)
+);
+
+create index if not exists post_tags_tag_created_at_idx
+  on public.post_tags (tag, created_at desc);
+
+create index if not exists post_tags_created_at_idx
+  on public.post_tags (created_at desc);
+
+alter table public.post_tags enable row level security;
+
+create policy "post_tags are readable by everyone"
+  on public.post_tags for select
+  using (true);
+
+create policy "post_tags can be inserted by clients"
+  on public.post_tags for insert
+  with check (true);
+
+-- Tag counts over a rolling window, most used first
+create or replace function public.get_trending_tags(
+  window_hours_param integer default 24,
+  limit_param integer default 10
+)
+returns table (tag text, post_count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*) as post_count
+  from public.post_tags t
+  where t.created_at >= now() - make_interval(hours => window_hours_param)
+  group by t.tag
+  order by post_count desc, max(t.created_at) desc
+  limit limit_param;
+$$;
+
+grant execute on function public.get_trending_tags(integer, integer) to anon, authenticated;
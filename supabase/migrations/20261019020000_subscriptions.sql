@@ -0,0 +1,20 @@
+-- Off-chain mirror of Ventbuddy.subscribe. The contract's subscriptionExpiry stays
+-- authoritative; this table backs subscriber counts and quick access checks.
+create table if not exists public.subscriptions (
+  id bigint generated by default as identity primary key,
+  creator_address text not null,
+  subscriber_address text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.subscriptions
+  add column if not exists expires_at timestamptz not null default now(),
+  add column if not exists amount_wei numeric(78, 0) not null default 0,
+  add column if not exists tx_hash text,
+  add column if not exists updated_at timestamptz not null default now();
+
+create unique index if not exists subscriptions_creator_subscriber_idx
+  on public.subscriptions (creator_address, subscriber_address);
+
+create index if not exists subscriptions_creator_expires_at_idx
+  on public.subscriptions (creator_address, expires_at);
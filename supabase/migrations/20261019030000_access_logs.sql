@@ -0,0 +1,33 @@
+-- Access log for views, tips, unlocks and subscriptions. user_encrypted_id is the
+-- viewer or payer; creator_address is the wallet that earned from the access, so
+-- creator dashboards can total earnings without touching viewer identities.
+create table if not exists public.access_logs (
+  id bigint generated by default as identity primary key,
+  content_id text not null,
+  content_type text not null,
+  user_encrypted_id text not null,
+  access_type text not null,
+  amount_wei numeric(78, 0) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.access_logs
+  add column if not exists tx_hash text,
+  add column if not exists creator_address text,
+  add column if not exists raw_post_id bigint;
+
+alter table public.access_logs
+  alter column amount_wei type numeric(78, 0) using amount_wei::numeric(78, 0);
+
+-- One view per viewer per item; repeat renders become no-ops.
+create unique index if not exists access_logs_unique_view_idx
+  on public.access_logs (content_type, content_id, user_encrypted_id)
+  where access_type = 'view';
+
+-- A confirmed transaction is recorded at most once per access type.
+create unique index if not exists access_logs_tx_hash_idx
+  on public.access_logs (tx_hash, access_type)
+  where tx_hash is not null;
+
+create index if not exists access_logs_creator_idx
+  on public.access_logs (creator_address, access_type, created_at);
@@ -0,0 +1,37 @@
+-- Earning events mirrored from the Ventbuddy contract by the frontend chain indexer.
+-- Rows are keyed by their log position so re-indexing a range is idempotent, and
+-- block_hash lets a reorged range be identified and dropped.
+create table if not exists public.chain_events (
+  id bigint generated by default as identity primary key,
+  chain_id integer not null,
+  contract_address text not null,
+  block_number bigint not null,
+  block_hash text not null,
+  tx_hash text not null,
+  log_index integer not null,
+  event_name text not null,
+  post_id bigint,
+  reply_id bigint,
+  creator_address text,
+  amount_wei numeric(78, 0) not null default 0,
+  fee_wei numeric(78, 0) not null default 0,
+  block_time timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists chain_events_log_idx
+  on public.chain_events (chain_id, tx_hash, log_index);
+
+create index if not exists chain_events_creator_idx
+  on public.chain_events (chain_id, creator_address, block_number);
+
+create index if not exists chain_events_block_idx
+  on public.chain_events (chain_id, contract_address, block_number);
+
+-- Last block indexed per chain and contract, with its hash for reorg detection
+create table if not exists public.indexer_checkpoints (
+  id text primary key,
+  block_number bigint not null,
+  block_hash text not null,
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,8 @@
+-- Threaded replies: parent_reply_id points at the encrypted_replies row being replied to;
+-- null means the reply is on the post itself.
+alter table public.encrypted_replies
+  add column if not exists parent_reply_id bigint
+    references public.encrypted_replies (id) on delete set null;
+
+create index if not exists encrypted_replies_parent_idx
+  on public.encrypted_replies (post_id, parent_reply_id);
@@ -0,0 +1,9 @@
+-- Replies optionally registered through Ventbuddy.replyToPost. reply_id stays the
+-- client-generated id; onchain_reply_id is the contract's id and is what tips use.
+alter table public.encrypted_replies
+  add column if not exists onchain_reply_id bigint,
+  add column if not exists anchor_tx_hash text;
+
+create unique index if not exists encrypted_replies_onchain_reply_idx
+  on public.encrypted_replies (onchain_reply_id)
+  where onchain_reply_id is not null;
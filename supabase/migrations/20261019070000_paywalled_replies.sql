@@ -0,0 +1,4 @@
+-- Paywalled replies: min_tip_amount is in wei, matching encrypted_content.min_tip_amount.
+-- Their content key is sealed and released only after unlockTippableReply.
+alter table public.encrypted_replies
+  add column if not exists min_tip_amount numeric;
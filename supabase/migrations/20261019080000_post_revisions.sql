@@ -0,0 +1,79 @@
+-- Post editing and soft deletion. encrypted_content always holds the latest version;
+-- post_revisions keeps every version (the original is revision 0) so each one can be
+-- checked against the hashes anchored by Ventbuddy.createPost and Ventbuddy.editPost.
+alter table public.encrypted_content
+  add column if not exists revision_count integer not null default 0,
+  add column if not exists deleted_at timestamptz;
+
+create table if not exists public.post_revisions (
+  id bigint generated by default as identity primary key,
+  raw_post_id bigint not null,
+  revision integer not null check (revision >= 0),
+  content_hash text not null,
+  preview_hash text not null,
+  encrypted_content text not null,
+  encrypted_preview text not null,
+  tx_hash text,
+  created_at timestamptz not null default now(),
+  unique (raw_post_id, revision)
+);
+
+alter table public.post_revisions enable row level security;
+
+create policy "post_revisions are readable by everyone"
+  on public.post_revisions for select
+  using (true);
+
+create policy "post_revisions can be inserted by clients"
+  on public.post_revisions for insert
+  with check (true);
+
+-- Deleted posts drop out of the ranked feed
+create or replace function public.get_ranked_content(
+  mode_param text default 'hot',
+  window_param text default 'all',
+  limit_param integer default 20,
+  offset_param integer default 0
+)
+returns setof public.encrypted_content
+language sql
+stable
+as $$
+  select c.*
+  from public.encrypted_content c
+  left join public.post_stats s on s.raw_post_id = c.raw_post_id
+  cross join lateral (
+    select
+      (coalesce(s.reply_count, 0) * 10
+        + coalesce(s.upvote_count, 0) * 3
+        - coalesce(s.downvote_count, 0))::double precision as engagement,
+      coalesce(s.upvote_count, 0)::double precision as ups,
+      coalesce(s.downvote_count, 0)::double precision as downs,
+      greatest(extract(epoch from now() - c.created_at), 0) / 3600 as age_hours
+  ) m
+  where c.deleted_at is null
+    and (
+      mode_param <> 'top'
+      or window_param = 'all'
+      or c.created_at >= now() - case window_param
+        when 'day' then interval '1 day'
+        else interval '7 days'
+      end
+    )
+  order by
+    case mode_param
+      when 'hot' then m.engagement / power(m.age_hours + 2, 1.5)
+      when 'top' then m.engagement
+      when 'controversial' then case
+        when m.ups = 0 or m.downs = 0 then 0
+        else power(m.ups + m.downs, least(m.ups, m.downs) / greatest(m.ups, m.downs))
+      end
+      else extract(epoch from c.created_at)
+    end desc,
+    c.created_at desc,
+    c.id desc
+  limit limit_param
+  offset offset_param;
+$$;
+
+grant execute on function public.get_ranked_content(text, text, integer, integer) to anon, authenticated;
@@ -0,0 +1,204 @@
+-- Reporting and moderation. Reports are written only by the moderate-content edge
+-- function after it verifies the reporter's wallet signature, so one wallet counts as
+-- one reporter. Content reported by enough distinct reporters is hidden until a
+-- moderator reviews it; hide and restore also go through the edge function.
+alter table public.encrypted_content
+  add column if not exists hidden_at timestamptz,
+  add column if not exists hidden_by text, -- 'reports' or the moderator wallet
+  add column if not exists reviewed_at timestamptz;
+
+alter table public.encrypted_replies
+  add column if not exists hidden_at timestamptz,
+  add column if not exists hidden_by text,
+  add column if not exists reviewed_at timestamptz;
+
+-- content_id follows access_logs: the raw post id for posts, encrypted_replies.id for replies
+create table if not exists public.reports (
+  id bigint generated by default as identity primary key,
+  content_type text not null check (content_type in ('post', 'reply')),
+  content_id text not null,
+  raw_post_id bigint not null,
+  reporter_id text not null, -- encrypted address from user_sessions, like access_logs.user_encrypted_id
+  reason text not null check (reason in ('harassment', 'hate', 'self_harm', 'personal_info', 'spam', 'other')),
+  details text,
+  created_at timestamptz not null default now()
+);
+
+-- One report per reporter per item
+create unique index if not exists reports_unique_reporter_idx
+  on public.reports (content_type, content_id, reporter_id);
+
+create index if not exists reports_created_idx
+  on public.reports (created_at desc);
+
+-- No policies: only the service role used by the edge function can read or write reports
+alter table public.reports enable row level security;
+
+-- Hides an item once distinct reporters since the last moderator review reach the threshold
+create or replace function public.hide_reported_content()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  hide_threshold constant integer := 3;
+  last_review timestamptz;
+  reporter_count integer;
+begin
+  if new.content_type = 'post' then
+    select reviewed_at into last_review
+    from encrypted_content
+    where raw_post_id = new.raw_post_id and hidden_at is null;
+  else
+    select reviewed_at into last_review
+    from encrypted_replies
+    where id = new.content_id::bigint and hidden_at is null;
+  end if;
+
+  if not found then
+    return new;
+  end if;
+
+  select count(distinct reporter_id) into reporter_count
+  from reports
+  where content_type = new.content_type
+    and content_id = new.content_id
+    and (last_review is null or created_at > last_review);
+
+  if reporter_count >= hide_threshold then
+    if new.content_type = 'post' then
+      update encrypted_content
+      set hidden_at = now(), hidden_by = 'reports'
+      where raw_post_id = new.raw_post_id;
+    else
+      update encrypted_replies
+      set hidden_at = now(), hidden_by = 'reports'
+      where id = new.content_id::bigint;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_hide_reported_content on public.reports;
+create trigger reports_hide_reported_content
+  after insert on public.reports
+  for each row execute function public.hide_reported_content();
+
+-- Review queue: everything hidden, plus anything reported since its last review
+create or replace function public.get_moderation_queue()
+returns table (
+  content_type text,
+  content_id text,
+  raw_post_id bigint,
+  reporter_count bigint,
+  reasons text[],
+  details text[],
+  last_reported_at timestamptz,
+  hidden_at timestamptz,
+  hidden_by text,
+  reviewed_at timestamptz,
+  encrypted_content text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with targets as (
+    select
+      c.raw_post_id::text as content_id,
+      'post'::text as content_type,
+      c.raw_post_id,
+      c.hidden_at,
+      c.hidden_by,
+      c.reviewed_at,
+      c.encrypted_content
+    from encrypted_content c
+    where c.deleted_at is null
+    union all
+    select
+      r.id::text,
+      'reply'::text,
+      r.raw_post_id,
+      r.hidden_at,
+      r.hidden_by,
+      r.reviewed_at,
+      r.encrypted_content
+    from encrypted_replies r
+  )
+  select
+    t.content_type,
+    t.content_id,
+    t.raw_post_id,
+    count(distinct rp.reporter_id) as reporter_count,
+    coalesce(array_agg(distinct rp.reason) filter (where rp.reason is not null), '{}') as reasons,
+    coalesce(array_agg(rp.details) filter (where rp.details is not null and rp.details <> ''), '{}') as details,
+    max(rp.created_at) as last_reported_at,
+    t.hidden_at,
+    t.hidden_by,
+    t.reviewed_at,
+    t.encrypted_content
+  from targets t
+  join reports rp
+    on rp.content_type = t.content_type
+   and rp.content_id = t.content_id
+   and (t.hidden_at is not null or t.reviewed_at is null or rp.created_at > t.reviewed_at)
+  group by t.content_type, t.content_id, t.raw_post_id, t.hidden_at, t.hidden_by, t.reviewed_at, t.encrypted_content
+  order by t.hidden_at desc nulls last, max(rp.created_at) desc;
+$$;
+
+revoke execute on function public.get_moderation_queue() from public, anon, authenticated;
+
+-- Hidden posts drop out of the ranked feed
+create or replace function public.get_ranked_content(
+  mode_param text default 'hot',
+  window_param text default 'all',
+  limit_param integer default 20,
+  offset_param integer default 0
+)
+returns setof public.encrypted_content
+language sql
+stable
+as $$
+  select c.*
+  from public.encrypted_content c
+  left join public.post_stats s on s.raw_post_id = c.raw_post_id
+  cross join lateral (
+    select
+      (coalesce(s.reply_count, 0) * 10
+        + coalesce(s.upvote_count, 0) * 3
+        - coalesce(s.downvote_count, 0))::double precision as engagement,
+      coalesce(s.upvote_count, 0)::double precision as ups,
+      coalesce(s.downvote_count, 0)::double precision as downs,
+      greatest(extract(epoch from now() - c.created_at), 0) / 3600 as age_hours
+  ) m
+  where c.deleted_at is null
+    and c.hidden_at is null
+    and (
+      mode_param <> 'top'
+      or window_param = 'all'
+      or c.created_at >= now() - case window_param
+        when 'day' then interval '1 day'
+        else interval '7 days'
+      end
+    )
+  order by
+    case mode_param
+      when 'hot' then m.engagement / power(m.age_hours + 2, 1.5)
+      when 'top' then m.engagement
+      when 'controversial' then case
+        when m.ups = 0 or m.downs = 0 then 0
+        else power(m.ups + m.downs, least(m.ups, m.downs) / greatest(m.ups, m.downs))
+      end
+      else extract(epoch from c.created_at)
+    end desc,
+    c.created_at desc,
+    c.id desc
+  limit limit_param
+  offset offset_param;
+$$;
+
+grant execute on function public.get_ranked_content(text, text, integer, integer) to anon, authenticated;
@@ -0,0 +1,4 @@
+-- Author-chosen content warnings (for example 'self_harm'). They are plaintext labels
+-- next to the encrypted post so readers can choose before the content is shown.
+alter table public.encrypted_content
+  add column if not exists content_warnings text[] not null default '{}';
@@ -0,0 +1,4 @@
+-- Restrict content warnings to the categories the compose form offers (lib/content-warnings.ts).
+alter table public.encrypted_content
+  add constraint encrypted_content_content_warnings_check
+  check (content_warnings <@ array['self_harm', 'eating_disorders', 'abuse', 'substance_use', 'grief', 'graphic']::text[]);
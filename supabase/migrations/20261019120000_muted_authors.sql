@@ -0,0 +1,12 @@
+-- Per-wallet mute and block lists. Authors are stored only by their encrypted author_id /
+-- replier_id, so the list never names the muted wallet; filtering happens on the client.
+create table if not exists public.muted_authors (
+  id bigint generated by default as identity primary key,
+  owner_address text not null,
+  author_id text not null,
+  kind text not null default 'mute' check (kind in ('mute', 'block')),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists muted_authors_owner_author_idx
+  on public.muted_authors (owner_address, author_id);
@@ -0,0 +1,20 @@
+-- Per-post AES content keys. Public posts store the raw key; tippable posts and replies
+-- store it sealed to the release-content-key function, which alone can unseal it.
+create table if not exists public.content_keys (
+  key_id text primary key,
+  key_material text not null,
+  sealed boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+-- Sealed rows are only readable as ciphertext. There are no update or delete policies:
+-- a stored key can never be swapped or removed, or its post would become unreadable.
+alter table public.content_keys enable row level security;
+
+create policy "content_keys are readable by everyone"
+  on public.content_keys for select
+  using (true);
+
+create policy "content_keys can be inserted by clients"
+  on public.content_keys for insert
+  with check (true);
@@ -0,0 +1,5 @@
+-- Revisions are written only by the record-post-revision edge function (service role),
+-- which checks the editPost transaction and that the stored envelope decrypts to the
+-- anchored content. A client-written row could name another post's content key, which
+-- release-content-key would then hand out to anyone with access to this post.
+drop policy if exists "post_revisions can be inserted by clients" on public.post_revisions;
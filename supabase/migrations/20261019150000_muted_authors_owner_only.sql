@@ -0,0 +1,9 @@
+-- Mute lists are private to their owner. There are no client policies: the
+-- manage-muted-authors edge function verifies the owner's wallet signature and reads or
+-- writes only that wallet's rows with the service role.
+alter table public.muted_authors enable row level security;
+
+-- Post mutes used to store the author's wallet address. author_id is now always the
+-- encrypted address from user_sessions, so drop the rows that name a wallet.
+delete from public.muted_authors
+where author_id ~* '^0x[0-9a-f]{40}$';
@@ -0,0 +1,6 @@
+-- Records what muted_authors.author_id holds now that lists are private to their owner
+-- (see 20261019150000_muted_authors_owner_only.sql).
+comment on column public.muted_authors.author_id is
+  'Encrypted address of the muted author from user_sessions; never a wallet address';
+comment on table public.muted_authors is
+  'Per-wallet mute and block lists, read and written only by the manage-muted-authors edge function';
@@ -0,0 +1,5 @@
+-- Public post and reply keys are stored raw in a table every client can read. That is
+-- deliberate: public content is meant for every reader. Only tippable content is
+-- confidential, and its keys are sealed to the release-content-key function.
+comment on column public.content_keys.key_material is
+  'Raw base64 AES key when sealed is false (public content, readable by everyone); sealed envelope for the release-content-key function otherwise';
@@ -0,0 +1,45 @@
+-- chain_events and indexer_checkpoints are written only by the index-chain-events edge
+-- function with the service role. Clients may read the mirrored events but can no
+-- longer insert, rewrite or attribute them, or move the checkpoint.
+alter table public.chain_events enable row level security;
+alter table public.indexer_checkpoints enable row level security;
+
+create policy "chain_events are readable by everyone"
+  on public.chain_events for select
+  using (true);
+
+-- Rows written by browsers before this migration are untrusted; the function re-indexes
+-- from the deployment block under a fresh checkpoint
+delete from public.chain_events;
+delete from public.indexer_checkpoints;
+
+-- One indexer run per contract at a time. A lease expires on its own so a crashed run
+-- never blocks the next one.
+create table if not exists public.indexer_leases (
+  id text primary key,
+  holder text not null,
+  expires_at timestamptz not null
+);
+
+alter table public.indexer_leases enable row level security;
+
+-- Takes the lease when it is free or expired; returns false while another run holds it
+create or replace function public.acquire_indexer_lease(lease_id text, lease_holder text, lease_seconds integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.indexer_leases (id, holder, expires_at)
+  values (lease_id, lease_holder, now() + make_interval(secs => lease_seconds))
+  on conflict (id) do update
+    set holder = excluded.holder, expires_at = excluded.expires_at
+    where public.indexer_leases.expires_at < now();
+
+  return found;
+end;
+$$;
+
+revoke execute on function public.acquire_indexer_lease(text, text, integer) from public, anon, authenticated;
+grant execute on function public.acquire_indexer_lease(text, text, integer) to service_role;
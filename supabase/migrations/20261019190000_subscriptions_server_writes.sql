@@ -0,0 +1,12 @@
+-- The subscriptions mirror is written only by the index-chain-events edge function from
+-- Subscribed events, with the expiry read from the contract. Clients may read it for
+-- subscriber counts; access checks read subscriptionExpiry on-chain.
+alter table public.subscriptions enable row level security;
+
+create policy "subscriptions are readable by everyone"
+  on public.subscriptions for select
+  using (true);
+
+-- Rows written by browsers are untrusted; the indexer rebuilds the mirror as it
+-- re-indexes from the deployment block
+delete from public.subscriptions;
@@ -0,0 +1,23 @@
+-- reporter_id is now a SHA-256 of the reporter's lowercased wallet, derived by the
+-- moderate-content edge function, instead of the client-writable encrypted address in
+-- user_sessions. Existing reports are rewritten so earlier reporters keep one report per item.
+with mapped as (
+  select
+    r.id,
+    row_number() over (
+      partition by r.content_type, r.content_id, lower(s.wallet_address)
+      order by r.created_at, r.id
+    ) as report_rank
+  from public.reports r
+  join public.user_sessions s on s.encrypted_address = r.reporter_id
+)
+delete from public.reports
+where id in (select id from mapped where report_rank > 1);
+
+update public.reports r
+set reporter_id = encode(sha256(convert_to(lower(s.wallet_address), 'UTF8')), 'hex')
+from public.user_sessions s
+where s.encrypted_address = r.reporter_id;
+
+comment on column public.reports.reporter_id is
+  'SHA-256 hex of the reporter''s lowercased wallet address';